@@ -0,0 +1,28 @@
+import { createServer } from 'vite';
+
+// Runs the headless balance simulator (src/simulation) under Node.
+// Vite's SSR loader handles TypeScript and the `@/` alias, so no extra tooling is needed.
+// Usage: npm run simulate -- --policy collector --runs 500 --days 150 --seed 42
+
+async function main() {
+  const server = await createServer({
+    // Keep debugLog() quiet: it only logs when import.meta.env.DEV is true.
+    define: { 'import.meta.env.DEV': 'false' },
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true },
+  });
+
+  try {
+    const mod = await server.ssrLoadModule('/src/simulation/run-balance-simulation.ts');
+    process.exitCode = mod.main(process.argv.slice(2));
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
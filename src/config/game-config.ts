@@ -1,3 +1,5 @@
+import type { AutosavePolicy } from '@/core/game-types';
+
 /**
  * Centralized skill metadata to avoid duplication across UI components.
  */
@@ -12,7 +14,7 @@ export const SKILL_METADATA = {
     name: 'Tongue',
     icon: '💬',
     color: '#9b59b6',
-    description: 'Auction tactics and pressure',
+    description: 'Auction and negotiation tactics',
   },
   network: {
     name: 'Network',
@@ -35,8 +37,16 @@ export const GAME_CONFIG = {
     // Time costs for "normal" (non-special-event) gameplay loops.
     // - Travel is charged when committing to start an encounter from the map.
     // - Auction participation is charged on top of travel for base-location auctions.
+    // - Negotiation participation is charged on top of travel for solo (no-rival) encounters.
+    // - Inspecting a car is charged when used during an encounter (once per car).
+    // - Researching an owned car's provenance is charged per attempt (see provenance).
+    // - Consigning a car is charged per auction (delivering it and sitting through the sale).
     travelCost: 1,
     auctionParticipationCost: 0,
+    negotiationParticipationCost: 0,
+    inspectCost: 1,
+    provenanceResearchCost: 2,
+    consignmentCost: 2,
   },
   save: {
     /**
@@ -44,13 +54,23 @@ export const GAME_CONFIG = {
      * - 'on-change': debounce-save after state mutations (recommended)
      * - 'end-of-day': only save at end-of-day checkpoints
      */
-    autosavePolicy: 'on-change',
+    autosavePolicy: 'on-change' as AutosavePolicy,
+    /** In-day rewind: snapshots kept per day (oldest dropped first). Cleared at end of day. */
+    undoMaxEntriesPerDay: 30,
+    /** Transaction ledger size cap (oldest entries dropped first). */
+    ledgerMaxEntries: 5000,
+    /** Past Cars archive size cap (oldest records dropped first). */
+    pastCarsMaxEntries: 1000,
   },
 
   cars: {
     // Random condition range for generated encounter cars (inclusive).
     randomConditionMin: 30,
     randomConditionMax: 90,
+    // Each component (engine, body, ...) of a generated car is rolled within this many points of its condition.
+    componentSpread: 15,
+    // Generated cars have lost up to this much originality (0-100) to earlier owners, biased toward little.
+    maxOriginalityLoss: 40,
 
     // Tier spawn weights (higher = more common)
     tierWeights: {
@@ -121,7 +141,9 @@ export const GAME_CONFIG = {
       xpGains: {
         inspect: 10, // Eye XP
         auction: 15, // Tongue XP
+        negotiation: 15, // Tongue XP (closing a deal with a private seller)
         travelNewLocation: 20, // Network XP
+        provenanceResearch: 15, // Network XP
       },
     },
   },
@@ -176,6 +198,15 @@ export const GAME_CONFIG = {
         prestigeReward: 55,
         icon: '🏛️',
       },
+      documented: {
+        name: 'Documented',
+        description: 'Own cars with a documented history',
+        requiredTags: [],
+        requiredCount: 3,
+        prestigeReward: 50,
+        icon: '📜',
+        requiresDocumentedProvenance: true,
+      },
   },
 
   economy: {
@@ -197,16 +228,19 @@ export const GAME_CONFIG = {
     },
 
     // Restoration challenge costs
+    // Challenges also use the car's parts: body parts for rust removal, engine parts for a rebuild.
     challenges: {
       rustRemoval: {
         // Minimum cost; actual cost scales with car value.
-        cost: 500,
-        costRateOfBaseValue: 0.05,
+        cost: 400,
+        costRateOfBaseValue: 0.04,
         timeCost: 1,
+        durationDays: 2,
       },
       engineRebuild: {
-        cost: 1500,
+        cost: 1200,
         timeCost: 2,
+        durationDays: 3,
       },
     },
 
@@ -229,21 +263,32 @@ export const GAME_CONFIG = {
     restoration: {
       conditionMax: 100,
 
-      charlieMinor: {
-        availableBelowCondition: 100,
-        // Rebalanced: no longer a guaranteed-profit button.
-        costRateOfBaseValue: 0.10,
-        conditionGain: 10,
-        timeCost: 1,
-        failChance: 0.12,
-        failConditionPenalty: 6,
-      },
-
-      artisanMajor: {
-        availableBelowCondition: 90,
-        costRateOfBaseValue: 0.18,
-        conditionGain: 30,
-        timeCost: 1,
+      // Workshop: booked jobs (challenges and restorations) take `durationDays` of work,
+      // progressing at each End Day. Only this many unpaused jobs are worked on at once,
+      // in booking order; the rest wait for a free bay.
+      workshopBays: 2,
+      // Rushing finishes a job immediately for this share of its cost per remaining day.
+      rushCostRatePerDay: 0.25,
+
+      // Specialists (see RestorationSpecialistDatabase). Labor is paid when a job is booked;
+      // the parts each job needs are bought on the parts market.
+      // Condition a successful job adds to each component it works on, by specialist skill 1-5.
+      conditionGainBySkill: [5, 10, 15, 22, 30],
+      // Trade specialists work on one or two components, so their gains there are multiplied.
+      tradeGainMultiplier: 2,
+      // A botched job costs each component it works on this much condition instead (and never improves originality).
+      botchConditionPenalty: 6,
+      bookingTimeCost: 1,
+      // Contract specialists only take work while under contract; a contract covers this many days.
+      contractDays: 7,
+      // Loyalty grows with every finished job. At `max` labor and signing fees get the full
+      // discount and reliability the full bonus; in between they scale linearly.
+      loyalty: {
+        perJob: 10,
+        max: 100,
+        laborDiscountAtMax: 0.2,
+        signingFeeDiscountAtMax: 0.3,
+        reliabilityBonusAtMax: 0.08,
       },
     },
 
@@ -279,6 +324,107 @@ export const GAME_CONFIG = {
       rust: 0.7,
       mint: 1.25,
     },
+    // How much each component counts toward a car's value, by tier (each tier sums to 1).
+    // Cheap cars are bought to drive; collector cars are judged on their bodywork and cabin.
+    componentWeights: {
+      'Daily Driver': { engine: 0.3, body: 0.2, interior: 0.15, electrics: 0.15, chassis: 0.2 },
+      'Cult Classic': { engine: 0.3, body: 0.25, interior: 0.15, electrics: 0.1, chassis: 0.2 },
+      'Icon': { engine: 0.25, body: 0.3, interior: 0.2, electrics: 0.05, chassis: 0.2 },
+      'Unicorn': { engine: 0.25, body: 0.3, interior: 0.25, electrics: 0.05, chassis: 0.15 },
+    },
+    originality: {
+      // Share of value lost by a car with no originality left, by tier (scales linearly from 100 originality).
+      // Collectors pay for factory-correct cars; nobody checks the part numbers on a Daily Driver.
+      penaltyByTier: { 'Daily Driver': 0.1, 'Cult Classic': 0.2, 'Icon': 0.4, 'Unicorn': 0.5 },
+      // Cars at or above this originality count as "matching numbers" and earn a premium by tier.
+      matchingNumbersThreshold: 95,
+      matchingNumbersPremiumByTier: { 'Daily Driver': 0, 'Cult Classic': 0.03, 'Icon': 0.08, 'Unicorn': 0.12 },
+    },
+  },
+
+  provenance: {
+    /**
+     * Documents a car's history may have kept.
+     * - survivalChance: chance the document still exists (otherwise it is lost for good)
+     */
+    documents: {
+      buildSheet: { survivalChance: 0.4 },
+      serviceRecords: { survivalChance: 0.6 },
+      ownershipTitles: { survivalChance: 0.7 },
+      periodPhotos: { survivalChance: 0.5 },
+    },
+    // Network level needed to trace each document (found or confirmed lost), rolled per document.
+    obscurity: { min: 1, max: 5 },
+    previousOwners: { min: 1, max: 5 },
+    // Chance of a notable event on top of those told by the car's history tags.
+    notableEventChance: 0.6,
+
+    // Value: each document found adds this share; documented cars add their tier's premium on top.
+    valuePerDocument: 0.02,
+    documentedMinDocuments: 3,
+    documentedPremiumByTier: { 'Daily Driver': 0, 'Cult Classic': 0.04, 'Icon': 0.08, 'Unicorn': 0.12 },
+  },
+
+  defects: {
+    /**
+     * Hidden defects rolled independently on every generated car.
+     * - rollChance: chance the car carries the defect
+     * - valueMultiplier: applied to value once discovered (multiple defects stack)
+     * - concealment: subtracted from the inspection reveal chance
+     */
+    kinds: {
+      concealedRust: { rollChance: 0.12, valueMultiplier: 0.85, concealment: 0 },
+      nonOriginalEngine: { rollChance: 0.08, valueMultiplier: 0.8, concealment: 0.1 },
+      odometerRollback: { rollChance: 0.1, valueMultiplier: 0.9, concealment: 0.15 },
+      frameDamage: { rollChance: 0.05, valueMultiplier: 0.65, concealment: 0.25 },
+    },
+
+    // Inspect: each undiscovered defect is revealed with
+    // (Eye level × revealChancePerEyeLevel − concealment), capped at maxRevealChance.
+    revealChancePerEyeLevel: 0.2,
+    maxRevealChance: 0.95,
+  },
+
+  parts: {
+    /**
+     * Sellers on the daily parts market.
+     * - priceMultiplier: applied to a part's base price
+     * - stockChance: chance a part of each rarity is listed on a given day
+     * - tiers: car tiers whose parts the seller deals in
+     * - originalityLoss: originality a car loses for each of the seller's parts fitted to it
+     */
+    sources: {
+      scrapyard: {
+        name: "Scrapyard Joe's",
+        priceMultiplier: 0.75,
+        stockChance: { common: 0.7, scarce: 0.25, rare: 0 },
+        tiers: ['Daily Driver', 'Cult Classic'],
+        originalityLoss: 4,
+      },
+      specialist: {
+        name: 'Marque Specialists',
+        priceMultiplier: 1.25,
+        stockChance: { common: 1, scarce: 0.8, rare: 1 },
+        tiers: ['Daily Driver', 'Cult Classic', 'Icon', 'Unicorn'],
+        originalityLoss: 0,
+      },
+    },
+    // A few rivals clear out their shelves each day: random parts of any tier, delivered at once.
+    rivalSellOff: {
+      rivalsPerDay: 2,
+      partsPerRival: 2,
+      priceMultiplier: 0.9,
+      // Shelf stock of unknown origin: some of it is reproduction.
+      originalityLoss: 2,
+    },
+
+    // Daily price swing for each listing (±).
+    priceVariance: 0.15,
+    // Share of a market boom/bust passed on to parts prices (0 = none, 1 = the full swing).
+    marketSensitivity: 0.5,
+    stockPerListing: { min: 1, max: 3 },
+    // Rare parts ordered from the specialists arrive after this many days.
+    rareDeliveryDays: { min: 2, max: 4 },
   },
 
   auction: {
@@ -314,6 +460,36 @@ export const GAME_CONFIG = {
 
     rivalBidModalDelayMs: 500,
 
+    // Sealed first-price bids: paying your full limit wins nothing, so rivals bid a share of it.
+    sealedBid: {
+      bidShading: {
+        aggressive: 0.9,
+        passive: 0.75,
+        collector: 0.85,
+      },
+      // Each sealed bid varies by up to this fraction either way.
+      jitter: 0.06,
+    },
+
+    // Dutch (descending clock) auctions, relative to the market estimate.
+    // The clock stops at the usual opening bid: the seller won't go lower.
+    dutch: {
+      startingPriceMultiplier: 1.3,
+      priceDropMultiplier: 0.04,
+    },
+
+    // Auction days: a house sells its catalog lot by lot to the same room of rivals,
+    // whose budgets carry from one lot to the next.
+    catalog: {
+      lots: 3,
+      // Eye level needed to read each detail of a lot in the catalog.
+      previewEyeLevel: {
+        condition: 2,
+        estimate: 3,
+        hiddenDefects: 4,
+      },
+    },
+
     // Patience bar UI thresholds
     patienceThresholds: {
       critical: 20,  // Red zone - rival about to quit
@@ -322,7 +498,88 @@ export const GAME_CONFIG = {
     },
   },
 
+  // Solo encounters (no rival present): haggling with a private seller.
+  negotiation: {
+    // Seller's opening ask and hidden walk-away price, relative to the market estimate.
+    askingPriceMultiplier: { min: 1.05, max: 1.2 },
+    walkAwayMultiplier: { min: 0.78, max: 0.92 },
+    // Offers below this fraction of the estimate are refused outright.
+    minOfferMultiplier: 0.5,
+    // Prices are quoted in steps of this amount.
+    priceRounding: 50,
+    // Offer stepper increments in the negotiation UI.
+    offerSteps: [100, 500],
+
+    // Seller patience (0-100): every offer costs some; lowballs (below the walk-away price) cost more.
+    startingPatience: 100,
+    patienceLossPerOffer: 12,
+    lowballPatiencePenalty: 20,
+    // Fraction of the gap between ask and offer the seller gives up per counter-offer.
+    concessionRate: 0.35,
+    // The seller accepts once the gap to their counter is within this fraction of the estimate.
+    acceptGapMultiplier: 0.03,
+
+    tactics: {
+      smallTalk: { requiredTongueLevel: 2, patienceGain: 25 },
+      cashOnTheTable: { requiredTongueLevel: 3, walkAwayReduction: 0.05 },
+      bluffWalkOut: { requiredTongueLevel: 4, askReduction: 0.5, patiencePenalty: 30 },
+    },
+
+    // Each flaw pointed out lowers the ask and walk-away price by this fraction of the estimate.
+    flawDiscountMultiplier: 0.04,
+  },
+
+  // Private buyer marketplace: listed cars draw offers from private buyers over the coming days
+  // (see PrivateBuyerDatabase). Prices are relative to the car's market value (Economy.getSalePrice).
+  marketplace: {
+    // Asking prices the player can set.
+    askingPriceMultiplier: { min: 0.5, max: 2 },
+    // Offers are made in steps of this amount.
+    priceRounding: 50,
+    // Each End Day, this many buyers look at every listing.
+    buyersPerDay: 2,
+    // Chance a buyer who looks makes an offer: `baseOfferChance` at market value, minus
+    // `priceSensitivity` for each 100% asked above it (plus for each 100% below), clamped.
+    baseOfferChance: 0.45,
+    priceSensitivity: 1,
+    offerChance: { min: 0.05, max: 0.9 },
+    // Buyers whose wishlist shares a tag with the car are keener and pay more per shared tag (capped).
+    wishlistOfferChanceBonus: 0.15,
+    wishlistValuationBonusPerTag: 0.05,
+    wishlistValuationBonusMax: 0.15,
+    // What each kind of buyer thinks a car is worth, relative to market value (their hidden maximum).
+    buyerStyles: {
+      enthusiast: { valuation: { min: 0.95, max: 1.2 } },
+      dealer: { valuation: { min: 0.85, max: 1.05 } },
+      bargainHunter: { valuation: { min: 0.75, max: 0.95 } },
+    },
+    // Buyers who can't meet the ask open below their maximum: bargain hunters further below.
+    counterOfferMultiplier: 0.95,
+    lowballOfferMultiplier: 0.8,
+    // Offers below this fraction of the ask count as lowball bids.
+    lowballThreshold: 0.8,
+    // Offers stay open for this many days; a listing holds at most `maxOpenOffers`.
+    offerDays: 2,
+    maxOpenOffers: 4,
+  },
+
+  // Consigning the player's own cars to auction houses: rivals bid against each other.
+  // Each house's seller's commission is in the location database.
+  consignment: {
+    // Highest reserve price, relative to market value (a reserve of 0 means no reserve).
+    maxReserveMultiplier: 1.5,
+    // Bidding opens at this share of market value; rivals won't bid past the cap.
+    startingBidMultiplier: 1,
+    rivalMaxBidMultiplier: 1.5,
+    attendees: { min: 2, max: 4 },
+    // A specialty house whose focus tags fit the car also draws up to this many rivals whose wishlist matches it.
+    specialtyWishlistRivals: 2,
+  },
+
   rivalAI: {
+    // Scales every rival's starting auction budget (difficulty layers override this).
+    budgetMultiplier: 1,
+
     // Applied each rival turn depending on strategy.
     patienceLossPerTurn: {
       aggressive: 15,
@@ -332,6 +589,15 @@ export const GAME_CONFIG = {
     },
     collectorHighInterestThreshold: 70,
 
+    // Interest lost per originality point below 100, by strategy. Scrappers (tier 3) don't care.
+    originalityInterestPenalty: {
+      aggressive: 0.2,
+      passive: 0.3,
+      collector: 0.6,
+    },
+    // Collectors' extra interest in a matching-numbers car (see valuation.originality).
+    collectorMatchingNumbersBonus: 10,
+
     // Tier progression based on player prestige
     tierProgression: {
       // Prestige thresholds for unlocking tiers (higher prestige = lower tier numbers)
@@ -341,6 +607,39 @@ export const GAME_CONFIG = {
     },
   },
 
+  // Per-run tuning, applied as config layers by src/config/run-config.ts.
+  difficulty: {
+    // Difficulty presets scale the base values above. 'standard' keeps them as-is.
+    // victoryMultiplier scales the prestige, Unicorn and collection goals (the skill goal is unchanged).
+    presets: {
+      relaxed: {
+        startingMoneyMultiplier: 1.5,
+        rentMultiplier: 0.75,
+        rivalBudgetMultiplier: 0.85,
+        rivalPresenceMultiplier: 0.75,
+        victoryMultiplier: 0.6,
+      },
+      standard: {
+        startingMoneyMultiplier: 1,
+        rentMultiplier: 1,
+        rivalBudgetMultiplier: 1,
+        rivalPresenceMultiplier: 1,
+        victoryMultiplier: 1,
+      },
+      cutthroat: {
+        startingMoneyMultiplier: 0.75,
+        rentMultiplier: 1.3,
+        rivalBudgetMultiplier: 1.2,
+        rivalPresenceMultiplier: 1.3,
+        victoryMultiplier: 1.25,
+      },
+    },
+    ironman: {
+      rentMultiplier: 1.25,
+      rivalBudgetMultiplier: 1.15,
+    },
+  },
+
   ui: {
     // Toast notification positioning
     toast: {
@@ -356,6 +655,8 @@ export const GAME_CONFIG = {
       auctionLogLine: 650, // Delay between bursty auction log lines (ms)
       openingPromptAfterStart: 800, // Delay after auctioneer intro before prompting opening bid (ms)
       nextTurnAfterAuctioneer: 650, // Delay after auctioneer response before the next bidder can act (ms)
+      dutchClockTick: 1100, // Delay between price drops on a Dutch auction clock (ms)
+      sealedBidReveal: 900, // Delay between opening sealed bids (ms)
     },
   },
 } as const;
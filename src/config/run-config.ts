@@ -0,0 +1,167 @@
+import { GAME_CONFIG } from '@/config/game-config';
+import { isRecord, type DeepPartial, type DeepWiden } from '@/utils/types';
+
+/** Gameplay config as the game reads it: GAME_CONFIG with the current run's layers applied. */
+export type GameConfig = DeepWiden<typeof GAME_CONFIG>;
+
+/** A partial GameConfig merged on top of the base. Objects merge; arrays and scalars replace. */
+export type GameConfigLayer = DeepPartial<GameConfig>;
+
+export type GameMode = 'standard' | 'ironman';
+
+export type DifficultyPreset = keyof GameConfig['difficulty']['presets'];
+
+/** Presets in menu order. */
+export const DIFFICULTY_PRESETS: readonly DifficultyPreset[] = ['relaxed', 'standard', 'cutthroat'];
+
+export const DIFFICULTY_PRESET_LABELS: Readonly<Record<DifficultyPreset, string>> = {
+  relaxed: 'Relaxed',
+  standard: 'Standard',
+  cutthroat: 'Cutthroat',
+};
+
+/**
+ * Custom rules for one run, applied on top of the difficulty preset.
+ * Only the fields that are set override anything.
+ */
+export interface RunConfigOverrides {
+  startingMoney?: number;
+  /** Daily rent keyed by garage slot count (1-10); missing entries keep the preset's rent. */
+  rentByGarageSlots?: Partial<Record<number, number>>;
+  victory?: Partial<GameConfig['victory']>;
+  /** Chance (0-1) that a rival shows up at an encounter. */
+  rivalPresenceChance?: number;
+}
+
+/**
+ * Rules chosen when a run starts. Stored in the save so a run always resolves to the same config.
+ */
+export interface RunSettings {
+  mode: GameMode;
+  difficulty: DifficultyPreset;
+  overrides?: RunConfigOverrides;
+}
+
+export const DEFAULT_RUN_SETTINGS: Readonly<RunSettings> = { mode: 'standard', difficulty: 'standard' };
+
+export function isGameMode(value: unknown): value is GameMode {
+  return value === 'standard' || value === 'ironman';
+}
+
+export function isDifficultyPreset(value: unknown): value is DifficultyPreset {
+  return DIFFICULTY_PRESETS.some((preset) => preset === value);
+}
+
+function scaleTable<K extends PropertyKey>(table: Readonly<Record<K, number>>, factor: number): Record<K, number> {
+  const scaled = {} as Record<K, number>;
+  for (const key of Object.keys(table) as K[]) {
+    scaled[key] = Math.round(table[key] * factor);
+  }
+  return scaled;
+}
+
+function buildPresetLayer(base: GameConfig, preset: DifficultyPreset): GameConfigLayer {
+  const tuning = base.difficulty.presets[preset];
+  const scaleGoal = (value: number): number => Math.max(1, Math.round(value * tuning.victoryMultiplier));
+  return {
+    player: { startingMoney: Math.round(base.player.startingMoney * tuning.startingMoneyMultiplier) },
+    economy: {
+      dailyRent: Math.round(base.economy.dailyRent * tuning.rentMultiplier),
+      rentByGarageSlots: scaleTable(base.economy.rentByGarageSlots, tuning.rentMultiplier),
+    },
+    encounters: {
+      rivalPresenceChance: Math.min(1, base.encounters.rivalPresenceChance * tuning.rivalPresenceMultiplier),
+    },
+    victory: {
+      requiredPrestige: scaleGoal(base.victory.requiredPrestige),
+      requiredUnicorns: scaleGoal(base.victory.requiredUnicorns),
+      requiredCollectionCars: scaleGoal(base.victory.requiredCollectionCars),
+    },
+    rivalAI: { budgetMultiplier: base.rivalAI.budgetMultiplier * tuning.rivalBudgetMultiplier },
+  };
+}
+
+function buildOverridesLayer(overrides: RunConfigOverrides): GameConfigLayer {
+  const singleSlotRent = overrides.rentByGarageSlots?.[1];
+  return {
+    player: { startingMoney: overrides.startingMoney },
+    economy: {
+      dailyRent: singleSlotRent,
+      rentByGarageSlots: overrides.rentByGarageSlots as GameConfig['economy']['rentByGarageSlots'] | undefined,
+    },
+    encounters: { rivalPresenceChance: overrides.rivalPresenceChance },
+    victory: overrides.victory,
+  };
+}
+
+function buildIronmanLayer(base: GameConfig): GameConfigLayer {
+  const { rentMultiplier, rivalBudgetMultiplier } = base.difficulty.ironman;
+  return {
+    // No reload safety net: every change is persisted.
+    save: { autosavePolicy: 'on-change' },
+    economy: {
+      dailyRent: Math.round(base.economy.dailyRent * rentMultiplier),
+      rentByGarageSlots: scaleTable(base.economy.rentByGarageSlots, rentMultiplier),
+    },
+    rivalAI: { budgetMultiplier: base.rivalAI.budgetMultiplier * rivalBudgetMultiplier },
+  };
+}
+
+function mergeLayer(base: unknown, layer: unknown): unknown {
+  if (!isRecord(base) || !isRecord(layer) || Array.isArray(base) || Array.isArray(layer)) {
+    return layer === undefined ? base : layer;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    merged[key] = mergeLayer(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Merge layers over a base config, in order (later layers win).
+ */
+export function mergeConfigLayers(base: GameConfig, layers: readonly GameConfigLayer[]): GameConfig {
+  return layers.reduce<GameConfig>((config, layer) => mergeLayer(config, layer) as GameConfig, base);
+}
+
+/**
+ * Resolve the config for a run: GAME_CONFIG, then the difficulty preset, the run's custom overrides,
+ * and the mode layer. Each layer is built from the config resolved so far, so Ironman scales custom rent too.
+ */
+export function resolveGameConfig(settings: Readonly<RunSettings>): GameConfig {
+  let config: GameConfig = GAME_CONFIG;
+  config = mergeConfigLayers(config, [buildPresetLayer(config, settings.difficulty)]);
+  if (settings.overrides) {
+    config = mergeConfigLayers(config, [buildOverridesLayer(settings.overrides)]);
+  }
+  if (settings.mode === 'ironman') {
+    config = mergeConfigLayers(config, [buildIronmanLayer(config)]);
+  }
+  return config;
+}
+
+let activeSettings: Readonly<RunSettings> = DEFAULT_RUN_SETTINGS;
+let activeConfig: GameConfig = resolveGameConfig(DEFAULT_RUN_SETTINGS);
+
+/**
+ * Config for the current run. Read gameplay tuning through this instead of GAME_CONFIG
+ * so difficulty layers apply; GAME_CONFIG is only the base layer.
+ */
+export function getGameConfig(): GameConfig {
+  return activeConfig;
+}
+
+/** Settings of the current run. */
+export function getActiveRunSettings(): Readonly<RunSettings> {
+  return activeSettings;
+}
+
+/**
+ * Switch the active config to a run's settings. Called by GameManager on new game and load.
+ */
+export function setActiveRunSettings(settings: Readonly<RunSettings>): void {
+  activeSettings = { ...settings };
+  activeConfig = resolveGameConfig(activeSettings);
+}
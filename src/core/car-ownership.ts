@@ -0,0 +1,123 @@
+import type { Car, CarRestorationStep, CarTier } from '@/data/car-database';
+import type { PastCarRecord } from '@/core/game-types';
+import type { DeepReadonly } from '@/utils/types';
+
+/**
+ * Flip results of past cars grouped by tier or template.
+ * Averages skip records whose value is unknown (e.g. cars bought before ownership records existed).
+ */
+export interface PastCarGroupSummary {
+  key: string;
+  label: string;
+  count: number;
+  totalProfit: number;
+  averageProfit: number | null;
+  averageRoi: number | null;
+  averageDaysHeld: number | null;
+}
+
+/**
+ * Return a copy of the car with one restoration step logged and its cost added to `restorationSpent`.
+ * `updated` is the car after the work; `before` supplies the starting condition.
+ */
+export function withRestorationStep(
+  before: DeepReadonly<Car>,
+  updated: Car,
+  step: Omit<CarRestorationStep, 'conditionBefore' | 'conditionAfter'>
+): Car {
+  return {
+    ...updated,
+    restorationSpent: (before.restorationSpent ?? 0) + step.cost,
+    restorationLog: [
+      ...(before.restorationLog ?? []),
+      { ...step, conditionBefore: before.condition, conditionAfter: updated.condition },
+    ],
+  };
+}
+
+/**
+ * Build the archive record for a car being sold.
+ */
+export function buildPastCarRecord(
+  car: DeepReadonly<Car>,
+  sale: { day: number; channel: string; price: number }
+): PastCarRecord {
+  const restorations = (car.restorationLog ?? []).map((step) => ({ ...step }));
+  const restorationSpent = car.restorationSpent ?? 0;
+  const purchasePrice = car.purchasePrice ?? null;
+  const profit = purchasePrice === null ? null : sale.price - purchasePrice - restorationSpent;
+  const totalCost = (purchasePrice ?? 0) + restorationSpent;
+
+  return {
+    carId: car.id,
+    ...(car.templateId ? { templateId: car.templateId } : {}),
+    name: car.name,
+    tier: car.tier,
+    acquiredDay: car.acquiredDay ?? null,
+    acquiredFrom: car.acquiredFrom ?? null,
+    purchasePrice,
+    restorations,
+    challengesCompleted: restorations.filter((step) => step.kind === 'challenge').length,
+    restorationSpent,
+    conditionAtSale: car.condition,
+    soldDay: sale.day,
+    daysHeld: car.acquiredDay === undefined ? null : Math.max(0, sale.day - car.acquiredDay),
+    saleChannel: sale.channel,
+    salePrice: sale.price,
+    profit,
+    roi: profit === null || totalCost <= 0 ? null : profit / totalCost,
+  };
+}
+
+function average(values: readonly (number | null)[]): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length === 0) return null;
+  return known.reduce((sum, value) => sum + value, 0) / known.length;
+}
+
+function summarizeGroup(key: string, label: string, records: readonly PastCarRecord[]): PastCarGroupSummary {
+  return {
+    key,
+    label,
+    count: records.length,
+    totalProfit: records.reduce((sum, record) => sum + (record.profit ?? 0), 0),
+    averageProfit: average(records.map((record) => record.profit)),
+    averageRoi: average(records.map((record) => record.roi)),
+    averageDaysHeld: average(records.map((record) => record.daysHeld)),
+  };
+}
+
+function summarizeGroups(
+  records: readonly PastCarRecord[],
+  getGroup: (record: PastCarRecord) => { key: string; label: string }
+): PastCarGroupSummary[] {
+  const groups = new Map<string, { label: string; records: PastCarRecord[] }>();
+  for (const record of records) {
+    const { key, label } = getGroup(record);
+    const group = groups.get(key) ?? { label, records: [] };
+    group.records.push(record);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()].map(([key, group]) => summarizeGroup(key, group.label, group.records));
+}
+
+/** Flip results across every past car. */
+export function summarizePastCars(records: readonly PastCarRecord[]): PastCarGroupSummary {
+  return summarizeGroup('all', 'All cars', records);
+}
+
+/** Flip results per tier, in tier order. */
+export function summarizePastCarsByTier(records: readonly PastCarRecord[]): PastCarGroupSummary[] {
+  const tierOrder: readonly CarTier[] = ['Daily Driver', 'Cult Classic', 'Icon', 'Unicorn'];
+  return summarizeGroups(records, (record) => ({ key: record.tier, label: record.tier })).sort(
+    (a, b) => tierOrder.indexOf(a.key as CarTier) - tierOrder.indexOf(b.key as CarTier)
+  );
+}
+
+/** Flip results per car template (model), best average profit first. */
+export function summarizePastCarsByTemplate(records: readonly PastCarRecord[]): PastCarGroupSummary[] {
+  return summarizeGroups(records, (record) => ({ key: record.templateId ?? record.name, label: record.name })).sort(
+    (a, b) => (b.averageProfit ?? -Infinity) - (a.averageProfit ?? -Infinity)
+  );
+}
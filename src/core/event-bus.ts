@@ -1,5 +1,5 @@
 import type { Car } from '@/data/car-database';
-import type { VictoryResult } from '@/core/game-manager';
+import type { RestorationJobResult, VictoryResult } from '@/core/game-manager';
 import type { SkillKey } from '@/config/game-config';
 import { errorLog } from '@/utils/log';
 
@@ -18,6 +18,7 @@ export type GameEvents = {
   'time-changed': number;
   'location-changed': string;
   'victory': VictoryResult;
+  'restoration-complete': RestorationJobResult;
   'tutorial-complete': void;
   'tutorial-step-changed': { step: string };
   'tutorial-highlight-changed': { targets: string[] };
@@ -1,16 +1,38 @@
-import { Car, getRandomCarForPrestige, getRandomCarWithPreferences } from '@/data/car-database';
+import {
+  Car,
+  discoverCarDefects,
+  getRandomCarForPrestige,
+  getRandomCarWithPreferences,
+  getUndiscoveredDefects,
+  isProvenanceDocumented,
+  type ProvenanceDocumentKind,
+} from '@/data/car-database';
 import { eventBus } from './event-bus';
+import { rng as sharedRng, type RngService } from './rng';
 import { MarketFluctuationSystem } from '@/systems/market-fluctuation-system';
 import { SpecialEventsSystem } from '@/systems/special-events-system';
 import { TutorialManager } from '@/systems/tutorial-manager';
-import { GAME_CONFIG } from '@/config/game-config';
-import { getBaseLocationDefinitionById } from '@/data/location-database';
+import { getGameConfig } from '@/config/run-config';
+import { getBaseLocationDefinitionById, type AuctionHouseFees, type AuctionMembershipTier } from '@/data/location-database';
 import type { SpecialEvent } from '@/systems/special-events-system';
 import type { SkillKey } from '@/config/game-config';
 import type { DeepReadonly } from '@/utils/types';
 import { debugLog, errorLog, warnLog } from '@/utils/log';
 import { DebouncedSaver } from '@/core/internal/debounced-saver';
-import { readAndHydrateCurrentGameSave, writeCurrentGameSave } from '@/core/internal/save-load';
+import {
+  buildCurrentGameSave,
+  readAndHydrateCurrentGameSave,
+  writeGameSaveToSlot,
+} from '@/core/internal/save-load';
+import type { SavedGameData } from '@/core/game-persistence';
+import { hasSaveRepairs, type SaveValidationReport } from '@/core/save-validation';
+import { archiveSaveSlot, getActiveSaveSlotId, getSaveSlot, setActiveSaveSlotId } from '@/core/save-slots';
+import {
+  DEFAULT_RUN_SETTINGS,
+  getActiveRunSettings,
+  setActiveRunSettings,
+  type RunSettings,
+} from '@/config/run-config';
 import {
   calculateCollectionPrestigeBonus as calculateCollectionPrestigeBonusInternal,
   getCollectionCarsFromInventory,
@@ -45,34 +67,99 @@ import {
 } from '@/core/internal/skill-progression';
 import { decideToggleCollectionStatus } from '@/core/internal/inventory-collection';
 import { removeCarById, replaceCarById } from '@/core/internal/inventory-mutations';
-import { cloneCar, cloneInventory, clonePlayerState, cloneWorldState } from '@/core/internal/state-clone';
+import {
+  cloneCar,
+  cloneInventory,
+  cloneCarListing,
+  clonePastCarRecord,
+  clonePlayerState,
+  cloneRestorationJob,
+  cloneWorldState,
+} from '@/core/internal/state-clone';
+import { UndoJournal } from '@/core/internal/undo-journal';
+import { TransactionLedger } from '@/core/internal/transaction-ledger';
+import { buildPastCarRecord } from '@/core/car-ownership';
+import {
+  applyRestorationJob,
+  buildRestorationJob,
+  calculateRushCost,
+  getRestorationJobStatus as getRestorationJobStatusInternal,
+  getWorkedJobs,
+} from '@/core/internal/restoration-queue';
+import {
+  Economy,
+  getRestorationSpecialistName,
+  getSpecialistLoyaltyEffects,
+  isSpecialistAvailable,
+  type RestorationOption,
+} from '@/systems/Economy';
+import { getRestorationSpecialistById } from '@/data/character-database';
+import {
+  estimatePartsCost as estimatePartsCostInternal,
+  getMissingParts as getMissingPartsInternal,
+  rollPartsMarket,
+  takePartsFromStock,
+} from '@/systems/parts-market';
+import { getPartName } from '@/data/parts-database';
+import { canResearchProvenance, researchCarProvenance } from '@/systems/car-provenance';
+import {
+  getAskingPriceRange,
+  getOpenOffers,
+  isCounterOfferAccepted,
+  rollBuyerOffers,
+} from '@/systems/car-marketplace';
+import { getReservePriceRange, isReserveMet } from '@/systems/auction-consignment';
+import { getAuctionHouseFees, getAuctionMembershipTier, getSellersCommission } from '@/systems/auction-fees';
 import type {
-  AutosavePolicy,
+  AuctionMembershipBlocker,
+  BuyerOffer,
+  CarListing,
+  ConsignmentBlocker,
   EndDayResult,
   FinanceLoan,
+  LedgerEntry,
+  LedgerTag,
+  OwnedPart,
+  PartListing,
+  PastCarRecord,
   PlayerState,
+  RestorationJob,
+  RestorationJobResult,
+  RestorationJobStatus,
+  RestorationWork,
   SetConfig,
+  SpecialistRelationship,
+  UndoPoint,
   VictoryResult,
   WorldState,
 } from '@/core/game-types';
 
 export type {
   AutosavePolicy,
+  BuyerOffer,
+  CarListing,
   EndDayResult,
   FinanceLoan,
+  LedgerCategory,
+  LedgerEntry,
+  LedgerState,
+  LedgerTag,
+  OwnedPart,
+  PartListing,
+  PastCarRecord,
   PlayerState,
+  RestorationJob,
+  RestorationJobResult,
+  RestorationJobStatus,
+  RestorationWork,
   SetConfig,
+  SpecialistRelationship,
+  UndoPoint,
   VictoryResult,
   WorldState,
 } from '@/core/game-types';
 
 
-const DAILY_RENT = GAME_CONFIG.economy.dailyRent;
-const BANK_LOAN_AMOUNT = GAME_CONFIG.economy.bankLoan.amount;
-const PRESTON_LOAN_AMOUNT = GAME_CONFIG.economy.finance.prestonLoan.amount;
-const PRESTON_LOAN_FEE_RATE = GAME_CONFIG.economy.finance.prestonLoan.feeRate;
-const TIME_UNITS_PER_DAY = GAME_CONFIG.time.unitsPerDay;
-
 const SAVE_DEBOUNCE_MS = 1000; // Debounce save calls by 1 second (only used for on-change autosave)
 
 // (types moved to `src/core/game-types.ts`)
@@ -90,13 +177,34 @@ export class GameManager {
   private world!: WorldState;
   private marketSystem: MarketFluctuationSystem;
   private specialEventsSystem: SpecialEventsSystem;
-  private readonly autosavePolicy: AutosavePolicy = GAME_CONFIG.save.autosavePolicy;
   private readonly saver: DebouncedSaver;
+  /** Seeded RNG shared by all systems; reseeded on new game and persisted with the save. */
+  private readonly rng: RngService = sharedRng;
+  /** Save slot the current run writes to; null until a new game's first save creates one. */
+  private activeSlotId: string | null = null;
+  /** Repairs made by the last load, kept until a scene shows them to the player. */
+  private pendingRepairReport: SaveValidationReport | null = null;
+  /** Snapshots taken before each undoable action of the current day. */
+  private readonly undoJournal = new UndoJournal(getGameConfig().save.undoMaxEntriesPerDay);
+  /** True while the current synchronous action already has its undo point (reset on the next microtask). */
+  private undoPointOpen = false;
+  /** Label set by markUndoPoint() for the current synchronous action, if any. */
+  private pendingUndoLabel: string | null = null;
+  /** Every money/prestige movement of the run (persisted with the save). */
+  private readonly ledger = new TransactionLedger(() => getGameConfig().save.ledgerMaxEntries);
+  /** In-day rewind switch; opt-in Ironman runs turn it off. */
+  private undoEnabled = true;
+  /** True once an Ironman run has been archived: nothing more is saved until a new game or load. */
+  private runEnded = false;
 
   private constructor() {
     this.marketSystem = MarketFluctuationSystem.getInstance();
     this.specialEventsSystem = SpecialEventsSystem.getInstance();
-    this.saver = new DebouncedSaver(() => this.save(), this.autosavePolicy, SAVE_DEBOUNCE_MS);
+    this.saver = new DebouncedSaver(
+      () => this.save(),
+      () => getGameConfig().save.autosavePolicy,
+      SAVE_DEBOUNCE_MS
+    );
 
     // Try to load saved game first
     if (!this.load()) {
@@ -115,10 +223,13 @@ export class GameManager {
     // Backwards compatibility: older saves won't have timeRemaining.
     const raw = (this.world as Partial<WorldState>).timeRemaining;
     if (!Number.isFinite(raw)) {
-      (this.world as WorldState).timeRemaining = TIME_UNITS_PER_DAY;
+      (this.world as WorldState).timeRemaining = getGameConfig().time.unitsPerDay;
     }
 
-    this.world.timeRemaining = Math.max(0, Math.min(TIME_UNITS_PER_DAY, Math.floor(this.world.timeRemaining)));
+    this.world.timeRemaining = Math.max(
+      0,
+      Math.min(getGameConfig().time.unitsPerDay, Math.floor(this.world.timeRemaining))
+    );
   }
 
   private emitMoneyChanged(): void {
@@ -145,29 +256,47 @@ export class GameManager {
     eventBus.emit('location-changed', location);
   }
 
+  /**
+   * Make a run's settings the active config layer set and apply their mode rules.
+   */
+  private applyRunSettings(settings: Readonly<RunSettings>): void {
+    setActiveRunSettings(settings);
+    this.undoEnabled = settings.mode !== 'ironman';
+  }
+
   /**
    * Initialize default game state (used when no save exists).
    */
-  private initializeDefaultState(): void {
+  private initializeDefaultState(seed?: number): void {
+    this.rng.reseed(seed);
+
     this.player = {
-      money: GAME_CONFIG.player.startingMoney,
+      money: getGameConfig().player.startingMoney,
       inventory: [],
-      garageSlots: GAME_CONFIG.player.startingGarageSlots,
-      prestige: GAME_CONFIG.player.startingPrestige,
+      garageSlots: getGameConfig().player.startingGarageSlots,
+      prestige: getGameConfig().player.startingPrestige,
       bankLoanTaken: false,
       activeLoan: null,
-      skills: { ...GAME_CONFIG.player.startingSkills },
+      skills: { ...getGameConfig().player.startingSkills },
       skillXP: { eye: 0, tongue: 0, network: 0 },
       visitedLocations: new Set(['garage']), // Start with garage as visited
       claimedSets: new Set<string>(), // Track completed sets (always initialized)
+      pastCars: [],
+      restorationQueue: [],
+      parts: [],
+      specialists: {},
+      carListings: [],
+      auctionMemberships: {},
     };
 
     this.world = {
       day: 1,
       currentLocation: 'garage',
-      timeRemaining: TIME_UNITS_PER_DAY,
+      timeRemaining: getGameConfig().time.unitsPerDay,
       carOfferByLocation: {},
+      auctionLotsByLocation: {},
       rivalPresenceByLocation: {},
+      partsMarket: null,
       dayStats: {
         carsAcquired: 0,
         moneyEarned: 0,
@@ -175,10 +304,21 @@ export class GameManager {
         prestigeGained: 0,
       },
     };
+
+    this.ledger.reset();
+    this.recordLedger({ category: 'opening' }, this.player.money, 0);
+  }
+
+  /**
+   * Append a movement to the ledger (after the state change, so the balance is current).
+   */
+  private recordLedger(tag: LedgerTag, money: number, prestige: number): void {
+    this.ledger.record(tag, { day: this.world.day, money, prestige, balance: this.player.money });
   }
 
   private resetDailyCarOffers(): void {
     this.world.carOfferByLocation = resetDailyCarOffersInternal();
+    this.world.auctionLotsByLocation = {};
   }
 
   private sanitizeDailyOfferMap(): void {
@@ -212,6 +352,7 @@ export class GameManager {
     if (cost === 0) return true;
     if (!this.canSpendTime(cost)) return false;
 
+    this.recordUndoPoint('Spend time');
     this.world.timeRemaining = Math.max(0, this.getTimeRemaining() - cost);
     this.emitTimeChanged();
     // Time is a primary resource; persist immediately to prevent reload exploits.
@@ -269,16 +410,38 @@ export class GameManager {
     return offer ? cloneCar(offer) : null;
   }
 
+  /**
+   * Get an auction house's catalog for the day: its car offer as lot 1, then the later lots.
+   * Later lots are rolled on first request and kept for the day.
+   * @returns The lots in sale order (empty once the offer is used up)
+   */
+  public getAuctionCatalogForLocation(locationId: string): Car[] {
+    const offer = this.getDailyCarOfferForLocation(locationId);
+    if (!offer) return [];
+
+    if (!Object.prototype.hasOwnProperty.call(this.world.auctionLotsByLocation, locationId)) {
+      const laterLots = Math.max(0, Math.floor(getGameConfig().auction.catalog.lots) - 1);
+      this.world.auctionLotsByLocation[locationId] = Array.from({ length: laterLots }, () =>
+        this.rollDailyOfferCarForLocation(locationId)
+      );
+    }
+
+    return [offer, ...(this.world.auctionLotsByLocation[locationId] ?? []).map(cloneCar)];
+  }
+
   /**
    * Mark a location's daily offer as consumed (no more cars there today).
+   * An auction house's whole catalog goes with it.
    */
   public consumeDailyCarOfferForLocation(locationId: string): void {
     if (!locationId || locationId === 'garage') return;
 
+    this.recordUndoPoint('Use up daily offer');
     consumeDailyCarOfferForLocationInternal({
       offerMap: this.world.carOfferByLocation,
       locationId,
     });
+    this.world.auctionLotsByLocation[locationId] = [];
     // Offer exhaustion is an anti-fishing invariant; persist immediately to prevent reload exploits.
     this.debouncedSave({ critical: true });
   }
@@ -291,7 +454,7 @@ export class GameManager {
     ensureRivalPresenceForLocationsInternal({
       presenceMap: this.world.rivalPresenceByLocation,
       locationIds,
-      rollIsPresent: () => Math.random() < GAME_CONFIG.encounters.rivalPresenceChance,
+      rollIsPresent: () => this.rng.next('encounters') < getGameConfig().encounters.rivalPresenceChance,
     });
   }
 
@@ -303,7 +466,7 @@ export class GameManager {
     return hasRivalAtLocationInternal({
       presenceMap: this.world.rivalPresenceByLocation,
       locationId,
-      rollIsPresent: () => Math.random() < GAME_CONFIG.encounters.rivalPresenceChance,
+      rollIsPresent: () => this.rng.next('encounters') < getGameConfig().encounters.rivalPresenceChance,
     });
   }
 
@@ -336,34 +499,38 @@ export class GameManager {
   /**
    * Add money to player and emit money-changed event.
    * @param amount - Amount to add (positive number)
+   * @param tag - What the money is for (recorded in the ledger; defaults to 'other')
    */
-  public addMoney(amount: number): void {
+  public addMoney(amount: number, tag: LedgerTag = { category: 'other' }): void {
     if (!Number.isFinite(amount) || amount === 0) return;
     if (amount < 0) {
       // Prefer spendMoney() for deductions; ignore here to prevent accidental exploits.
       warnLog('addMoney called with negative amount; ignoring.', amount);
       return;
     }
+    this.recordUndoPoint('Receive money');
     this.player.money += amount;
     if (amount > 0) {
       this.world.dayStats.moneyEarned += amount;
     }
+    this.recordLedger(tag, amount, 0);
     this.emitMoneyChanged();
     this.debouncedSave();
   }
 
   /**
    * Get current daily rent based on garage slots.
-   * Rent scales with capacity via GAME_CONFIG.economy.rentByGarageSlots.
+   * Rent scales with capacity via the run config's economy.rentByGarageSlots.
    */
   public getDailyRent(): number {
     const slots = this.player.garageSlots;
-    const rentConfig = GAME_CONFIG.economy.rentByGarageSlots as Record<number, number>;
-    return rentConfig[slots] || DAILY_RENT;
+    const { economy } = getGameConfig();
+    const rentConfig = economy.rentByGarageSlots as Record<number, number>;
+    return rentConfig[slots] || economy.dailyRent;
   }
 
   public getBankLoanAmount(): number {
-    return BANK_LOAN_AMOUNT;
+    return getGameConfig().economy.bankLoan.amount;
   }
 
   public canTakeBankLoan(): boolean {
@@ -377,8 +544,11 @@ export class GameManager {
   public takeBankLoan(): boolean {
     if (!this.canTakeBankLoan()) return false;
 
+    this.recordUndoPoint('Take bank loan');
+    const amount = this.getBankLoanAmount();
     this.player.bankLoanTaken = true;
-    this.player.money += BANK_LOAN_AMOUNT;
+    this.player.money += amount;
+    this.recordLedger({ category: 'loan', counterpart: 'Bank', note: 'Emergency loan' }, amount, 0);
     this.emitMoneyChanged();
     this.debouncedSave({ critical: true });
     return true;
@@ -393,7 +563,8 @@ export class GameManager {
   }
 
   public getPrestonLoanTerms(): { principal: number; fee: number; totalDue: number } {
-    return calculatePrestonLoanTerms({ principal: PRESTON_LOAN_AMOUNT, feeRate: PRESTON_LOAN_FEE_RATE });
+    const { amount, feeRate } = getGameConfig().economy.finance.prestonLoan;
+    return calculatePrestonLoanTerms({ principal: amount, feeRate });
   }
 
   public takePrestonLoan(): { ok: true; loan: FinanceLoan } | { ok: false; reason: string } {
@@ -401,6 +572,7 @@ export class GameManager {
       return { ok: false, reason: 'You already have an active loan.' };
     }
 
+    this.recordUndoPoint('Take loan from Preston Banks');
     const terms = this.getPrestonLoanTerms();
     const loan: FinanceLoan = {
       lenderName: 'Preston Banks',
@@ -412,6 +584,7 @@ export class GameManager {
     this.player.activeLoan = loan;
     // Do not count as “money earned” in day stats.
     this.player.money += terms.principal;
+    this.recordLedger({ category: 'loan', counterpart: loan.lenderName }, terms.principal, 0);
     this.emitMoneyChanged();
     this.debouncedSave({ critical: true });
 
@@ -431,9 +604,11 @@ export class GameManager {
       return { ok: false, reason: 'Not enough money to repay the loan.', totalDue };
     }
 
+    this.recordUndoPoint('Repay loan');
     // Do not count as “money spent” in day stats.
     this.player.money -= totalDue;
     this.player.activeLoan = null;
+    this.recordLedger({ category: 'loan-repayment', counterpart: loan.lenderName }, -totalDue, 0);
     this.emitMoneyChanged();
     this.debouncedSave({ critical: true });
 
@@ -443,9 +618,10 @@ export class GameManager {
   /**
    * Attempt to spend money.
    * @param amount - Amount to spend (positive number)
+   * @param tag - What the money is for (recorded in the ledger; defaults to 'other')
    * @returns True if transaction succeeded, false if insufficient funds
    */
-  public spendMoney(amount: number): boolean {
+  public spendMoney(amount: number, tag: LedgerTag = { category: 'other' }): boolean {
     if (!Number.isFinite(amount)) {
       warnLog('spendMoney called with invalid amount; rejecting.', amount);
       return false;
@@ -453,8 +629,10 @@ export class GameManager {
     if (amount <= 0) return true;
     if (this.player.money < amount) return false;
 
+    this.recordUndoPoint('Spend money');
     this.player.money -= amount;
     this.world.dayStats.moneySpent += amount;
+    this.recordLedger(tag, -amount, 0);
     this.emitMoneyChanged();
     this.debouncedSave();
     return true;
@@ -467,6 +645,7 @@ export class GameManager {
   private applyDailyRent(): number {
     const rent = this.getDailyRent();
     this.player.money -= rent;
+    this.recordLedger({ category: 'rent', counterpart: 'Landlord' }, -rent, 0);
     this.emitMoneyChanged();
     return rent;
   }
@@ -474,13 +653,17 @@ export class GameManager {
   /**
    * Add prestige to player (cannot go below 0).
    * @param amount - Amount to add or subtract (can be negative)
+   * @param tag - What the prestige is for (recorded in the ledger; defaults to 'other')
    */
-  public addPrestige(amount: number): void {
+  public addPrestige(amount: number, tag: LedgerTag = { category: 'other' }): void {
     if (!Number.isFinite(amount) || amount === 0) return;
+    this.recordUndoPoint('Gain prestige');
+    const before = this.player.prestige;
     this.player.prestige = Math.max(0, this.player.prestige + amount);
     if (amount > 0) {
       this.world.dayStats.prestigeGained += amount;
     }
+    this.recordLedger(tag, 0, this.player.prestige - before);
     this.emitPrestigeChanged();
     this.debouncedSave();
   }
@@ -509,8 +692,10 @@ export class GameManager {
     const cost = this.getNextGarageSlotCost();
     if (cost === null || this.player.prestige < cost) return false;
 
+    this.recordUndoPoint('Upgrade garage');
     this.player.prestige -= cost;
     this.player.garageSlots += 1;
+    this.recordLedger({ category: 'garage-upgrade', note: `${this.player.garageSlots} slots` }, 0, -cost);
     this.emitPrestigeChanged();
     this.debouncedSave({ critical: true });
     return true;
@@ -531,7 +716,9 @@ export class GameManager {
    * Add car to inventory and emit inventory-changed event.
    * Enforces garage capacity - returns false if garage is full.
    * Also checks for collection completions and awards bonuses.
-   * @param car - The car to add to inventory
+   * Starts the car's ownership record (acquired today, empty restoration log) unless the car already has one.
+   * Any defects still hidden are discovered (and start counting against the car's value).
+   * @param car - The car to add to inventory (set `acquiredFrom` to record where it came from)
    * @returns True if car was added, false if garage is full
    */
   public addCar(car: Car): boolean {
@@ -539,11 +726,16 @@ export class GameManager {
       return false;
     }
 
+    this.recordUndoPoint(`Acquire ${car.name}`);
     // New cars always enter the garage first (not in the collection).
     // Clone at the boundary to avoid external references mutating internal state.
+    // Owning the car brings any defects the seller hid to light.
+    const clonedCar = discoverCarDefects(cloneCar(car), getUndiscoveredDefects(car));
     const storedCar: Car = {
-      ...cloneCar(car),
+      ...clonedCar,
       inCollection: false,
+      acquiredDay: clonedCar.acquiredDay ?? this.world.day,
+      restorationLog: clonedCar.restorationLog ?? [],
     };
     this.player.inventory.push(storedCar);
     this.world.dayStats.carsAcquired += 1;
@@ -597,7 +789,7 @@ export class GameManager {
    * @private
    */
   private checkNewSetCompletions(): void {
-    const sets = GAME_CONFIG.sets as Record<string, SetConfig>;
+    const sets = getGameConfig().sets as Record<string, SetConfig>;
     const newlyCompleted = getNewlyCompletedSetIds({
       sets,
       inventory: this.player.inventory,
@@ -637,7 +829,7 @@ export class GameManager {
     this.getClaimedSets().add(setId);
     
     // Award prestige
-    this.addPrestige(set.prestigeReward);
+    this.addPrestige(set.prestigeReward, { category: 'set-reward', note: set.name });
 
     // Notify UI layer (scenes) to celebrate.
     eventBus.emit('set-complete', {
@@ -662,7 +854,7 @@ export class GameManager {
     isClaimed: boolean;
     matchingCars: Car[];
   } {
-    const sets = GAME_CONFIG.sets as Record<string, SetConfig>;
+    const sets = getGameConfig().sets as Record<string, SetConfig>;
     const set = sets[setId];
     
     if (!set) {
@@ -691,7 +883,7 @@ export class GameManager {
     isClaimed: boolean;
     prestigeReward: number;
   }> {
-    const sets = GAME_CONFIG.sets as Record<string, SetConfig>;
+    const sets = getGameConfig().sets as Record<string, SetConfig>;
 
     return Object.entries(sets).map(([id, set]) => {
       const progress = this.getSetProgress(id);
@@ -715,6 +907,9 @@ export class GameManager {
    * @returns True if car was found and updated, false otherwise
    */
   public updateCar(updatedCar: Car): boolean {
+    if (this.player.inventory.some((car) => car.id === updatedCar.id)) {
+      this.recordUndoPoint(`Work on ${updatedCar.name}`);
+    }
     const updated = replaceCarById({
       inventory: this.player.inventory,
       updatedCar,
@@ -726,6 +921,44 @@ export class GameManager {
     return true;
   }
 
+  /**
+   * Research an owned car's provenance with the player's Network skill (costs `time.provenanceResearchCost`).
+   * The first research rolls the car's history; each one traces documents up to the current Network level,
+   * so it can only be repeated once Network has grown. Documented cars count toward sets.
+   * @returns The researched car and the documents just found or confirmed lost, or why it couldn't be done
+   */
+  public researchCarProvenance(
+    carId: string
+  ):
+    | { ok: true; car: Car; found: ProvenanceDocumentKind[]; lost: ProvenanceDocumentKind[]; documented: boolean }
+    | { ok: false; reason: 'not-owned' | 'researched' | 'no-time' } {
+    const index = this.player.inventory.findIndex((c) => c.id === carId);
+    const car = this.player.inventory[index];
+    if (!car) return { ok: false, reason: 'not-owned' };
+
+    const networkLevel = this.player.skills.network;
+    if (!canResearchProvenance(car, networkLevel)) return { ok: false, reason: 'researched' };
+    const timeCost = getGameConfig().time.provenanceResearchCost;
+    if (!this.canSpendTime(timeCost)) return { ok: false, reason: 'no-time' };
+
+    this.recordUndoPoint(`Research ${car.name}`);
+    this.trySpendTime(timeCost);
+    const outcome = researchCarProvenance(car, networkLevel);
+    this.player.inventory[index] = outcome.car;
+    this.addSkillXP('network', getGameConfig().player.skillProgression.xpGains.provenanceResearch);
+
+    this.emitInventoryChanged();
+    this.checkNewSetCompletions();
+    this.debouncedSave({ critical: true });
+    return {
+      ok: true,
+      car: cloneCar(outcome.car),
+      found: outcome.found,
+      lost: outcome.lost,
+      documented: isProvenanceDocumented(outcome.car),
+    };
+  }
+
   /**
    * Toggle collection status for a car.
     * Only cars with condition >= 75 can be added.
@@ -737,6 +970,12 @@ export class GameManager {
     if (!car) {
       return { success: false, message: 'Car not found' };
     }
+    if (this.isCarInWorkshop(carId)) {
+      return { success: false, message: `${car.name} is in the workshop. Wait for the job to finish first.` };
+    }
+    if (this.isCarListed(carId)) {
+      return { success: false, message: `${car.name} is listed for sale. Take it off the market first.` };
+    }
 
     const currentlyInCollection = car.inCollection === true;
 
@@ -758,6 +997,7 @@ export class GameManager {
       return { success: false, message: decision.message };
     }
 
+    this.recordUndoPoint(decision.nextInCollection ? `Display ${car.name}` : `Move ${car.name} to garage`);
     car.inCollection = decision.nextInCollection;
 
     this.emitInventoryChanged();
@@ -812,14 +1052,673 @@ export class GameManager {
    * @returns True if car was found and removed, false otherwise
    */
   public removeCar(carId: string): boolean {
+    const car = this.player.inventory.find((c) => c.id === carId);
+    if (car) {
+      this.recordUndoPoint(`Remove ${car.name}`);
+    }
     const removed = removeCarById(this.player.inventory, carId);
     if (!removed) return false;
+    this.player.carListings = this.player.carListings.filter((listing) => listing.carId !== carId);
+
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    return true;
+  }
+
+  /**
+   * Sell an owned car: books the sale in the ledger, archives its ownership record in Past Cars,
+   * and removes it from the inventory.
+   * @param carId - The unique ID of the car
+   * @param salePrice - Price the buyer paid
+   * @param channel - Who bought the car (e.g. "Private buyer"), plus an optional ledger note and the
+   *   commission an auction house keeps (booked as a separate fee; Past Cars records the net price)
+   * @returns The archived record, or null if the car isn't owned or is in the workshop
+   */
+  public sellCar(
+    carId: string,
+    salePrice: number,
+    channel: { counterpart: string; note?: string; commission?: { amount: number; house: string } }
+  ): PastCarRecord | null {
+    const car = this.player.inventory.find((c) => c.id === carId);
+    if (!car || this.isCarInWorkshop(carId)) return null;
+
+    this.recordUndoPoint(`Sell ${car.name}`);
+    const commission = Math.max(0, Math.min(salePrice, Math.round(channel.commission?.amount ?? 0)));
+    const record = buildPastCarRecord(car, {
+      day: this.world.day,
+      channel: channel.counterpart,
+      price: salePrice - commission,
+    });
+    const tag = { carId, carName: car.name };
+    this.addMoney(salePrice, {
+      category: 'sale',
+      ...tag,
+      counterpart: channel.counterpart,
+      ...(channel.note ? { note: channel.note } : {}),
+    });
+    if (channel.commission && commission > 0) {
+      this.spendMoney(commission, {
+        category: 'auction-fee',
+        ...tag,
+        counterpart: channel.commission.house,
+        note: "Seller's commission",
+      });
+    }
+
+    this.player.pastCars.push(record);
+    const maxPastCars = getGameConfig().save.pastCarsMaxEntries;
+    if (this.player.pastCars.length > maxPastCars) {
+      this.player.pastCars.splice(0, this.player.pastCars.length - maxPastCars);
+    }
+
+    this.removeCar(carId);
+    return clonePastCarRecord(record);
+  }
+
+  /**
+   * Ownership records of every sold car, oldest first.
+   */
+  public getPastCars(): PastCarRecord[] {
+    return this.player.pastCars.map(clonePastCarRecord);
+  }
+
+  /**
+   * Cars listed for sale to private buyers, with their open offers.
+   */
+  public getCarListings(): CarListing[] {
+    return this.player.carListings.map(cloneCarListing);
+  }
+
+  /**
+   * The listing for a car, if it is listed for sale.
+   */
+  public getCarListing(carId: string): CarListing | null {
+    const listing = this.player.carListings.find((entry) => entry.carId === carId);
+    return listing ? cloneCarListing(listing) : null;
+  }
+
+  /**
+   * Whether a car is listed for sale (and so can't be booked into the workshop or displayed).
+   */
+  public isCarListed(carId: string): boolean {
+    return this.player.carListings.some((listing) => listing.carId === carId);
+  }
+
+  /**
+   * List a garage car for sale at an asking price, or change the asking price of a listed car
+   * (open offers stand). Buyers make offers at each End Day.
+   * @param askingPrice - Must be within `marketplace.askingPriceMultiplier` of the car's market value
+   */
+  public listCarForSale(
+    carId: string,
+    askingPrice: number
+  ):
+    | { ok: true; listing: CarListing }
+    | { ok: false; reason: 'not-owned' | 'in-workshop' | 'in-collection' | 'invalid-price' } {
+    const car = this.player.inventory.find((c) => c.id === carId);
+    if (!car) return { ok: false, reason: 'not-owned' };
+    if (this.isCarInWorkshop(carId)) return { ok: false, reason: 'in-workshop' };
+    if (car.inCollection) return { ok: false, reason: 'in-collection' };
+
+    const range = getAskingPriceRange(Economy.getSalePrice(car, this));
+    const price = Math.round(askingPrice);
+    if (!Number.isFinite(price) || price < range.min || price > range.max) return { ok: false, reason: 'invalid-price' };
+
+    const existing = this.player.carListings.find((entry) => entry.carId === carId);
+    this.recordUndoPoint(existing ? `Reprice ${car.name}` : `List ${car.name}`);
+    const listing: CarListing = existing ?? {
+      carId,
+      carName: car.name,
+      askingPrice: price,
+      listedDay: this.world.day,
+      offers: [],
+    };
+    listing.askingPrice = price;
+    if (!existing) this.player.carListings.push(listing);
+
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    return { ok: true, listing: cloneCarListing(listing) };
+  }
+
+  /**
+   * Take a car off the market. Its open offers are withdrawn.
+   * @returns False if the car isn't listed
+   */
+  public delistCar(carId: string): boolean {
+    const listing = this.player.carListings.find((entry) => entry.carId === carId);
+    if (!listing) return false;
+
+    this.recordUndoPoint(`Delist ${listing.carName}`);
+    this.player.carListings = this.player.carListings.filter((entry) => entry !== listing);
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    return true;
+  }
+
+  /**
+   * Sell a listed car to a buyer at their offer.
+   * @returns The archived record, or null if the offer is gone
+   */
+  public acceptBuyerOffer(carId: string, offerId: string): PastCarRecord | null {
+    const listing = this.player.carListings.find((entry) => entry.carId === carId);
+    const offer = listing?.offers.find((entry) => entry.id === offerId);
+    if (!listing || !offer) return null;
+
+    return this.sellCar(carId, offer.amount, { counterpart: offer.buyer, note: 'Private listing' });
+  }
+
+  /**
+   * Turn down a buyer's offer.
+   * @returns False if the offer is gone
+   */
+  public declineBuyerOffer(carId: string, offerId: string): boolean {
+    const listing = this.player.carListings.find((entry) => entry.carId === carId);
+    const offer = listing?.offers.find((entry) => entry.id === offerId);
+    if (!listing || !offer) return false;
+
+    this.recordUndoPoint(`Decline ${offer.buyer}'s offer`);
+    listing.offers = listing.offers.filter((entry) => entry !== offer);
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    return true;
+  }
+
+  /**
+   * Answer a buyer's offer with a counter-offer. Buyers take any price up to their hidden maximum
+   * (the car is sold at once); anything more and they walk away.
+   * @returns The archived record if the buyer took it, 'walked' if they left, or null if the offer is gone
+   */
+  public counterBuyerOffer(carId: string, offerId: string, price: number): PastCarRecord | 'walked' | null {
+    const listing = this.player.carListings.find((entry) => entry.carId === carId);
+    const offer = listing?.offers.find((entry) => entry.id === offerId);
+    if (!listing || !offer || !Number.isFinite(price)) return null;
+
+    const counter = Math.round(price);
+    if (isCounterOfferAccepted(offer, counter)) {
+      return this.sellCar(carId, counter, { counterpart: offer.buyer, note: 'Private listing (countered)' });
+    }
+
+    this.recordUndoPoint(`Counter ${offer.buyer}'s offer`);
+    listing.offers = listing.offers.filter((entry) => entry !== offer);
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    return 'walked';
+  }
+
+  /**
+   * Check whether a car can be consigned to an auction house with this reserve price today.
+   * @param reservePrice - Lowest hammer price the player accepts (0 = no reserve)
+   */
+  public canConsignCar(
+    carId: string,
+    locationId: string,
+    reservePrice: number
+  ):
+    | { ok: true }
+    | { ok: false; reason: ConsignmentBlocker } {
+    const car = this.player.inventory.find((c) => c.id === carId);
+    if (!car) return { ok: false, reason: 'not-owned' };
+    if (this.isCarInWorkshop(carId)) return { ok: false, reason: 'in-workshop' };
+    if (car.inCollection) return { ok: false, reason: 'in-collection' };
+    if (this.isCarListed(carId)) return { ok: false, reason: 'listed' };
+
+    const location = getBaseLocationDefinitionById(locationId);
+    if (!location || location.type !== 'auction') return { ok: false, reason: 'not-auction' };
+    if (this.player.prestige < (location.unlockPrestige ?? 0)) return { ok: false, reason: 'locked' };
+
+    const range = getReservePriceRange(Economy.getSalePrice(car, this));
+    if (!Number.isFinite(reservePrice) || reservePrice < range.min || reservePrice > range.max) {
+      return { ok: false, reason: 'invalid-reserve' };
+    }
+    if (!this.canSpendTime(getGameConfig().time.consignmentCost)) return { ok: false, reason: 'no-time' };
+    return { ok: true };
+  }
+
+  /**
+   * Settle a consignment auction once the rivals have finished bidding (see `canConsignCar`).
+   * Charges the time either way; if the hammer price reaches the reserve, the car is sold to the
+   * winning bidder and the house takes its seller's commission.
+   * @param bidding - The last bid and who placed it (null if nobody bid)
+   * @returns The archived record (null if the car went unsold) and the commission paid
+   */
+  public settleConsignment(
+    carId: string,
+    locationId: string,
+    reservePrice: number,
+    bidding: { hammerPrice: number; buyer: string | null }
+  ):
+    | { ok: true; record: PastCarRecord | null; commission: number }
+    | { ok: false; reason: ConsignmentBlocker } {
+    const check = this.canConsignCar(carId, locationId, reservePrice);
+    if (!check.ok) return check;
+
+    const car = this.player.inventory.find((c) => c.id === carId);
+    const house = getBaseLocationDefinitionById(locationId)?.name ?? 'Auction';
+    if (!car) return { ok: false, reason: 'not-owned' };
+
+    this.recordUndoPoint(`Consign ${car.name}`);
+    this.trySpendTime(getGameConfig().time.consignmentCost);
+    if (!bidding.buyer || !isReserveMet(bidding.hammerPrice, reservePrice)) {
+      this.debouncedSave({ critical: true });
+      return { ok: true, record: null, commission: 0 };
+    }
+
+    const commission = getSellersCommission(bidding.hammerPrice, this.getAuctionHouseFees(locationId));
+    const record = this.sellCar(carId, bidding.hammerPrice, {
+      counterpart: bidding.buyer,
+      note: house,
+      commission: { amount: commission, house },
+    });
+    if (!record) return { ok: false, reason: 'not-owned' };
+    return { ok: true, record, commission };
+  }
+
+  /**
+   * The player's membership tier at an auction house, or null if they aren't a member.
+   */
+  public getAuctionMembership(locationId: string): AuctionMembershipTier | null {
+    const tierId = this.player.auctionMemberships[locationId];
+    return tierId ? getAuctionMembershipTier(locationId, tierId) : null;
+  }
+
+  /**
+   * Fees the player pays at a location today, after their membership (none outside auction houses).
+   */
+  public getAuctionHouseFees(locationId: string): AuctionHouseFees {
+    return getAuctionHouseFees(locationId, this.player.auctionMemberships[locationId]);
+  }
+
+  /**
+   * Join an auction house's membership tier (or upgrade to it) for a one-off joining fee.
+   * Tiers need the house's prestige threshold; a member can only move up.
+   */
+  public joinAuctionHouse(
+    locationId: string,
+    tierId: string
+  ): { ok: true } | { ok: false; reason: AuctionMembershipBlocker } {
+    const tier = getAuctionMembershipTier(locationId, tierId);
+    const location = getBaseLocationDefinitionById(locationId);
+    if (!tier || !location?.memberships) return { ok: false, reason: 'unknown' };
+    if (this.player.prestige < tier.unlockPrestige) return { ok: false, reason: 'locked' };
+
+    const current = this.getAuctionMembership(locationId);
+    const tierIndex = (id: string): number => location.memberships?.findIndex((entry) => entry.id === id) ?? -1;
+    if (current && tierIndex(current.id) >= tierIndex(tier.id)) return { ok: false, reason: 'already-member' };
+    if (this.player.money < tier.joiningFee) return { ok: false, reason: 'no-money' };
+
+    this.recordUndoPoint(`Join ${location.name}`);
+    if (
+      !this.spendMoney(tier.joiningFee, {
+        category: 'auction-fee',
+        counterpart: location.name,
+        note: `Membership: ${tier.name}`,
+      })
+    ) {
+      return { ok: false, reason: 'no-money' };
+    }
+
+    this.player.auctionMemberships[locationId] = tier.id;
+    this.debouncedSave({ critical: true });
+    return { ok: true };
+  }
+
+  /**
+   * Pay an auction house's entry fee for today's sale (free at houses and tiers without one).
+   * @returns False if the player can't afford it
+   */
+  public payAuctionEntryFee(locationId: string): boolean {
+    const { entryFee } = this.getAuctionHouseFees(locationId);
+    if (entryFee <= 0) return true;
+    const house = getBaseLocationDefinitionById(locationId)?.name ?? 'Auction';
+    return this.spendMoney(entryFee, { category: 'auction-fee', counterpart: house, note: 'Entry fee' });
+  }
+
+  /**
+   * New day for the marketplace: expired offers lapse, then buyers look at every listing.
+   * Runs at End Day after the day and market have advanced, so offers are dated by the new day.
+   */
+  private advanceCarListings(): { carId: string; carName: string; offer: BuyerOffer }[] {
+    const news: { carId: string; carName: string; offer: BuyerOffer }[] = [];
+    for (const listing of this.player.carListings) {
+      listing.offers = getOpenOffers(listing.offers, this.world.day);
+      const car = this.player.inventory.find((c) => c.id === listing.carId);
+      if (!car) continue;
+
+      const offers = rollBuyerOffers(listing, car, Economy.getSalePrice(car, this), this.world.day, this.rng.stream('buyers'));
+      listing.offers.push(...offers);
+      news.push(...offers.map((offer) => ({ carId: listing.carId, carName: listing.carName, offer: { ...offer } })));
+    }
+    return news;
+  }
+
+  /**
+   * Today's parts market listings, rolled on first request each day.
+   */
+  public getPartsMarket(): PartListing[] {
+    if (this.world.partsMarket === null) {
+      this.world.partsMarket = rollPartsMarket(this.marketSystem.getPartsPriceModifier(), this.rng.stream('parts'));
+    }
+    return this.world.partsMarket.map((listing) => ({ ...listing }));
+  }
+
+  /**
+   * Every part the player owns, including orders still on their way.
+   */
+  public getOwnedParts(): OwnedPart[] {
+    return this.player.parts.map((part) => ({ ...part }));
+  }
+
+  /**
+   * Which of the required parts aren't in stock today (one entry per missing unit).
+   */
+  public getMissingParts(requiredParts: readonly string[]): string[] {
+    return getMissingPartsInternal(this.player.parts, requiredParts, this.world.day);
+  }
+
+  /**
+   * Expected cost of the required parts: in-stock parts at what was paid, the rest at today's cheapest listing.
+   */
+  public estimatePartsCost(requiredParts: readonly string[]): number {
+    return estimatePartsCostInternal(this.player.parts, this.getPartsMarket(), requiredParts, this.world.day);
+  }
+
+  /**
+   * Buy one unit from a parts market listing. Parts with a delivery time arrive on a later day.
+   * @returns The bought part, or null if the listing is gone, sold out or unaffordable
+   */
+  public buyPartListing(listingId: string): OwnedPart | null {
+    this.getPartsMarket();
+    const listing = this.world.partsMarket?.find((entry) => entry.id === listingId);
+    if (!listing || listing.stock <= 0 || this.player.money < listing.price) return null;
+
+    const partName = getPartName(listing.partId);
+    this.recordUndoPoint(`Buy ${partName}`);
+    if (!this.spendMoney(listing.price, { category: 'parts', counterpart: listing.seller, note: partName })) return null;
+
+    listing.stock -= 1;
+    const part: OwnedPart = {
+      partId: listing.partId,
+      price: listing.price,
+      seller: listing.seller,
+      source: listing.source,
+      arrivesDay: this.world.day + listing.deliveryDays,
+    };
+    this.player.parts.push(part);
+    this.debouncedSave({ critical: true });
+    return { ...part };
+  }
+
+  /**
+   * The player's standing with a restoration specialist (a blank record if they have never met).
+   */
+  public getSpecialistRelationship(specialistId: string): SpecialistRelationship {
+    const relationship = this.player.specialists[specialistId];
+    return relationship ? { ...relationship } : { loyalty: 0, jobsCompleted: 0, contractEndsDay: null };
+  }
+
+  /**
+   * Whether a specialist takes work today (freelancers always do; the rest only under contract).
+   */
+  public isSpecialistAvailable(specialistId: string): boolean {
+    const specialist = getRestorationSpecialistById(specialistId);
+    return !!specialist && isSpecialistAvailable(specialist, this.player.specialists[specialistId], this.world.day);
+  }
+
+  /**
+   * Signing fee for a specialist's next contract, after their loyalty discount.
+   * @returns The fee, or null for freelancers and unknown ids
+   */
+  public getSpecialistSigningFee(specialistId: string): number | null {
+    const contract = getRestorationSpecialistById(specialistId)?.contract;
+    if (!contract) return null;
+    const { signingFeeDiscount } = getSpecialistLoyaltyEffects(this.getSpecialistRelationship(specialistId).loyalty);
+    return Math.floor(contract.signingFee * (1 - signingFeeDiscount));
+  }
+
+  /**
+   * Sign (or extend) a specialist's contract for `restoration.contractDays` days, starting today
+   * or when the current contract runs out.
+   * @returns The last day the contract covers, or null if the specialist is a freelancer or unaffordable
+   */
+  public hireSpecialist(specialistId: string): number | null {
+    const specialist = getRestorationSpecialistById(specialistId);
+    const fee = this.getSpecialistSigningFee(specialistId);
+    if (!specialist || fee === null) return null;
+
+    const relationship = this.getSpecialistRelationship(specialistId);
+    const contractDays = getGameConfig().economy.restoration.contractDays;
+    const startDay = Math.max(this.world.day, (relationship.contractEndsDay ?? 0) + 1);
+    const contractEndsDay = startDay + contractDays - 1;
+    const extending = this.isSpecialistAvailable(specialistId);
+    if (this.player.money < fee) return null;
+
+    this.recordUndoPoint(`${extending ? 'Extend' : 'Hire'} ${specialist.name}`);
+    const note = `${extending ? 'Contract extension' : 'Contract'}: ${contractDays} days`;
+    if (!this.spendMoney(fee, { category: 'restoration', counterpart: specialist.name, note })) return null;
+
+    this.player.specialists[specialistId] = { ...relationship, contractEndsDay };
+    this.debouncedSave({ critical: true });
+    return contractEndsDay;
+  }
+
+  /**
+   * Restoration options for a car from the specialists who take work today, priced with their loyalty discounts.
+   */
+  public getRestorationOptions(car: Car): RestorationOption[] {
+    return Economy.getRestorationOptions(car, this.player.specialists, this.world.day);
+  }
+
+  /**
+   * Booked workshop jobs in booking order.
+   */
+  public getRestorationQueue(): RestorationJob[] {
+    return this.player.restorationQueue.map(cloneRestorationJob);
+  }
+
+  /**
+   * The workshop job booked for a car, if any.
+   */
+  public getRestorationJob(carId: string): RestorationJob | null {
+    const job = this.player.restorationQueue.find((entry) => entry.carId === carId);
+    return job ? cloneRestorationJob(job) : null;
+  }
+
+  /**
+   * Where a car's workshop job stands today.
+   * @returns The status plus, for waiting jobs, their place in line (1 = next free bay); null if no job
+   */
+  public getRestorationJobStatus(carId: string): { status: RestorationJobStatus; queuePosition: number } | null {
+    return getRestorationJobStatusInternal(
+      this.player.restorationQueue,
+      carId,
+      getGameConfig().economy.restoration.workshopBays
+    );
+  }
+
+  /**
+   * Whether a car is booked into the workshop (and so can't be sold or moved).
+   */
+  public isCarInWorkshop(carId: string): boolean {
+    return this.player.restorationQueue.some((job) => job.carId === carId);
+  }
+
+  /**
+   * Book a challenge or restoration into the workshop. The job's parts are taken from stock,
+   * its labor is paid and the booking time is spent now; the work is applied once the job
+   * has had `durationDays` of bay time.
+   * @param options.finishToday - Do the work immediately (the tutorial's first restoration)
+   * @param options.guaranteedSuccess - With finishToday: ignore the specialist's risk and discoveries
+   * @returns The booked job (and its result when finished today), or why it couldn't be booked
+   */
+  public startRestorationJob(
+    carId: string,
+    work: RestorationWork,
+    options: { finishToday?: boolean; guaranteedSuccess?: boolean } = {}
+  ):
+    | { ok: true; job: RestorationJob; completed: RestorationJobResult | null }
+    | {
+        ok: false;
+        reason: 'not-owned' | 'in-workshop' | 'listed' | 'not-hired' | 'no-time' | 'missing-parts' | 'no-money';
+      } {
+    const car = this.player.inventory.find((c) => c.id === carId);
+    if (!car) return { ok: false, reason: 'not-owned' };
+    if (this.isCarInWorkshop(carId)) return { ok: false, reason: 'in-workshop' };
+    if (this.isCarListed(carId)) return { ok: false, reason: 'listed' };
+    if (work.kind === 'restoration' && !this.isSpecialistAvailable(work.option.specialist)) {
+      return { ok: false, reason: 'not-hired' };
+    }
+
+    const timeCost = work.kind === 'challenge' ? work.challenge.timeCost : work.option.timeCost;
+    if (!this.canSpendTime(timeCost)) return { ok: false, reason: 'no-time' };
+
+    const requiredParts = work.kind === 'challenge' ? work.challenge.requiredParts : work.option.requiredParts;
+    const stock = takePartsFromStock(this.player.parts, requiredParts, this.world.day);
+    if (!stock) return { ok: false, reason: 'missing-parts' };
+
+    const job = buildRestorationJob(car, work, this.world.day, stock.taken);
+    const ledgerTag: LedgerTag = {
+      category: 'restoration',
+      carId,
+      carName: car.name,
+      ...(job.specialist ? { counterpart: getRestorationSpecialistName(job.specialist) } : {}),
+      note: job.name,
+    };
+    if (this.player.money < job.cost) return { ok: false, reason: 'no-money' };
+
+    this.recordUndoPoint(`${job.name} on ${car.name}`);
+    if (!this.spendMoney(job.cost, ledgerTag)) return { ok: false, reason: 'no-money' };
+    if (!this.trySpendTime(timeCost)) {
+      // Safety: should be unreachable because we just validated canSpendTime.
+      this.addMoney(job.cost, { ...ledgerTag, note: `Refund: ${job.name}` });
+      return { ok: false, reason: 'no-time' };
+    }
+
+    this.player.parts = stock.remaining;
+    this.player.restorationQueue.push(job);
+    const completed = options.finishToday ? this.finishRestorationJob(job, options.guaranteedSuccess === true) : null;
 
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    if (completed) eventBus.emit('restoration-complete', completed);
+    return { ok: true, job: cloneRestorationJob(job), completed };
+  }
+
+  /**
+   * Pause or resume a workshop job. A paused job keeps its place in line but frees its bay.
+   * @returns False if the car has no job
+   */
+  public setRestorationJobPaused(carId: string, paused: boolean): boolean {
+    const job = this.player.restorationQueue.find((entry) => entry.carId === carId);
+    if (!job) return false;
+    if (job.paused === paused) return true;
+
+    this.recordUndoPoint(`${paused ? 'Pause' : 'Resume'} work on ${job.carName}`);
+    job.paused = paused;
     this.emitInventoryChanged();
     this.debouncedSave({ critical: true });
     return true;
   }
 
+  /**
+   * Price to finish a job today: `rushCostRatePerDay` of its cost for each remaining day.
+   * @returns The rush price, or null if the car has no job
+   */
+  public getRestorationRushCost(carId: string): number | null {
+    const job = this.player.restorationQueue.find((entry) => entry.carId === carId);
+    if (!job) return null;
+    return calculateRushCost(job, getGameConfig().economy.restoration.rushCostRatePerDay);
+  }
+
+  /**
+   * Pay the rush price and finish a job now.
+   * @returns The job result, or null if the car has no job or the player can't afford it
+   */
+  public rushRestorationJob(carId: string): RestorationJobResult | null {
+    const job = this.player.restorationQueue.find((entry) => entry.carId === carId);
+    const rushCost = this.getRestorationRushCost(carId);
+    if (!job || rushCost === null || this.player.money < rushCost) return null;
+
+    this.recordUndoPoint(`Rush ${job.name} on ${job.carName}`);
+    const ledgerTag: LedgerTag = { category: 'restoration', carId, carName: job.carName, note: `Rush: ${job.name}` };
+    if (!this.spendMoney(rushCost, ledgerTag)) return null;
+
+    const completed = this.finishRestorationJob(job, false);
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    if (completed) eventBus.emit('restoration-complete', completed);
+    return completed;
+  }
+
+  /**
+   * Cancel a job that hasn't been worked on yet, refunding its labor and returning its parts
+   * to stock (booking time is not refunded).
+   * @returns False if the car has no job or work has already started
+   */
+  public cancelRestorationJob(carId: string): boolean {
+    const index = this.player.restorationQueue.findIndex((entry) => entry.carId === carId);
+    const job = this.player.restorationQueue[index];
+    if (!job || job.daysWorked > 0) return false;
+
+    this.recordUndoPoint(`Cancel ${job.name} on ${job.carName}`);
+    this.player.restorationQueue.splice(index, 1);
+    this.player.parts.push(...job.parts);
+    this.addMoney(job.cost, { category: 'restoration', carId, carName: job.carName, note: `Refund: ${job.name}` });
+    this.emitInventoryChanged();
+    this.debouncedSave({ critical: true });
+    return true;
+  }
+
+  /**
+   * Apply a job's work to its car and take it off the queue. Callers emit and save.
+   */
+  private finishRestorationJob(job: RestorationJob, guaranteedSuccess: boolean): RestorationJobResult | null {
+    this.player.restorationQueue = this.player.restorationQueue.filter((entry) => entry !== job);
+    const car = this.player.inventory.find((c) => c.id === job.carId);
+    if (!car) return null;
+
+    const applied = applyRestorationJob(car, job, {
+      day: this.world.day,
+      guaranteedSuccess,
+      random: this.rng.stream('restoration'),
+    });
+    replaceCarById({ inventory: this.player.inventory, updatedCar: applied.car });
+    if (job.specialist) this.recordSpecialistJob(job.specialist);
+    return applied.result;
+  }
+
+  /**
+   * A specialist finished a job: count it and grow their loyalty.
+   */
+  private recordSpecialistJob(specialistId: string): void {
+    const loyaltyConfig = getGameConfig().economy.restoration.loyalty;
+    const relationship = this.getSpecialistRelationship(specialistId);
+    this.player.specialists[specialistId] = {
+      ...relationship,
+      loyalty: Math.min(loyaltyConfig.max, relationship.loyalty + loyaltyConfig.perJob),
+      jobsCompleted: relationship.jobsCompleted + 1,
+    };
+  }
+
+  /**
+   * Give each job with a bay a day of work and finish the ones that are done.
+   * Runs at End Day, so finished work is dated by the day that is ending.
+   */
+  private advanceRestorationQueue(): RestorationJobResult[] {
+    const bays = getGameConfig().economy.restoration.workshopBays;
+    for (const job of getWorkedJobs(this.player.restorationQueue, bays)) {
+      job.daysWorked += 1;
+    }
+
+    const results: RestorationJobResult[] = [];
+    for (const job of this.player.restorationQueue.filter((entry) => entry.daysWorked >= entry.daysRequired)) {
+      const result = this.finishRestorationJob(job, false);
+      if (result) results.push(result);
+    }
+    if (results.length > 0) this.emitInventoryChanged();
+    return results;
+  }
+
   /**
    * Get current day statistics and reset for next day.
    * @returns Object with day stats before reset
@@ -848,15 +1747,37 @@ export class GameManager {
   /**
     * End the current day and start the next day.
    * Applies daily rent (based on garage slots). If rent cannot be paid, the player is bankrupt.
+   * Workshop jobs get a day of work; each one that finishes is emitted as 'restoration-complete'.
+   * The parts market restocks and parts ordered for the new day arrive.
+   * Offers on listed cars expire and private buyers make new ones.
    */
   public endDay(): EndDayResult {
     const rent = this.getDailyRent();
     if (this.player.money < rent) {
-      return { bankrupt: true, requiredRent: rent };
+      if (this.isIronman()) {
+        this.archiveEndedRun();
+        return { bankrupt: true, requiredRent: rent, runArchived: true };
+      }
+      return { bankrupt: true, requiredRent: rent, runArchived: false };
+    }
+
+    // Rent and the collection bonus belong to the day that is ending (ledger entries are dated by it).
+    const rentPaid = this.applyDailyRent();
+
+    // Apply collection prestige bonus
+    const collectionBonus = this.calculateCollectionPrestigeBonus();
+    if (collectionBonus > 0) {
+      this.addPrestige(collectionBonus, { category: 'collection-bonus' });
     }
 
+    const restorationsCompleted = this.advanceRestorationQueue();
+
     this.world.day += 1;
-    this.world.timeRemaining = TIME_UNITS_PER_DAY;
+    this.world.timeRemaining = getGameConfig().time.unitsPerDay;
+    const partsArrived = this.player.parts.filter((part) => part.arrivesDay === this.world.day).map((part) => ({ ...part }));
+
+    // New day: the parts market restocks (rolled on first visit).
+    this.world.partsMarket = null;
 
     // New day: re-roll daily rival presence (but keep it stable within the day).
     this.resetDailyRivalPresence();
@@ -864,20 +1785,15 @@ export class GameManager {
     // New day: re-roll per-location daily car offers.
     this.resetDailyCarOffers();
 
-    const rentPaid = this.applyDailyRent();
-
-    // Apply collection prestige bonus
-    const collectionBonus = this.calculateCollectionPrestigeBonus();
-    if (collectionBonus > 0) {
-      this.addPrestige(collectionBonus);
-    }
-
     // Advance market system (potentially trigger new events)
     this.marketSystem.advanceDay(this.world.day);
 
     // Advance special events system (potentially generate new events)
     this.specialEventsSystem.advanceDay(this.world.day);
 
+    // New day: buyers make offers on listed cars at the new day's market prices.
+    const buyerOffers = this.advanceCarListings();
+
     // Check for victory condition
     const victoryCheck = this.checkVictory();
     if (victoryCheck.hasWon) {
@@ -886,9 +1802,29 @@ export class GameManager {
 
     this.emitDayChanged();
     this.emitTimeChanged();
+    for (const result of restorationsCompleted) {
+      eventBus.emit('restoration-complete', result);
+    }
 
+    // End of day is the hard checkpoint: nothing before it can be rewound.
+    this.undoJournal.clear();
     this.save(); // Immediate save on day end (critical checkpoint)
-    return { bankrupt: false, rentPaid };
+    return { bankrupt: false, rentPaid, restorationsCompleted, partsArrived, buyerOffers };
+  }
+
+  /**
+   * Ironman game over: write the final state, archive the slot so it can never be loaded again,
+   * and stop saving. The run stays in memory until the player starts a new game.
+   */
+  private archiveEndedRun(): void {
+    this.saver.clearPending();
+    this.save();
+    if (this.activeSlotId) {
+      archiveSaveSlot(this.activeSlotId, { reason: 'bankrupt', day: this.world.day });
+    }
+    this.activeSlotId = null;
+    this.runEnded = true;
+    this.undoJournal.clear();
   }
 
   /**
@@ -920,11 +1856,12 @@ export class GameManager {
    * @returns True if player leveled up
    */
   public addSkillXP(skill: SkillKey, amount: number): boolean {
-    const config = GAME_CONFIG.player.skillProgression;
+    const config = getGameConfig().player.skillProgression;
     const currentLevel = this.player.skills[skill];
     
     // Max level reached
     if (!isValidXPGain(amount) || isMaxLevel(config, currentLevel)) return false;
+    this.recordUndoPoint('Gain skill XP');
 
     const requiredXP = getRequiredXPForNextLevel(config, currentLevel); // XP needed for NEXT level
     const { newXP, shouldLevelUp } = computeXPAward({
@@ -962,7 +1899,7 @@ export class GameManager {
    * @returns Object with current XP and required XP for next level
    */
   public getSkillProgress(skill: SkillKey): { current: number; required: number; level: number } {
-    const config = GAME_CONFIG.player.skillProgression;
+    const config = getGameConfig().player.skillProgression;
     const level = this.player.skills[skill];
     const currentXP = this.player.skillXP[skill];
     const requiredXP = getRequiredXPForNextLevel(config, level);
@@ -986,10 +1923,11 @@ export class GameManager {
       return false; // Already visited
     }
 
+    this.recordUndoPoint('Discover location');
     visitedLocations.add(locationId);
     
     // Award Network XP for discovering new location (addSkillXP emits xp-gained event)
-    const networkXPGain = GAME_CONFIG.player.skillProgression.xpGains.travelNewLocation;
+    const networkXPGain = getGameConfig().player.skillProgression.xpGains.travelNewLocation;
     this.addSkillXP('network', networkXPGain);
 
     // Ensure the new visited location persists even if XP is maxed.
@@ -1004,7 +1942,7 @@ export class GameManager {
    * @returns Victory result with breakdown of each condition
    */
   public checkVictory(): VictoryResult {
-    const config = GAME_CONFIG.victory;
+    const config = getGameConfig().victory;
     
     // Check prestige
     const prestigeMet = this.player.prestige >= config.requiredPrestige;
@@ -1063,6 +2001,7 @@ export class GameManager {
    * Remove a completed special event.
    */
   public removeSpecialEvent(eventId: string): void {
+    this.recordUndoPoint('Attend special event');
     this.specialEventsSystem.removeEvent(eventId);
   }
 
@@ -1075,6 +2014,93 @@ export class GameManager {
     this.emitLocationChanged(location);
   }
 
+  /**
+   * Whether in-day rewind can be used right now.
+   * Off for Ironman runs, and while the tutorial runs (its script assumes actions stick).
+   */
+  public isUndoAvailable(): boolean {
+    return this.undoEnabled && !TutorialManager.getInstance().isTutorialActive();
+  }
+
+  /**
+   * Name the action about to happen (e.g. "Sell 1967 Mustang") for the undo history.
+   * Scenes call this before a compound action. The first mutation in the same tick records the
+   * undo point under this label; if nothing ends up changing (e.g. insufficient funds), no point is recorded.
+   */
+  public markUndoPoint(label: string): void {
+    if (this.undoPointOpen) return;
+    this.pendingUndoLabel = label;
+    queueMicrotask(() => {
+      this.pendingUndoLabel = null;
+    });
+  }
+
+  /**
+   * Snapshot state before a mutation, once per synchronous action.
+   * Nested and follow-up mutations in the same tick (e.g. sell = add money + remove car) share the point.
+   */
+  private recordUndoPoint(fallbackLabel: string): void {
+    if (this.undoPointOpen || !this.isUndoAvailable()) return;
+
+    const label = this.pendingUndoLabel ?? fallbackLabel;
+    this.pendingUndoLabel = null;
+    this.undoPointOpen = true;
+    queueMicrotask(() => {
+      this.undoPointOpen = false;
+    });
+
+    this.undoJournal.record(label, {
+      player: this.player,
+      world: this.world,
+      market: this.marketSystem.getState(),
+      specialEvents: this.specialEventsSystem.getState(),
+      rng: this.rng.getState(),
+      ledgerMark: this.ledger.mark(),
+    });
+  }
+
+  /**
+   * Points of the current day that can be rewound to, most recent first.
+   * Empty when undo is unavailable.
+   */
+  public getUndoHistory(): UndoPoint[] {
+    if (!this.isUndoAvailable()) return [];
+    return this.undoJournal.list().reverse();
+  }
+
+  /**
+   * Rewind the current day to just before an undo point (later points are discarded).
+   * Keeps the current location, emits all state events and saves immediately.
+   * @returns False if undo is unavailable or the point is no longer in the journal
+   */
+  public rewindTo(pointId: number): boolean {
+    if (!this.isUndoAvailable()) return false;
+
+    const snapshot = this.undoJournal.takeUntil(pointId);
+    if (!snapshot) return false;
+
+    const currentLocation = this.world.currentLocation;
+    this.player = snapshot.player;
+    this.world = { ...snapshot.world, currentLocation };
+    this.marketSystem.loadState(snapshot.market);
+    this.specialEventsSystem.loadState(snapshot.specialEvents);
+    // Restoring the RNG too means redoing the same action replays the same rolls.
+    this.rng.loadState(snapshot.rng);
+    this.ledger.rewindTo(snapshot.ledgerMark);
+
+    this.emitAllStateEvents();
+    this.saver.clearPending();
+    this.save();
+    return true;
+  }
+
+  /**
+   * Every recorded money/prestige movement of the run, oldest first.
+   */
+  public getLedgerEntries(): LedgerEntry[] {
+    return this.ledger.list();
+  }
+
   /**
    * Get a copy of a car from inventory by ID.
    * Returns a copy to prevent unintended mutations.
@@ -1090,16 +2116,48 @@ export class GameManager {
    * Reset game state to initial values.
     * Resets player to starting money, clears inventory, resets skills.
     * Resets world to day 1, business day start, at garage.
+   * Reseeds the RNG (pass a seed to replay a specific run).
+   * Detaches from the current save slot so the new run saves into a fresh slot.
    * Emits all relevant change events.
+   * @param settings - Rules for the new run (game mode); stored in its save
    */
-  public reset(): void {
-    this.initializeDefaultState();
+  public reset(seed?: number, settings: Readonly<RunSettings> = DEFAULT_RUN_SETTINGS): void {
+    this.activeSlotId = null;
+    this.runEnded = false;
+    this.undoJournal.clear();
+    this.applyRunSettings(settings);
+    this.initializeDefaultState(seed);
+    // Market and special events are run-scoped; don't carry them into a new game.
+    this.marketSystem.reset();
+    this.specialEventsSystem.reset();
     // Reset tutorial state for new game
     const tutorialManager = TutorialManager.getInstance();
     tutorialManager.reset();
     this.emitAllStateEvents();
   }
 
+  /** Rules the current run was started with. */
+  public getRunSettings(): Readonly<RunSettings> {
+    return getActiveRunSettings();
+  }
+
+  /** True for Ironman runs: no manual load or rewind, permanent bankruptcy, harsher economy. */
+  public isIronman(): boolean {
+    return getActiveRunSettings().mode === 'ironman';
+  }
+
+  /** Whether the in-game Load Game action is allowed (Ironman runs can't reload). */
+  public canManualLoad(): boolean {
+    return !this.isIronman();
+  }
+
+  /**
+   * Get the RNG seed of the current run (for bug reports and reproducible replays).
+   */
+  public getRngSeed(): number {
+    return this.rng.getSeed();
+  }
+
   /**
    * Schedule a debounced save.
    * Multiple calls within the debounce window will result in a single save.
@@ -1109,19 +2167,21 @@ export class GameManager {
   }
 
   /**
-   * Save current game state to localStorage.
+   * Get the id of the save slot the current run writes to (null before its first save).
+   */
+  public getActiveSlotId(): string | null {
+    return this.activeSlotId;
+  }
+
+  /**
+   * Save current game state to the active save slot in localStorage.
+   * Creates a new slot on the first save of a new game.
    * @returns True if save succeeded, false otherwise
    */
   public save(): boolean {
+    if (this.runEnded) return false;
     try {
-      const tutorialManager = TutorialManager.getInstance();
-      writeCurrentGameSave({
-        player: this.player,
-        world: this.world,
-        market: this.marketSystem.getState(),
-        specialEvents: this.specialEventsSystem.getState(),
-        tutorial: tutorialManager.getState(),
-      });
+      this.activeSlotId = writeGameSaveToSlot(this.activeSlotId, this.exportSaveData());
       debugLog('Game saved successfully');
       return true;
     } catch (error) {
@@ -1131,19 +2191,90 @@ export class GameManager {
   }
 
   /**
-   * Load game state from localStorage.
+   * Build a save payload from the current in-memory state (e.g. for export) without writing it.
+   */
+  public exportSaveData(): SavedGameData {
+    const tutorialManager = TutorialManager.getInstance();
+    return buildCurrentGameSave({
+      player: this.player,
+      world: this.world,
+      market: this.marketSystem.getState(),
+      specialEvents: this.specialEventsSystem.getState(),
+      tutorial: tutorialManager.getState(),
+      rng: this.rng.getState(),
+      run: getActiveRunSettings(),
+      ledger: this.ledger.getState(),
+    });
+  }
+
+  /**
+   * Write an imported save into a slot and load it.
+   * @param saveData - Validated, migrated save data (see parseSaveImportFile)
+   * @param options.asNewSlot - Create a new slot instead of overwriting the active one (always, during an Ironman run)
+   * @returns True if the import was written and loaded (Ironman runs are refused)
+   */
+  public importSaveData(saveData: SavedGameData, options?: { asNewSlot?: boolean }): boolean {
+    if (saveData.run?.mode === 'ironman') {
+      warnLog('Refusing to import an Ironman run.');
+      return false;
+    }
+    try {
+      this.saver.clearPending();
+      const asNewSlot = options?.asNewSlot === true || this.isIronman();
+      const slotId = writeGameSaveToSlot(asNewSlot ? null : this.activeSlotId, saveData);
+      if (!this.load(slotId)) return false;
+      this.emitAllStateEvents();
+      return true;
+    } catch (error) {
+      errorLog('Failed to import save:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Take the repair report from the last load, if that load had to fix anything.
+   * Returns null when there is nothing to show; the report is cleared once taken.
+   */
+  public consumeSaveRepairReport(): SaveValidationReport | null {
+    const report = this.pendingRepairReport;
+    this.pendingRepairReport = null;
+    return report;
+  }
+
+  /**
+   * Load game state from a save slot in localStorage.
+   * Archived (ended Ironman) slots are refused.
+   * @param slotId - Slot to load; defaults to the current run's slot, then the last active slot
    * @returns True if load succeeded, false otherwise
    */
-  public load(): boolean {
+  public load(slotId?: string): boolean {
     try {
-      const loaded = readAndHydrateCurrentGameSave();
+      const targetSlotId = slotId ?? this.activeSlotId ?? getActiveSaveSlotId();
+      if (!targetSlotId) return false;
+      if (getSaveSlot(targetSlotId)?.archived) {
+        warnLog(`Save slot ${targetSlotId} is an archived run and can't be loaded.`);
+        return false;
+      }
+
+      const loaded = readAndHydrateCurrentGameSave(targetSlotId);
       if (!loaded) {
         // Could be no save, parse failure, or version mismatch.
         return false;
       }
 
+      this.pendingRepairReport = hasSaveRepairs(loaded.report) ? loaded.report : null;
+
+      // Subsequent saves go back into the slot we loaded from.
+      this.saver.clearPending();
+      this.activeSlotId = targetSlotId;
+      setActiveSaveSlotId(targetSlotId);
+
+      this.runEnded = false;
+      this.undoJournal.clear();
+      this.applyRunSettings(loaded.run ?? DEFAULT_RUN_SETTINGS);
       this.player = loaded.player;
       this.world = loaded.world;
+      this.ledger.loadState(loaded.ledger);
 
       this.ensureSaveCompatPlayerState();
       this.ensureSaveCompatWorldState();
@@ -1152,6 +2283,12 @@ export class GameManager {
       this.sanitizeDailyRivalPresenceMap();
       this.sanitizeDailyOfferMap();
 
+      // Restore RNG streams so the run continues deterministically.
+      // Older saves have no RNG state and keep the fresh seed picked at startup.
+      if (loaded.rng) {
+        this.rng.loadState(loaded.rng);
+      }
+
       // Load market state if available (backwards compatibility)
       if (loaded.market) {
         this.marketSystem.loadState(loaded.market);
@@ -1,71 +1,27 @@
-import type { PlayerState, WorldState } from '@/core/game-manager';
+import type { LedgerState, PlayerState, WorldState } from '@/core/game-manager';
 import type { MarketFluctuationState } from '@/systems/market-fluctuation-system';
 import type { SpecialEventsState } from '@/systems/special-events-system';
 import type { TutorialStep } from '@/systems/tutorial-manager';
-import { GAME_CONFIG } from '@/config/game-config';
+import { DEFAULT_RUN_SETTINGS, resolveGameConfig } from '@/config/run-config';
 import { isRecord } from '@/utils/types';
+import { isRngState, type RngState } from '@/core/rng';
 import { warnLog } from '@/utils/log';
+import type { RunSettings } from '@/config/run-config';
+import {
+  LATEST_SAVE_VERSION,
+  migrateLegacyInventoryFields,
+  migrateLegacyPlayerFields,
+  runSaveMigrations,
+} from '@/core/save-migrations';
 
-/** LocalStorage key used for the game's save slot. */
+/**
+ * LocalStorage key of the original single save.
+ * Slot saves are stored under `${SAVE_KEY}:<slotId>` (see save-slots.ts).
+ */
 export const SAVE_KEY = 'theCuratorSave';
 
-/** Current save schema version for migration/compat checks. */
-export const SAVE_VERSION = '1.1';
-
-function migrateLegacyInventoryFields(inventory: unknown): unknown {
-  if (!Array.isArray(inventory)) return inventory;
-
-  return inventory.map((item) => {
-    if (!item || typeof item !== 'object') return item;
-    const car = item as Record<string, unknown>;
-
-    // Legacy field name from older saves: `displayInMuseum`.
-    const hasLegacyDisplayFlag = typeof car.displayInMuseum === 'boolean';
-    const hasNewInCollectionFlag = typeof car.inCollection === 'boolean';
-
-    if (hasLegacyDisplayFlag && !hasNewInCollectionFlag) {
-      const { displayInMuseum, ...rest } = car;
-      return {
-        ...rest,
-        inCollection: displayInMuseum,
-      };
-    }
-
-    // Strip legacy field to avoid confusion going forward.
-    if ('displayInMuseum' in car) {
-      const { displayInMuseum: _legacy, ...rest } = car;
-      return rest;
-    }
-
-    return item;
-  });
-}
-
-function migrateLegacyPlayerFields(player: unknown): unknown {
-  if (!player || typeof player !== 'object') return player;
-
-  const obj = player as Record<string, unknown>;
-  const migrated: Record<string, unknown> = { ...obj };
-
-  if ('inventory' in migrated) {
-    migrated.inventory = migrateLegacyInventoryFields(migrated.inventory);
-  }
-
-  // Legacy field name (pre-sets rename): `claimedCollections`.
-  // Normalize to `claimedSets` and strip the legacy key.
-  const hasClaimedSets = Array.isArray(migrated.claimedSets);
-  const hasClaimedCollections = Array.isArray(migrated.claimedCollections);
-
-  if (!hasClaimedSets && hasClaimedCollections) {
-    migrated.claimedSets = migrated.claimedCollections;
-  }
-
-  if ('claimedCollections' in migrated) {
-    delete migrated.claimedCollections;
-  }
-
-  return migrated;
-}
+/** Current save schema version (the last step of SAVE_MIGRATIONS). */
+export const SAVE_VERSION = LATEST_SAVE_VERSION;
 
 /**
  * Saved game data structure.
@@ -82,6 +38,12 @@ export interface SavedGameData {
   market?: MarketFluctuationState;
   specialEvents?: SpecialEventsState;
   tutorial?: { currentStep: string; isActive: boolean };
+  /** Seeded RNG state (seed + per-stream positions). Missing in saves from before seeded RNG. */
+  rng?: RngState;
+  /** Rules the run was started with (mode). Stamped 'standard' on saves from before run settings. */
+  run?: RunSettings;
+  /** Transaction ledger. Starts empty in saves from before the ledger existed. */
+  ledger?: LedgerState;
   version: string;
 }
 
@@ -95,8 +57,11 @@ export function buildSaveData(params: {
   market?: MarketFluctuationState;
   specialEvents?: SpecialEventsState;
   tutorial?: { currentStep: TutorialStep; isActive: boolean };
+  rng?: RngState;
+  run?: RunSettings;
+  ledger?: LedgerState;
 }): SavedGameData {
-  const { player, world, market, specialEvents, tutorial } = params;
+  const { player, world, market, specialEvents, tutorial, rng, run, ledger } = params;
 
   return {
     player: {
@@ -108,92 +73,91 @@ export function buildSaveData(params: {
     market,
     specialEvents,
     tutorial: tutorial ? { currentStep: tutorial.currentStep, isActive: tutorial.isActive } : undefined,
+    rng,
+    run: run ? { ...run } : undefined,
+    ledger,
     version: SAVE_VERSION,
   };
 }
 
-/** Writes a save snapshot to localStorage under SAVE_KEY. */
-export function writeSaveData(saveData: SavedGameData): void {
-  localStorage.setItem(SAVE_KEY, JSON.stringify(saveData));
+/** Writes a save snapshot to localStorage (defaults to the legacy SAVE_KEY). */
+export function writeSaveData(saveData: SavedGameData, storageKey: string = SAVE_KEY): void {
+  localStorage.setItem(storageKey, JSON.stringify(saveData));
+}
+
+/** LocalStorage key holding the pre-migration copy of a save (one per source version). */
+export function getSaveBackupKey(storageKey: string, fromVersion: string): string {
+  return `${storageKey}:backup:v${fromVersion}`;
+}
+
+/** Remove every pre-migration backup of a save. */
+export function removeSaveBackups(storageKey: string): void {
+  const prefix = `${storageKey}:backup:`;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  keys.forEach((key) => localStorage.removeItem(key));
 }
 
 /**
- * Reads, validates, and migrates saved game data from localStorage.
- * Returns null when no save exists or the save is invalid/unsupported.
+ * Keep the original blob before a migration rewrites it, so a bad migration can be recovered by hand.
+ * The first backup per source version wins; a failed backup never blocks loading.
  */
-export function readSaveData(): SavedGameData | null {
-  const raw = localStorage.getItem(SAVE_KEY);
-  if (!raw) return null;
-
+function backupPreMigrationSave(storageKey: string, fromVersion: string, raw: string): void {
+  const backupKey = getSaveBackupKey(storageKey, fromVersion);
   try {
-    const parsedJson = JSON.parse(raw) as unknown;
-    const migrated = migrateSaveData(parsedJson);
-    if (!migrated) {
-      const maybeVersion =
-        isRecord(parsedJson)
-          ? parsedJson.version
-          : undefined;
-      const versionLabel = typeof maybeVersion === 'string' ? maybeVersion : 'missing/invalid';
-      warnLog(`Save rejected: unsupported or invalid version (${versionLabel}).`);
-      return null;
+    if (localStorage.getItem(backupKey) === null) {
+      localStorage.setItem(backupKey, raw);
     }
-
-    if (!migrated.player || !migrated.world) {
-      warnLog('Save rejected: missing required fields (player/world).');
-      return null;
-    }
-
-    return migrated;
   } catch (error) {
-    warnLog('Save rejected: invalid JSON.', error);
-    return null;
+    warnLog(`Could not back up save before migrating from v${fromVersion}.`, error);
   }
 }
 
 /**
- * Attempt to migrate parsed save data to the current SAVE_VERSION.
- *
- * Rules:
- * - Missing version: treat as legacy and upgrade to current.
- * - Unknown version: return null (caller should start fresh).
+ * Reads, validates, and migrates saved game data from localStorage (defaults to the legacy SAVE_KEY).
+ * Before an older save is migrated, its raw blob is backed up under getSaveBackupKey().
+ * Returns null when no save exists or the save is invalid/unsupported.
  */
-export function migrateSaveData(parsed: unknown): SavedGameData | null {
-  if (!isRecord(parsed)) return null;
+export function readSaveData(storageKey: string = SAVE_KEY): SavedGameData | null {
+  const raw = localStorage.getItem(storageKey);
+  if (!raw) return null;
 
-  const parsedValue: unknown = parsed;
-  const obj = parsed;
-  const version = obj.version;
+  let parsedJson: unknown;
+  try {
+    parsedJson = JSON.parse(raw) as unknown;
+  } catch (error) {
+    warnLog('Save rejected: invalid JSON.', error);
+    return null;
+  }
 
-  // Legacy saves (pre-versioning): accept, migrate, and stamp current.
-  if (version === undefined || version === null) {
-    const legacy = parsedValue as SavedGameData;
-    const migratedPlayer = migrateLegacyPlayerFields(legacy.player);
+  const result = runSaveMigrations(parsedJson);
+  if (!result.ok) {
+    warnLog(`Save rejected: ${result.error}`);
+    return null;
+  }
 
-    return {
-      ...legacy,
-      player: migratedPlayer as SavedGameData['player'],
-      version: SAVE_VERSION,
-    };
+  if (!result.saveData.player || !result.saveData.world) {
+    warnLog('Save rejected: missing required fields (player/world).');
+    return null;
   }
 
-  if (typeof version !== 'string') return null;
-  if (version === SAVE_VERSION) return parsedValue as SavedGameData;
+  if (result.applied.length > 0) {
+    backupPreMigrationSave(storageKey, result.fromVersion, raw);
+  }
 
-  // Future-proofing: add explicit migrations here when SAVE_VERSION changes.
-  switch (version) {
-    case '1.0': {
-      const v1 = parsedValue as SavedGameData;
-      const migratedPlayer = migrateLegacyPlayerFields(v1.player);
+  return result.saveData;
+}
 
-      return {
-        ...v1,
-        player: migratedPlayer as SavedGameData['player'],
-        version: SAVE_VERSION,
-      };
-    }
-    default:
-      return null;
-  }
+/**
+ * Attempt to migrate parsed save data to the current SAVE_VERSION via the registered chain.
+ * Returns null for newer, unknown, or malformed versions (see runSaveMigrations for the reason).
+ */
+export function migrateSaveData(parsed: unknown): SavedGameData | null {
+  const result = runSaveMigrations(parsed);
+  return result.ok ? result.saveData : null;
 }
 
 /** Parses a raw JSON string into valid, migrated save data (or null). */
@@ -213,7 +177,8 @@ export function tryParseSaveData(raw: string): SavedGameData | null {
 
 /**
  * Hydrates validated save data back into runtime state.
- * Reconstructs `Set` fields and applies defaults for missing values.
+ * Reconstructs `Set` fields and applies defaults for missing values, taken from the save's own run config
+ * (the active config still belongs to the previous run until GameManager applies the loaded settings).
  */
 export function hydrateLoadedState(saveData: SavedGameData): {
   player: PlayerState;
@@ -221,7 +186,11 @@ export function hydrateLoadedState(saveData: SavedGameData): {
   market?: MarketFluctuationState;
   specialEvents?: SpecialEventsState;
   tutorial?: { currentStep: string; isActive: boolean };
+  rng?: RngState;
+  run?: RunSettings;
+  ledger?: LedgerState;
 } {
+  const config = resolveGameConfig(saveData.run ?? DEFAULT_RUN_SETTINGS);
   const migratedPlayer = migrateLegacyPlayerFields(saveData.player);
   const rawPlayer = (isRecord(migratedPlayer) ? migratedPlayer : {}) as Partial<PlayerState> & {
     visitedLocations?: string[];
@@ -233,7 +202,7 @@ export function hydrateLoadedState(saveData: SavedGameData): {
     inventory: Array.isArray(rawPlayer.inventory)
       ? (migrateLegacyInventoryFields(rawPlayer.inventory) as PlayerState['inventory'])
       : [],
-    garageSlots: rawPlayer.garageSlots ?? 1,
+    garageSlots: rawPlayer.garageSlots ?? config.player.startingGarageSlots,
     prestige: rawPlayer.prestige ?? 0,
     bankLoanTaken: rawPlayer.bankLoanTaken ?? false,
     activeLoan: rawPlayer.activeLoan ?? null,
@@ -241,15 +210,29 @@ export function hydrateLoadedState(saveData: SavedGameData): {
     skillXP: rawPlayer.skillXP ?? { eye: 0, tongue: 0, network: 0 },
     visitedLocations: new Set(rawPlayer.visitedLocations ?? ['garage']),
     claimedSets: new Set(rawPlayer.claimedSets ?? []),
+    pastCars: rawPlayer.pastCars ?? [],
+    restorationQueue: (rawPlayer.restorationQueue ?? []).map((job) => ({
+      ...job,
+      parts: job.parts ?? [],
+      componentGains: job.componentGains ?? {},
+      reliability: job.reliability ?? 1,
+      originalityChange: job.originalityChange ?? 0,
+    })),
+    parts: rawPlayer.parts ?? [],
+    specialists: rawPlayer.specialists ?? {},
+    carListings: rawPlayer.carListings ?? [],
+    auctionMemberships: rawPlayer.auctionMemberships ?? {},
   };
 
   const rawWorld = saveData.world as Partial<WorldState>;
   const world: WorldState = {
     day: rawWorld.day ?? 1,
     currentLocation: rawWorld.currentLocation ?? 'garage',
-    timeRemaining: rawWorld.timeRemaining ?? GAME_CONFIG.time.unitsPerDay,
+    timeRemaining: rawWorld.timeRemaining ?? config.time.unitsPerDay,
     carOfferByLocation: rawWorld.carOfferByLocation ?? {},
+    auctionLotsByLocation: rawWorld.auctionLotsByLocation ?? {},
     rivalPresenceByLocation: rawWorld.rivalPresenceByLocation ?? {},
+    partsMarket: rawWorld.partsMarket ?? null,
     dayStats:
       rawWorld.dayStats ??
       ({
@@ -266,5 +249,8 @@ export function hydrateLoadedState(saveData: SavedGameData): {
     market: saveData.market,
     specialEvents: saveData.specialEvents,
     tutorial: saveData.tutorial,
+    rng: isRngState(saveData.rng) ? saveData.rng : undefined,
+    run: saveData.run,
+    ledger: saveData.ledger,
   };
 }
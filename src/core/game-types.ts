@@ -1,4 +1,5 @@
-import type { Car } from '@/data/car-database';
+import type { Car, CarComponentConditions, CarRestorationStep, CarTier } from '@/data/car-database';
+import type { RestorationChallenge, RestorationOption } from '@/systems/Economy';
 
 /**
  * Player State - Represents all player-owned resources and progression.
@@ -23,6 +24,18 @@ export interface PlayerState {
   };
   visitedLocations?: Set<string>; // Track locations for Network XP (first visit only)
   claimedSets?: Set<string>; // Track completed sets to avoid duplicate rewards
+  /** Ownership records of sold cars, oldest first (the Past Cars archive). */
+  pastCars: PastCarRecord[];
+  /** Booked workshop jobs in booking order (at most one per car). */
+  restorationQueue: RestorationJob[];
+  /** Parts bought on the parts market, in stock or on order, oldest first. */
+  parts: OwnedPart[];
+  /** Standing with each restoration specialist the player has hired or worked with, by specialist id. */
+  specialists: Record<string, SpecialistRelationship>;
+  /** Cars listed for sale to private buyers, in listing order (at most one per car). */
+  carListings: CarListing[];
+  /** Auction house memberships: membership tier id by location id. */
+  auctionMemberships: Record<string, string>;
 }
 
 /**
@@ -40,11 +53,19 @@ export interface WorldState {
    * - null: rolled and consumed/cleared for the day.
    */
   carOfferByLocation: Record<string, Car | null>;
+  /**
+   * Later lots of each auction house's catalog for the day (lot 1 is the car offer), keyed by location id.
+   * - Missing key: not yet rolled for the day.
+   * - Empty: the catalog has been sold (the offer was used up).
+   */
+  auctionLotsByLocation: Record<string, Car[]>;
   /**
    * Rival presence roll for the current day, keyed by location id.
    * Stored in world state so it remains stable across scene transitions and reloads.
    */
   rivalPresenceByLocation: Record<string, boolean>;
+  /** Today's parts market listings (null: not yet rolled for the day). */
+  partsMarket: PartListing[] | null;
   dayStats: {
     carsAcquired: number;
     moneyEarned: number;
@@ -69,11 +90,255 @@ export type SetConfig = {
   requiredCount: number;
   prestigeReward: number;
   icon: string;
+  /** Only cars with documented provenance count (any tag when `requiredTags` is empty). */
+  requiresDocumentedProvenance?: boolean;
 };
 
+/**
+ * A point in the current day the player can rewind to (state just before `label` happened).
+ */
+export interface UndoPoint {
+  id: number;
+  /** The action this point undoes, e.g. "Sell 1967 Mustang". */
+  label: string;
+  timeRemaining: number;
+  money: number;
+  carCount: number;
+}
+
+/** What a ledger entry was for. Refunds use the category of what they refund, with a positive amount. */
+export type LedgerCategory =
+  | 'opening'
+  | 'purchase'
+  | 'sale'
+  | 'restoration'
+  | 'rent'
+  | 'loan'
+  | 'loan-repayment'
+  | 'set-reward'
+  | 'collection-bonus'
+  | 'garage-upgrade'
+  | 'event-bonus'
+  | 'tutorial-aid'
+  | 'parts'
+  | 'auction-fee'
+  | 'other';
+
+/**
+ * Describes a money/prestige movement for the ledger. Passed by callers of
+ * `addMoney()` / `spendMoney()` / `addPrestige()`; untagged movements are recorded as 'other'.
+ */
+export interface LedgerTag {
+  category: LedgerCategory;
+  carId?: string;
+  carName?: string;
+  /** Who the money went to or came from, e.g. "Cheap Charlie" or "Preston Banks". */
+  counterpart?: string;
+  /** Extra detail, e.g. the set name for a set reward. */
+  note?: string;
+}
+
+/**
+ * One recorded money and/or prestige movement.
+ */
+export interface LedgerEntry extends LedgerTag {
+  id: number;
+  day: number;
+  /** Signed money change (negative = spent). */
+  money: number;
+  /** Signed prestige change. */
+  prestige: number;
+  /** Player money right after this entry. */
+  balance: number;
+}
+
+export interface LedgerState {
+  entries: LedgerEntry[];
+  nextId: number;
+}
+
+/**
+ * Ownership record of a sold car: how it was acquired, the work done on it, and how the sale went.
+ * Acquisition fields are null for cars bought before ownership records existed.
+ */
+export interface PastCarRecord {
+  carId: string;
+  templateId?: string;
+  name: string;
+  tier: CarTier;
+  acquiredDay: number | null;
+  acquiredFrom: string | null;
+  purchasePrice: number | null;
+  restorations: CarRestorationStep[];
+  challengesCompleted: number;
+  restorationSpent: number;
+  conditionAtSale: number;
+  soldDay: number;
+  daysHeld: number | null;
+  /** Who bought the car, e.g. "Private buyer" or "Quick-sale dealer". */
+  saleChannel: string;
+  salePrice: number;
+  /** salePrice - purchasePrice - restorationSpent, or null when the purchase price is unknown. */
+  profit: number | null;
+  /** profit / (purchasePrice + restorationSpent), or null when there was no cost to measure against. */
+  roi: number | null;
+}
+
+/** Who sells on the parts market (keys of `parts.sources` in the config, plus rival sell-offs). */
+export type PartSource = 'scrapyard' | 'specialist' | 'rival';
+
+/**
+ * One part offered on today's parts market.
+ */
+export interface PartListing {
+  id: string;
+  partId: string;
+  source: PartSource;
+  /** Display name of the seller (a rival's name for sell-offs). */
+  seller: string;
+  price: number;
+  /** Units left today. */
+  stock: number;
+  /** 0 = delivered at once; rare specialist orders take days. */
+  deliveryDays: number;
+}
+
+/**
+ * A part the player bought. It can be used once `arrivesDay` has come.
+ */
+export interface OwnedPart {
+  partId: string;
+  price: number;
+  seller: string;
+  /** Who sold it: decides how much originality it costs the car it is fitted to. */
+  source: PartSource;
+  arrivesDay: number;
+}
+
+/**
+ * The player's standing with one restoration specialist (see RestorationSpecialistDatabase).
+ */
+export interface SpecialistRelationship {
+  /** 0 to `restoration.loyalty.max`; grows with every finished job. */
+  loyalty: number;
+  jobsCompleted: number;
+  /** Last day the current contract covers (null: never hired). */
+  contractEndsDay: number | null;
+}
+
+/** How a buyer's offer compares to the asking price. */
+export type BuyerOfferKind = 'full' | 'counter' | 'lowball';
+
+/**
+ * An open offer from a private buyer on a listed car.
+ */
+export interface BuyerOffer {
+  id: string;
+  /** Buyer name (see PrivateBuyerDatabase). */
+  buyer: string;
+  kind: BuyerOfferKind;
+  amount: number;
+  /** Hidden: the most the buyer will pay. A counter-offer at or below it is accepted. */
+  maxPrice: number;
+  madeDay: number;
+  /** Last day the offer can be accepted. */
+  expiresDay: number;
+}
+
+/**
+ * A car listed for sale at an asking price. Private buyers make offers at each End Day.
+ */
+export interface CarListing {
+  carId: string;
+  carName: string;
+  askingPrice: number;
+  listedDay: number;
+  /** Open offers, oldest first. */
+  offers: BuyerOffer[];
+}
+
+/** Why a car can't be consigned to an auction house right now. */
+export type ConsignmentBlocker =
+  | 'not-owned'
+  | 'in-workshop'
+  | 'in-collection'
+  | 'listed'
+  | 'not-auction'
+  | 'locked'
+  | 'invalid-reserve'
+  | 'no-time';
+
+/** Why the player can't join an auction house's membership tier. */
+export type AuctionMembershipBlocker = 'unknown' | 'locked' | 'already-member' | 'no-money';
+
+/**
+ * A restoration challenge or service booked into the workshop for one owned car.
+ * Paid when booked; the work is applied when `daysWorked` reaches `daysRequired`.
+ */
+export interface RestorationJob {
+  carId: string;
+  carName: string;
+  kind: 'challenge' | 'restoration';
+  name: string;
+  /** Restorations only: id of the specialist doing the work (see RestorationSpecialistDatabase). */
+  specialist?: string;
+  /** Restorations only: overall condition the work was expected to add when booked. */
+  conditionGain: number;
+  /** Restorations only: condition added to each component on success (the components it works on). */
+  componentGains: Partial<CarComponentConditions>;
+  /** Chance the work goes to plan, fixed when booked (1 for challenges). */
+  reliability: number;
+  /** Originality points the work adds or removes on success (0 for challenges). */
+  originalityChange: number;
+  /** Challenges only: history tags the work removes. */
+  clearsHistory: string[];
+  /** Labor cost (refunded if the job is cancelled before work starts). */
+  cost: number;
+  /** Parts taken from stock for the job (returned to stock if it is cancelled). */
+  parts: OwnedPart[];
+  daysRequired: number;
+  daysWorked: number;
+  /** Paused jobs keep their place in the queue but aren't worked on. */
+  paused: boolean;
+  bookedDay: number;
+}
+
+/** Work the player can book into the workshop. */
+export type RestorationWork =
+  | { kind: 'challenge'; challenge: RestorationChallenge }
+  | { kind: 'restoration'; option: RestorationOption };
+
+/** Where a booked job stands today. */
+export type RestorationJobStatus = 'in-progress' | 'waiting' | 'paused';
+
+/**
+ * Outcome of a finished workshop job (emitted as 'restoration-complete').
+ */
+export interface RestorationJobResult {
+  carId: string;
+  carName: string;
+  jobName: string;
+  kind: RestorationJob['kind'];
+  specialist?: RestorationJob['specialist'];
+  /** False when the specialist botched the job. */
+  success: boolean;
+  message: string;
+  /** Originality points the work (and the parts it used) added or removed. */
+  originalityChange?: number;
+  discovery?: { type: 'positive' | 'negative'; name: string; valueChange: number };
+}
+
 export type EndDayResult =
-  | { bankrupt: true; requiredRent: number }
-  | { bankrupt: false; rentPaid: number };
+  /** `runArchived`: an Ironman run ended for good and its slot was archived. */
+  | { bankrupt: true; requiredRent: number; runArchived: boolean }
+  | {
+      bankrupt: false;
+      rentPaid: number;
+      restorationsCompleted: RestorationJobResult[];
+      partsArrived: OwnedPart[];
+      /** Offers private buyers made on listed cars overnight. */
+      buyerOffers: { carId: string; carName: string; offer: BuyerOffer }[];
+    };
 
 /**
  * Victory check result.
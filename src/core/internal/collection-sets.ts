@@ -1,4 +1,4 @@
-import type { Car } from '@/data/car-database';
+import { isProvenanceDocumented, type Car } from '@/data/car-database';
 import type { SetConfig } from '@/core/game-types';
 
 export type CollectionQualityTier = {
@@ -58,7 +58,11 @@ export function getCollectionPrestigeInfo(collectionCars: readonly Car[]): {
 }
 
 export function getMatchingCarsForSet(inventory: readonly Car[], set: SetConfig): Car[] {
-  return inventory.filter((car) => set.requiredTags.some((tag) => car.tags.includes(tag)));
+  return inventory.filter(
+    (car) =>
+      (set.requiredTags.length === 0 || set.requiredTags.some((tag) => car.tags.includes(tag))) &&
+      (!set.requiresDocumentedProvenance || isProvenanceDocumented(car))
+  );
 }
 
 export function isSetComplete(inventory: readonly Car[], set: SetConfig): boolean {
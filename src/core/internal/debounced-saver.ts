@@ -5,14 +5,15 @@ export class DebouncedSaver {
 
   public constructor(
     private readonly saveFn: () => boolean,
-    private readonly policy: AutosavePolicy,
+    /** Read on every request: the policy can change when a run with different settings is loaded. */
+    private readonly getPolicy: () => AutosavePolicy,
     private readonly debounceMs: number
   ) {}
 
   public requestSave(options?: { critical?: boolean }): void {
     const isCritical = options?.critical === true;
 
-    if (this.policy !== 'on-change') {
+    if (this.getPolicy() !== 'on-change') {
       this.clearPending();
       if (isCritical) {
         this.saveFn();
@@ -0,0 +1,149 @@
+import { adjustCarOriginality, getCarOriginality, type Car } from '@/data/car-database';
+import type {
+  OwnedPart,
+  RestorationJob,
+  RestorationJobResult,
+  RestorationJobStatus,
+  RestorationWork,
+} from '@/core/game-types';
+import { withRestorationStep } from '@/core/car-ownership';
+import { Economy, getRestorationSpecialistName } from '@/systems/Economy';
+import { getPartsOriginalityLoss } from '@/systems/parts-market';
+import type { RandomFn } from '@/core/rng';
+
+/**
+ * Build a queued job for a piece of work.
+ * @param parts - Parts taken out of stock for the job (returned if it is cancelled)
+ */
+export function buildRestorationJob(
+  car: Pick<Car, 'id' | 'name'>,
+  work: RestorationWork,
+  day: number,
+  parts: OwnedPart[] = []
+): RestorationJob {
+  const base = { carId: car.id, carName: car.name, daysWorked: 0, paused: false, bookedDay: day, parts };
+  if (work.kind === 'challenge') {
+    return {
+      ...base,
+      kind: 'challenge',
+      name: work.challenge.name,
+      conditionGain: 0,
+      componentGains: {},
+      reliability: 1,
+      originalityChange: 0,
+      clearsHistory: [...work.challenge.requiredFor],
+      cost: work.challenge.cost,
+      daysRequired: Math.max(1, work.challenge.durationDays),
+    };
+  }
+  return {
+    ...base,
+    kind: 'restoration',
+    name: work.option.name,
+    specialist: work.option.specialist,
+    conditionGain: work.option.conditionGain,
+    componentGains: { ...work.option.componentGains },
+    reliability: work.option.reliability,
+    originalityChange: work.option.originalityChange,
+    clearsHistory: [],
+    cost: work.option.cost,
+    daysRequired: Math.max(1, work.option.durationDays),
+  };
+}
+
+/** Jobs that get a bay today: the first `bays` unpaused jobs in booking order. */
+export function getWorkedJobs(queue: readonly RestorationJob[], bays: number): RestorationJob[] {
+  return queue.filter((job) => !job.paused).slice(0, Math.max(0, bays));
+}
+
+export function getRestorationJobStatus(
+  queue: readonly RestorationJob[],
+  carId: string,
+  bays: number
+): { status: RestorationJobStatus; queuePosition: number } | null {
+  const job = queue.find((entry) => entry.carId === carId);
+  if (!job) return null;
+  if (job.paused) return { status: 'paused', queuePosition: 0 };
+
+  const index = queue.filter((entry) => !entry.paused).indexOf(job);
+  return index < bays
+    ? { status: 'in-progress', queuePosition: 0 }
+    : { status: 'waiting', queuePosition: index - bays + 1 };
+}
+
+export function getRemainingDays(job: Pick<RestorationJob, 'daysRequired' | 'daysWorked'>): number {
+  return Math.max(0, job.daysRequired - job.daysWorked);
+}
+
+/** What the job's parts cost when they were bought. */
+export function getJobPartsCost(job: Pick<RestorationJob, 'parts'>): number {
+  return job.parts.reduce((sum, part) => sum + part.price, 0);
+}
+
+export function calculateRushCost(job: RestorationJob, ratePerDay: number): number {
+  return Math.ceil(job.cost * ratePerDay * getRemainingDays(job));
+}
+
+/**
+ * Apply a finished job's work to its car.
+ * Restorations roll the specialist's risk and hidden discoveries; challenges clear their history tags.
+ * Either way, non-original parts the job used cost the car originality.
+ */
+export function applyRestorationJob(
+  car: Car,
+  job: RestorationJob,
+  params: { day: number; guaranteedSuccess: boolean; random: RandomFn }
+): { car: Car; result: RestorationJobResult } {
+  const step = { day: params.day, kind: job.kind, name: job.name, cost: job.cost + getJobPartsCost(job) };
+  const resultBase = { carId: job.carId, carName: job.carName, jobName: job.name, kind: job.kind };
+  const partsOriginalityLoss = getPartsOriginalityLoss(job.parts);
+
+  if (job.kind === 'challenge' || !job.specialist) {
+    const fixedCar = adjustCarOriginality(
+      Economy.completeRestorationChallenge(car, { requiredFor: job.clearsHistory }),
+      -partsOriginalityLoss
+    );
+    const originalityChange = getCarOriginality(fixedCar) - getCarOriginality(car);
+    return {
+      car: withRestorationStep(car, fixedCar, step),
+      result: {
+        ...resultBase,
+        success: true,
+        message: `${job.name} completed successfully!`,
+        ...(originalityChange !== 0 ? { originalityChange } : {}),
+      },
+    };
+  }
+
+  const outcome = Economy.performRestoration(
+    car,
+    {
+      specialist: job.specialist,
+      componentGains: job.componentGains,
+      reliability: job.reliability,
+      originalityChange: job.originalityChange,
+    },
+    params.guaranteedSuccess,
+    params.random
+  );
+  const restoredCar = adjustCarOriginality(outcome.car, -partsOriginalityLoss);
+  return {
+    car: withRestorationStep(car, restoredCar, { ...step, specialist: getRestorationSpecialistName(job.specialist) }),
+    result: {
+      ...resultBase,
+      specialist: job.specialist,
+      success: outcome.success,
+      originalityChange: getCarOriginality(restoredCar) - getCarOriginality(car),
+      message: outcome.message,
+      ...(outcome.discovery
+        ? {
+            discovery: {
+              type: outcome.discovery.type,
+              name: outcome.discovery.name,
+              valueChange: outcome.discovery.valueChange,
+            },
+          }
+        : {}),
+    },
+  };
+}
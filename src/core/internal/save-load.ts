@@ -1,32 +1,69 @@
-import { buildSaveData, hydrateLoadedState, readSaveData, writeSaveData } from '@/core/game-persistence';
-import type { PlayerState, WorldState } from '@/core/game-types';
+import { buildSaveData, hydrateLoadedState, type SavedGameData } from '@/core/game-persistence';
+import { createSaveSlot, readSaveSlot, writeSaveSlot } from '@/core/save-slots';
+import { hasSaveRepairs, validateSaveData, type SaveValidationReport } from '@/core/save-validation';
+import { warnLog } from '@/utils/log';
+import type { LedgerState, PlayerState, WorldState } from '@/core/game-types';
+import type { RngState } from '@/core/rng';
+import type { RunSettings } from '@/config/run-config';
 
-export function writeCurrentGameSave(params: {
+type CurrentGameState = {
   player: PlayerState;
   world: WorldState;
   market?: unknown;
   specialEvents?: unknown;
   tutorial?: unknown;
-}): void {
-  const saveData = buildSaveData({
+  rng?: RngState;
+  run?: RunSettings;
+  ledger?: LedgerState;
+};
+
+export function buildCurrentGameSave(params: CurrentGameState): SavedGameData {
+  return buildSaveData({
     player: params.player,
     world: params.world,
     market: params.market as never,
     specialEvents: params.specialEvents as never,
     tutorial: params.tutorial as never,
+    rng: params.rng,
+    run: params.run,
+    ledger: params.ledger,
   });
+}
 
-  writeSaveData(saveData);
+/**
+ * Write a save payload into a slot.
+ * When there is no slot yet (or the slot was deleted), a new slot is created.
+ * @returns The slot id the save was written to
+ */
+export function writeGameSaveToSlot(slotId: string | null, saveData: SavedGameData): string {
+  if (slotId && writeSaveSlot(slotId, saveData)) {
+    return slotId;
+  }
+  return createSaveSlot(saveData).id;
 }
 
-export function readAndHydrateCurrentGameSave():
+/**
+ * Read a slot, validate/repair it against the save schema, and hydrate runtime state.
+ * Returns null when the slot is missing or unrecoverable.
+ */
+export function readAndHydrateCurrentGameSave(slotId: string):
   | (ReturnType<typeof hydrateLoadedState> & {
-      rawSave: ReturnType<typeof readSaveData>;
+      rawSave: SavedGameData;
+      report: SaveValidationReport;
     })
   | null {
-  const rawSave = readSaveData();
+  const rawSave = readSaveSlot(slotId);
   if (!rawSave) return null;
 
-  const hydrated = hydrateLoadedState(rawSave);
-  return { ...hydrated, rawSave };
+  const validation = validateSaveData(rawSave);
+  if (!validation.ok) {
+    warnLog(`Save rejected: ${validation.error}`);
+    return null;
+  }
+  if (hasSaveRepairs(validation.report)) {
+    warnLog('Save repaired on load:', validation.report.entries);
+  }
+
+  const hydrated = hydrateLoadedState(validation.saveData);
+  return { ...hydrated, rawSave: validation.saveData, report: validation.report };
 }
@@ -1,14 +1,48 @@
 import type { Car } from '@/data/car-database';
-import type { PlayerState, WorldState } from '@/core/game-types';
+import type { CarListing, PastCarRecord, PlayerState, RestorationJob, WorldState } from '@/core/game-types';
+import type { RngState } from '@/core/rng';
+import type { MarketFluctuationState } from '@/systems/market-fluctuation-system';
+import type { SpecialEventsState } from '@/systems/special-events-system';
 
 export function cloneCar(car: Car): Car {
   return {
     ...car,
     tags: Array.isArray(car.tags) ? [...car.tags] : [],
     history: Array.isArray(car.history) ? [...car.history] : [],
+    ...(car.restorationLog ? { restorationLog: car.restorationLog.map((step) => ({ ...step })) } : {}),
+    ...(car.defects ? { defects: car.defects.map((defect) => ({ ...defect })) } : {}),
+    ...(car.parts ? { parts: [...car.parts] } : {}),
+    ...(car.components ? { components: { ...car.components } } : {}),
+    ...(car.provenance
+      ? {
+          provenance: {
+            ...car.provenance,
+            owners: [...car.provenance.owners],
+            events: [...car.provenance.events],
+            documents: car.provenance.documents.map((document) => ({ ...document })),
+          },
+        }
+      : {}),
   };
 }
 
+export function clonePastCarRecord(record: PastCarRecord): PastCarRecord {
+  return { ...record, restorations: record.restorations.map((step) => ({ ...step })) };
+}
+
+export function cloneRestorationJob(job: RestorationJob): RestorationJob {
+  return {
+    ...job,
+    clearsHistory: [...job.clearsHistory],
+    componentGains: { ...job.componentGains },
+    parts: (job.parts ?? []).map((part) => ({ ...part })),
+  };
+}
+
+export function cloneCarListing(listing: CarListing): CarListing {
+  return { ...listing, offers: listing.offers.map((offer) => ({ ...offer })) };
+}
+
 export function cloneInventory(inventory: Car[]): Car[] {
   return inventory.map((car) => cloneCar(car));
 }
@@ -22,6 +56,14 @@ export function clonePlayerState(player: PlayerState): PlayerState {
     skillXP: { ...player.skillXP },
     visitedLocations: player.visitedLocations ? new Set(player.visitedLocations) : new Set(['garage']),
     claimedSets: player.claimedSets ? new Set(player.claimedSets) : new Set<string>(),
+    pastCars: (player.pastCars ?? []).map(clonePastCarRecord),
+    restorationQueue: (player.restorationQueue ?? []).map(cloneRestorationJob),
+    parts: (player.parts ?? []).map((part) => ({ ...part })),
+    specialists: Object.fromEntries(
+      Object.entries(player.specialists ?? {}).map(([id, relationship]) => [id, { ...relationship }])
+    ),
+    carListings: (player.carListings ?? []).map(cloneCarListing),
+    auctionMemberships: { ...(player.auctionMemberships ?? {}) },
   };
 }
 
@@ -34,7 +76,32 @@ export function cloneWorldState(world: WorldState): WorldState {
   return {
     ...world,
     carOfferByLocation,
+    auctionLotsByLocation: Object.fromEntries(
+      Object.entries(world.auctionLotsByLocation ?? {}).map(([locationId, lots]) => [locationId, lots.map(cloneCar)])
+    ),
     rivalPresenceByLocation: { ...(world.rivalPresenceByLocation ?? {}) },
+    partsMarket: world.partsMarket ? world.partsMarket.map((listing) => ({ ...listing })) : null,
     dayStats: { ...world.dayStats },
   };
 }
+
+export function cloneMarketState(state: MarketFluctuationState): MarketFluctuationState {
+  return {
+    ...state,
+    currentEvent: state.currentEvent
+      ? {
+          ...state.currentEvent,
+          affectedTags: state.currentEvent.affectedTags ? [...state.currentEvent.affectedTags] : undefined,
+        }
+      : undefined,
+  };
+}
+
+export function cloneSpecialEventsState(state: SpecialEventsState): SpecialEventsState {
+  // Events are replaced, never edited in place (see SpecialEventsSystem.removeEvent), so a shallow copy suffices.
+  return { ...state, activeEvents: [...state.activeEvents] };
+}
+
+export function cloneRngState(state: RngState): RngState {
+  return { ...state, streams: { ...state.streams } };
+}
@@ -0,0 +1,52 @@
+import type { LedgerEntry, LedgerState, LedgerTag } from '@/core/game-types';
+
+/**
+ * Append-only record of every money/prestige movement in a run.
+ * Persisted with the save; the oldest entries are dropped once `maxEntries` is reached.
+ */
+export class TransactionLedger {
+  private entries: LedgerEntry[] = [];
+  private nextId = 1;
+
+  public constructor(private readonly getMaxEntries: () => number) {}
+
+  public record(tag: LedgerTag, values: { day: number; money: number; prestige: number; balance: number }): void {
+    this.entries.push({ ...tag, ...values, id: this.nextId++ });
+
+    const maxEntries = this.getMaxEntries();
+    if (this.entries.length > maxEntries) {
+      this.entries.splice(0, this.entries.length - maxEntries);
+    }
+  }
+
+  /** Recorded entries, oldest first. */
+  public list(): LedgerEntry[] {
+    return this.entries.map((entry) => ({ ...entry }));
+  }
+
+  /** Id the next entry will get. Pass it to `rewindTo()` to drop everything recorded after this point. */
+  public mark(): number {
+    return this.nextId;
+  }
+
+  /** Remove entries recorded at or after `mark` (used by in-day undo). */
+  public rewindTo(mark: number): void {
+    this.entries = this.entries.filter((entry) => entry.id < mark);
+    this.nextId = mark;
+  }
+
+  public getState(): LedgerState {
+    return { entries: this.list(), nextId: this.nextId };
+  }
+
+  public loadState(state: LedgerState | undefined): void {
+    this.entries = state ? state.entries.map((entry) => ({ ...entry })) : [];
+    const lastId = this.entries.reduce((max, entry) => Math.max(max, entry.id), 0);
+    this.nextId = Math.max(state?.nextId ?? 1, lastId + 1);
+  }
+
+  public reset(): void {
+    this.entries = [];
+    this.nextId = 1;
+  }
+}
@@ -0,0 +1,90 @@
+import type { PlayerState, UndoPoint, WorldState } from '@/core/game-types';
+import type { RngState } from '@/core/rng';
+import type { MarketFluctuationState } from '@/systems/market-fluctuation-system';
+import type { SpecialEventsState } from '@/systems/special-events-system';
+import {
+  cloneMarketState,
+  clonePlayerState,
+  cloneRngState,
+  cloneSpecialEventsState,
+  cloneWorldState,
+} from '@/core/internal/state-clone';
+
+/**
+ * Everything an in-day rewind restores.
+ * Tutorial state is not included: undo is unavailable while the tutorial runs.
+ */
+export interface UndoSnapshot {
+  player: PlayerState;
+  world: WorldState;
+  market: MarketFluctuationState;
+  specialEvents: SpecialEventsState;
+  rng: RngState;
+  /** Ledger position (`TransactionLedger.mark()`); entries from here on are dropped on rewind. */
+  ledgerMark: number;
+}
+
+interface UndoEntry {
+  point: UndoPoint;
+  snapshot: UndoSnapshot;
+}
+
+/**
+ * In-memory journal of state snapshots taken before each undoable action of the current day.
+ * Snapshots are deep-copied on the way in, so later mutations can't leak into them.
+ * Oldest entries are dropped once `maxEntries` is reached.
+ */
+export class UndoJournal {
+  private entries: UndoEntry[] = [];
+  private nextId = 1;
+
+  public constructor(private readonly maxEntries: number) {}
+
+  public record(label: string, snapshot: UndoSnapshot): UndoPoint {
+    const point: UndoPoint = {
+      id: this.nextId++,
+      label,
+      timeRemaining: snapshot.world.timeRemaining,
+      money: snapshot.player.money,
+      carCount: snapshot.player.inventory.length,
+    };
+
+    this.entries.push({
+      point,
+      snapshot: {
+        player: clonePlayerState(snapshot.player),
+        world: cloneWorldState(snapshot.world),
+        market: cloneMarketState(snapshot.market),
+        specialEvents: cloneSpecialEventsState(snapshot.specialEvents),
+        rng: cloneRngState(snapshot.rng),
+        ledgerMark: snapshot.ledgerMark,
+      },
+    });
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    return point;
+  }
+
+  /** Recorded points, oldest first. */
+  public list(): UndoPoint[] {
+    return this.entries.map((entry) => ({ ...entry.point }));
+  }
+
+  /**
+   * Remove the entry with this id and every entry after it.
+   * @returns The snapshot taken for that entry, or null if it is not in the journal
+   */
+  public takeUntil(id: number): UndoSnapshot | null {
+    const index = this.entries.findIndex((entry) => entry.point.id === id);
+    if (index === -1) return null;
+
+    const [entry] = this.entries.splice(index);
+    return entry ? entry.snapshot : null;
+  }
+
+  public clear(): void {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,129 @@
+import type { LedgerCategory, LedgerEntry } from '@/core/game-types';
+
+export const LEDGER_CATEGORY_LABELS: Readonly<Record<LedgerCategory, string>> = {
+  opening: 'Starting cash',
+  purchase: 'Purchase',
+  sale: 'Sale',
+  restoration: 'Restoration',
+  rent: 'Rent',
+  loan: 'Loan',
+  'loan-repayment': 'Loan repayment',
+  'set-reward': 'Set reward',
+  'collection-bonus': 'Collection bonus',
+  'garage-upgrade': 'Garage upgrade',
+  'event-bonus': 'Event bonus',
+  'tutorial-aid': 'Tutorial aid',
+  parts: 'Parts',
+  'auction-fee': 'Auction fee',
+  other: 'Other',
+};
+
+/**
+ * Money and prestige movement of one day.
+ * The opening balance entry is not counted as income.
+ */
+export interface LedgerDaySummary {
+  day: number;
+  income: number;
+  expenses: number;
+  net: number;
+  prestige: number;
+  /** Money after the day's last entry. */
+  closingBalance: number;
+}
+
+/**
+ * Money a car made or cost over the run, from its purchase, restoration, and sale entries.
+ */
+export interface LedgerCarSummary {
+  carId: string;
+  carName: string;
+  purchase: number;
+  restoration: number;
+  /** Sale price (after any seller's commission), or null while the car is unsold. */
+  sale: number | null;
+  /** sale - purchase - restoration, or null while unsold. */
+  profit: number | null;
+  firstDay: number;
+  lastDay: number;
+}
+
+/** One-line description of an entry, e.g. "Restoration: 1967 Mustang (Cheap Charlie)". */
+export function describeLedgerEntry(entry: LedgerEntry): string {
+  let text = LEDGER_CATEGORY_LABELS[entry.category];
+  const subject = entry.carName ?? entry.note;
+  if (subject) text += `: ${subject}`;
+  if (entry.carName && entry.note) text += ` – ${entry.note}`;
+  if (entry.counterpart) text += ` (${entry.counterpart})`;
+  return text;
+}
+
+/**
+ * Group entries by day, oldest first. Days without entries are skipped.
+ */
+export function summarizeLedgerByDay(entries: readonly LedgerEntry[]): LedgerDaySummary[] {
+  const byDay = new Map<number, LedgerDaySummary>();
+  for (const entry of entries) {
+    let summary = byDay.get(entry.day);
+    if (!summary) {
+      summary = { day: entry.day, income: 0, expenses: 0, net: 0, prestige: 0, closingBalance: entry.balance };
+      byDay.set(entry.day, summary);
+    }
+    if (entry.category !== 'opening') {
+      if (entry.money > 0) summary.income += entry.money;
+      if (entry.money < 0) summary.expenses -= entry.money;
+      summary.net += entry.money;
+    }
+    summary.prestige += entry.prestige;
+    summary.closingBalance = entry.balance;
+  }
+  return [...byDay.values()].sort((a, b) => a.day - b.day);
+}
+
+/**
+ * Per-car profit and loss, most recently active first.
+ * Cars whose entries cancel out entirely (e.g. a refunded purchase) are left out.
+ */
+export function summarizeLedgerByCar(entries: readonly LedgerEntry[]): LedgerCarSummary[] {
+  const byCar = new Map<string, LedgerCarSummary>();
+  for (const entry of entries) {
+    if (!entry.carId) continue;
+    if (
+      entry.category !== 'purchase' &&
+      entry.category !== 'restoration' &&
+      entry.category !== 'sale' &&
+      entry.category !== 'auction-fee'
+    ) {
+      continue;
+    }
+
+    let summary = byCar.get(entry.carId);
+    if (!summary) {
+      summary = {
+        carId: entry.carId,
+        carName: entry.carName ?? entry.carId,
+        purchase: 0,
+        restoration: 0,
+        sale: null,
+        profit: null,
+        firstDay: entry.day,
+        lastDay: entry.day,
+      };
+      byCar.set(entry.carId, summary);
+    }
+
+    if (entry.category === 'purchase') summary.purchase -= entry.money;
+    if (entry.category === 'restoration') summary.restoration -= entry.money;
+    // A seller's commission comes out of the sale price.
+    if (entry.category === 'sale' || entry.category === 'auction-fee') summary.sale = (summary.sale ?? 0) + entry.money;
+    summary.lastDay = entry.day;
+  }
+
+  const summaries = [...byCar.values()].filter(
+    (summary) => summary.purchase !== 0 || summary.restoration !== 0 || summary.sale !== null
+  );
+  for (const summary of summaries) {
+    summary.profit = summary.sale === null ? null : summary.sale - summary.purchase - summary.restoration;
+  }
+  return summaries.sort((a, b) => b.lastDay - a.lastDay);
+}
@@ -0,0 +1,206 @@
+import { isRecord } from '@/utils/types';
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), shaped like Math.random.
+ * Pure helpers accept one of these so callers (and tests) can inject a stream.
+ */
+export type RandomFn = () => number;
+
+/**
+ * Named RNG sub-streams.
+ * Each system draws from its own stream so that adding a roll in one system
+ * (e.g. a new auctioneer bark) does not shift the sequence seen by another (e.g. car rolls).
+ */
+export type RngStreamName =
+  | 'cars'
+  | 'rivals'
+  | 'encounters'
+  | 'auction'
+  | 'market'
+  | 'events'
+  | 'restoration'
+  | 'parts'
+  | 'provenance'
+  | 'buyers'
+  | 'flavor';
+
+/**
+ * Serializable RNG state for persistence.
+ * Streams that have never been drawn from are omitted and re-derived from the seed.
+ */
+export interface RngState {
+  seed: number;
+  streams: Partial<Record<RngStreamName, number>>;
+}
+
+const STREAM_NAMES: readonly RngStreamName[] = [
+  'cars',
+  'rivals',
+  'encounters',
+  'auction',
+  'market',
+  'events',
+  'restoration',
+  'parts',
+  'provenance',
+  'buyers',
+  'flavor',
+];
+
+/** FNV-1a string hash, used to derive independent per-stream starting states from one seed. */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function deriveStreamState(seed: number, name: RngStreamName): number {
+  return hashString(`${seed >>> 0}:${name}`);
+}
+
+/**
+ * Advance a mulberry32 state by one step.
+ * @returns The next 32-bit state and a float in [0, 1)
+ */
+function mulberry32Step(state: number): { state: number; value: number } {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return { state: next, value };
+}
+
+/**
+ * Seeded random number service with named sub-streams.
+ * Owned by GameManager: it is reseeded on new game and persisted in SavedGameData,
+ * so a given seed plus the same sequence of player actions reproduces the same run.
+ */
+export class RngService {
+  private seed: number;
+  private streamStates: Map<RngStreamName, number> = new Map();
+
+  constructor(seed: number = RngService.createSeed()) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * Create a fresh 32-bit seed from platform entropy.
+   * This is the only non-deterministic entry point; everything else derives from the seed.
+   */
+  public static createSeed(): number {
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+      return crypto.getRandomValues(new Uint32Array(1))[0];
+    }
+    return hashString(String(Date.now()));
+  }
+
+  /** Get the seed the current run was started with. */
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Reset every stream and start over from a new seed.
+   * @param seed - Seed for the new run (defaults to a fresh random seed)
+   */
+  public reseed(seed: number = RngService.createSeed()): void {
+    this.seed = seed >>> 0;
+    this.streamStates.clear();
+  }
+
+  /**
+   * Draw the next float in [0, 1) from a named stream.
+   * @param name - Stream to advance
+   */
+  public next(name: RngStreamName): number {
+    const current = this.streamStates.get(name) ?? deriveStreamState(this.seed, name);
+    const { state, value } = mulberry32Step(current);
+    this.streamStates.set(name, state);
+    return value;
+  }
+
+  /**
+   * Get a Math.random-shaped function bound to a named stream.
+   * The function always reads live state, so it stays valid across reseed/loadState.
+   * @param name - Stream to draw from
+   */
+  public stream(name: RngStreamName): RandomFn {
+    return () => this.next(name);
+  }
+
+  /**
+   * Get RNG state for saving.
+   */
+  public getState(): RngState {
+    const streams: Partial<Record<RngStreamName, number>> = {};
+    for (const [name, state] of this.streamStates) {
+      streams[name] = state;
+    }
+    return { seed: this.seed, streams };
+  }
+
+  /**
+   * Load RNG state from saved data.
+   * Unknown stream names and non-numeric states are ignored.
+   */
+  public loadState(state: RngState): void {
+    this.seed = state.seed >>> 0;
+    this.streamStates.clear();
+    if (!isRecord(state.streams)) return;
+
+    for (const name of STREAM_NAMES) {
+      const value = state.streams[name];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        this.streamStates.set(name, value >>> 0);
+      }
+    }
+  }
+}
+
+/** Singleton instance shared by data helpers, systems and scenes. Seeded and persisted by GameManager. */
+export const rng = new RngService();
+
+/**
+ * Pick a uniformly random integer in [0, maxExclusive).
+ */
+export function randomInt(random: RandomFn, maxExclusive: number): number {
+  return Math.floor(random() * maxExclusive);
+}
+
+/**
+ * Pick a uniformly random element, or undefined for an empty list.
+ */
+export function pickRandom<T>(random: RandomFn, items: readonly T[]): T | undefined {
+  if (items.length === 0) return undefined;
+  return items[randomInt(random, items.length)];
+}
+
+/**
+ * Fisher-Yates shuffle in place.
+ */
+export function shuffleInPlace<T>(random: RandomFn, items: T[]): void {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+}
+
+/**
+ * Build a short base-36 id suffix from a stream (replaces timestamp/UUID ids so ids replay with the seed).
+ */
+export function randomIdSuffix(random: RandomFn, length: number = 12): string {
+  let out = '';
+  while (out.length < length) {
+    out += randomInt(random, 36).toString(36);
+  }
+  return out;
+}
+
+/** Validate RNG state loaded from an untrusted save. */
+export function isRngState(value: unknown): value is RngState {
+  return isRecord(value) && typeof value.seed === 'number' && Number.isFinite(value.seed) && isRecord(value.streams);
+}
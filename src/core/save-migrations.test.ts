@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LATEST_SAVE_VERSION,
+  LEGACY_SAVE_VERSION,
+  SAVE_MIGRATIONS,
+  compareSaveVersions,
+  runSaveMigrations,
+} from '@/core/save-migrations';
+
+type SaveBlob = Record<string, unknown>;
+
+/**
+ * One saved blob per save version, in the shape that version wrote (v0 predates the `version` field).
+ * Consecutive fixtures are the same run, saved again after each upgrade; it also booked work on 1.6
+ * and bought parts on 1.7, so the steps into those versions are checked on their own.
+ */
+const FIXTURES = import.meta.glob<SaveBlob>('./__fixtures__/saves/*.json', { eager: true, import: 'default' });
+
+const FIXTURE_VERSIONS = [...SAVE_MIGRATIONS.map((step) => step.from), LATEST_SAVE_VERSION];
+
+function loadFixture(version: string): SaveBlob {
+  const fixture = FIXTURES[`./__fixtures__/saves/v${version}.json`];
+  if (!fixture) throw new Error(`Missing save fixture for v${version}.`);
+  return structuredClone(fixture);
+}
+
+/** Freeze a blob all the way down, so a migration that writes to its input throws. */
+function deepFreeze<T>(value: T): T {
+  if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/** Run one step the way runSaveMigrations does. */
+function applyStep(from: string): SaveBlob {
+  const step = SAVE_MIGRATIONS.find((migration) => migration.from === from);
+  if (!step) throw new Error(`No migration from v${from}.`);
+  return { ...step.migrate({ ...loadFixture(from), version: from }), version: step.to };
+}
+
+describe('SAVE_MIGRATIONS', () => {
+  it('forms one chain from the legacy version to the latest', () => {
+    expect(SAVE_MIGRATIONS[0]?.from).toBe(LEGACY_SAVE_VERSION);
+    SAVE_MIGRATIONS.forEach((step, index) => {
+      if (index > 0) expect(step.from).toBe(SAVE_MIGRATIONS[index - 1].to);
+      expect(compareSaveVersions(step.from, step.to)).toBeLessThan(0);
+    });
+    expect(LATEST_SAVE_VERSION).toBe(SAVE_MIGRATIONS[SAVE_MIGRATIONS.length - 1].to);
+  });
+
+  it('has a fixture for every save version', () => {
+    expect(Object.keys(FIXTURES).sort()).toEqual(
+      FIXTURE_VERSIONS.map((version) => `./__fixtures__/saves/v${version}.json`).sort()
+    );
+  });
+
+  it.each(SAVE_MIGRATIONS.filter((step) => step.to !== '1.6' && step.to !== '1.7'))(
+    '$from → $to produces the next fixture',
+    (step) => {
+      expect(applyStep(step.from)).toEqual(loadFixture(step.to));
+    }
+  );
+
+  it('1.5 → 1.6 gives the player an empty restoration queue', () => {
+    const before = loadFixture('1.5');
+
+    expect(applyStep('1.5')).toEqual({
+      ...before,
+      version: '1.6',
+      player: { ...(before.player as SaveBlob), restorationQueue: [] },
+    });
+  });
+
+  it('1.6 → 1.7 gives the player and booked jobs empty parts and leaves the parts market unrolled', () => {
+    const before = loadFixture('1.6');
+    const after = applyStep('1.6');
+    const player = before.player as SaveBlob;
+    const jobs = player.restorationQueue as SaveBlob[];
+
+    expect(after).toEqual({
+      ...before,
+      version: '1.7',
+      player: { ...player, parts: [], restorationQueue: jobs.map((job) => ({ ...job, parts: [] })) },
+      world: { ...(before.world as SaveBlob), partsMarket: null },
+    });
+  });
+
+  it.each(SAVE_MIGRATIONS)('$from → $to leaves its input untouched', (step) => {
+    const input = deepFreeze({ ...loadFixture(step.from), version: step.from });
+    const snapshot = structuredClone(input);
+
+    step.migrate(input);
+
+    expect(input).toEqual(snapshot);
+  });
+});
+
+describe('runSaveMigrations', () => {
+  it.each(FIXTURE_VERSIONS)('migrates a v%s save to the latest version', (version) => {
+    const result = runSaveMigrations(loadFixture(version));
+    const firstStep = SAVE_MIGRATIONS.findIndex((step) => step.from === version);
+    const remaining = firstStep === -1 ? [] : SAVE_MIGRATIONS.slice(firstStep);
+
+    expect(result).toMatchObject({ ok: true, fromVersion: version });
+    if (!result.ok) return;
+    expect(result.saveData.version).toBe(LATEST_SAVE_VERSION);
+    expect(result.applied).toEqual(remaining.map((step) => `${step.from} → ${step.to}`));
+  });
+
+  it.each(FIXTURE_VERSIONS.filter((version) => compareSaveVersions(version, '1.7')! >= 0))(
+    'brings a v%s save to the latest fixture',
+    (version) => {
+      const result = runSaveMigrations(loadFixture(version));
+      expect(result.ok && result.saveData).toEqual(loadFixture(LATEST_SAVE_VERSION));
+    }
+  );
+
+  it('fills in everything added since an unversioned save', () => {
+    const result = runSaveMigrations(loadFixture(LEGACY_SAVE_VERSION));
+    if (!result.ok) throw new Error(result.error);
+    const { player, world, run, ledger } = result.saveData;
+
+    expect(player.inventory[0]).toMatchObject({ inCollection: true });
+    expect(player.inventory[0]).not.toHaveProperty('displayInMuseum');
+    expect(player.claimedSets).toEqual(['jdmLegends']);
+    expect(player).not.toHaveProperty('claimedCollections');
+    expect(run).toEqual({ mode: 'standard', difficulty: 'standard' });
+    expect(ledger).toEqual({ entries: [], nextId: 1 });
+    expect(player).toMatchObject({
+      pastCars: [],
+      restorationQueue: [],
+      parts: [],
+      specialists: {},
+      carListings: [],
+      auctionMemberships: {},
+    });
+    expect(world).toMatchObject({ partsMarket: null, auctionLotsByLocation: {} });
+  });
+
+  it('does not mutate the parsed save', () => {
+    const parsed = deepFreeze(loadFixture(LEGACY_SAVE_VERSION));
+    const snapshot = structuredClone(parsed);
+
+    expect(runSaveMigrations(parsed).ok).toBe(true);
+    expect(parsed).toEqual(snapshot);
+  });
+
+  it.each(['1.14', '2.0', '10'])('rejects a save from newer version %s', (version) => {
+    expect(runSaveMigrations({ ...loadFixture(LATEST_SAVE_VERSION), version })).toMatchObject({
+      ok: false,
+      reason: 'newer-version',
+    });
+  });
+
+  it.each([null, 'save', 42])('rejects %s as not a save', (parsed) => {
+    expect(runSaveMigrations(parsed)).toMatchObject({ ok: false, reason: 'invalid' });
+  });
+
+  it('rejects a version that is not a string', () => {
+    expect(runSaveMigrations({ ...loadFixture('1.12'), version: 1.12 })).toMatchObject({
+      ok: false,
+      reason: 'invalid',
+    });
+  });
+
+  it.each(['one.two', '1.6.5', ''])('rejects unknown version "%s"', (version) => {
+    expect(runSaveMigrations({ ...loadFixture('1.6'), version })).toMatchObject({
+      ok: false,
+      reason: 'unknown-version',
+    });
+  });
+});
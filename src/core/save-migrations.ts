@@ -0,0 +1,353 @@
+import type { SavedGameData } from '@/core/game-persistence';
+import { isRecord } from '@/utils/types';
+
+/** Version assigned to saves written before the `version` field existed. */
+export const LEGACY_SAVE_VERSION = '0';
+
+type SaveBlob = Record<string, unknown>;
+
+/**
+ * One step in the save migration chain.
+ * `migrate` must be pure: it receives a blob stamped `from` and returns a new blob
+ * (the runner stamps `to`). Never read storage, config, or the RNG from a migration.
+ */
+export interface SaveMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (save: Readonly<SaveBlob>) => SaveBlob;
+}
+
+export type SaveMigrationResult =
+  | { ok: true; saveData: SavedGameData; fromVersion: string; applied: string[] }
+  | { ok: false; reason: 'invalid' | 'newer-version' | 'unknown-version'; error: string };
+
+export function migrateLegacyInventoryFields(inventory: unknown): unknown {
+  if (!Array.isArray(inventory)) return inventory;
+
+  return inventory.map((item) => {
+    if (!item || typeof item !== 'object') return item;
+    const car = item as Record<string, unknown>;
+
+    // Legacy field name from older saves: `displayInMuseum`.
+    const hasLegacyDisplayFlag = typeof car.displayInMuseum === 'boolean';
+    const hasNewInCollectionFlag = typeof car.inCollection === 'boolean';
+
+    if (hasLegacyDisplayFlag && !hasNewInCollectionFlag) {
+      const { displayInMuseum, ...rest } = car;
+      return {
+        ...rest,
+        inCollection: displayInMuseum,
+      };
+    }
+
+    // Strip legacy field to avoid confusion going forward.
+    if ('displayInMuseum' in car) {
+      const { displayInMuseum: _legacy, ...rest } = car;
+      return rest;
+    }
+
+    return item;
+  });
+}
+
+export function migrateLegacyPlayerFields(player: unknown): unknown {
+  if (!player || typeof player !== 'object') return player;
+
+  const obj = player as Record<string, unknown>;
+  const migrated: Record<string, unknown> = { ...obj };
+
+  if ('inventory' in migrated) {
+    migrated.inventory = migrateLegacyInventoryFields(migrated.inventory);
+  }
+
+  // Legacy field name (pre-sets rename): `claimedCollections`.
+  // Normalize to `claimedSets` and strip the legacy key.
+  const hasClaimedSets = Array.isArray(migrated.claimedSets);
+  const hasClaimedCollections = Array.isArray(migrated.claimedCollections);
+
+  if (!hasClaimedSets && hasClaimedCollections) {
+    migrated.claimedSets = migrated.claimedCollections;
+  }
+
+  if ('claimedCollections' in migrated) {
+    delete migrated.claimedCollections;
+  }
+
+  return migrated;
+}
+
+/** 1.7 jobs named Charlie or the Artisan; both are now specialists in the roster (the Artisan never botched). */
+function migrateJobSpecialist(job: unknown): unknown {
+  if (!isRecord(job)) return job;
+  const legacy: Record<string, { id: string; reliability: number }> = {
+    Charlie: { id: 'cheap_charlie', reliability: 0.88 },
+    Artisan: { id: 'the_artisan', reliability: 1 },
+  };
+  const specialist = typeof job.specialist === 'string' ? legacy[job.specialist] : undefined;
+  return {
+    ...job,
+    ...(specialist ? { specialist: specialist.id } : {}),
+    reliability: typeof job.reliability === 'number' ? job.reliability : (specialist?.reliability ?? 1),
+    originalityChange: typeof job.originalityChange === 'number' ? job.originalityChange : 0,
+  };
+}
+
+function migrateJobComponentGains(job: unknown): unknown {
+  if (!isRecord(job) || isRecord(job.componentGains)) return job;
+  const gain = typeof job.conditionGain === 'number' ? job.conditionGain : 0;
+  const componentGains =
+    job.kind === 'restoration'
+      ? { engine: gain, body: gain, interior: gain, electrics: gain, chassis: gain }
+      : {};
+  return { ...job, componentGains };
+}
+
+/** 1.9 parts didn't record who sold them; the seller's name tells (rival sell-offs carry the rival's name). */
+function migratePartSource(part: unknown): unknown {
+  if (!isRecord(part) || typeof part.source === 'string') return part;
+  const source =
+    part.seller === "Scrapyard Joe's" ? 'scrapyard' : part.seller === 'Marque Specialists' ? 'specialist' : 'rival';
+  return { ...part, source };
+}
+
+/**
+ * Registered migrations, oldest first. Each step's `from` must equal the previous step's `to`.
+ * To change the save shape: append a step here; SAVE_VERSION follows the last `to` automatically.
+ */
+export const SAVE_MIGRATIONS: readonly SaveMigration[] = [
+  {
+    from: LEGACY_SAVE_VERSION,
+    to: '1.0',
+    description: 'Stamp unversioned saves (the 1.0 shape predates the version field).',
+    migrate: (save) => ({ ...save }),
+  },
+  {
+    from: '1.0',
+    to: '1.1',
+    description: 'Rename collection fields (displayInMuseum → inCollection, claimedCollections → claimedSets).',
+    migrate: (save) => ({ ...save, player: migrateLegacyPlayerFields(save.player) }),
+  },
+  {
+    from: '1.1',
+    to: '1.2',
+    description: 'Add run settings; runs started before game modes existed are standard runs.',
+    migrate: (save) => ({ ...save, run: isRecord(save.run) ? save.run : { mode: 'standard' } }),
+  },
+  {
+    from: '1.2',
+    to: '1.3',
+    description: 'Add the difficulty preset to run settings; earlier runs used standard difficulty.',
+    migrate: (save) => ({
+      ...save,
+      run: isRecord(save.run) ? { difficulty: 'standard', ...save.run } : { mode: 'standard', difficulty: 'standard' },
+    }),
+  },
+  {
+    from: '1.3',
+    to: '1.4',
+    description: 'Add the transaction ledger; history before this version was not recorded.',
+    migrate: (save) => ({ ...save, ledger: isRecord(save.ledger) ? save.ledger : { entries: [], nextId: 1 } }),
+  },
+  {
+    from: '1.4',
+    to: '1.5',
+    description: 'Add the Past Cars archive; cars sold before this version were not archived.',
+    migrate: (save) => ({
+      ...save,
+      player: isRecord(save.player) && !Array.isArray(save.player.pastCars) ? { ...save.player, pastCars: [] } : save.player,
+    }),
+  },
+  {
+    from: '1.5',
+    to: '1.6',
+    description: 'Add the workshop restoration queue; restorations before this version finished instantly.',
+    migrate: (save) => ({
+      ...save,
+      player:
+        isRecord(save.player) && !Array.isArray(save.player.restorationQueue)
+          ? { ...save.player, restorationQueue: [] }
+          : save.player,
+    }),
+  },
+  {
+    from: '1.6',
+    to: '1.7',
+    description: 'Add the parts market; work booked before this version had its parts included in the labor cost.',
+    migrate: (save) => ({
+      ...save,
+      player: isRecord(save.player)
+        ? {
+            ...save.player,
+            parts: Array.isArray(save.player.parts) ? save.player.parts : [],
+            restorationQueue: Array.isArray(save.player.restorationQueue)
+              ? save.player.restorationQueue.map((job) =>
+                  isRecord(job) && !Array.isArray(job.parts) ? { ...job, parts: [] } : job
+                )
+              : save.player.restorationQueue,
+          }
+        : save.player,
+      world: isRecord(save.world) && !('partsMarket' in save.world) ? { ...save.world, partsMarket: null } : save.world,
+    }),
+  },
+  {
+    from: '1.7',
+    to: '1.8',
+    description:
+      'Add hireable restoration specialists; booked jobs name their specialist by id and keep their reliability.',
+    migrate: (save) => ({
+      ...save,
+      player: isRecord(save.player)
+        ? {
+            ...save.player,
+            specialists: isRecord(save.player.specialists) ? save.player.specialists : {},
+            restorationQueue: Array.isArray(save.player.restorationQueue)
+              ? save.player.restorationQueue.map(migrateJobSpecialist)
+              : save.player.restorationQueue,
+          }
+        : save.player,
+    }),
+  },
+  {
+    from: '1.8',
+    to: '1.9',
+    description:
+      'Add component condition; booked restorations improved the whole car, so they now add their gain to every component.',
+    migrate: (save) => ({
+      ...save,
+      player:
+        isRecord(save.player) && Array.isArray(save.player.restorationQueue)
+          ? { ...save.player, restorationQueue: save.player.restorationQueue.map(migrateJobComponentGains) }
+          : save.player,
+    }),
+  },
+  {
+    from: '1.9',
+    to: '1.10',
+    description: 'Add originality from parts; owned and booked parts record which kind of seller they came from.',
+    migrate: (save) => ({
+      ...save,
+      player: isRecord(save.player)
+        ? {
+            ...save.player,
+            parts: Array.isArray(save.player.parts) ? save.player.parts.map(migratePartSource) : save.player.parts,
+            restorationQueue: Array.isArray(save.player.restorationQueue)
+              ? save.player.restorationQueue.map((job) =>
+                  isRecord(job) && Array.isArray(job.parts) ? { ...job, parts: job.parts.map(migratePartSource) } : job
+                )
+              : save.player.restorationQueue,
+          }
+        : save.player,
+    }),
+  },
+  {
+    from: '1.10',
+    to: '1.11',
+    description: 'Add the private buyer marketplace; no cars were listed for sale before this version.',
+    migrate: (save) => ({
+      ...save,
+      player:
+        isRecord(save.player) && !Array.isArray(save.player.carListings)
+          ? { ...save.player, carListings: [] }
+          : save.player,
+    }),
+  },
+  {
+    from: '1.11',
+    to: '1.12',
+    description: 'Add auction house fees and memberships; nobody held a membership before this version.',
+    migrate: (save) => ({
+      ...save,
+      player:
+        isRecord(save.player) && !isRecord(save.player.auctionMemberships)
+          ? { ...save.player, auctionMemberships: {} }
+          : save.player,
+    }),
+  },
+  {
+    from: '1.12',
+    to: '1.13',
+    description: 'Add auction catalogs; later lots are rolled on the next visit to a house.',
+    migrate: (save) => ({
+      ...save,
+      world:
+        isRecord(save.world) && !('auctionLotsByLocation' in save.world)
+          ? { ...save.world, auctionLotsByLocation: {} }
+          : save.world,
+    }),
+  },
+];
+
+/** Newest save version the chain produces. */
+export const LATEST_SAVE_VERSION = SAVE_MIGRATIONS[SAVE_MIGRATIONS.length - 1]?.to ?? LEGACY_SAVE_VERSION;
+
+function parseVersion(version: string): number[] | null {
+  if (!/^\d+(\.\d+)*$/.test(version)) return null;
+  return version.split('.').map((part) => Number.parseInt(part, 10));
+}
+
+/**
+ * Compare dotted numeric versions ("1.10" > "1.9").
+ * @returns Negative if a < b, positive if a > b, 0 if equal; null if either is not a version
+ */
+export function compareSaveVersions(a: string, b: string): number | null {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return null;
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Run a parsed save blob through the migration chain up to LATEST_SAVE_VERSION.
+ *
+ * Rules:
+ * - Missing version: treated as LEGACY_SAVE_VERSION.
+ * - Newer than LATEST_SAVE_VERSION: rejected (the game must be updated; never downgrade).
+ * - Unknown or gapped version: rejected.
+ */
+export function runSaveMigrations(parsed: unknown): SaveMigrationResult {
+  if (!isRecord(parsed)) {
+    return { ok: false, reason: 'invalid', error: 'Save data is not an object.' };
+  }
+
+  const rawVersion = parsed.version;
+  if (rawVersion !== undefined && rawVersion !== null && typeof rawVersion !== 'string') {
+    return { ok: false, reason: 'invalid', error: `Save version is not readable (${String(rawVersion)}).` };
+  }
+  const fromVersion = rawVersion ?? LEGACY_SAVE_VERSION;
+
+  const comparison = compareSaveVersions(fromVersion, LATEST_SAVE_VERSION);
+  if (comparison !== null && comparison > 0) {
+    return {
+      ok: false,
+      reason: 'newer-version',
+      error: `This save is from a newer version of the game (save v${fromVersion}, game supports up to v${LATEST_SAVE_VERSION}). Update the game to load it.`,
+    };
+  }
+
+  let blob: SaveBlob = { ...parsed, version: fromVersion };
+  const applied: string[] = [];
+  let version = fromVersion;
+
+  while (version !== LATEST_SAVE_VERSION) {
+    const step = SAVE_MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) {
+      return {
+        ok: false,
+        reason: 'unknown-version',
+        error: `No migration path from save v${version} to v${LATEST_SAVE_VERSION}.`,
+      };
+    }
+
+    blob = { ...step.migrate(blob), version: step.to };
+    applied.push(`${step.from} → ${step.to}`);
+    version = step.to;
+  }
+
+  return { ok: true, saveData: blob as unknown as SavedGameData, fromVersion, applied };
+}
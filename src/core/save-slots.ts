@@ -0,0 +1,328 @@
+import { calculateCarValue } from '@/data/car-database';
+import { SAVE_KEY, readSaveData, removeSaveBackups, type SavedGameData } from '@/core/game-persistence';
+import { isDifficultyPreset, isGameMode, type DifficultyPreset, type GameMode } from '@/config/run-config';
+import { isRecord } from '@/utils/types';
+import { warnLog } from '@/utils/log';
+
+/** LocalStorage key for the slot index (metadata for every slot + the active slot id). */
+export const SAVE_SLOTS_INDEX_KEY = 'theCuratorSaveSlots';
+
+/**
+ * Summary of one save slot, kept in the index so menus can list slots
+ * without parsing every full save.
+ */
+export interface SaveSlotMetadata {
+  id: string;
+  name: string;
+  day: number;
+  money: number;
+  prestige: number;
+  /** Cars currently displayed in the private collection. */
+  collectionCount: number;
+  /** Epoch milliseconds of the last save written to this slot. */
+  lastPlayedAt: number;
+  /** SAVE_VERSION of the stored payload. */
+  version: string;
+  /** Template id of the most valuable owned car (used for the slot thumbnail), if any. */
+  thumbnailTemplateId?: string;
+  /** Game mode of the run (missing in slots written before game modes existed: standard). */
+  mode?: GameMode;
+  /** Difficulty preset of the run (missing in slots written before presets existed: standard). */
+  difficulty?: DifficultyPreset;
+  /** True when the run was started with custom rule overrides. */
+  customRules?: boolean;
+  /** Set when an Ironman run ended for good; archived slots can be viewed/exported but not loaded. */
+  archived?: SaveSlotArchiveInfo;
+}
+
+export interface SaveSlotArchiveInfo {
+  reason: 'bankrupt';
+  /** Day the run ended on. */
+  day: number;
+  /** Epoch milliseconds. */
+  archivedAt: number;
+}
+
+interface SaveSlotIndex {
+  activeSlotId: string | null;
+  slots: SaveSlotMetadata[];
+}
+
+/** LocalStorage key holding a slot's full SavedGameData. */
+export function getSaveSlotStorageKey(slotId: string): string {
+  return `${SAVE_KEY}:${slotId}`;
+}
+
+function isSaveSlotMetadata(value: unknown): value is SaveSlotMetadata {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.day === 'number' &&
+    typeof value.money === 'number' &&
+    typeof value.prestige === 'number' &&
+    typeof value.collectionCount === 'number' &&
+    typeof value.lastPlayedAt === 'number' &&
+    typeof value.version === 'string' &&
+    (value.mode === undefined || isGameMode(value.mode)) &&
+    (value.difficulty === undefined || isDifficultyPreset(value.difficulty)) &&
+    (value.archived === undefined || isRecord(value.archived))
+  );
+}
+
+function readIndex(): SaveSlotIndex {
+  const raw = localStorage.getItem(SAVE_SLOTS_INDEX_KEY);
+  if (!raw) return { activeSlotId: null, slots: [] };
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!isRecord(parsed) || !Array.isArray(parsed.slots)) {
+      warnLog('Save slot index rejected: invalid shape.');
+      return { activeSlotId: null, slots: [] };
+    }
+
+    const slots = parsed.slots.filter(isSaveSlotMetadata);
+    const activeSlotId =
+      typeof parsed.activeSlotId === 'string' && slots.some((slot) => slot.id === parsed.activeSlotId)
+        ? parsed.activeSlotId
+        : null;
+    return { activeSlotId, slots };
+  } catch (error) {
+    warnLog('Save slot index rejected: invalid JSON.', error);
+    return { activeSlotId: null, slots: [] };
+  }
+}
+
+function writeIndex(index: SaveSlotIndex): void {
+  localStorage.setItem(SAVE_SLOTS_INDEX_KEY, JSON.stringify(index));
+}
+
+function generateSlotId(existing: readonly SaveSlotMetadata[]): string {
+  // Slot ids are storage keys, not gameplay: keep them off the seeded RNG so they can't perturb a run.
+  const base = `slot_${Date.now().toString(36)}`;
+  let id = base;
+  for (let n = 2; existing.some((slot) => slot.id === id); n++) {
+    id = `${base}_${n}`;
+  }
+  return id;
+}
+
+function getDefaultSlotName(existing: readonly SaveSlotMetadata[]): string {
+  let n = existing.length + 1;
+  while (existing.some((slot) => slot.name === `Run ${n}`)) n++;
+  return `Run ${n}`;
+}
+
+function normalizeSlotName(name: string | undefined, existing: readonly SaveSlotMetadata[]): string {
+  const trimmed = name?.trim().slice(0, 40);
+  return trimmed ? trimmed : getDefaultSlotName(existing);
+}
+
+/**
+ * Move the pre-slots single save (SAVE_KEY) into its own slot, once.
+ * Safe to call repeatedly; does nothing when the index already exists or there is no legacy save.
+ */
+function migrateLegacySingleSave(): void {
+  if (localStorage.getItem(SAVE_SLOTS_INDEX_KEY) !== null) return;
+
+  const raw = localStorage.getItem(SAVE_KEY);
+  const legacy = readSaveData(SAVE_KEY);
+  if (!raw || !legacy) return;
+
+  // Move the original blob (not the migrated copy) so the slot's first load takes its own pre-migration backup.
+  const id = generateSlotId([]);
+  localStorage.setItem(getSaveSlotStorageKey(id), raw);
+  writeIndex({
+    activeSlotId: id,
+    slots: [buildSaveSlotMetadata(legacy, { id, name: 'Run 1', lastPlayedAt: Date.now() })],
+  });
+  localStorage.removeItem(SAVE_KEY);
+  removeSaveBackups(SAVE_KEY);
+}
+
+/**
+ * Derive slot metadata from a save payload.
+ */
+export function buildSaveSlotMetadata(
+  saveData: SavedGameData,
+  slot: { id: string; name: string; lastPlayedAt: number }
+): SaveSlotMetadata {
+  const inventory = Array.isArray(saveData.player.inventory) ? saveData.player.inventory : [];
+
+  let thumbnailTemplateId: string | undefined;
+  let bestValue = -1;
+  for (const car of inventory) {
+    if (!car.templateId) continue;
+    const value = calculateCarValue(car);
+    if (value > bestValue) {
+      bestValue = value;
+      thumbnailTemplateId = car.templateId;
+    }
+  }
+
+  return {
+    id: slot.id,
+    name: slot.name,
+    day: saveData.world.day ?? 1,
+    money: saveData.player.money ?? 0,
+    prestige: saveData.player.prestige ?? 0,
+    collectionCount: inventory.filter((car) => car.inCollection).length,
+    lastPlayedAt: slot.lastPlayedAt,
+    version: saveData.version,
+    thumbnailTemplateId,
+    mode: saveData.run?.mode ?? 'standard',
+    difficulty: saveData.run?.difficulty ?? 'standard',
+    customRules: saveData.run?.overrides !== undefined && Object.keys(saveData.run.overrides).length > 0,
+  };
+}
+
+/**
+ * List all save slots, most recently played first.
+ */
+export function listSaveSlots(): SaveSlotMetadata[] {
+  migrateLegacySingleSave();
+  return [...readIndex().slots].sort((a, b) => b.lastPlayedAt - a.lastPlayedAt);
+}
+
+/** Look up one slot's metadata. */
+export function getSaveSlot(slotId: string): SaveSlotMetadata | undefined {
+  migrateLegacySingleSave();
+  return readIndex().slots.find((slot) => slot.id === slotId);
+}
+
+/** Id of the slot the current run saves into (null before the first save of a new game). */
+export function getActiveSaveSlotId(): string | null {
+  migrateLegacySingleSave();
+  return readIndex().activeSlotId;
+}
+
+/** Mark a slot as the one "Continue" resumes. Unknown ids clear the active slot. */
+export function setActiveSaveSlotId(slotId: string | null): void {
+  const index = readIndex();
+  index.activeSlotId = slotId && index.slots.some((slot) => slot.id === slotId) ? slotId : null;
+  writeIndex(index);
+}
+
+/**
+ * Create a new slot from a save payload and make it active.
+ * @param name - Display name; defaults to "Run N"
+ */
+export function createSaveSlot(saveData: SavedGameData, name?: string): SaveSlotMetadata {
+  migrateLegacySingleSave();
+  const index = readIndex();
+  const id = generateSlotId(index.slots);
+  const metadata = buildSaveSlotMetadata(saveData, {
+    id,
+    name: normalizeSlotName(name, index.slots),
+    lastPlayedAt: Date.now(),
+  });
+
+  localStorage.setItem(getSaveSlotStorageKey(id), JSON.stringify(saveData));
+  index.slots.push(metadata);
+  index.activeSlotId = id;
+  writeIndex(index);
+  return metadata;
+}
+
+/** True if a slot holds a run that can still be played (not archived). */
+export function isSaveSlotPlayable(slot: SaveSlotMetadata): boolean {
+  return slot.archived === undefined;
+}
+
+/**
+ * Overwrite an existing slot with a new payload and refresh its metadata.
+ * @returns False when the slot no longer exists (e.g. deleted from the menu) or is archived
+ */
+export function writeSaveSlot(slotId: string, saveData: SavedGameData): boolean {
+  const index = readIndex();
+  const existing = index.slots.find((slot) => slot.id === slotId);
+  if (!existing || existing.archived) return false;
+
+  localStorage.setItem(getSaveSlotStorageKey(slotId), JSON.stringify(saveData));
+  const metadata = buildSaveSlotMetadata(saveData, { id: slotId, name: existing.name, lastPlayedAt: Date.now() });
+  index.slots = index.slots.map((slot) => (slot.id === slotId ? metadata : slot));
+  index.activeSlotId = slotId;
+  writeIndex(index);
+  return true;
+}
+
+/**
+ * Read, validate, and migrate a slot's save payload.
+ * Returns null when the slot is missing or its payload is invalid/unsupported.
+ */
+export function readSaveSlot(slotId: string): SavedGameData | null {
+  migrateLegacySingleSave();
+  if (!readIndex().slots.some((slot) => slot.id === slotId)) return null;
+  return readSaveData(getSaveSlotStorageKey(slotId));
+}
+
+/**
+ * Close a slot's run for good (Ironman game over). The payload is kept for export,
+ * but the slot can no longer be loaded, written, or duplicated.
+ */
+export function archiveSaveSlot(slotId: string, info: Omit<SaveSlotArchiveInfo, 'archivedAt'>): boolean {
+  const index = readIndex();
+  const slot = index.slots.find((entry) => entry.id === slotId);
+  if (!slot) return false;
+
+  slot.archived = { ...info, archivedAt: Date.now() };
+  if (index.activeSlotId === slotId) {
+    index.activeSlotId = null;
+  }
+  writeIndex(index);
+  return true;
+}
+
+/** Rename a slot. Blank names are ignored. */
+export function renameSaveSlot(slotId: string, name: string): boolean {
+  const trimmed = name.trim().slice(0, 40);
+  if (!trimmed) return false;
+
+  const index = readIndex();
+  const slot = index.slots.find((entry) => entry.id === slotId);
+  if (!slot) return false;
+
+  slot.name = trimmed;
+  writeIndex(index);
+  return true;
+}
+
+/** Delete a slot, its payload, and its pre-migration backups. Clears the active slot if it was the one deleted. */
+export function deleteSaveSlot(slotId: string): boolean {
+  const index = readIndex();
+  if (!index.slots.some((slot) => slot.id === slotId)) return false;
+
+  localStorage.removeItem(getSaveSlotStorageKey(slotId));
+  removeSaveBackups(getSaveSlotStorageKey(slotId));
+  index.slots = index.slots.filter((slot) => slot.id !== slotId);
+  if (index.activeSlotId === slotId) {
+    index.activeSlotId = null;
+  }
+  writeIndex(index);
+  return true;
+}
+
+/**
+ * Copy a slot into a new slot (the active slot is unchanged).
+ * Ironman and archived runs can't be copied (a copy would be a reload point).
+ * @returns The new slot's metadata, or null if the source is missing/unreadable or can't be copied
+ */
+export function duplicateSaveSlot(slotId: string, name?: string): SaveSlotMetadata | null {
+  const index = readIndex();
+  const source = index.slots.find((slot) => slot.id === slotId);
+  if (!source || source.mode === 'ironman' || source.archived) return null;
+  const raw = localStorage.getItem(getSaveSlotStorageKey(slotId));
+  if (raw === null) return null;
+
+  const id = generateSlotId(index.slots);
+  const copy: SaveSlotMetadata = {
+    ...source,
+    id,
+    name: normalizeSlotName(name ?? `${source.name} (copy)`, index.slots),
+  };
+
+  localStorage.setItem(getSaveSlotStorageKey(id), raw);
+  index.slots.push(copy);
+  writeIndex(index);
+  return copy;
+}
@@ -0,0 +1,212 @@
+import { SAVE_VERSION, type SavedGameData } from '@/core/game-persistence';
+import { runSaveMigrations } from '@/core/save-migrations';
+import { validateSaveData, type SaveValidationReport } from '@/core/save-validation';
+import { isRecord } from '@/utils/types';
+
+/** Marker identifying an exported save file. */
+export const SAVE_EXPORT_FORMAT = 'the-curator-save';
+
+/** Version of the export envelope (independent of SAVE_VERSION). */
+export const SAVE_EXPORT_FORMAT_VERSION = 1;
+
+type SaveExportEncoding = 'json' | 'gzip-base64';
+
+/**
+ * Portable save file envelope.
+ * `payload` is the SavedGameData JSON, optionally gzip-compressed and base64-encoded;
+ * `checksum` covers the payload exactly as stored.
+ */
+export interface SaveExportFile {
+  format: typeof SAVE_EXPORT_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  saveVersion: string;
+  encoding: SaveExportEncoding;
+  checksum: string;
+  payload: string;
+}
+
+export type SaveImportResult =
+  | { ok: true; saveData: SavedGameData; compressed: boolean; report: SaveValidationReport }
+  | { ok: false; error: string };
+
+/**
+ * Side-by-side summary of the save being replaced and the imported save.
+ */
+export interface SaveDiffSummary {
+  day: { current: number; incoming: number };
+  money: { current: number; incoming: number };
+  prestige: { current: number; incoming: number };
+  cars: { current: number; incoming: number; added: string[]; removed: string[] };
+}
+
+/**
+ * FNV-1a (32-bit) over the payload, as 8 hex chars.
+ * Detects truncated or hand-edited files; it is not a tamper-proof signature.
+ */
+export function computeSaveChecksum(payload: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < payload.length; i++) {
+    hash ^= payload.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function canCompress(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function gzipToBase64(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  const buffer = await new Response(stream).arrayBuffer();
+  return bytesToBase64(new Uint8Array(buffer));
+}
+
+async function gunzipFromBase64(base64: string): Promise<string> {
+  const bytes = base64ToBytes(base64);
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+function isSaveExportFile(value: unknown): value is SaveExportFile {
+  return (
+    isRecord(value) &&
+    value.format === SAVE_EXPORT_FORMAT &&
+    typeof value.formatVersion === 'number' &&
+    (value.encoding === 'json' || value.encoding === 'gzip-base64') &&
+    typeof value.checksum === 'string' &&
+    typeof value.payload === 'string'
+  );
+}
+
+function migrateAndValidate(parsed: unknown, compressed: boolean): SaveImportResult {
+  const migration = runSaveMigrations(parsed);
+  if (!migration.ok) {
+    return { ok: false, error: migration.error };
+  }
+
+  const validation = validateSaveData(migration.saveData);
+  if (!validation.ok) {
+    return { ok: false, error: validation.error };
+  }
+  // Like duplicating, importing an Ironman run would turn the file into a reload point.
+  if (validation.saveData.run?.mode === 'ironman') {
+    return { ok: false, error: "Ironman runs can't be imported: a copy of the run would be a reload point." };
+  }
+  return { ok: true, saveData: validation.saveData, compressed, report: validation.report };
+}
+
+/**
+ * Serialize a save into the portable export format.
+ * @param options.compress - Gzip the payload when the browser supports CompressionStream (default true)
+ * @returns File contents (JSON text)
+ */
+export async function createSaveExportFile(
+  saveData: SavedGameData,
+  options?: { compress?: boolean }
+): Promise<string> {
+  const json = JSON.stringify(saveData);
+  const compress = (options?.compress ?? true) && canCompress();
+  const payload = compress ? await gzipToBase64(json) : json;
+
+  const file: SaveExportFile = {
+    format: SAVE_EXPORT_FORMAT,
+    formatVersion: SAVE_EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    saveVersion: saveData.version ?? SAVE_VERSION,
+    encoding: compress ? 'gzip-base64' : 'json',
+    checksum: computeSaveChecksum(payload),
+    payload,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse an imported file: verify it, run the migration chain, then validate/repair against the save schema.
+ * Accepts the export envelope as well as a bare SavedGameData JSON (e.g. copied out of localStorage).
+ */
+export async function parseSaveImportFile(text: string): Promise<SaveImportResult> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text) as unknown;
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+
+  if (!isSaveExportFile(parsed)) {
+    if (isRecord(parsed) && parsed.format === SAVE_EXPORT_FORMAT) {
+      return { ok: false, error: 'The save file is missing required fields.' };
+    }
+    return migrateAndValidate(parsed, false);
+  }
+
+  if (parsed.formatVersion > SAVE_EXPORT_FORMAT_VERSION) {
+    return { ok: false, error: 'This save file was exported by a newer version of the game.' };
+  }
+
+  if (computeSaveChecksum(parsed.payload) !== parsed.checksum) {
+    return { ok: false, error: 'Checksum mismatch: the save file is damaged or was edited.' };
+  }
+
+  let json = parsed.payload;
+  if (parsed.encoding === 'gzip-base64') {
+    if (!canCompress()) {
+      return { ok: false, error: 'This browser cannot read compressed save files.' };
+    }
+    try {
+      json = await gunzipFromBase64(parsed.payload);
+    } catch {
+      return { ok: false, error: 'The compressed save data could not be decoded.' };
+    }
+  }
+
+  let payloadJson: unknown;
+  try {
+    payloadJson = JSON.parse(json) as unknown;
+  } catch {
+    return { ok: false, error: 'The save data inside the file is not valid JSON.' };
+  }
+  return migrateAndValidate(payloadJson, parsed.encoding === 'gzip-base64');
+}
+
+/**
+ * Compare the save about to be replaced with an imported save.
+ * Cars are matched by instance id.
+ */
+export function summarizeSaveDiff(current: SavedGameData | null, incoming: SavedGameData): SaveDiffSummary {
+  const currentCars = current?.player.inventory ?? [];
+  const incomingCars = incoming.player.inventory ?? [];
+  const currentIds = new Set(currentCars.map((car) => car.id));
+  const incomingIds = new Set(incomingCars.map((car) => car.id));
+
+  return {
+    day: { current: current?.world.day ?? 0, incoming: incoming.world.day ?? 1 },
+    money: { current: current?.player.money ?? 0, incoming: incoming.player.money ?? 0 },
+    prestige: { current: current?.player.prestige ?? 0, incoming: incoming.player.prestige ?? 0 },
+    cars: {
+      current: currentCars.length,
+      incoming: incomingCars.length,
+      added: incomingCars.filter((car) => !currentIds.has(car.id)).map((car) => car.name),
+      removed: currentCars.filter((car) => !incomingIds.has(car.id)).map((car) => car.name),
+    },
+  };
+}
@@ -0,0 +1,1178 @@
+import type {
+  Car,
+  CarComponent,
+  CarComponentConditions,
+  CarDefect,
+  CarDefectKind,
+  CarProvenance,
+  CarRestorationStep,
+  CarTier,
+  ProvenanceDocument,
+  ProvenanceDocumentKind,
+} from '@/data/car-database';
+import type {
+  BuyerOffer,
+  BuyerOfferKind,
+  CarListing,
+  FinanceLoan,
+  LedgerCategory,
+  LedgerEntry,
+  LedgerState,
+  OwnedPart,
+  PartListing,
+  PartSource,
+  PastCarRecord,
+  RestorationJob,
+  SpecialistRelationship,
+} from '@/core/game-types';
+import type { SavedGameData } from '@/core/game-persistence';
+import type { ActiveMarketEvent, MarketEventType, MarketFluctuationState } from '@/systems/market-fluctuation-system';
+import type { SpecialEvent, SpecialEventType, SpecialEventsState } from '@/systems/special-events-system';
+import type { TutorialStep } from '@/systems/tutorial-manager';
+import { GAME_CONFIG } from '@/config/game-config';
+import {
+  DEFAULT_RUN_SETTINGS,
+  isDifficultyPreset,
+  isGameMode,
+  resolveGameConfig,
+  type GameConfig,
+  type RunConfigOverrides,
+  type RunSettings,
+} from '@/config/run-config';
+import { isRngState } from '@/core/rng';
+import { RestorationSpecialistDatabase } from '@/data/character-database';
+import { AUCTION_FORMATS } from '@/data/location-database';
+import { getAuctionMembershipTier } from '@/systems/auction-fees';
+import { isRecord } from '@/utils/types';
+
+const CAR_TIERS: readonly CarTier[] = ['Daily Driver', 'Cult Classic', 'Icon', 'Unicorn'];
+const CAR_COMPONENTS: readonly CarComponent[] = ['engine', 'body', 'interior', 'electrics', 'chassis'];
+const CAR_DEFECT_KINDS: readonly CarDefectKind[] = ['concealedRust', 'nonOriginalEngine', 'odometerRollback', 'frameDamage'];
+const PROVENANCE_DOCUMENT_KINDS: readonly ProvenanceDocumentKind[] = [
+  'buildSheet',
+  'serviceRecords',
+  'ownershipTitles',
+  'periodPhotos',
+];
+const MARKET_EVENT_TYPES: readonly MarketEventType[] = ['boom', 'bust', 'nicheBoom'];
+const LEDGER_CATEGORIES: readonly LedgerCategory[] = [
+  'opening',
+  'purchase',
+  'sale',
+  'restoration',
+  'rent',
+  'loan',
+  'loan-repayment',
+  'set-reward',
+  'collection-bonus',
+  'garage-upgrade',
+  'event-bonus',
+  'tutorial-aid',
+  'parts',
+  'auction-fee',
+  'other',
+];
+const PART_SOURCES: readonly PartSource[] = ['scrapyard', 'specialist', 'rival'];
+const BUYER_OFFER_KINDS: readonly BuyerOfferKind[] = ['full', 'counter', 'lowball'];
+const RESTORATION_SPECIALIST_IDS: readonly string[] = RestorationSpecialistDatabase.map((specialist) => specialist.id);
+const SPECIAL_EVENT_TYPES: readonly SpecialEventType[] = ['policeAuction', 'barnFind', 'vipEvent', 'dealerClearance'];
+const TUTORIAL_STEPS: readonly string[] = [
+  'intro',
+  'first_visit_auction',
+  'first_buy',
+  'first_restore',
+  'first_flip',
+  'first_loss',
+  'redemption',
+  'complete',
+  // Legacy steps; TutorialManager.loadState maps them forward.
+  'first_visit_scrapyard',
+  'first_inspect',
+] satisfies readonly (TutorialStep | 'first_visit_scrapyard' | 'first_inspect')[];
+
+/** Garage capacity cap (mirrors the upgrade cost table in GameManager.getNextGarageSlotCost). */
+const MAX_GARAGE_SLOTS = 10;
+
+/**
+ * One repair made while validating a save.
+ * - repaired: the value was invalid and replaced (defaulted, clamped, or coerced)
+ * - dropped: the value could not be repaired and was removed
+ */
+export interface SaveRepairEntry {
+  /** Location in the save, e.g. `player.inventory[2].condition`. */
+  path: string;
+  action: 'repaired' | 'dropped';
+  message: string;
+}
+
+/**
+ * Structured outcome of validating a save.
+ */
+export interface SaveValidationReport {
+  entries: SaveRepairEntry[];
+  repairedCount: number;
+  droppedCount: number;
+}
+
+export type SaveValidationResult =
+  | { ok: true; saveData: SavedGameData; report: SaveValidationReport }
+  | { ok: false; error: string; report: SaveValidationReport };
+
+class RepairLog {
+  public readonly entries: SaveRepairEntry[] = [];
+
+  public repaired(path: string, message: string): void {
+    this.entries.push({ path, action: 'repaired', message });
+  }
+
+  public dropped(path: string, message: string): void {
+    this.entries.push({ path, action: 'dropped', message });
+  }
+
+  public toReport(): SaveValidationReport {
+    return {
+      entries: [...this.entries],
+      repairedCount: this.entries.filter((entry) => entry.action === 'repaired').length,
+      droppedCount: this.entries.filter((entry) => entry.action === 'dropped').length,
+    };
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'missing';
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > 30 ? `${text.slice(0, 27)}...` : text;
+}
+
+// Fields marked `optional` were added after the first release; older saves legitimately lack them,
+// so a missing value is defaulted silently instead of being reported as a repair.
+function readNumber(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  log: RepairLog,
+  rules: { fallback: number; min?: number; max?: number; integer?: boolean; optional?: boolean }
+): number {
+  const raw = source[key];
+  if (raw === undefined && rules.optional) return rules.fallback;
+  if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+    log.repaired(`${path}.${key}`, `defaulted to ${rules.fallback} (was ${describeValue(raw)})`);
+    return rules.fallback;
+  }
+
+  let value = rules.integer ? Math.floor(raw) : raw;
+  if (rules.min !== undefined) value = Math.max(rules.min, value);
+  if (rules.max !== undefined) value = Math.min(rules.max, value);
+  if (value !== raw) {
+    log.repaired(`${path}.${key}`, `clamped to ${value} (was ${raw})`);
+  }
+  return value;
+}
+
+function readBoolean(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  log: RepairLog,
+  fallback: boolean,
+  optional = false
+): boolean {
+  const raw = source[key];
+  if (typeof raw === 'boolean') return raw;
+  if (raw === undefined && optional) return fallback;
+  log.repaired(`${path}.${key}`, `defaulted to ${fallback} (was ${describeValue(raw)})`);
+  return fallback;
+}
+
+function readString(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  log: RepairLog,
+  fallback: string
+): string {
+  const raw = source[key];
+  if (typeof raw === 'string' && raw.length > 0) return raw;
+  log.repaired(`${path}.${key}`, `defaulted to "${fallback}" (was ${describeValue(raw)})`);
+  return fallback;
+}
+
+function readStringArray(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  log: RepairLog,
+  fallback: string[],
+  optional = false
+): string[] {
+  const raw = source[key];
+  if (raw === undefined && optional) return [...fallback];
+  if (!Array.isArray(raw)) {
+    log.repaired(`${path}.${key}`, `defaulted to ${describeValue(fallback)} (was ${describeValue(raw)})`);
+    return [...fallback];
+  }
+
+  const strings = raw.filter((item): item is string => typeof item === 'string');
+  if (strings.length !== raw.length) {
+    log.dropped(`${path}.${key}`, `removed ${raw.length - strings.length} non-text entries`);
+  }
+  return strings;
+}
+
+function isValidRestorationStep(value: unknown): value is CarRestorationStep {
+  const isAmount = (field: unknown): boolean => typeof field === 'number' && Number.isFinite(field);
+  return (
+    isRecord(value) &&
+    isAmount(value.day) &&
+    (value.kind === 'challenge' || value.kind === 'restoration') &&
+    typeof value.name === 'string' &&
+    isAmount(value.cost) &&
+    (value.specialist === undefined || typeof value.specialist === 'string') &&
+    isAmount(value.conditionBefore) &&
+    isAmount(value.conditionAfter)
+  );
+}
+
+function validateRestorationLog(value: unknown, path: string, log: RepairLog): CarRestorationStep[] {
+  if (!Array.isArray(value)) {
+    log.repaired(path, `defaulted to [] (was ${describeValue(value)})`);
+    return [];
+  }
+
+  const steps: CarRestorationStep[] = [];
+  value.forEach((step, index) => {
+    if (isValidRestorationStep(step)) {
+      steps.push({ ...step });
+    } else {
+      log.dropped(`${path}[${index}]`, `removed unreadable restoration step ${describeValue(step)}`);
+    }
+  });
+  return steps;
+}
+
+function validateCarDefects(value: unknown, path: string, log: RepairLog): CarDefect[] {
+  if (!Array.isArray(value)) {
+    log.repaired(path, `defaulted to [] (was ${describeValue(value)})`);
+    return [];
+  }
+
+  const defects: CarDefect[] = [];
+  value.forEach((defect, index) => {
+    const known =
+      isRecord(defect) &&
+      CAR_DEFECT_KINDS.includes(defect.kind as CarDefectKind) &&
+      typeof defect.discovered === 'boolean' &&
+      !defects.some((existing) => existing.kind === defect.kind);
+    if (known) {
+      defects.push({ kind: defect.kind as CarDefectKind, discovered: defect.discovered as boolean });
+    } else {
+      log.dropped(`${path}[${index}]`, `removed unreadable defect ${describeValue(defect)}`);
+    }
+  });
+  return defects;
+}
+
+/**
+ * Validate a car's component conditions. Unreadable components are dropped (the car falls back to
+ * its overall condition); out-of-range values are clamped.
+ */
+function validateCarComponents(value: unknown, path: string, log: RepairLog): CarComponentConditions | null {
+  if (!isRecord(value) || !CAR_COMPONENTS.every((component) => typeof value[component] === 'number')) {
+    log.dropped(path, `removed unreadable components ${describeValue(value)}`);
+    return null;
+  }
+  const components = {} as CarComponentConditions;
+  for (const component of CAR_COMPONENTS) {
+    components[component] = readNumber(value, component, path, log, { fallback: 50, min: 0, max: 100 });
+  }
+  return components;
+}
+
+/**
+ * Validate a car's provenance. An unreadable record is dropped (the car can be researched again);
+ * unreadable documents are dropped and research levels clamped.
+ */
+function validateCarProvenance(value: unknown, path: string, log: RepairLog): CarProvenance | null {
+  if (!isRecord(value) || !Array.isArray(value.documents)) {
+    log.dropped(path, `removed unreadable provenance ${describeValue(value)}`);
+    return null;
+  }
+
+  const documents: ProvenanceDocument[] = [];
+  value.documents.forEach((document, index) => {
+    const known =
+      isRecord(document) &&
+      PROVENANCE_DOCUMENT_KINDS.includes(document.kind as ProvenanceDocumentKind) &&
+      typeof document.exists === 'boolean' &&
+      !documents.some((existing) => existing.kind === document.kind);
+    if (known) {
+      documents.push({
+        kind: document.kind as ProvenanceDocumentKind,
+        exists: document.exists as boolean,
+        obscurity: readNumber(document, 'obscurity', `${path}.documents[${index}]`, log, { fallback: 1, min: 1, max: 5 }),
+      });
+    } else {
+      log.dropped(`${path}.documents[${index}]`, `removed unreadable document ${describeValue(document)}`);
+    }
+  });
+
+  return {
+    owners: readStringArray(value, 'owners', path, log, []),
+    events: readStringArray(value, 'events', path, log, []),
+    documents,
+    researchLevel: readNumber(value, 'researchLevel', path, log, { fallback: 0, min: 0, max: 5 }),
+  };
+}
+
+/**
+ * Validate one car. Cars missing identity or value data are dropped (returns null);
+ * everything else is repaired in place on a copy.
+ */
+function validateCar(value: unknown, path: string, log: RepairLog): Car | null {
+  if (!isRecord(value)) {
+    log.dropped(path, `dropped car (not an object: ${describeValue(value)})`);
+    return null;
+  }
+
+  const label = typeof value.name === 'string' ? `"${value.name}"` : 'car';
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    log.dropped(path, `dropped ${label} (missing id)`);
+    return null;
+  }
+  if (typeof value.name !== 'string' || value.name.length === 0) {
+    log.dropped(path, `dropped car ${value.id} (missing name)`);
+    return null;
+  }
+  if (typeof value.baseValue !== 'number' || !Number.isFinite(value.baseValue) || value.baseValue <= 0) {
+    log.dropped(path, `dropped ${label} (invalid base value ${describeValue(value.baseValue)})`);
+    return null;
+  }
+  if (typeof value.tier !== 'string' || !CAR_TIERS.includes(value.tier as CarTier)) {
+    log.dropped(path, `dropped ${label} (unknown tier ${describeValue(value.tier)})`);
+    return null;
+  }
+
+  const car: Car = {
+    ...(value as unknown as Car),
+    condition: readNumber(value, 'condition', path, log, { fallback: 50, min: 0, max: 100 }),
+    tags: readStringArray(value, 'tags', path, log, []),
+    history: readStringArray(value, 'history', path, log, [], true),
+  };
+
+  if ('templateId' in value && typeof value.templateId !== 'string') {
+    log.dropped(`${path}.templateId`, `removed invalid template id ${describeValue(value.templateId)}`);
+    delete car.templateId;
+  }
+  if ('inCollection' in value && typeof value.inCollection !== 'boolean') {
+    log.repaired(`${path}.inCollection`, `defaulted to false (was ${describeValue(value.inCollection)})`);
+    car.inCollection = false;
+  }
+  for (const key of ['purchasePrice', 'restorationSpent'] as const) {
+    if (!(key in value) || value[key] === undefined) continue;
+    const raw = value[key];
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw < 0) {
+      log.dropped(`${path}.${key}`, `removed invalid amount ${describeValue(raw)}`);
+      delete car[key];
+    }
+  }
+
+  if (value.acquiredDay !== undefined) {
+    car.acquiredDay = readNumber(value, 'acquiredDay', path, log, { fallback: 1, min: 1, integer: true });
+  }
+  if (value.acquiredFrom !== undefined && typeof value.acquiredFrom !== 'string') {
+    log.dropped(`${path}.acquiredFrom`, `removed invalid source ${describeValue(value.acquiredFrom)}`);
+    delete car.acquiredFrom;
+  }
+  if (value.restorationLog !== undefined) {
+    car.restorationLog = validateRestorationLog(value.restorationLog, `${path}.restorationLog`, log);
+  }
+  if (value.defects !== undefined) {
+    car.defects = validateCarDefects(value.defects, `${path}.defects`, log);
+  }
+  if (value.parts !== undefined) {
+    car.parts = readStringArray(value, 'parts', path, log, []);
+  }
+  if (value.components !== undefined) {
+    const components = validateCarComponents(value.components, `${path}.components`, log);
+    if (components) {
+      car.components = components;
+    } else {
+      delete car.components;
+    }
+  }
+  if (value.originality !== undefined) {
+    car.originality = readNumber(value, 'originality', path, log, { fallback: 100, min: 0, max: 100 });
+  }
+  if (value.provenance !== undefined) {
+    const provenance = validateCarProvenance(value.provenance, `${path}.provenance`, log);
+    if (provenance) {
+      car.provenance = provenance;
+    } else {
+      delete car.provenance;
+    }
+  }
+
+  return car;
+}
+
+function validateInventory(value: unknown, path: string, log: RepairLog): Car[] {
+  if (!Array.isArray(value)) {
+    log.repaired(path, `defaulted to an empty garage (was ${describeValue(value)})`);
+    return [];
+  }
+
+  const seenIds = new Set<string>();
+  const cars: Car[] = [];
+  value.forEach((item, index) => {
+    const car = validateCar(item, `${path}[${index}]`, log);
+    if (!car) return;
+    if (seenIds.has(car.id)) {
+      log.dropped(`${path}[${index}]`, `dropped duplicate of "${car.name}" (id ${car.id})`);
+      return;
+    }
+    seenIds.add(car.id);
+    cars.push(car);
+  });
+  return cars;
+}
+
+function validateLoan(value: unknown, path: string, log: RepairLog): FinanceLoan | null {
+  if (value === null || value === undefined) return null;
+
+  const isValid =
+    isRecord(value) &&
+    value.lenderName === 'Preston Banks' &&
+    typeof value.principal === 'number' &&
+    Number.isFinite(value.principal) &&
+    typeof value.fee === 'number' &&
+    Number.isFinite(value.fee) &&
+    typeof value.takenDay === 'number' &&
+    Number.isFinite(value.takenDay);
+  if (!isValid) {
+    log.dropped(path, `removed unreadable loan ${describeValue(value)}`);
+    return null;
+  }
+  return { ...(value as unknown as FinanceLoan) };
+}
+
+function validateSkillBlock(
+  value: unknown,
+  path: string,
+  log: RepairLog,
+  rules: { fallback: number; min: number; max?: number; optional?: boolean }
+): { eye: number; tongue: number; network: number } {
+  const source = isRecord(value) ? value : {};
+  if (!isRecord(value) && !(value === undefined && rules.optional)) {
+    log.repaired(path, `rebuilt (was ${describeValue(value)})`);
+  }
+  return {
+    eye: readNumber(source, 'eye', path, log, { ...rules, integer: true }),
+    tongue: readNumber(source, 'tongue', path, log, { ...rules, integer: true }),
+    network: readNumber(source, 'network', path, log, { ...rules, integer: true }),
+  };
+}
+
+function isValidPastCarRecord(value: unknown): value is PastCarRecord {
+  const isAmount = (field: unknown): boolean => typeof field === 'number' && Number.isFinite(field);
+  const isAmountOrNull = (field: unknown): boolean => field === null || isAmount(field);
+  return (
+    isRecord(value) &&
+    typeof value.carId === 'string' &&
+    (value.templateId === undefined || typeof value.templateId === 'string') &&
+    typeof value.name === 'string' &&
+    CAR_TIERS.includes(value.tier as CarTier) &&
+    isAmountOrNull(value.acquiredDay) &&
+    (value.acquiredFrom === null || typeof value.acquiredFrom === 'string') &&
+    isAmountOrNull(value.purchasePrice) &&
+    Array.isArray(value.restorations) &&
+    value.restorations.every(isValidRestorationStep) &&
+    isAmount(value.challengesCompleted) &&
+    isAmount(value.restorationSpent) &&
+    isAmount(value.conditionAtSale) &&
+    isAmount(value.soldDay) &&
+    isAmountOrNull(value.daysHeld) &&
+    typeof value.saleChannel === 'string' &&
+    isAmount(value.salePrice) &&
+    isAmountOrNull(value.profit) &&
+    isAmountOrNull(value.roi)
+  );
+}
+
+function validatePastCars(value: unknown, path: string, log: RepairLog): PastCarRecord[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    log.repaired(path, `defaulted to an empty archive (was ${describeValue(value)})`);
+    return [];
+  }
+
+  const records: PastCarRecord[] = [];
+  value.forEach((record, index) => {
+    if (isValidPastCarRecord(record)) {
+      records.push(record);
+    } else {
+      log.dropped(`${path}[${index}]`, `removed unreadable past car ${describeValue(record)}`);
+    }
+  });
+  return records;
+}
+
+function isValidOwnedPart(value: unknown): value is OwnedPart {
+  return (
+    isRecord(value) &&
+    typeof value.partId === 'string' &&
+    typeof value.price === 'number' &&
+    Number.isFinite(value.price) &&
+    value.price >= 0 &&
+    typeof value.seller === 'string' &&
+    PART_SOURCES.includes(value.source as PartSource) &&
+    typeof value.arrivesDay === 'number' &&
+    Number.isInteger(value.arrivesDay)
+  );
+}
+
+function validateOwnedParts(value: unknown, path: string, log: RepairLog): OwnedPart[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    log.repaired(path, `defaulted to no parts (was ${describeValue(value)})`);
+    return [];
+  }
+
+  const parts: OwnedPart[] = [];
+  value.forEach((part, index) => {
+    if (isValidOwnedPart(part)) {
+      parts.push({ ...part });
+    } else {
+      log.dropped(`${path}[${index}]`, `removed unreadable part ${describeValue(part)}`);
+    }
+  });
+  return parts;
+}
+
+function isValidPartListing(value: unknown): value is PartListing {
+  const isCount = (field: unknown): boolean => typeof field === 'number' && Number.isInteger(field) && field >= 0;
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.partId === 'string' &&
+    PART_SOURCES.includes(value.source as PartSource) &&
+    typeof value.seller === 'string' &&
+    typeof value.price === 'number' &&
+    Number.isFinite(value.price) &&
+    value.price >= 0 &&
+    isCount(value.stock) &&
+    isCount(value.deliveryDays)
+  );
+}
+
+/** Validate today's parts market. An unreadable market is simply rerolled (null). */
+function validatePartsMarket(value: unknown, path: string, log: RepairLog): PartListing[] | null {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value) || !value.every(isValidPartListing)) {
+    log.repaired(path, `reset for a restock (was ${describeValue(value)})`);
+    return null;
+  }
+  return value.map((listing) => ({ ...listing }));
+}
+
+function isValidRestorationJob(value: unknown): value is RestorationJob {
+  const isCount = (field: unknown): boolean => typeof field === 'number' && Number.isInteger(field) && field >= 0;
+  return (
+    isRecord(value) &&
+    typeof value.carId === 'string' &&
+    typeof value.carName === 'string' &&
+    (value.kind === 'challenge' || value.kind === 'restoration') &&
+    typeof value.name === 'string' &&
+    (value.specialist === undefined ||
+      (typeof value.specialist === 'string' && RESTORATION_SPECIALIST_IDS.includes(value.specialist))) &&
+    typeof value.conditionGain === 'number' &&
+    Number.isFinite(value.conditionGain) &&
+    isRecord(value.componentGains) &&
+    Object.entries(value.componentGains).every(
+      ([component, gain]) =>
+        CAR_COMPONENTS.includes(component as CarComponent) && typeof gain === 'number' && Number.isFinite(gain)
+    ) &&
+    typeof value.reliability === 'number' &&
+    value.reliability >= 0 &&
+    value.reliability <= 1 &&
+    typeof value.originalityChange === 'number' &&
+    Number.isFinite(value.originalityChange) &&
+    Array.isArray(value.clearsHistory) &&
+    value.clearsHistory.every((tag) => typeof tag === 'string') &&
+    typeof value.cost === 'number' &&
+    Number.isFinite(value.cost) &&
+    value.cost >= 0 &&
+    isCount(value.daysRequired) &&
+    isCount(value.daysWorked) &&
+    typeof value.paused === 'boolean' &&
+    isCount(value.bookedDay)
+  );
+}
+
+/**
+ * Validate the workshop queue. Jobs for cars that are no longer owned, and second jobs
+ * for the same car, are dropped.
+ */
+function validateRestorationQueue(
+  value: unknown,
+  inventory: readonly Car[],
+  path: string,
+  log: RepairLog
+): RestorationJob[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    log.repaired(path, `defaulted to an empty workshop (was ${describeValue(value)})`);
+    return [];
+  }
+
+  const jobs: RestorationJob[] = [];
+  value.forEach((job, index) => {
+    if (!isValidRestorationJob(job)) {
+      log.dropped(`${path}[${index}]`, `removed unreadable workshop job ${describeValue(job)}`);
+    } else if (!inventory.some((car) => car.id === job.carId)) {
+      log.dropped(`${path}[${index}]`, `removed workshop job for a car you no longer own (${job.carName})`);
+    } else if (jobs.some((existing) => existing.carId === job.carId)) {
+      log.dropped(`${path}[${index}]`, `removed second workshop job for ${job.carName}`);
+    } else {
+      jobs.push({
+        ...job,
+        clearsHistory: [...job.clearsHistory],
+        componentGains: { ...job.componentGains },
+        parts: validateOwnedParts(job.parts, `${path}[${index}].parts`, log),
+      });
+    }
+  });
+  return jobs;
+}
+
+/**
+ * Validate the player's standing with each specialist. Unknown specialists and unreadable
+ * records are dropped (the player simply starts over with them).
+ */
+function validateSpecialists(
+  value: unknown,
+  path: string,
+  log: RepairLog,
+  config: GameConfig
+): Record<string, SpecialistRelationship> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    log.repaired(path, `defaulted to no specialist relationships (was ${describeValue(value)})`);
+    return {};
+  }
+
+  const maxLoyalty = config.economy.restoration.loyalty.max;
+  const specialists: Record<string, SpecialistRelationship> = {};
+  for (const [id, relationship] of Object.entries(value)) {
+    if (!RESTORATION_SPECIALIST_IDS.includes(id)) {
+      log.dropped(`${path}.${id}`, 'removed relationship with an unknown specialist');
+      continue;
+    }
+    if (!isRecord(relationship)) {
+      log.dropped(`${path}.${id}`, `removed unreadable relationship ${describeValue(relationship)}`);
+      continue;
+    }
+    const contractEndsDay = relationship.contractEndsDay;
+    specialists[id] = {
+      loyalty: readNumber(relationship, 'loyalty', `${path}.${id}`, log, { fallback: 0, min: 0, max: maxLoyalty }),
+      jobsCompleted: readNumber(relationship, 'jobsCompleted', `${path}.${id}`, log, { fallback: 0, min: 0, integer: true }),
+      contractEndsDay:
+        typeof contractEndsDay === 'number' && Number.isInteger(contractEndsDay) && contractEndsDay >= 1
+          ? contractEndsDay
+          : null,
+    };
+  }
+  return specialists;
+}
+
+/**
+ * Validate auction house memberships. Memberships of unknown houses or tiers are dropped.
+ */
+function validateAuctionMemberships(value: unknown, path: string, log: RepairLog): Record<string, string> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    log.repaired(path, `defaulted to no memberships (was ${describeValue(value)})`);
+    return {};
+  }
+
+  const memberships: Record<string, string> = {};
+  for (const [locationId, tierId] of Object.entries(value)) {
+    if (typeof tierId !== 'string' || !getAuctionMembershipTier(locationId, tierId)) {
+      log.dropped(`${path}.${locationId}`, `removed unknown membership ${describeValue(tierId)}`);
+      continue;
+    }
+    memberships[locationId] = tierId;
+  }
+  return memberships;
+}
+
+function isValidBuyerOffer(value: unknown): value is BuyerOffer {
+  const isPrice = (field: unknown): boolean => typeof field === 'number' && Number.isFinite(field) && field >= 0;
+  const isDay = (field: unknown): boolean => typeof field === 'number' && Number.isInteger(field) && field >= 1;
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.buyer === 'string' &&
+    BUYER_OFFER_KINDS.includes(value.kind as BuyerOfferKind) &&
+    isPrice(value.amount) &&
+    isPrice(value.maxPrice) &&
+    isDay(value.madeDay) &&
+    isDay(value.expiresDay)
+  );
+}
+
+function isValidCarListing(value: unknown): value is CarListing {
+  return (
+    isRecord(value) &&
+    typeof value.carId === 'string' &&
+    typeof value.carName === 'string' &&
+    typeof value.askingPrice === 'number' &&
+    Number.isFinite(value.askingPrice) &&
+    value.askingPrice > 0 &&
+    typeof value.listedDay === 'number' &&
+    Number.isInteger(value.listedDay) &&
+    Array.isArray(value.offers)
+  );
+}
+
+/**
+ * Validate the player's car listings. Listings for cars no longer owned are dropped, and so are
+ * unreadable offers (the buyer simply goes away).
+ */
+function validateCarListings(value: unknown, inventory: readonly Car[], path: string, log: RepairLog): CarListing[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    log.repaired(path, `defaulted to no listings (was ${describeValue(value)})`);
+    return [];
+  }
+
+  const listings: CarListing[] = [];
+  value.forEach((listing, index) => {
+    if (!isValidCarListing(listing)) {
+      log.dropped(`${path}[${index}]`, `removed unreadable listing ${describeValue(listing)}`);
+    } else if (!inventory.some((car) => car.id === listing.carId)) {
+      log.dropped(`${path}[${index}]`, `removed listing for a car you no longer own (${listing.carName})`);
+    } else if (listings.some((existing) => existing.carId === listing.carId)) {
+      log.dropped(`${path}[${index}]`, `removed second listing for ${listing.carName}`);
+    } else {
+      const offers: BuyerOffer[] = [];
+      listing.offers.forEach((offer, offerIndex) => {
+        if (isValidBuyerOffer(offer)) {
+          offers.push({ ...offer });
+        } else {
+          log.dropped(`${path}[${index}].offers[${offerIndex}]`, `removed unreadable offer ${describeValue(offer)}`);
+        }
+      });
+      listings.push({ ...listing, offers });
+    }
+  });
+  return listings;
+}
+
+function validatePlayer(value: Record<string, unknown>, log: RepairLog, config: GameConfig): SavedGameData['player'] {
+  const path = 'player';
+  const maxLevel = config.player.skillProgression.maxLevel;
+  const inventory = validateInventory(value.inventory, `${path}.inventory`, log);
+
+  return {
+    money: readNumber(value, 'money', path, log, { fallback: 0 }),
+    inventory,
+    garageSlots: readNumber(value, 'garageSlots', path, log, {
+      fallback: config.player.startingGarageSlots,
+      min: 1,
+      max: MAX_GARAGE_SLOTS,
+      integer: true,
+    }),
+    prestige: readNumber(value, 'prestige', path, log, { fallback: 0, min: 0 }),
+    bankLoanTaken: readBoolean(value, 'bankLoanTaken', path, log, false, true),
+    activeLoan: validateLoan(value.activeLoan, `${path}.activeLoan`, log),
+    skills: validateSkillBlock(value.skills, `${path}.skills`, log, { fallback: 1, min: 1, max: maxLevel }),
+    skillXP: validateSkillBlock(value.skillXP, `${path}.skillXP`, log, { fallback: 0, min: 0, optional: true }),
+    visitedLocations: readStringArray(value, 'visitedLocations', path, log, ['garage'], true),
+    claimedSets: readStringArray(value, 'claimedSets', path, log, [], true),
+    pastCars: validatePastCars(value.pastCars, `${path}.pastCars`, log),
+    restorationQueue: validateRestorationQueue(value.restorationQueue, inventory, `${path}.restorationQueue`, log),
+    parts: validateOwnedParts(value.parts, `${path}.parts`, log),
+    specialists: validateSpecialists(value.specialists, `${path}.specialists`, log, config),
+    carListings: validateCarListings(value.carListings, inventory, `${path}.carListings`, log),
+    auctionMemberships: validateAuctionMemberships(value.auctionMemberships, `${path}.auctionMemberships`, log),
+  };
+}
+
+function validateWorld(value: Record<string, unknown>, log: RepairLog, config: GameConfig): SavedGameData['world'] {
+  const path = 'world';
+
+  const carOfferByLocation: Record<string, Car | null> = {};
+  const rawOffers = value.carOfferByLocation;
+  if (isRecord(rawOffers)) {
+    for (const [locationId, offer] of Object.entries(rawOffers)) {
+      if (offer === null) {
+        carOfferByLocation[locationId] = null;
+        continue;
+      }
+      // A dropped offer is simply rerolled for the day.
+      const car = validateCar(offer, `${path}.carOfferByLocation.${locationId}`, log);
+      if (car) carOfferByLocation[locationId] = car;
+    }
+  } else if (rawOffers !== undefined) {
+    log.repaired(`${path}.carOfferByLocation`, `reset (was ${describeValue(rawOffers)})`);
+  }
+
+  const auctionLotsByLocation: Record<string, Car[]> = {};
+  const rawLots = value.auctionLotsByLocation;
+  if (isRecord(rawLots)) {
+    for (const [locationId, lots] of Object.entries(rawLots)) {
+      if (!Array.isArray(lots)) {
+        // A dropped catalog is simply rerolled for the day.
+        log.dropped(`${path}.auctionLotsByLocation.${locationId}`, `removed (was ${describeValue(lots)})`);
+        continue;
+      }
+      auctionLotsByLocation[locationId] = lots
+        .map((lot, index) => validateCar(lot, `${path}.auctionLotsByLocation.${locationId}[${index}]`, log))
+        .filter((car): car is Car => car !== null);
+    }
+  } else if (rawLots !== undefined) {
+    log.repaired(`${path}.auctionLotsByLocation`, `reset (was ${describeValue(rawLots)})`);
+  }
+
+  const rivalPresenceByLocation: Record<string, boolean> = {};
+  const rawPresence = value.rivalPresenceByLocation;
+  if (isRecord(rawPresence)) {
+    for (const [locationId, present] of Object.entries(rawPresence)) {
+      if (typeof present === 'boolean') {
+        rivalPresenceByLocation[locationId] = present;
+      } else {
+        log.dropped(`${path}.rivalPresenceByLocation.${locationId}`, `removed (was ${describeValue(present)})`);
+      }
+    }
+  } else if (rawPresence !== undefined) {
+    log.repaired(`${path}.rivalPresenceByLocation`, `reset (was ${describeValue(rawPresence)})`);
+  }
+
+  const statsPath = `${path}.dayStats`;
+  const rawStats = isRecord(value.dayStats) ? value.dayStats : {};
+  if (value.dayStats !== undefined && !isRecord(value.dayStats)) {
+    log.repaired(statsPath, `rebuilt (was ${describeValue(value.dayStats)})`);
+  }
+  const dayStats = {
+    carsAcquired: readNumber(rawStats, 'carsAcquired', statsPath, log, { fallback: 0, min: 0, integer: true, optional: true }),
+    moneyEarned: readNumber(rawStats, 'moneyEarned', statsPath, log, { fallback: 0, min: 0, optional: true }),
+    moneySpent: readNumber(rawStats, 'moneySpent', statsPath, log, { fallback: 0, min: 0, optional: true }),
+    prestigeGained: readNumber(rawStats, 'prestigeGained', statsPath, log, { fallback: 0, optional: true }),
+  };
+
+  return {
+    day: readNumber(value, 'day', path, log, { fallback: 1, min: 1, integer: true }),
+    currentLocation: readString(value, 'currentLocation', path, log, 'garage'),
+    timeRemaining: readNumber(value, 'timeRemaining', path, log, {
+      fallback: config.time.unitsPerDay,
+      min: 0,
+      max: config.time.unitsPerDay,
+      integer: true,
+      optional: true,
+    }),
+    carOfferByLocation,
+    auctionLotsByLocation,
+    rivalPresenceByLocation,
+    partsMarket: validatePartsMarket(value.partsMarket, `${path}.partsMarket`, log),
+    dayStats,
+  };
+}
+
+function validateMarket(value: unknown, log: RepairLog): MarketFluctuationState | undefined {
+  if (value === undefined) return undefined;
+  const path = 'market';
+  if (!isRecord(value)) {
+    log.dropped(path, `removed market state (was ${describeValue(value)})`);
+    return undefined;
+  }
+
+  const lastEventDay = readNumber(value, 'lastEventDay', path, log, { fallback: 0, min: 0, integer: true });
+  const rawEvent = value.currentEvent;
+  if (rawEvent === undefined) return { lastEventDay };
+
+  const isValidEvent =
+    isRecord(rawEvent) &&
+    MARKET_EVENT_TYPES.includes(rawEvent.type as MarketEventType) &&
+    typeof rawEvent.description === 'string' &&
+    typeof rawEvent.modifier === 'number' &&
+    Number.isFinite(rawEvent.modifier) &&
+    rawEvent.modifier > 0 &&
+    typeof rawEvent.daysRemaining === 'number' &&
+    Number.isFinite(rawEvent.daysRemaining) &&
+    (rawEvent.affectedTags === undefined || Array.isArray(rawEvent.affectedTags));
+  if (!isValidEvent) {
+    log.dropped(`${path}.currentEvent`, `removed unreadable market event ${describeValue(rawEvent)}`);
+    return { lastEventDay };
+  }
+
+  const event = { ...(rawEvent as unknown as ActiveMarketEvent) };
+  if (event.affectedTags) {
+    event.affectedTags = readStringArray(rawEvent, 'affectedTags', `${path}.currentEvent`, log, []);
+  }
+  return { currentEvent: event, lastEventDay };
+}
+
+function isValidSpecialEvent(value: unknown): value is SpecialEvent {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    SPECIAL_EVENT_TYPES.includes(value.type as SpecialEventType) &&
+    typeof value.name === 'string' &&
+    typeof value.description === 'string' &&
+    typeof value.x === 'number' &&
+    typeof value.y === 'number' &&
+    typeof value.color === 'number' &&
+    typeof value.timeCost === 'number' &&
+    Number.isFinite(value.timeCost) &&
+    isRecord(value.reward) &&
+    typeof value.expiresInDays === 'number' &&
+    Number.isFinite(value.expiresInDays)
+  );
+}
+
+function validateSpecialEvents(value: unknown, log: RepairLog): SpecialEventsState | undefined {
+  if (value === undefined) return undefined;
+  const path = 'specialEvents';
+  if (!isRecord(value)) {
+    log.dropped(path, `removed special events state (was ${describeValue(value)})`);
+    return undefined;
+  }
+
+  const rawEvents = Array.isArray(value.activeEvents) ? value.activeEvents : [];
+  if (!Array.isArray(value.activeEvents)) {
+    log.repaired(`${path}.activeEvents`, `defaulted to [] (was ${describeValue(value.activeEvents)})`);
+  }
+
+  const activeEvents: SpecialEvent[] = [];
+  rawEvents.forEach((event, index) => {
+    if (isValidSpecialEvent(event)) {
+      const copy = { ...event };
+      if (copy.auctionFormat !== undefined && !AUCTION_FORMATS.includes(copy.auctionFormat)) {
+        log.repaired(`${path}.activeEvents[${index}].auctionFormat`, `removed (was ${describeValue(copy.auctionFormat)})`);
+        delete copy.auctionFormat;
+      }
+      activeEvents.push(copy);
+    } else {
+      log.dropped(`${path}.activeEvents[${index}]`, `removed unreadable event ${describeValue(event)}`);
+    }
+  });
+
+  return {
+    activeEvents,
+    lastEventDay: readNumber(value, 'lastEventDay', path, log, { fallback: 0, min: 0, integer: true }),
+  };
+}
+
+/**
+ * Validate a run's custom rules. Unreadable values fall back to the difficulty preset's
+ * (the layer the overrides sit on).
+ */
+function validateRunOverrides(value: unknown, log: RepairLog, presetConfig: GameConfig): RunConfigOverrides | undefined {
+  if (value === undefined) return undefined;
+  const path = 'run.overrides';
+  if (!isRecord(value)) {
+    log.dropped(path, `removed unreadable custom rules ${describeValue(value)}`);
+    return undefined;
+  }
+
+  const overrides: RunConfigOverrides = {};
+  if (value.startingMoney !== undefined) {
+    overrides.startingMoney = readNumber(value, 'startingMoney', path, log, {
+      fallback: presetConfig.player.startingMoney,
+      min: 0,
+      integer: true,
+    });
+  }
+  if (value.rivalPresenceChance !== undefined) {
+    overrides.rivalPresenceChance = readNumber(value, 'rivalPresenceChance', path, log, {
+      fallback: presetConfig.encounters.rivalPresenceChance,
+      min: 0,
+      max: 1,
+    });
+  }
+
+  if (value.rentByGarageSlots !== undefined) {
+    const rentPath = `${path}.rentByGarageSlots`;
+    if (isRecord(value.rentByGarageSlots)) {
+      const table = value.rentByGarageSlots;
+      const rent: Record<number, number> = {};
+      for (const key of Object.keys(table)) {
+        const slots = Number(key);
+        if (!Number.isInteger(slots) || slots < 1 || slots > MAX_GARAGE_SLOTS) {
+          log.dropped(`${rentPath}.${key}`, 'removed rent for an unknown garage size');
+          continue;
+        }
+        rent[slots] = readNumber(table, key, rentPath, log, {
+          fallback: presetConfig.economy.rentByGarageSlots[slots as keyof typeof GAME_CONFIG.economy.rentByGarageSlots],
+          min: 0,
+          integer: true,
+        });
+      }
+      overrides.rentByGarageSlots = rent;
+    } else {
+      log.dropped(rentPath, `removed unreadable rent table ${describeValue(value.rentByGarageSlots)}`);
+    }
+  }
+
+  if (value.victory !== undefined) {
+    const victoryPath = `${path}.victory`;
+    if (isRecord(value.victory)) {
+      const goals = value.victory;
+      const victory: Partial<Record<keyof typeof GAME_CONFIG.victory, number>> = {};
+      for (const key of Object.keys(GAME_CONFIG.victory) as (keyof typeof GAME_CONFIG.victory)[]) {
+        if (goals[key] === undefined) continue;
+        victory[key] = readNumber(goals, key, victoryPath, log, {
+          fallback: presetConfig.victory[key],
+          min: key === 'requiredSkillLevel' ? 1 : 0,
+          max: key === 'requiredSkillLevel' ? presetConfig.player.skillProgression.maxLevel : undefined,
+          integer: true,
+        });
+      }
+      overrides.victory = victory;
+    } else {
+      log.dropped(victoryPath, `removed unreadable victory goals ${describeValue(value.victory)}`);
+    }
+  }
+  return overrides;
+}
+
+function validateRunSettings(value: unknown, log: RepairLog): RunSettings {
+  const path = 'run';
+  if (!isRecord(value)) {
+    log.repaired(path, `defaulted to a standard run (was ${describeValue(value)})`);
+    return { ...DEFAULT_RUN_SETTINGS };
+  }
+
+  const mode = isGameMode(value.mode) ? value.mode : 'standard';
+  if (mode !== value.mode) {
+    log.repaired(`${path}.mode`, `defaulted to "standard" (was ${describeValue(value.mode)})`);
+  }
+  const difficulty = isDifficultyPreset(value.difficulty) ? value.difficulty : 'standard';
+  if (difficulty !== value.difficulty) {
+    log.repaired(`${path}.difficulty`, `defaulted to "standard" (was ${describeValue(value.difficulty)})`);
+  }
+
+  const overrides = validateRunOverrides(value.overrides, log, resolveGameConfig({ ...DEFAULT_RUN_SETTINGS, difficulty }));
+  return overrides ? { mode, difficulty, overrides } : { mode, difficulty };
+}
+
+function isValidLedgerEntry(value: unknown): value is LedgerEntry {
+  const optionalString = (field: unknown): boolean => field === undefined || typeof field === 'string';
+  return (
+    isRecord(value) &&
+    typeof value.id === 'number' &&
+    Number.isInteger(value.id) &&
+    typeof value.day === 'number' &&
+    LEDGER_CATEGORIES.some((category) => category === value.category) &&
+    typeof value.money === 'number' &&
+    Number.isFinite(value.money) &&
+    typeof value.prestige === 'number' &&
+    Number.isFinite(value.prestige) &&
+    typeof value.balance === 'number' &&
+    Number.isFinite(value.balance) &&
+    optionalString(value.carId) &&
+    optionalString(value.carName) &&
+    optionalString(value.counterpart) &&
+    optionalString(value.note)
+  );
+}
+
+function validateLedger(value: unknown, log: RepairLog): LedgerState | undefined {
+  if (value === undefined) return undefined;
+  const path = 'ledger';
+  if (!isRecord(value) || !Array.isArray(value.entries)) {
+    log.dropped(path, `removed unreadable ledger ${describeValue(value)}`);
+    return undefined;
+  }
+
+  const entries: LedgerEntry[] = [];
+  value.entries.forEach((entry, index) => {
+    if (isValidLedgerEntry(entry)) {
+      entries.push(entry);
+    } else {
+      log.dropped(`${path}.entries[${index}]`, `removed unreadable entry ${describeValue(entry)}`);
+    }
+  });
+
+  const lastId = entries.reduce((max, entry) => Math.max(max, entry.id), 0);
+  const nextId = readNumber(value, 'nextId', path, log, { fallback: lastId + 1, min: lastId + 1, integer: true });
+  return { entries, nextId };
+}
+
+function validateTutorial(value: unknown, log: RepairLog): SavedGameData['tutorial'] {
+  if (value === undefined) return undefined;
+  const path = 'tutorial';
+  if (!isRecord(value) || typeof value.currentStep !== 'string' || !TUTORIAL_STEPS.includes(value.currentStep)) {
+    log.dropped(path, `removed unreadable tutorial state ${describeValue(value)}`);
+    return undefined;
+  }
+  return {
+    currentStep: value.currentStep,
+    isActive: readBoolean(value, 'isActive', path, log, false),
+  };
+}
+
+/**
+ * Validate migrated save data against the runtime schema and repair what can be repaired.
+ *
+ * Invalid scalars are defaulted or clamped, unreadable cars/events are dropped, and every
+ * change is recorded in the report. Only a save without usable `player`/`world` objects is rejected.
+ */
+export function validateSaveData(saveData: unknown): SaveValidationResult {
+  const log = new RepairLog();
+
+  if (!isRecord(saveData)) {
+    return { ok: false, error: 'Save data is not an object.', report: log.toReport() };
+  }
+  if (!isRecord(saveData.player) || !isRecord(saveData.world)) {
+    return { ok: false, error: 'Save is missing player or world data.', report: log.toReport() };
+  }
+
+  let rng = saveData.rng;
+  if (rng !== undefined && !isRngState(rng)) {
+    log.dropped('rng', 'removed unreadable RNG state (the run continues with a fresh seed)');
+    rng = undefined;
+  }
+
+  // Defaults come from the save's own run (its difficulty, overrides and mode), not the active one.
+  const run = validateRunSettings(saveData.run, log);
+  const config = resolveGameConfig(run);
+
+  const repaired: SavedGameData = {
+    player: validatePlayer(saveData.player, log, config),
+    world: validateWorld(saveData.world, log, config),
+    market: validateMarket(saveData.market, log),
+    specialEvents: validateSpecialEvents(saveData.specialEvents, log),
+    tutorial: validateTutorial(saveData.tutorial, log),
+    rng: rng as SavedGameData['rng'],
+    run,
+    ledger: validateLedger(saveData.ledger, log),
+    version: typeof saveData.version === 'string' ? saveData.version : '',
+  };
+
+  return { ok: true, saveData: repaired, report: log.toReport() };
+}
+
+/** True if validation changed anything. */
+export function hasSaveRepairs(report: SaveValidationReport): boolean {
+  return report.entries.length > 0;
+}
+
+/**
+ * Render a report as plain text for a modal (one line per entry, capped).
+ */
+export function formatSaveRepairReport(report: SaveValidationReport, maxEntries: number = 12): string {
+  const lines = report.entries
+    .slice(0, maxEntries)
+    .map((entry) => `${entry.action === 'dropped' ? '✖' : '✎'} ${entry.path}: ${entry.message}`);
+  const hidden = report.entries.length - maxEntries;
+  if (hidden > 0) {
+    lines.push(`…and ${hidden} more (see console)`);
+  }
+  return lines.join('\n');
+}
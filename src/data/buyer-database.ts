@@ -0,0 +1,34 @@
+/**
+ * Private buyers who make offers on cars the player lists for sale.
+ * Like rivals, each buyer has a wishlist of tags they pay more for.
+ */
+
+/**
+ * Buyer style: how much they think a car is worth (see `marketplace.buyerStyles` in the config).
+ * Enthusiast: pays up for cars they love
+ * Dealer: wants room for a margin
+ * Bargain Hunter: opens with lowball bids
+ */
+export type BuyerStyle = 'Enthusiast' | 'Dealer' | 'Bargain Hunter';
+
+export interface PrivateBuyer {
+  name: string;
+  style: BuyerStyle;
+  wishlist: readonly string[]; // Tags they pay more for
+}
+
+/**
+ * Static private buyer database.
+ */
+export const PrivateBuyerDatabase: readonly PrivateBuyer[] = [
+  { name: 'Dana Whitfield', style: 'Enthusiast', wishlist: ['Muscle', 'American'] },
+  { name: 'Kenji Morimoto', style: 'Enthusiast', wishlist: ['JDM', 'Turbo', 'Rotary'] },
+  { name: 'Fiona Caldwell', style: 'Enthusiast', wishlist: ['European', 'Classic', 'Convertible'] },
+  { name: 'Roberto Salazar', style: 'Enthusiast', wishlist: ['Exotic', 'Italian', 'Supercar'] },
+  { name: 'Pete Ambrose', style: 'Dealer', wishlist: ['Daily Driver', 'Reliable', 'Practical'] },
+  { name: 'Lorraine Fisk', style: 'Dealer', wishlist: ['Sports', 'European'] },
+  { name: 'Gordon "Gordie" Blake', style: 'Dealer', wishlist: ['Classic', 'Rare'] },
+  { name: 'Tammy Reyes', style: 'Bargain Hunter', wishlist: ['Budget', 'Hatchback', 'Commuter'] },
+  { name: 'Milo Strand', style: 'Bargain Hunter', wishlist: ['Muscle', 'Sports'] },
+  { name: 'Hector Valdez', style: 'Bargain Hunter', wishlist: ['JDM', 'Import'] },
+];
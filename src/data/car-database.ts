@@ -2,7 +2,8 @@
  * Car data structure.
  * Represents a single vehicle with its condition, history, and metadata.
  */
-import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
+import { randomIdSuffix, rng, type RandomFn } from '@/core/rng';
 
 export type CarTier = 'Daily Driver' | 'Cult Classic' | 'Icon' | 'Unicorn';
 
@@ -19,6 +20,11 @@ export interface Car {
   tags: string[]; // e.g., "Muscle", "JDM", "Classic"
   history: string[]; // e.g., "Flooded", "Rust", "Barn Find"
   tier: CarTier; // Car's rarity tier
+  /**
+   * 0-100 per component; `condition` is their average (see `rollUpCondition`).
+   * Missing on template cars and older saves, where every component is at `condition`.
+   */
+  components?: CarComponentConditions;
   inCollection?: boolean; // Whether car is in the private collection (requires condition >= 75)
 
   /**
@@ -31,14 +37,346 @@ export interface Car {
    * Optional for backwards compatibility with older saves.
    */
   restorationSpent?: number;
+  /** Day the player acquired the car. Missing for cars bought before ownership records existed. */
+  acquiredDay?: number;
+  /** Where the car was acquired (location or event name). */
+  acquiredFrom?: string;
+  /** Restoration work done while owned, oldest first. */
+  restorationLog?: CarRestorationStep[];
+  /** Hidden defects rolled with the car. Missing on template cars and cars from older saves. */
+  defects?: CarDefect[];
+  /**
+   * Ids of the parts restoration work on this model needs (see `PartsDatabase`), declared on templates
+   * and copied onto rolled cars. Older saves fall back to the template, then to the tier's defaults.
+   */
+  parts?: string[];
+  /**
+   * 0-100: how much of the car is still as it left the factory. Restoration specialists add or remove
+   * originality with each job, and non-original parts take it away. Missing means untouched (100).
+   */
+  originality?: number;
+  /** Ownership and documentation trail. Missing until the car's provenance is first researched. */
+  provenance?: CarProvenance;
+}
+
+/** Parts of a car whose condition is tracked separately (keys of `valuation.componentWeights.*` in the config). */
+export type CarComponent = 'engine' | 'body' | 'interior' | 'electrics' | 'chassis';
+
+export type CarComponentConditions = Record<CarComponent, number>;
+
+export const CAR_COMPONENTS: readonly CarComponent[] = ['engine', 'body', 'interior', 'electrics', 'chassis'];
+
+const CAR_COMPONENT_LABELS: Record<CarComponent, string> = {
+  engine: 'Engine',
+  body: 'Body',
+  interior: 'Interior',
+  electrics: 'Electrics',
+  chassis: 'Chassis',
+};
+
+export function getCarComponentLabel(component: CarComponent): string {
+  return CAR_COMPONENT_LABELS[component];
+}
+
+/** A car's component conditions (every component at `condition` for cars without them). */
+export function getCarComponents(car: {
+  condition: number;
+  components?: Readonly<CarComponentConditions>;
+}): CarComponentConditions {
+  if (car.components) return { ...car.components };
+  return { engine: car.condition, body: car.condition, interior: car.condition, electrics: car.condition, chassis: car.condition };
+}
+
+/** Overall condition: the rounded average of the components. */
+export function rollUpCondition(components: Readonly<CarComponentConditions>): number {
+  return Math.round(CAR_COMPONENTS.reduce((sum, component) => sum + components[component], 0) / CAR_COMPONENTS.length);
+}
+
+/**
+ * Add (or, with negative amounts, remove) condition on some components, clamped to 0-100,
+ * and roll the result up into `condition`.
+ * @returns A copy of the car
+ */
+export function adjustCarComponents(car: Car, changes: Readonly<Partial<CarComponentConditions>>): Car {
+  const components = getCarComponents(car);
+  for (const component of CAR_COMPONENTS) {
+    const change = changes[component] ?? 0;
+    components[component] = Math.max(0, Math.min(100, components[component] + change));
+  }
+  return { ...car, components, condition: rollUpCondition(components) };
+}
+
+/** Component conditions for display, e.g. "Engine 48 · Body 62 · Interior 55 · Electrics 40 · Chassis 70". */
+export function formatCarComponents(car: { condition: number; components?: Readonly<CarComponentConditions> }): string {
+  const components = getCarComponents(car);
+  return CAR_COMPONENTS.map((component) => `${getCarComponentLabel(component)} ${Math.round(components[component])}`).join(
+    ' · '
+  );
+}
+
+/**
+ * Roll component conditions scattered around an overall condition (by up to `cars.componentSpread`).
+ * @param random - Random source (the caller's car stream so components replay with the seed)
+ */
+export function rollCarComponents(condition: number, random: RandomFn): CarComponentConditions {
+  const spread = getGameConfig().cars.componentSpread;
+  const components = {} as CarComponentConditions;
+  for (const component of CAR_COMPONENTS) {
+    const offset = Math.round((random() * 2 - 1) * spread);
+    components[component] = Math.max(0, Math.min(100, condition + offset));
+  }
+  return components;
+}
+
+/** The car's originality (cars without a score are untouched: 100). */
+export function getCarOriginality(car: { originality?: number }): number {
+  return car.originality ?? 100;
+}
+
+/**
+ * Add (or remove) originality points, clamped to 0-100.
+ * @returns A copy of the car
+ */
+export function adjustCarOriginality(car: Car, change: number): Car {
+  if (change === 0) return { ...car };
+  return { ...car, originality: Math.max(0, Math.min(100, getCarOriginality(car) + change)) };
+}
+
+/** Whether the car is original enough to count as "matching numbers" (`valuation.originality`). */
+export function isMatchingNumbers(car: { originality?: number }): boolean {
+  return getCarOriginality(car) >= getGameConfig().valuation.originality.matchingNumbersThreshold;
+}
+
+/** e.g. "Originality 97 · Matching numbers" or "Originality 64". */
+export function formatCarOriginality(car: { originality?: number }): string {
+  const originality = Math.round(getCarOriginality(car));
+  return isMatchingNumbers(car) ? `Originality ${originality} · Matching numbers` : `Originality ${originality}`;
+}
+
+/**
+ * Roll the originality of a newly generated car: up to `cars.maxOriginalityLoss` points lost, usually few.
+ * @param random - Random source (the caller's car stream so originality replays with the seed)
+ */
+export function rollCarOriginality(random: RandomFn): number {
+  const maxLoss = getGameConfig().cars.maxOriginalityLoss;
+  return 100 - Math.floor(random() ** 2 * (maxLoss + 1));
+}
+
+/**
+ * Value multiplier for originality: a tier-scaled penalty for what has been lost, or the
+ * tier's premium for matching-numbers cars. Cars without a tier are not affected.
+ */
+export function getOriginalityMultiplier(car: { tier?: CarTier; originality?: number }): number {
+  if (!car.tier) return 1;
+  const config = getGameConfig().valuation.originality;
+  if (isMatchingNumbers(car)) return 1 + config.matchingNumbersPremiumByTier[car.tier];
+  return 1 - config.penaltyByTier[car.tier] * ((100 - getCarOriginality(car)) / 100);
+}
+
+/**
+ * Condition the car's value is based on: the components weighted by what buyers of its tier care about
+ * (`valuation.componentWeights`). Cars without components use `condition`.
+ */
+export function getValuedCondition(car: {
+  condition: number;
+  tier?: CarTier;
+  components?: Readonly<CarComponentConditions>;
+}): number {
+  if (!car.components || !car.tier) return car.condition;
+  const weights = getGameConfig().valuation.componentWeights[car.tier];
+  const components = car.components;
+  return CAR_COMPONENTS.reduce((sum, component) => sum + components[component] * weights[component], 0);
+}
+
+/** Hidden defect kinds (keys of `defects.kinds` in the config). */
+export type CarDefectKind = 'concealedRust' | 'nonOriginalEngine' | 'odometerRollback' | 'frameDamage';
+
+/**
+ * A concealed problem with a car.
+ * It only affects value once discovered: by an Inspect during an encounter, or after purchase.
+ */
+export interface CarDefect {
+  kind: CarDefectKind;
+  discovered: boolean;
+}
+
+export const CAR_DEFECT_KINDS: readonly CarDefectKind[] = [
+  'concealedRust',
+  'nonOriginalEngine',
+  'odometerRollback',
+  'frameDamage',
+];
+
+const CAR_DEFECT_LABELS: Record<CarDefectKind, string> = {
+  concealedRust: 'Concealed rust',
+  nonOriginalEngine: 'Non-original engine',
+  odometerRollback: 'Odometer rollback',
+  frameDamage: 'Frame damage',
+};
+
+export function getCarDefectLabel(kind: CarDefectKind): string {
+  return CAR_DEFECT_LABELS[kind];
+}
+
+/** Defect labels joined for display, e.g. "Frame damage, Odometer rollback". */
+export function formatCarDefectList(kinds: readonly CarDefectKind[]): string {
+  return kinds.map(getCarDefectLabel).join(', ');
+}
+
+/**
+ * Roll hidden defects for a newly generated car (all undiscovered).
+ * @param random - Random source (the caller's car stream so defects replay with the seed)
+ */
+export function rollCarDefects(random: RandomFn): CarDefect[] {
+  const kinds = getGameConfig().defects.kinds;
+  return CAR_DEFECT_KINDS.filter((kind) => random() < kinds[kind].rollChance).map((kind) => ({
+    kind,
+    discovered: false,
+  }));
+}
+
+/** Defects on a car that have been discovered. */
+export function getDiscoveredDefects(car: { defects?: readonly CarDefect[] }): CarDefectKind[] {
+  return (car.defects ?? []).filter((defect) => defect.discovered).map((defect) => defect.kind);
+}
+
+/** Defects on a car that are still hidden. */
+export function getUndiscoveredDefects(car: { defects?: readonly CarDefect[] }): CarDefectKind[] {
+  return (car.defects ?? []).filter((defect) => !defect.discovered).map((defect) => defect.kind);
+}
+
+/**
+ * Mark defects as discovered (unknown kinds are ignored).
+ * @returns A copy of the car
+ */
+export function discoverCarDefects(car: Car, kinds: readonly CarDefectKind[]): Car {
+  if (!car.defects) return { ...car };
+  return {
+    ...car,
+    defects: car.defects.map((defect) =>
+      kinds.includes(defect.kind) ? { ...defect, discovered: true } : { ...defect }
+    ),
+  };
+}
+
+/** Documents a car's history may have kept (keys of `provenance.documents` in the config). */
+export type ProvenanceDocumentKind = 'buildSheet' | 'serviceRecords' | 'ownershipTitles' | 'periodPhotos';
+
+export const PROVENANCE_DOCUMENT_KINDS: readonly ProvenanceDocumentKind[] = [
+  'buildSheet',
+  'serviceRecords',
+  'ownershipTitles',
+  'periodPhotos',
+];
+
+/** One document in a car's paper trail. */
+export interface ProvenanceDocument {
+  kind: ProvenanceDocumentKind;
+  /** False if the document has been lost for good. */
+  exists: boolean;
+  /** Network level needed to trace it, either way (1-5). */
+  obscurity: number;
+}
+
+/**
+ * Who owned a car and what happened to it, rolled the first time it is researched.
+ * Documents are only known (found or confirmed lost) up to the research level.
+ */
+export interface CarProvenance {
+  /** Previous owners, oldest first. */
+  owners: string[];
+  /** Notable events in the car's life, oldest first. */
+  events: string[];
+  documents: ProvenanceDocument[];
+  /** Network level of the deepest research so far. */
+  researchLevel: number;
+}
+
+const PROVENANCE_DOCUMENT_LABELS: Record<ProvenanceDocumentKind, string> = {
+  buildSheet: 'Build sheet',
+  serviceRecords: 'Service records',
+  ownershipTitles: 'Ownership titles',
+  periodPhotos: 'Period photos',
+};
+
+/** The car fields the provenance helpers read (readonly so state snapshots can be passed straight in). */
+export type CarProvenanceSource = {
+  readonly provenance?: {
+    readonly owners: readonly string[];
+    readonly documents: readonly Readonly<ProvenanceDocument>[];
+    readonly researchLevel: number;
+  };
+};
+
+export function getProvenanceDocumentLabel(kind: ProvenanceDocumentKind): string {
+  return PROVENANCE_DOCUMENT_LABELS[kind];
+}
+
+/** Documents research has found so far. */
+export function getFoundProvenanceDocuments(car: CarProvenanceSource): ProvenanceDocumentKind[] {
+  const provenance = car.provenance;
+  if (!provenance) return [];
+  return provenance.documents
+    .filter((document) => document.exists && document.obscurity <= provenance.researchLevel)
+    .map((document) => document.kind);
+}
+
+/** Documents research has confirmed are lost. */
+export function getLostProvenanceDocuments(car: CarProvenanceSource): ProvenanceDocumentKind[] {
+  const provenance = car.provenance;
+  if (!provenance) return [];
+  return provenance.documents
+    .filter((document) => !document.exists && document.obscurity <= provenance.researchLevel)
+    .map((document) => document.kind);
+}
+
+/** Whether research has found enough documents to call the car's history documented (`provenance.documentedMinDocuments`). */
+export function isProvenanceDocumented(car: CarProvenanceSource): boolean {
+  return getFoundProvenanceDocuments(car).length >= getGameConfig().provenance.documentedMinDocuments;
+}
+
+/**
+ * Value multiplier for provenance: a bonus per document found, plus the tier's premium once documented.
+ */
+export function getProvenanceMultiplier(car: CarProvenanceSource & { tier?: CarTier }): number {
+  const config = getGameConfig().provenance;
+  const documentBonus = getFoundProvenanceDocuments(car).length * config.valuePerDocument;
+  const documentedPremium = car.tier && isProvenanceDocumented(car) ? config.documentedPremiumByTier[car.tier] : 0;
+  return 1 + documentBonus + documentedPremium;
+}
+
+/** e.g. "Provenance not researched" or "3 owners · 2/4 documents · Documented". */
+export function formatCarProvenance(car: CarProvenanceSource): string {
+  const provenance = car.provenance;
+  if (!provenance) return 'Provenance not researched';
+  const found = getFoundProvenanceDocuments(car).length;
+  const owners = provenance.owners.length;
+  return (
+    `${owners} previous owner${owners === 1 ? '' : 's'} · ${found}/${provenance.documents.length} documents` +
+    (isProvenanceDocumented(car) ? ' · Documented' : '')
+  );
+}
+
+/**
+ * One paid piece of restoration work on an owned car.
+ */
+export interface CarRestorationStep {
+  day: number;
+  /** 'challenge' for a fixed restoration challenge, 'restoration' for a standard option. */
+  kind: 'challenge' | 'restoration';
+  name: string;
+  cost: number;
+  specialist?: string;
+  conditionBefore: number;
+  conditionAfter: number;
 }
 
 function getTierWeightsForPrestige(playerPrestige?: number): Record<CarTier, number> {
-  const baseWeights = GAME_CONFIG.cars.tierWeights as Record<CarTier, number>;
+  const baseWeights = getGameConfig().cars.tierWeights as Record<CarTier, number>;
   const prestige = Number.isFinite(playerPrestige) ? Math.max(0, Math.floor(playerPrestige as number)) : undefined;
   if (prestige === undefined) return baseWeights;
 
-  const progression = GAME_CONFIG.cars.tierWeightsByPrestige;
+  const progression = getGameConfig().cars.tierWeightsByPrestige;
   if (prestige < progression.early.maxPrestigeExclusive) {
     return progression.early.weights as Record<CarTier, number>;
   }
@@ -70,6 +408,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Beater'],
     history: ['Rust', 'Bald Tires'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   {
     id: 'car_tutorial_muscle_car',
@@ -79,6 +418,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American'],
     history: ['Original Paint'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_chrome_trim', 'cc_carburetor', 'cc_interior'],
   },
   {
     id: 'car_tutorial_boxy_wagon',
@@ -88,6 +428,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Practical', 'Wagon'],
     history: ['Minor Dents'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   // Tier 1: Daily Drivers (Starter Cars - $3,000-$8,000)
   {
@@ -98,6 +439,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Import', 'Reliable'],
     history: ['High Miles'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   {
     id: 'car_daily_002',
@@ -107,6 +449,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Practical', 'Commuter'],
     history: ['Minor Accident'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   {
     id: 'car_daily_003',
@@ -116,6 +459,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Roadster', 'Fun'],
     history: ['Repainted'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets', 'dd_interior_trim'],
   },
   {
     id: 'car_daily_004',
@@ -125,6 +469,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Hatchback', 'European'],
     history: ['Rust'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   {
     id: 'car_daily_005',
@@ -134,6 +479,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Reliable', 'Budget'],
     history: ['Rust'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   {
     id: 'car_daily_006',
@@ -143,6 +489,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'AWD', 'Rally'],
     history: ['High Miles'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   {
     id: 'car_daily_007',
@@ -152,6 +499,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Import', 'Fun'],
     history: ['Minor Accident'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets', 'dd_interior_trim'],
   },
   {
     id: 'car_daily_008',
@@ -161,6 +509,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'European', 'Sporty'],
     history: ['Maintenance Issues'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets', 'dd_interior_trim'],
   },
   {
     id: 'car_daily_009',
@@ -170,6 +519,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Reliable', 'Sedan'],
     history: ['High Miles'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   {
     id: 'car_daily_010',
@@ -179,6 +529,7 @@ export const CarDatabase: Car[] = [
     tags: ['Daily Driver', 'Practical', 'Hatchback'],
     history: ['One Owner'],
     tier: 'Daily Driver',
+    parts: ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
   },
   // Tier 2: Cult Classics ($25,000-$40,000)
   {
@@ -189,6 +540,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American'],
     history: ['Barn Find', 'Rust'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_chrome_trim', 'cc_carburetor', 'cc_interior'],
   },
   {
     id: 'car_cult_002',
@@ -198,6 +550,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Sports', 'Turbo'],
     history: ['Modified', 'Track Car'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_turbo', 'cc_interior'],
   },
   {
     id: 'car_cult_003',
@@ -207,6 +560,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American'],
     history: ['Original Paint', 'Numbers Matching'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_chrome_trim', 'cc_carburetor', 'cc_interior'],
   },
   {
     id: 'car_cult_004',
@@ -216,6 +570,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Sports', 'AWD'],
     history: ['Import', 'Clean Title'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_turbo', 'cc_interior'],
   },
   {
     id: 'car_cult_005',
@@ -225,6 +580,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'Rare'],
     history: ['Project Car', 'No Engine'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_chrome_trim', 'cc_carburetor', 'cc_interior'],
   },
   {
     id: 'car_cult_006',
@@ -234,6 +590,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Sports', 'Rotary'],
     history: ['Low Miles', 'Original Owner'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_engine_kit', 'cc_interior'],
   },
   {
     id: 'car_cult_007',
@@ -243,6 +600,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American'],
     history: ['Restored Interior', 'Needs Paint'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_chrome_trim', 'cc_carburetor', 'cc_interior'],
   },
   {
     id: 'car_cult_009',
@@ -252,6 +610,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Sports', 'AWD', 'Twin-Turbo'],
     history: ['Modified', 'Clean Title'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_turbo', 'cc_interior'],
   },
   {
     id: 'car_cult_010',
@@ -261,6 +620,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Sports', 'Mid-Engine', 'Lightweight'],
     history: ['Original Paint', 'Garage Kept'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_engine_kit', 'cc_interior'],
   },
   {
     id: 'car_cult_011',
@@ -270,6 +630,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Classic', 'Sports'],
     history: ['Rust', 'Original Engine'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_chrome_trim', 'cc_engine_kit', 'cc_interior'],
   },
   {
     id: 'car_cult_012',
@@ -279,6 +640,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Modern', 'American'],
     history: ['Clean Title', 'Low Miles'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_engine_kit', 'cc_interior'],
   },
   {
     id: 'car_cult_013',
@@ -288,6 +650,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American'],
     history: ['Modified', 'Service Records'],
     tier: 'Cult Classic',
+    parts: ['cc_suspension_kit', 'cc_repair_panels', 'cc_chrome_trim', 'cc_carburetor', 'cc_interior'],
   },
   // Tier 3: Icons ($50,000-$120,000)
   {
@@ -298,6 +661,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'Shelby', 'American'],
     history: ['Matching Numbers', 'Original Paint'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_002',
@@ -307,6 +671,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'European', 'AWD', 'Rare'],
     history: ['Limited Production', 'Service Records'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_003',
@@ -316,6 +681,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American', 'Rare'],
     history: ['Barn Find', 'Numbers Matching'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_004',
@@ -325,6 +691,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'American', 'Supercar', 'Modern'],
     history: ['Low Miles', 'Collector Owned'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_005',
@@ -334,6 +701,7 @@ export const CarDatabase: Car[] = [
     tags: ['Classic', 'American', 'Sports', 'Iconic'],
     history: ['Split Window', 'Restored'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_006',
@@ -343,6 +711,7 @@ export const CarDatabase: Car[] = [
     tags: ['Classic', 'European', 'Racing', 'Rare'],
     history: ['Homologation Special', 'Original Engine'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_007',
@@ -352,6 +721,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American', 'Rare'],
     history: ['All-Aluminum Engine', 'Documented'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_008',
@@ -361,6 +731,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Exotic', 'Sports', 'Mid-Engine'],
     history: ['Mint', 'One Owner'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_018',
@@ -370,6 +741,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Exotic', 'Mid-Engine'],
     history: ['Dealer Maintained', 'Pristine'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_009',
@@ -379,6 +751,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'Italian', 'Classic', 'Ferrari'],
     history: ['Competition History', 'Restored'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_010',
@@ -388,6 +761,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Sports', 'Rotary', 'Limited Edition'],
     history: ['Final Edition', 'Mint'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_011',
@@ -397,6 +771,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American', 'Big Block'],
     history: ['LS6 Engine', 'Cowl Induction'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_012',
@@ -406,6 +781,7 @@ export const CarDatabase: Car[] = [
     tags: ['Classic', 'European', 'Sports', 'Iconic'],
     history: ['Original Interior', 'Matching Numbers'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_013',
@@ -415,6 +791,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'Italian', 'Ferrari', 'Rare'],
     history: ['Limited Production', 'Service Records'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_014',
@@ -424,6 +801,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'American', 'Turbo', 'Rare'],
     history: ['1 of 547', 'Documentation'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_015',
@@ -433,6 +811,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'Italian', 'Supercar'],
     history: ['Dealer Serviced', 'Clean Title'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_016',
@@ -442,6 +821,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American', 'Rare'],
     history: ['Original Paint', 'Numbers Matching'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   {
     id: 'car_icon_017',
@@ -451,6 +831,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'American', 'Supercar'],
     history: ['Low Miles', 'Clean Title'],
     tier: 'Icon',
+    parts: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
   },
   // Tier 4: Unicorns ($150,000+)
   {
@@ -461,6 +842,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'Italian', 'Ferrari', 'Legendary', 'Racing'],
     history: ['Competition History', 'Matching Numbers', 'Mint'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
   {
     id: 'car_unicorn_002',
@@ -470,6 +852,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'European', 'Classic', 'Legendary', 'Gullwing'],
     history: ['Original Paint', 'Documented History'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
   {
     id: 'car_unicorn_003',
@@ -479,6 +862,7 @@ export const CarDatabase: Car[] = [
     tags: ['JDM', 'Exotic', 'Classic', 'Legendary', 'Rare'],
     history: ['One of 351 Built', 'Collection Quality'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
   {
     id: 'car_unicorn_004',
@@ -488,6 +872,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'Supercar', 'British', 'Legendary', 'Mid-Engine'],
     history: ['Low Miles', 'Full Service History', 'Mint'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
   {
     id: 'car_unicorn_005',
@@ -497,6 +882,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American', 'Legendary', 'Convertible'],
     history: ['One of 11 Built', 'Matching Numbers'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
   {
     id: 'car_unicorn_006',
@@ -506,6 +892,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'European', 'Classic', 'Legendary', 'Racing'],
     history: ['Competition History', 'Documented Provenance'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
   {
     id: 'car_unicorn_007',
@@ -515,6 +902,7 @@ export const CarDatabase: Car[] = [
     tags: ['Muscle', 'Classic', 'American', 'Legendary'],
     history: ['Numbers Matching', 'Rare Color Combo'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
   {
     id: 'car_unicorn_008',
@@ -524,6 +912,7 @@ export const CarDatabase: Car[] = [
     tags: ['Exotic', 'European', 'Classic', 'Legendary', 'Bond Car'],
     history: ['Original Interior', 'Matching Numbers', 'Mint'],
     tier: 'Unicorn',
+    parts: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
   },
 ];
 
@@ -531,14 +920,18 @@ export const CarDatabase: Car[] = [
  * Generate a random car from the database using weighted tier selection.
  * Daily Drivers are most common, Unicorns are rare.
  * Creates a new instance with a unique ID and random condition (see GAME_CONFIG.cars.randomConditionMin/max).
+ * @param random - Random source (defaults to the seeded 'cars' stream)
  * @returns A new car instance with randomized properties
  */
-export function getRandomCar(): Car {
-  return getRandomCarWithPreferences();
+export function getRandomCar(random: RandomFn = rng.stream('cars')): Car {
+  return getRandomCarWithPreferences(undefined, random);
 }
 
-export function getRandomCarForPrestige(playerPrestige?: number): Car {
-  return getRandomCarWithPreferences({ playerPrestige });
+export function getRandomCarForPrestige(
+  playerPrestige?: number,
+  random: RandomFn = rng.stream('cars')
+): Car {
+  return getRandomCarWithPreferences({ playerPrestige }, random);
 }
 
 export function getRandomCarWithPreferences(params?: {
@@ -552,7 +945,7 @@ export function getRandomCarWithPreferences(params?: {
   tierWeightMultipliers?: Partial<Record<CarTier, number>>;
   /** If true, require at least one preferred tag match when possible. */
   requirePreferredTagMatch?: boolean;
-}): Car {
+}, random: RandomFn = rng.stream('cars')): Car {
   const preferredTags = (params?.preferredTags ?? []).filter(Boolean);
   const preferredTagBoost = Math.max(1, params?.preferredTagBoost ?? 4);
   const hasPreferences = preferredTags.length > 0;
@@ -595,12 +988,12 @@ export function getRandomCarWithPreferences(params?: {
   }
 
   const totalWeight = Object.values(effectiveTierWeights).reduce((sum, weight) => sum + weight, 0);
-  let random = Math.random() * totalWeight;
+  let tierRoll = random() * totalWeight;
 
   let selectedTier: CarTier = 'Daily Driver';
   for (const [tier, weight] of Object.entries(effectiveTierWeights)) {
-    random -= weight;
-    if (random <= 0) {
+    tierRoll -= weight;
+    if (tierRoll <= 0) {
       selectedTier = tier as CarTier;
       break;
     }
@@ -630,7 +1023,7 @@ export function getRandomCarWithPreferences(params?: {
   });
 
   const poolTotal = poolWeights.reduce((sum, w) => sum + w, 0);
-  let pick = Math.random() * poolTotal;
+  let pick = random() * poolTotal;
   let selectedIndex = 0;
   for (let i = 0; i < effectivePool.length; i++) {
     pick -= poolWeights[i];
@@ -642,38 +1035,56 @@ export function getRandomCarWithPreferences(params?: {
 
   const baseCar = effectivePool[selectedIndex];
 
-  const minCondition = GAME_CONFIG.cars.randomConditionMin;
-  const maxCondition = GAME_CONFIG.cars.randomConditionMax;
+  const minCondition = getGameConfig().cars.randomConditionMin;
+  const maxCondition = getGameConfig().cars.randomConditionMax;
   // Bias toward lower conditions while preserving the configured range.
   // This keeps high-condition cars exciting, and makes restoration more meaningful.
-  const roll = Math.random() ** 2;
+  const roll = random() ** 2;
   const randomCondition = Math.floor(roll * (maxCondition - minCondition + 1)) + minCondition;
   
-  // Create a copy with a unique ID (use crypto.randomUUID if available, fallback to timestamp)
-  const uniqueId = typeof crypto !== 'undefined' && crypto.randomUUID 
-    ? `car_${crypto.randomUUID()}`
-    : `car_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
+  // Create a copy with a unique ID drawn from the same stream so ids replay with the seed.
+  const uniqueId = `car_${randomIdSuffix(random)}`;
+  const defects = rollCarDefects(random);
+  const components = rollCarComponents(randomCondition, random);
+  const originality = rollCarOriginality(random);
+
   return {
     ...baseCar,
     templateId: baseCar.id,
     id: uniqueId,
-    condition: randomCondition,
+    ...(baseCar.parts ? { parts: [...baseCar.parts] } : {}),
+    components,
+    condition: rollUpCondition(components),
+    defects,
+    originality,
   };
 }
 
 /**
- * Calculate current value of a car based on condition and history.
- * Formula: baseValue × (condition/100) × historyMultiplier
+ * Calculate current value of a car based on condition, history, discovered defects, originality and provenance.
+ * Formula: baseValue × (condition/100) × historyMultiplier × defectMultipliers × originalityMultiplier × provenanceMultiplier
+ * The condition is the tier-weighted component condition (see getValuedCondition).
+ * Originality matters more the higher the tier (see getOriginalityMultiplier).
+ * Only documents found by research count toward provenance (see getProvenanceMultiplier).
  * History multipliers are defined in GAME_CONFIG.valuation.historyMultipliers.
  * When multiple history tags exist, the worst multiplier applies ("worst tag wins").
+ * Discovered defects stack (GAME_CONFIG.defects.kinds); undiscovered ones don't count yet.
  * @param car - The car to evaluate
  * @returns Calculated market value as an integer
  */
-export function calculateCarValue(car: { baseValue: number; condition: number; history?: readonly string[] }): number {
+export function calculateCarValue(car: {
+  baseValue: number;
+  condition: number;
+  tier?: CarTier;
+  components?: Readonly<CarComponentConditions>;
+  history?: readonly string[];
+  defects?: readonly CarDefect[];
+  originality?: number;
+  provenance?: CarProvenanceSource['provenance'];
+}): number {
   // Condition-to-value curve: linear up to 80, then diminishing returns.
   // This keeps early restorations meaningful while making 90→100 less of a pure money printer.
-  const rawCondition = Math.max(0, Math.min(100, car.condition));
+  const rawCondition = Math.max(0, Math.min(100, getValuedCondition(car)));
   const effectiveCondition =
     rawCondition <= 80
       ? rawCondition
@@ -681,19 +1092,19 @@ export function calculateCarValue(car: { baseValue: number; condition: number; h
   const conditionMultiplier = effectiveCondition / 100;
   
   // Calculate history multiplier (worst tag wins)
-  let historyMultiplier: number = GAME_CONFIG.valuation.historyMultipliers.standard;
+  let historyMultiplier: number = getGameConfig().valuation.historyMultipliers.standard;
   
   if (car.history && car.history.length > 0) {
     const multipliers: number[] = [];
     
     if (car.history.includes('Flooded')) {
-      multipliers.push(GAME_CONFIG.valuation.historyMultipliers.flooded);
+      multipliers.push(getGameConfig().valuation.historyMultipliers.flooded);
     }
     if (car.history.includes('Rust')) {
-      multipliers.push(GAME_CONFIG.valuation.historyMultipliers.rust);
+      multipliers.push(getGameConfig().valuation.historyMultipliers.rust);
     }
     if (car.history.includes('Mint')) {
-      multipliers.push(GAME_CONFIG.valuation.historyMultipliers.mint);
+      multipliers.push(getGameConfig().valuation.historyMultipliers.mint);
     }
     
     // If we found recognized tags, take the minimum
@@ -702,7 +1113,20 @@ export function calculateCarValue(car: { baseValue: number; condition: number; h
     }
   }
   
-  return Math.floor(car.baseValue * conditionMultiplier * historyMultiplier);
+  const defectKinds = getGameConfig().defects.kinds;
+  const defectMultiplier = getDiscoveredDefects(car).reduce(
+    (multiplier, kind) => multiplier * defectKinds[kind].valueMultiplier,
+    1
+  );
+
+  return Math.floor(
+    car.baseValue *
+      conditionMultiplier *
+      historyMultiplier *
+      defectMultiplier *
+      getOriginalityMultiplier(car) *
+      getProvenanceMultiplier(car)
+  );
 }
 
 /**
@@ -1,5 +1,7 @@
 import { normalizeCharacterKey } from '@/utils/character-key';
 import { RivalDatabase } from '@/data/rival-database';
+import type { PartCategory } from '@/data/parts-database';
+import type { CarComponent } from '@/data/car-database';
 
 export type CharacterKind = 'mentor' | 'rival' | 'specialist' | 'contact';
 
@@ -17,20 +19,208 @@ export const UNCLE_RAY_PROFILE: CharacterProfile = {
   bio: "A gruff-but-warm mentor who’s seen every hustle in the car world and wants you to learn without getting crushed; practical, protective, and fond of plainspoken advice with a sly sense of humor.",
 };
 
-export const CHEAP_CHARLIE_PROFILE: CharacterProfile = {
+/** What a restoration specialist works on. Generalists take on the whole car. */
+export type SpecialistTrade = 'general' | 'engine' | 'body' | 'paint' | 'interior' | 'electrical';
+
+/**
+ * A restoration specialist the player can book workshop jobs with.
+ * Freelancers (no `contract`) take work from anyone; the rest must be under contract first.
+ */
+export interface RestorationSpecialist extends CharacterProfile {
+  kind: 'specialist';
+  trade: SpecialistTrade;
+  /** Components a job works on. */
+  components: readonly CarComponent[];
+  /** 1-5: how much condition a job adds to each component it works on (see `restoration.conditionGainBySkill`). */
+  skill: number;
+  /** Days of workshop work a job takes. */
+  durationDays: number;
+  /** Labor as a share of the car's base value. */
+  laborRate: number;
+  /** 0-1 chance a job goes to plan; the rest are botched. */
+  reliability: number;
+  /** Originality points a job adds (period-correct work) or removes (modern shortcuts). */
+  originalityChange: number;
+  /**
+   * The job as listed in the restoration menu. It is offered while the average condition of the components
+   * it works on is below `availableBelowCondition`.
+   */
+  service: { name: string; description: string; availableBelowCondition: number };
+  /** Parts categories the job uses (see `getCarPartIdsByCategory`). */
+  partCategories: readonly PartCategory[];
+  /** Hiring terms. A contract runs for `restoration.contractDays` days; freelancers have none. */
+  contract?: { signingFee: number };
+  /** Shown when a job goes to plan. */
+  successMessage: string;
+}
+
+export const CHEAP_CHARLIE_PROFILE: RestorationSpecialist = {
   id: 'cheap_charlie',
   name: 'Cheap Charlie',
   kind: 'specialist',
   bio: "A disheveled man with a mischievous grin, holding a rusty wrench and a roll of duct tape. He's your go-to guy for a quick, budget-friendly fix.",
+  trade: 'general',
+  components: ['engine', 'body', 'interior', 'electrics', 'chassis'],
+  skill: 2,
+  durationDays: 1,
+  laborRate: 0.08,
+  reliability: 0.88,
+  originalityChange: -5,
+  service: {
+    name: "Cheap Charlie's Quick Fix",
+    description: "Fast and cheap. Don't ask questions.",
+    availableBelowCondition: 100,
+  },
+  partCategories: ['running-gear'],
+  successMessage: 'Charlie managed to fix it up.',
 };
 
-export const ARTISAN_PROFILE: CharacterProfile = {
+export const ARTISAN_PROFILE: RestorationSpecialist = {
   id: 'the_artisan',
   name: 'The Artisan',
   kind: 'specialist',
   bio: 'A refined older man with a well-groomed beard and a leather apron. He holds a small hammer and a piece of polished trim, representing his dedication to high-end craftsmanship.',
+  trade: 'general',
+  components: ['engine', 'body', 'interior', 'electrics', 'chassis'],
+  skill: 5,
+  durationDays: 3,
+  laborRate: 0.12,
+  reliability: 1,
+  originalityChange: 5,
+  service: {
+    name: "The Artisan's Restoration",
+    description: 'Perfection takes time. Increases value significantly.',
+    availableBelowCondition: 90,
+  },
+  partCategories: ['running-gear', 'body', 'engine', 'interior'],
+  successMessage: 'The Artisan did a magnificent job.',
+};
+
+const ROSA_ALVAREZ_PROFILE: RestorationSpecialist = {
+  id: 'rosa_alvarez',
+  name: 'Rosa Alvarez',
+  kind: 'specialist',
+  trade: 'engine',
+  components: ['engine'],
+  bio: 'A former race-team engine builder who can hear a bad bearing from across the shop. Rebuilds to factory spec, keeps the numbers matching, and charges for the privilege.',
+  skill: 4,
+  durationDays: 2,
+  laborRate: 0.04,
+  reliability: 0.95,
+  originalityChange: 2,
+  service: {
+    name: "Rosa's Engine Rebuild",
+    description: 'Strip, measure, rebuild to spec.',
+    availableBelowCondition: 95,
+  },
+  partCategories: ['engine'],
+  contract: { signingFee: 1500 },
+  successMessage: 'Rosa has it running like the day it left the factory.',
+};
+
+const DMITRI_VOLKOV_PROFILE: RestorationSpecialist = {
+  id: 'dmitri_volkov',
+  name: 'Dmitri Volkov',
+  kind: 'specialist',
+  trade: 'body',
+  components: ['body', 'chassis'],
+  bio: 'A panel beater with forearms like hawsers and a rack of reproduction panels out back. Quick with a welder, less fussy about where the metal came from.',
+  skill: 4,
+  durationDays: 3,
+  laborRate: 0.05,
+  reliability: 0.9,
+  originalityChange: -3,
+  service: {
+    name: "Dmitri's Bodywork",
+    description: 'Cut out the rot, let in new steel.',
+    availableBelowCondition: 95,
+  },
+  partCategories: ['body'],
+  contract: { signingFee: 1200 },
+  successMessage: 'Dmitri’s panels line up like they grew there.',
+};
+
+const LENA_PARK_PROFILE: RestorationSpecialist = {
+  id: 'lena_park',
+  name: 'Lena Park',
+  kind: 'specialist',
+  trade: 'paint',
+  components: ['body'],
+  bio: 'Runs a spotless spray booth and a colour-matching computer. Her modern two-pack finishes shine brighter than any factory paint, which purists never let her forget.',
+  skill: 3,
+  durationDays: 2,
+  laborRate: 0.025,
+  reliability: 0.93,
+  originalityChange: -4,
+  service: {
+    name: "Lena's Respray",
+    description: 'Flat, prime, paint, polish. No parts needed.',
+    availableBelowCondition: 95,
+  },
+  partCategories: [],
+  contract: { signingFee: 800 },
+  successMessage: 'Lena’s respray has the whole street staring.',
 };
 
+const MARGARET_HALE_PROFILE: RestorationSpecialist = {
+  id: 'margaret_hale',
+  name: 'Margaret Hale',
+  kind: 'specialist',
+  trade: 'interior',
+  components: ['interior'],
+  bio: 'A trimmer of the old school who sources period cloth and hand-stitches every seam. Slow to start, never wrong.',
+  skill: 3,
+  durationDays: 2,
+  laborRate: 0.03,
+  reliability: 0.98,
+  originalityChange: 4,
+  service: {
+    name: "Margaret's Retrim",
+    description: 'Period-correct seats, carpets and headlining.',
+    availableBelowCondition: 95,
+  },
+  partCategories: ['interior'],
+  contract: { signingFee: 900 },
+  successMessage: 'Margaret’s interior smells like a new car from another decade.',
+};
+
+const SPARKY_KOWALSKI_PROFILE: RestorationSpecialist = {
+  id: 'sparky_kowalski',
+  name: 'Sparky Kowalski',
+  kind: 'specialist',
+  trade: 'electrical',
+  components: ['electrics'],
+  bio: 'An auto electrician with a van full of crimpers and a cheerful disregard for wiring diagrams. Fast and cheap; the loom may not be the one the factory fitted.',
+  skill: 2,
+  durationDays: 1,
+  laborRate: 0.02,
+  reliability: 0.9,
+  originalityChange: -2,
+  service: {
+    name: "Sparky's Rewire",
+    description: 'New loom, new lights, no more smoke.',
+    availableBelowCondition: 100,
+  },
+  partCategories: ['running-gear'],
+  contract: { signingFee: 500 },
+  successMessage: 'Sparky has every light on the dash working.',
+};
+
+/** Every restoration specialist: the freelancers first, then the contract specialists. */
+export const RestorationSpecialistDatabase: readonly RestorationSpecialist[] = [
+  CHEAP_CHARLIE_PROFILE,
+  ARTISAN_PROFILE,
+  ROSA_ALVAREZ_PROFILE,
+  DMITRI_VOLKOV_PROFILE,
+  LENA_PARK_PROFILE,
+  MARGARET_HALE_PROFILE,
+  SPARKY_KOWALSKI_PROFILE,
+];
+
+export function getRestorationSpecialistById(id: string): RestorationSpecialist | undefined {
+  return RestorationSpecialistDatabase.find((specialist) => specialist.id === id);
+}
+
 export const PRESTON_BANKS_PROFILE: CharacterProfile = {
   id: 'preston_banks',
   name: 'Preston Banks',
@@ -39,8 +229,8 @@ export const PRESTON_BANKS_PROFILE: CharacterProfile = {
 };
 
 export function getAllCharacterProfiles(): CharacterProfile[] {
-  const specialists: CharacterProfile[] = [CHEAP_CHARLIE_PROFILE, ARTISAN_PROFILE]
-    .slice()
+  const specialists: CharacterProfile[] = RestorationSpecialistDatabase
+    .map<CharacterProfile>(({ id, name, kind, bio }) => ({ id, name, kind, bio }))
     .sort((a, b) => a.name.localeCompare(b.name));
 
   const contacts: CharacterProfile[] = [PRESTON_BANKS_PROFILE]
@@ -66,12 +256,9 @@ export function getCharacterProfileByName(name: string): CharacterProfile | unde
     return UNCLE_RAY_PROFILE;
   }
 
-  if (key === normalizeCharacterKey(CHEAP_CHARLIE_PROFILE.name)) {
-    return CHEAP_CHARLIE_PROFILE;
-  }
-
-  if (key === normalizeCharacterKey(ARTISAN_PROFILE.name)) {
-    return ARTISAN_PROFILE;
+  const specialist = RestorationSpecialistDatabase.find((entry) => normalizeCharacterKey(entry.name) === key);
+  if (specialist) {
+    return { id: specialist.id, name: specialist.name, kind: specialist.kind, bio: specialist.bio };
   }
 
   if (key === normalizeCharacterKey(PRESTON_BANKS_PROFILE.name)) {
@@ -9,6 +9,41 @@ export type BaseLocationId =
   | 'auction_classics'
   | 'auction_exotics';
 
+/**
+ * How an auction is run:
+ * - english: open ascending bids, the last bidder standing wins
+ * - sealed: every bidder submits one hidden bid, the highest pays what they bid
+ * - dutch: the price starts high and drops on a clock, the first to accept wins
+ */
+export type AuctionFormat = 'english' | 'sealed' | 'dutch';
+
+export const AUCTION_FORMATS: readonly AuctionFormat[] = ['english', 'sealed', 'dutch'];
+
+/**
+ * What an auction house charges. Rates are shares of the hammer price (0.1 = 10%).
+ */
+export interface AuctionHouseFees {
+  /** Paid by the winning bidder on top of the hammer price. */
+  buyersPremium: number;
+  /** Kept by the house when it sells a consigned car. */
+  sellersCommission: number;
+  /** Paid to take part in an auction here. */
+  entryFee: number;
+}
+
+/**
+ * A membership an auction house sells to players with enough prestige.
+ * Members pay the tier's fees instead of the house's standard ones.
+ */
+export interface AuctionMembershipTier {
+  id: string;
+  name: string;
+  unlockPrestige: number;
+  /** One-time cost to join. */
+  joiningFee: number;
+  fees: AuctionHouseFees;
+}
+
 export interface BaseLocationDefinition {
   id: BaseLocationId;
   name: string;
@@ -26,6 +61,15 @@ export interface BaseLocationDefinition {
 
   /** Optional tier bias applied on top of prestige-based tier weights. */
   tierWeightMultipliers?: Partial<Record<CarTier, number>>;
+
+  /** Auction house fees for non-members (none if omitted). */
+  fees?: AuctionHouseFees;
+
+  /** Membership tiers, cheapest first. */
+  memberships?: readonly AuctionMembershipTier[];
+
+  /** How this house runs its auctions (english if omitted). */
+  auctionFormat?: AuctionFormat;
 }
 
 export const BASE_LOCATIONS = [
@@ -41,6 +85,23 @@ export const BASE_LOCATIONS = [
     type: 'auction',
     color: 0xffd700,
     description: 'Competitive bidding. A balanced mix of cars.',
+    fees: { buyersPremium: 0.05, sellersCommission: 0.05, entryFee: 0 },
+    memberships: [
+      {
+        id: 'member',
+        name: 'Member',
+        unlockPrestige: 25,
+        joiningFee: 1000,
+        fees: { buyersPremium: 0.03, sellersCommission: 0.04, entryFee: 0 },
+      },
+      {
+        id: 'patron',
+        name: 'Patron',
+        unlockPrestige: 150,
+        joiningFee: 4000,
+        fees: { buyersPremium: 0.01, sellersCommission: 0.03, entryFee: 0 },
+      },
+    ],
   },
   {
     id: 'auction_jdm',
@@ -48,7 +109,25 @@ export const BASE_LOCATIONS = [
     type: 'auction',
     color: 0x00d1b2,
     focusTags: ['JDM'],
-    description: 'Specialty night featuring Japanese performance and tuner culture.',
+    description: 'Specialty night featuring Japanese performance and tuner culture. Dutch clock: first to accept wins.',
+    auctionFormat: 'dutch',
+    fees: { buyersPremium: 0.08, sellersCommission: 0.06, entryFee: 50 },
+    memberships: [
+      {
+        id: 'member',
+        name: 'Night Club Member',
+        unlockPrestige: 50,
+        joiningFee: 1500,
+        fees: { buyersPremium: 0.05, sellersCommission: 0.05, entryFee: 0 },
+      },
+      {
+        id: 'patron',
+        name: 'Night Club Patron',
+        unlockPrestige: 200,
+        joiningFee: 5000,
+        fees: { buyersPremium: 0.03, sellersCommission: 0.03, entryFee: 0 },
+      },
+    ],
     tierWeightMultipliers: {
       'Daily Driver': 0.9,
       'Cult Classic': 1.2,
@@ -63,6 +142,23 @@ export const BASE_LOCATIONS = [
     color: 0xe67e22,
     focusTags: ['Classic', 'Muscle'],
     description: 'Curated classics and muscle icons. Chrome, history, and big torque.',
+    fees: { buyersPremium: 0.1, sellersCommission: 0.07, entryFee: 100 },
+    memberships: [
+      {
+        id: 'member',
+        name: 'Heritage Member',
+        unlockPrestige: 75,
+        joiningFee: 2500,
+        fees: { buyersPremium: 0.06, sellersCommission: 0.05, entryFee: 0 },
+      },
+      {
+        id: 'patron',
+        name: 'Heritage Patron',
+        unlockPrestige: 250,
+        joiningFee: 7000,
+        fees: { buyersPremium: 0.04, sellersCommission: 0.04, entryFee: 0 },
+      },
+    ],
     tierWeightMultipliers: {
       'Daily Driver': 0.8,
       'Cult Classic': 1.3,
@@ -77,6 +173,23 @@ export const BASE_LOCATIONS = [
     color: 0x9b59b6,
     focusTags: ['Exotic'],
     description: 'High-end exotics and European legends. Expect higher stakes.',
+    fees: { buyersPremium: 0.15, sellersCommission: 0.1, entryFee: 250 },
+    memberships: [
+      {
+        id: 'member',
+        name: 'Showcase Member',
+        unlockPrestige: 150,
+        joiningFee: 6000,
+        fees: { buyersPremium: 0.1, sellersCommission: 0.07, entryFee: 100 },
+      },
+      {
+        id: 'patron',
+        name: 'Showcase Patron',
+        unlockPrestige: 300,
+        joiningFee: 15000,
+        fees: { buyersPremium: 0.06, sellersCommission: 0.05, entryFee: 0 },
+      },
+    ],
     tierWeightMultipliers: {
       'Daily Driver': 0.5,
       'Cult Classic': 0.9,
@@ -0,0 +1,101 @@
+import { getCarById, type Car, type CarTier } from '@/data/car-database';
+
+/** How hard a part is to find (keys of `parts.sources.*.stockChance` in the config). */
+export type PartRarity = 'common' | 'scarce' | 'rare';
+
+/**
+ * What a part is for. Decides which work needs it:
+ * - running-gear: minor service
+ * - body: rust removal
+ * - engine: engine rebuild
+ * - every category: major overhaul
+ */
+export type PartCategory = 'running-gear' | 'body' | 'engine' | 'interior';
+
+/**
+ * A part on the parts market.
+ */
+export interface PartDefinition {
+  id: string;
+  name: string;
+  category: PartCategory;
+  rarity: PartRarity;
+  /** Tier of the cars the part fits (decides who stocks it). */
+  tier: CarTier;
+  basePrice: number;
+}
+
+export const PART_RARITIES: readonly PartRarity[] = ['common', 'scarce', 'rare'];
+
+/**
+ * Every part a car template can declare.
+ */
+export const PartsDatabase: readonly PartDefinition[] = [
+  // Daily Drivers
+  { id: 'dd_service_kit', name: 'Service Kit', category: 'running-gear', rarity: 'common', tier: 'Daily Driver', basePrice: 35 },
+  { id: 'dd_brake_kit', name: 'Brake Pads & Rotors', category: 'running-gear', rarity: 'common', tier: 'Daily Driver', basePrice: 45 },
+  { id: 'dd_body_panel', name: 'Replacement Body Panel', category: 'body', rarity: 'common', tier: 'Daily Driver', basePrice: 60 },
+  { id: 'dd_engine_gaskets', name: 'Engine Gasket Set', category: 'engine', rarity: 'common', tier: 'Daily Driver', basePrice: 55 },
+  { id: 'dd_interior_trim', name: 'Interior Trim Set', category: 'interior', rarity: 'scarce', tier: 'Daily Driver', basePrice: 40 },
+
+  // Cult Classics
+  { id: 'cc_suspension_kit', name: 'Suspension Refresh Kit', category: 'running-gear', rarity: 'common', tier: 'Cult Classic', basePrice: 450 },
+  { id: 'cc_repair_panels', name: 'Repair Panels', category: 'body', rarity: 'common', tier: 'Cult Classic', basePrice: 300 },
+  { id: 'cc_chrome_trim', name: 'Chrome Trim Set', category: 'body', rarity: 'scarce', tier: 'Cult Classic', basePrice: 300 },
+  { id: 'cc_engine_kit', name: 'Engine Rebuild Kit', category: 'engine', rarity: 'common', tier: 'Cult Classic', basePrice: 350 },
+  { id: 'cc_carburetor', name: 'Rebuilt Carburetor', category: 'engine', rarity: 'scarce', tier: 'Cult Classic', basePrice: 400 },
+  { id: 'cc_turbo', name: 'OEM Turbocharger', category: 'engine', rarity: 'scarce', tier: 'Cult Classic', basePrice: 500 },
+  { id: 'cc_interior', name: 'Reproduction Interior', category: 'interior', rarity: 'scarce', tier: 'Cult Classic', basePrice: 350 },
+
+  // Icons
+  { id: 'ic_service_kit', name: 'Specialist Service Kit', category: 'running-gear', rarity: 'common', tier: 'Icon', basePrice: 1400 },
+  { id: 'ic_body_panels', name: 'Hand-Formed Body Panels', category: 'body', rarity: 'scarce', tier: 'Icon', basePrice: 1200 },
+  { id: 'ic_engine_parts', name: 'Factory Engine Parts', category: 'engine', rarity: 'scarce', tier: 'Icon', basePrice: 1400 },
+  { id: 'ic_interior', name: 'Original-Spec Interior', category: 'interior', rarity: 'scarce', tier: 'Icon', basePrice: 1000 },
+
+  // Unicorns
+  { id: 'un_service_kit', name: 'Concours Service Kit', category: 'running-gear', rarity: 'common', tier: 'Unicorn', basePrice: 5000 },
+  { id: 'un_coachwork', name: 'Coachbuilt Body Panel', category: 'body', rarity: 'rare', tier: 'Unicorn', basePrice: 4500 },
+  { id: 'un_engine_internals', name: 'Period-Correct Engine Internals', category: 'engine', rarity: 'rare', tier: 'Unicorn', basePrice: 5000 },
+  { id: 'un_interior', name: 'Hand-Stitched Interior', category: 'interior', rarity: 'scarce', tier: 'Unicorn', basePrice: 3500 },
+];
+
+/** The car fields that decide its parts (readonly so state snapshots can be passed straight in). */
+type CarPartsSource = Pick<Car, 'tier' | 'templateId'> & { readonly parts?: readonly string[] };
+
+/** Parts assumed for cars with no template declaration (e.g. from older saves). */
+const DEFAULT_PARTS_BY_TIER: Readonly<Record<CarTier, readonly string[]>> = {
+  'Daily Driver': ['dd_service_kit', 'dd_brake_kit', 'dd_body_panel', 'dd_engine_gaskets'],
+  'Cult Classic': ['cc_suspension_kit', 'cc_repair_panels', 'cc_engine_kit', 'cc_interior'],
+  Icon: ['ic_service_kit', 'ic_body_panels', 'ic_engine_parts', 'ic_interior'],
+  Unicorn: ['un_service_kit', 'un_coachwork', 'un_engine_internals', 'un_interior'],
+};
+
+export function getPartById(id: string): PartDefinition | undefined {
+  return PartsDatabase.find((part) => part.id === id);
+}
+
+export function getPartName(id: string): string {
+  return getPartById(id)?.name ?? id;
+}
+
+/**
+ * Parts a car's restorations draw from: its own declaration, else its template's, else the tier default.
+ */
+export function getCarPartIds(car: CarPartsSource): string[] {
+  const declared = car.parts ?? (car.templateId ? getCarById(car.templateId)?.parts : undefined);
+  return [...(declared ?? DEFAULT_PARTS_BY_TIER[car.tier])];
+}
+
+/**
+ * The car's parts in the given categories (a category's parts are all needed).
+ */
+export function getCarPartIdsByCategory(
+  car: CarPartsSource,
+  categories: readonly PartCategory[]
+): string[] {
+  return getCarPartIds(car).filter((id) => {
+    const part = getPartById(id);
+    return part !== undefined && categories.includes(part.category);
+  });
+}
@@ -4,8 +4,10 @@
  * Passive: Conservative bidding, maintains patience
  * Collector: Overpays for wishlist items, passive otherwise
  */
-import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
 import { warnLog } from '@/utils/log';
+import { randomInt, rng, type RandomFn } from '@/core/rng';
+import { getCarOriginality, isMatchingNumbers } from '@/data/car-database';
 
 export type RivalStrategy = 'Aggressive' | 'Passive' | 'Collector';
 
@@ -32,9 +34,14 @@ export type BarkTrigger =
  * Get a bark (dialogue line) for a rival based on their mood and the situation.
  * @param mood - The rival's current mood
  * @param trigger - The event triggering the bark
+ * @param random - Random source (defaults to the seeded 'flavor' stream)
  * @returns A string of dialogue
  */
-export function getRivalBark(mood: RivalMood, trigger: BarkTrigger): string {
+export function getRivalBark(
+  mood: RivalMood,
+  trigger: BarkTrigger,
+  random: RandomFn = rng.stream('flavor')
+): string {
   const barks: Record<RivalMood, Record<BarkTrigger, string[]>> = {
     Desperate: {
       bid: ["I... I really need this win!", "Don't push me!", "I'm all in on this one!"],
@@ -79,7 +86,7 @@ export function getRivalBark(mood: RivalMood, trigger: BarkTrigger): string {
   };
 
   const options = barks[mood][trigger];
-  return options[Math.floor(Math.random() * options.length)];
+  return options[randomInt(random, options.length)];
 }
 
 /**
@@ -303,10 +310,11 @@ export const RivalDatabase: Rival[] = [
 /**
  * Get a random rival from the database with mood assigned.
  * @param day - Current game day (for mood generation)
+ * @param random - Random source (defaults to the seeded 'rivals' stream)
  * @returns A rival selected randomly from the database with mood
  */
-export function getRandomRival(day: number = 1): Rival {
-  const randomIndex = Math.floor(Math.random() * RivalDatabase.length);
+export function getRandomRival(day: number = 1, random: RandomFn = rng.stream('rivals')): Rival {
+  const randomIndex = randomInt(random, RivalDatabase.length);
   const rival = { ...RivalDatabase[randomIndex] };
   rival.mood = getRivalMood(rival.id, day);
   return rival;
@@ -344,14 +352,16 @@ export function getRivalById(id: string, day: number = 1): Rival {
  * Tier 1 (Tycoons): Late game, hardest - available from 150+ prestige
  * @param playerPrestige - Current player prestige level
  * @param day - Current game day (for mood generation)
+ * @param options.random - Random source (defaults to the seeded 'rivals' stream)
  * @returns A rival appropriate for the player's current prestige level with mood
  */
 export function getRivalByTierProgression(
   playerPrestige: number,
   day: number = 1,
-  options?: { excludeIds?: readonly string[] }
+  options?: { excludeIds?: readonly string[]; random?: RandomFn }
 ): Rival {
-  const { tierProgression } = GAME_CONFIG.rivalAI;
+  const random = options?.random ?? rng.stream('rivals');
+  const { tierProgression } = getGameConfig().rivalAI;
   const excludeIds = new Set(options?.excludeIds ?? []);
 
   let availableTiers: (1 | 2 | 3)[];
@@ -367,7 +377,7 @@ export function getRivalByTierProgression(
     availableTiers = [3];
   }
 
-  const selectedTier = availableTiers[Math.floor(Math.random() * availableTiers.length)];
+  const selectedTier = availableTiers[randomInt(random, availableTiers.length)];
   const tierRivals = RivalDatabase.filter(
     (rival) => rival.tier === selectedTier && !excludeIds.has(rival.id)
   );
@@ -380,7 +390,7 @@ export function getRivalByTierProgression(
     );
 
     if (allowedTierCandidates.length > 0) {
-      const randomIndex = Math.floor(Math.random() * allowedTierCandidates.length);
+      const randomIndex = randomInt(random, allowedTierCandidates.length);
       const rival = { ...allowedTierCandidates[randomIndex] };
       rival.mood = getRivalMood(rival.id, day);
       return rival;
@@ -389,7 +399,7 @@ export function getRivalByTierProgression(
     // Final fallback: any rival not excluded.
     const anyCandidates = RivalDatabase.filter((rival) => !excludeIds.has(rival.id));
     if (anyCandidates.length > 0) {
-      const randomIndex = Math.floor(Math.random() * anyCandidates.length);
+      const randomIndex = randomInt(random, anyCandidates.length);
       const rival = { ...anyCandidates[randomIndex] };
       rival.mood = getRivalMood(rival.id, day);
       return rival;
@@ -398,31 +408,66 @@ export function getRivalByTierProgression(
     warnLog(
       `No rivals found for tier ${selectedTier} (or all excluded), falling back to random rival`
     );
-    return getRandomRival(day);
+    return getRandomRival(day, random);
   }
 
-  const randomIndex = Math.floor(Math.random() * tierRivals.length);
+  const randomIndex = randomInt(random, tierRivals.length);
   const rival = { ...tierRivals[randomIndex] };
   rival.mood = getRivalMood(rival.id, day);
   return rival;
 }
 
 /**
- * Calculate rival interest in a car based on wishlist matching.
+ * Calculate rival interest in a car based on wishlist matching and originality.
  * Base interest is 50; each matching tag adds 15 points.
+ * Lost originality costs interest by strategy (`rivalAI.originalityInterestPenalty`); scrappers don't care.
+ * Collectors are keener still on matching-numbers cars.
  * @param rival - The rival to evaluate
  * @param carTags - Tags of the car being considered
- * @returns Interest level (0-100, capped at 100)
+ * @param originality - The car's originality (0-100; untouched cars are 100)
+ * @returns Interest level (0-100)
  */
-export function calculateRivalInterest(rival: Rival, carTags: string[]): number {
+export function calculateRivalInterest(rival: Rival, carTags: string[], originality: number = 100): number {
+  const config = getGameConfig().rivalAI;
   let interest = 50; // Base interest
   
   // Check wishlist match
   const matches = carTags.filter((tag) => rival.wishlist.includes(tag));
   interest += matches.length * 15;
+
+  if (rival.tier !== 3) {
+    const penaltyPerPoint =
+      rival.strategy === 'Aggressive'
+        ? config.originalityInterestPenalty.aggressive
+        : rival.strategy === 'Passive'
+          ? config.originalityInterestPenalty.passive
+          : config.originalityInterestPenalty.collector;
+    interest -= Math.round((100 - getCarOriginality({ originality })) * penaltyPerPoint);
+    if (rival.strategy === 'Collector' && isMatchingNumbers({ originality })) {
+      interest += config.collectorMatchingNumbersBonus;
+    }
+  }
   
-  // Cap at 100
-  return Math.min(interest, 100);
+  return Math.max(0, Math.min(interest, 100));
+}
+
+/**
+ * The most a rival considers the car worth, from their budget, strategy and interest.
+ * Interest-based willingness to pay keeps every rival from always bidding until budget/patience
+ * are exhausted, and makes strategy/interest matter.
+ * @param rival - The rival (with their current budget)
+ * @param carInterest - Rival's interest level in the car (0-100)
+ */
+export function getRivalMaxWillingBid(rival: Pick<Rival, 'budget' | 'strategy'>, carInterest: number): number {
+  const interest = Math.max(0, Math.min(100, carInterest));
+  const baseWillingness = 0.35 + 0.65 * (interest / 100); // 35%..100% of budget
+  const strategyWillingnessMultiplier: Record<RivalStrategy, number> = {
+    Aggressive: 0.95,
+    Passive: 0.85,
+    Collector: interest > getGameConfig().rivalAI.collectorHighInterestThreshold ? 1.10 : 0.90,
+  };
+
+  return Math.floor(rival.budget * baseWillingness * strategyWillingnessMultiplier[rival.strategy]);
 }
 
 /**
@@ -450,7 +495,7 @@ export function getRivalBidDecision(
   bidAggressiveness: number = 1
 ): BidDecision {
   const interest = Math.max(0, Math.min(100, carInterest));
-  const bidStep = GAME_CONFIG.auction.bidIncrement;
+  const bidStep = getGameConfig().auction.bidIncrement;
   const aggressiveness = Number.isFinite(bidAggressiveness)
     ? Math.max(0.25, Math.min(2, bidAggressiveness))
     : 1;
@@ -482,17 +527,7 @@ export function getRivalBidDecision(
     };
   }
 
-  // Interest-based willingness to pay.
-  // This prevents every rival from always bidding until budget/patience are exhausted,
-  // and makes strategy/interest matter.
-  const baseWillingness = 0.35 + 0.65 * (interest / 100); // 35%..100% of budget
-  const strategyWillingnessMultiplier: Record<RivalStrategy, number> = {
-    Aggressive: 0.95,
-    Passive: 0.85,
-    Collector: interest > GAME_CONFIG.rivalAI.collectorHighInterestThreshold ? 1.10 : 0.90,
-  };
-
-  const maxWillingBid = Math.floor(rival.budget * baseWillingness * strategyWillingnessMultiplier[rival.strategy]);
+  const maxWillingBid = getRivalMaxWillingBid(rival, interest);
 
   // If the price is already beyond what they consider "worth it", fold.
   if (currentBid > maxWillingBid) {
@@ -506,20 +541,20 @@ export function getRivalBidDecision(
   // Calculate bid amount based on strategy
   let bidAmount = 0;
   const collectorHighInterestThreshold =
-    GAME_CONFIG.rivalAI.collectorHighInterestThreshold;
+    getGameConfig().rivalAI.collectorHighInterestThreshold;
   
   switch (rival.strategy) {
     case 'Aggressive':
-      bidAmount = GAME_CONFIG.auction.rivalBidIncrements.aggressive;
+      bidAmount = getGameConfig().auction.rivalBidIncrements.aggressive;
       break;
     case 'Passive':
-      bidAmount = GAME_CONFIG.auction.rivalBidIncrements.passive;
+      bidAmount = getGameConfig().auction.rivalBidIncrements.passive;
       break;
     case 'Collector':
       bidAmount =
         carInterest > collectorHighInterestThreshold
-          ? GAME_CONFIG.auction.rivalBidIncrements.collectorHighInterest
-          : GAME_CONFIG.auction.rivalBidIncrements.collectorLowInterest;
+          ? getGameConfig().auction.rivalBidIncrements.collectorHighInterest
+          : getGameConfig().auction.rivalBidIncrements.collectorLowInterest;
       break;
   }
 
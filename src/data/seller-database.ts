@@ -0,0 +1,135 @@
+/**
+ * Private sellers met in solo (no-rival) encounters.
+ * A seller is rolled when the encounter is routed; their prices are relative to the
+ * market estimate, which is only known once the negotiation starts.
+ */
+import { getGameConfig } from '@/config/run-config';
+import { pickRandom, randomInt, rng, type RandomFn } from '@/core/rng';
+
+/**
+ * Seller mood: how eager they are to sell and how long they put up with haggling.
+ */
+export type SellerMood = 'Motivated' | 'Neutral' | 'Stubborn';
+
+export interface Seller {
+  name: string;
+  mood: SellerMood;
+  /** Opening ask as a multiple of the market estimate. */
+  askingPriceMultiplier: number;
+  /** Hidden walk-away price as a multiple of the market estimate (before mood). */
+  walkAwayMultiplier: number;
+}
+
+/**
+ * Things a seller says during a negotiation.
+ */
+export type SellerLineTrigger = 'greeting' | 'counter' | 'lowball' | 'final' | 'accept' | 'walk';
+
+const SELLER_NAMES = [
+  'Doris Kettleman',
+  'Walt Pruitt',
+  'Marisol Vega',
+  'Hank "Two-Stroke" Decker',
+  'Priya Anand',
+  'Gus Lindqvist',
+  'Bernadette Shaw',
+  'Otis Fairbanks',
+] as const;
+
+const SELLER_MOODS: readonly SellerMood[] = ['Motivated', 'Neutral', 'Stubborn'];
+
+/**
+ * Get mood modifiers for seller behavior.
+ * @param mood - The seller's mood
+ * @returns Multipliers for the walk-away price, patience and concessions
+ */
+export function getSellerMoodModifiers(mood: SellerMood): {
+  walkAwayMultiplier: number;
+  patienceMultiplier: number;
+  concessionMultiplier: number;
+  description: string;
+} {
+  switch (mood) {
+    case 'Motivated':
+      return {
+        walkAwayMultiplier: 0.95, // Will go lower
+        patienceMultiplier: 1.2, // Keeps talking
+        concessionMultiplier: 1.25, // Gives ground quickly
+        description: 'needs the money and wants this sold today',
+      };
+    case 'Stubborn':
+      return {
+        walkAwayMultiplier: 1.05,
+        patienceMultiplier: 0.8,
+        concessionMultiplier: 0.7,
+        description: 'knows what they think it is worth and won\'t be rushed',
+      };
+    case 'Neutral':
+    default:
+      return {
+        walkAwayMultiplier: 1,
+        patienceMultiplier: 1,
+        concessionMultiplier: 1,
+        description: 'is open to a fair offer',
+      };
+  }
+}
+
+/**
+ * Roll a private seller for a solo encounter.
+ * @param random - Random source (defaults to the seeded 'encounters' stream)
+ */
+export function generateSeller(random: RandomFn = rng.stream('encounters')): Seller {
+  const { askingPriceMultiplier, walkAwayMultiplier } = getGameConfig().negotiation;
+  const rollBetween = (range: { min: number; max: number }): number =>
+    range.min + random() * (range.max - range.min);
+
+  return {
+    name: pickRandom(random, SELLER_NAMES) ?? SELLER_NAMES[0],
+    mood: pickRandom(random, SELLER_MOODS) ?? 'Neutral',
+    askingPriceMultiplier: rollBetween(askingPriceMultiplier),
+    walkAwayMultiplier: rollBetween(walkAwayMultiplier),
+  };
+}
+
+/**
+ * Get a line of seller dialogue for a negotiation beat.
+ * @param mood - The seller's mood
+ * @param trigger - The beat being voiced
+ * @param random - Random source (defaults to the seeded 'flavor' stream)
+ */
+export function getSellerLine(
+  mood: SellerMood,
+  trigger: SellerLineTrigger,
+  random: RandomFn = rng.stream('flavor')
+): string {
+  const lines: Record<SellerMood, Record<SellerLineTrigger, string[]>> = {
+    Motivated: {
+      greeting: ["Glad you came by—I need this gone.", "Make me an offer, I'm listening.", "It's a good car, I just need the space."],
+      counter: ["I can come down a little.", "Meet me closer and it's yours.", "Help me out here."],
+      lowball: ["Come on, I'm motivated, not desperate.", "That's a bit rough.", "I can't go that low."],
+      final: ["That's really as low as I go.", "Last number. Take it or leave it."],
+      accept: ["Deal! Thank you.", "Sold. You just made my week.", "Done—she's yours."],
+      walk: ["Sorry, I'll find another buyer.", "I can't do this. Good luck."],
+    },
+    Neutral: {
+      greeting: ["Have a look around.", "She runs. What's your offer?", "Fair price for a fair car."],
+      counter: ["How about this instead?", "I could do a bit better.", "We're getting closer."],
+      lowball: ["That's not a serious offer.", "You'll have to do better than that.", "Now you're just wasting time."],
+      final: ["That's my final number.", "I won't go any lower."],
+      accept: ["Alright, deal.", "You've got yourself a car.", "Nice doing business."],
+      walk: ["We're done here.", "I'll keep it, thanks.", "Not today."],
+    },
+    Stubborn: {
+      greeting: ["Price is on the windshield.", "I know what I've got.", "Don't waste my afternoon."],
+      counter: ["Fine. A little less.", "That's a big ask. Here's mine.", "I'll move, barely."],
+      lowball: ["Insulting.", "Are you joking?", "Try again, seriously."],
+      final: ["That's it. Not a dollar less.", "Final. Don't push me."],
+      accept: ["...Fine. Deal.", "Take it before I change my mind.", "Hmph. Sold."],
+      walk: ["Get off my driveway.", "Forget it. Not selling to you.", "Done talking."],
+    },
+  };
+
+  const options = lines[mood][trigger];
+  return options[randomInt(random, options.length)];
+}
@@ -1,13 +1,36 @@
 import { debugLog, errorLog } from '@/utils/log';
 import { BaseGameScene } from './base-game-scene';
-import { Car, calculateCarValue, getCarById } from '@/data/car-database';
+import {
+  Car,
+  calculateCarValue,
+  discoverCarDefects,
+  formatCarDefectList,
+  getCarById,
+  getDiscoveredDefects,
+  getUndiscoveredDefects,
+} from '@/data/car-database';
 import { Rival, getRivalById, calculateRivalInterest, BarkTrigger, getRivalBark } from '@/data/rival-database';
-import { BASE_LOCATIONS } from '@/data/location-database';
+import { BASE_LOCATIONS, type AuctionFormat, type AuctionHouseFees } from '@/data/location-database';
 import { getCharacterPortraitUrlOrPlaceholder } from '@/assets/character-portraits';
 import { RivalAI } from '@/systems/rival-ai';
+import { inspectCar } from '@/systems/car-inspection';
+import { formatFeeRate, getBuyersPremium, NO_AUCTION_FEES } from '@/systems/auction-fees';
+import {
+  AUCTION_FORMAT_LABELS,
+  findDutchTaker,
+  getAuctionFormat,
+  getDutchClock,
+  getNextDutchPrice,
+  getRivalSealedBid,
+  rankSealedBids,
+  type DutchClock,
+} from '@/systems/auction-formats';
 import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
 import { formatCurrency } from '@/utils/format';
+import { pickRandom, rng, shuffleInPlace } from '@/core/rng';
 import type { AuctionRivalEntry } from '@/systems/map-encounter-router';
+import { getCurrentLot, getLotRivalEntries, getNextAuctionDay, type AuctionDay } from '@/systems/auction-catalog';
 import type { SpecialEvent } from '@/systems/special-events-system';
 import {
   createEncounterCenteredLayoutRoot,
@@ -21,7 +44,11 @@ import {
   type BiddingContext,
   type BiddingCallbacks,
   type BidderId,
+  createProxyBidPolicy,
   makeRivalBidderId,
+  proxyBidTurn,
+  type ProxyBidPolicy,
+  type ProxyBidTactic,
   playerBid as playerBidInternal,
   playerKickTires as playerKickTiresInternal,
   playerStall as playerStallInternal,
@@ -33,6 +60,14 @@ type BidHistoryEntry = {
   bidderId: BidderId;
   totalBid: number;
   atMs: number;
+  /** Set on proxy log lines (not bids): what the proxy did and why. */
+  note?: string;
+};
+
+const PROXY_TACTIC_LABELS: Record<ProxyBidTactic, { name: string; description: string }> = {
+  steady: { name: 'Steady', description: 'Minimum raises only.' },
+  pressure: { name: 'Pressure', description: "Power bid once a rival's patience drops under 30." },
+  aggressive: { name: 'Aggressive', description: 'Power bid every turn the cap allows.' },
 };
 
 type AuctionParticipantKey = 'auctioneer' | BidderId;
@@ -71,8 +106,11 @@ const PLAYER_PORTRAIT_PLACEHOLDER_URL = `data:image/svg+xml;charset=utf-8,${enco
 
 /**
  * Auction Scene - Turn-based bidding battle against a rival.
- * Player uses various tactics (bid, power bid, stall, kick tires) to win the car.
+ * Player uses various tactics (bid, power bid, stall, kick tires) to win the car,
+ * and can inspect it (costs time) for hidden defects.
  * Rival patience and budget determine when they quit.
+ * Some houses and special events run sealed-bid or Dutch-clock auctions instead (see auction-formats).
+ * At an auction day the scene restarts for each lot of the catalog, with the rivals' budgets carried over.
  */
 export class AuctionScene extends BaseGameScene {
   private car!: Car;
@@ -80,8 +118,24 @@ export class AuctionScene extends BaseGameScene {
   private rivalAIsById: Record<string, RivalAI> = {};
   private activeRivalIds: string[] = [];
   private locationId?: string;
+  /** The house's fees for this sale, cached at the start (the location id is cleared once the offer is consumed). */
+  private auctionFees: AuctionHouseFees = { ...NO_AUCTION_FEES };
   private specialEvent?: SpecialEvent;
   private specialEventBonusesApplied: boolean = false;
+  /** How this auction is run: open bidding unless the house or special event says otherwise. */
+  private auctionFormat: AuctionFormat = 'english';
+  /** The lowest price the seller takes (the Dutch clock stops here). */
+  private openingBid: number = 0;
+  /** Sealed and Dutch auctions: each rival's hidden bid (or accepting price), by rival id. Rivals who won't meet the opening bid are left out. */
+  private rivalHiddenBids: Record<string, number> = {};
+  private sealedPlayerBid?: number;
+  private dutchClock?: DutchClock;
+  /** The auction day this lot belongs to, if the house is selling a catalog. */
+  private auctionDay?: AuctionDay;
+  /** The rival who bought this lot (they pay for it out of their budget for the later lots). */
+  private lotBuyerRivalId?: string;
+  /** A later lot of an auction day opened with the garage full: the player can watch it but not bid. */
+  private garageFullForLot: boolean = false;
   private auctioneerName!: string;
   private encounterStarted: boolean = false;
   private auctionResolved: boolean = false;
@@ -90,6 +144,7 @@ export class AuctionScene extends BaseGameScene {
   private powerBidStreak: number = 0;
   private auctionMarketEstimateValue: number = 0;
   private playerHasWithdrawn: boolean = false;
+  private inspected: boolean = false;
 
   // Participant portrait anchors + flash timers.
   private participantFlash: ParticipantFlashState = { anchors: {}, clearTimeoutIds: {} };
@@ -101,6 +156,13 @@ export class AuctionScene extends BaseGameScene {
   private pendingRivalTurnTimeoutId?: number;
   private pendingPlayerTurnEnableTimeoutId?: number;
   private pendingEndAuctionTimeoutId?: number;
+  private pendingProxyTurnTimeoutId?: number;
+  /** Next Dutch clock tick or sealed bid reveal. */
+  private pendingFormatStepTimeoutId?: number;
+
+  /** The player's proxy bid, if set: it takes the player's turns until it hits the cap or is cancelled. */
+  private proxyBid?: ProxyBidPolicy;
+  private proxyTactic?: ProxyBidTactic;
 
   private isPlayerTurn: boolean = false;
   private lastBidder?: BidderId;
@@ -139,8 +201,8 @@ export class AuctionScene extends BaseGameScene {
 
   init(
     data:
-      | { car: Car; rivals: AuctionRivalEntry[]; locationId?: string; specialEvent?: SpecialEvent }
-      | { car: Car; rival: Rival; interest: number; locationId?: string; specialEvent?: SpecialEvent }
+      | { car: Car; rivals: AuctionRivalEntry[]; locationId?: string; specialEvent?: SpecialEvent; auctionDay?: AuctionDay }
+      | { car: Car; rival: Rival; interest: number; locationId?: string; specialEvent?: SpecialEvent; auctionDay?: undefined }
   ): void {
     // This scene instance is reused across runs; aggressively reset any transient state
     // so a previous auction attempt (e.g., player withdrawal) can't leak into a retry.
@@ -149,6 +211,7 @@ export class AuctionScene extends BaseGameScene {
     this.clearPendingRivalBark();
     this.clearPendingPlayerTurnEnable();
     this.clearPendingEndAuction();
+    this.clearPendingFormatStep();
     this.clearAllParticipantFlashTimeouts();
     this.clearAllParticipantBarkTimeouts();
 
@@ -163,7 +226,7 @@ export class AuctionScene extends BaseGameScene {
                 rival: data.rival,
                 interest: Number.isFinite(data.interest)
                   ? data.interest
-                  : calculateRivalInterest(data.rival, data.car.tags),
+                  : calculateRivalInterest(data.rival, data.car.tags, data.car.originality),
               },
             ]
           : [];
@@ -174,16 +237,32 @@ export class AuctionScene extends BaseGameScene {
     this.rivals = rivalEntries.map((e) => e.rival);
     this.rivalAIsById = {};
     for (const entry of rivalEntries) {
-      this.rivalAIsById[entry.rival.id] = new RivalAI(entry.rival, entry.interest);
+      // Later lots of an auction day: rivals bid with what they have left.
+      this.rivalAIsById[entry.rival.id] = new RivalAI(
+        entry.rival,
+        entry.interest,
+        data.auctionDay?.rivalBudgets[entry.rival.id]
+      );
     }
     this.activeRivalIds = this.rivals.map((r) => r.id);
     this.locationId = data.locationId;
+    this.auctionFees = { ...NO_AUCTION_FEES };
+    this.proxyBid = undefined;
+    this.proxyTactic = undefined;
     this.specialEvent = data.specialEvent;
     this.specialEventBonusesApplied = false;
-    this.auctioneerName = AUCTIONEER_NAMES[Math.floor(Math.random() * AUCTIONEER_NAMES.length)];
+    this.auctionFormat = getAuctionFormat({ locationId: data.locationId, specialEvent: data.specialEvent });
+    this.rivalHiddenBids = {};
+    this.sealedPlayerBid = undefined;
+    this.dutchClock = undefined;
+    this.auctionDay = data.auctionDay;
+    this.lotBuyerRivalId = undefined;
+    this.garageFullForLot = false;
+    this.auctioneerName = pickRandom(rng.stream('flavor'), AUCTIONEER_NAMES) ?? AUCTIONEER_NAMES[0];
     this.encounterStarted = false;
     this.auctionResolved = false;
     this.playerHasWithdrawn = false;
+    this.inspected = false;
     this.isPlayerTurn = false;
     this.lastBidder = undefined;
     // Initialize with non-market value; we'll re-evaluate once managers are ready.
@@ -206,6 +285,7 @@ export class AuctionScene extends BaseGameScene {
     debugLog('Auction Scene: Loaded');
 
     this.initializeManagers('auction');
+    if (this.locationId) this.auctionFees = this.gameManager.getAuctionHouseFees(this.locationId);
 
     // Market-aware estimate (cache once for this auction to avoid UI drift).
     const baseValue = calculateCarValue(this.car);
@@ -214,14 +294,18 @@ export class AuctionScene extends BaseGameScene {
 
     // Market-aware starting bid (use the cached estimate).
     this.currentBid = Math.floor(this.auctionMarketEstimateValue * AuctionScene.STARTING_BID_MULTIPLIER);
+    this.openingBid = this.currentBid;
 
     // Opening line + opening bid are logged via the first bark / first bid,
     // so they don't show up duplicated as system entries.
 
     // Defensive guard: this scene should not start if the garage is already full.
     // Entry points (e.g., MapScene) should prevent this, but keep this to avoid bypasses.
+    // A later lot of an auction day (the garage filled up earlier in the sale) still runs, without the player bidding.
     const player = this.gameManager.getPlayerState();
-    if (!this.gameManager.hasGarageSpace()) {
+    if (this.auctionDay && this.auctionDay.lotIndex > 0) {
+      this.garageFullForLot = !this.gameManager.hasGarageSpace();
+    } else if (!this.gameManager.hasGarageSpace()) {
       this.uiManager.showGarageFullGate({
         message: 'Your garage is full. Sell or scrap a car before entering an auction.',
         primary: { text: 'Go to Garage', onClick: () => this.scene.start('GarageScene') },
@@ -232,7 +316,8 @@ export class AuctionScene extends BaseGameScene {
 
     // Defensive guard: don't start an auction if the player can't even afford the opening bid.
     // Important: do NOT consume the daily offer in this case (player never meaningfully participated).
-    if (player.money < this.currentBid) {
+    // At an auction day the player can sit out a lot they can't afford; the rivals still bid on it.
+    if (player.money < this.currentBid && !this.auctionDay) {
       this.uiManager.showCannotAffordAuctionModal({
         context: 'auction-entry',
         openingBid: this.currentBid,
@@ -244,6 +329,7 @@ export class AuctionScene extends BaseGameScene {
     }
 
     this.encounterStarted = true;
+    if (this.auctionFormat !== 'english') this.setupHiddenBids();
 
     this.setupBackground('AUCTION BATTLE!', {
       topColor: 0x8b0000,
@@ -256,6 +342,11 @@ export class AuctionScene extends BaseGameScene {
 
     // First bark after the UI exists so the bubble can anchor to the portrait.
     this.showAuctioneerBark('start');
+    if (this.garageFullForLot) {
+      this.showToastAndLog('Your garage is full, so you can only watch this lot. Drop out to let the rivals finish it.', {
+        backgroundColor: '#607d8b',
+      });
+    }
 
     // Auctioneer opening prompt, then enable the player's first turn.
     this.clearPendingPlayerTurnEnable();
@@ -266,6 +357,8 @@ export class AuctionScene extends BaseGameScene {
       this.showAuctioneerBark('opening_prompt');
       this.isPlayerTurn = true;
       this.setupUI();
+      this.scheduleProxyTurn();
+      if (this.auctionFormat === 'dutch') this.scheduleDutchTick();
     }, GAME_CONFIG.ui.modalDelays.openingPromptAfterStart);
     
     // Ensure cleanup on scene shutdown
@@ -275,6 +368,7 @@ export class AuctionScene extends BaseGameScene {
       this.clearPendingRivalBark();
       this.clearPendingPlayerTurnEnable();
       this.clearPendingEndAuction();
+      this.clearPendingFormatStep();
       this.clearAllParticipantFlashTimeouts();
       this.clearAllParticipantBarkTimeouts();
     });
@@ -485,6 +579,11 @@ export class AuctionScene extends BaseGameScene {
       window.clearTimeout(this.pendingPlayerTurnEnableTimeoutId);
       this.pendingPlayerTurnEnableTimeoutId = undefined;
     }
+    // A scheduled proxy move is part of the player's turn.
+    if (this.pendingProxyTurnTimeoutId !== undefined) {
+      window.clearTimeout(this.pendingProxyTurnTimeoutId);
+      this.pendingProxyTurnTimeoutId = undefined;
+    }
   }
 
   private scheduleEnablePlayerTurn(delayMs: number = GAME_CONFIG.ui.modalDelays.nextTurnAfterAuctioneer): void {
@@ -496,9 +595,20 @@ export class AuctionScene extends BaseGameScene {
       this.isPlayerTurn = true;
       this.setTurnFocusBidder('player');
       this.setupUI();
+      this.scheduleProxyTurn();
     }, scaledDelayMs);
   }
 
+  /** If a proxy bid is set, let it take the player's turn after the usual pause. */
+  private scheduleProxyTurn(): void {
+    if (!this.proxyBid || this.pendingProxyTurnTimeoutId !== undefined) return;
+    this.pendingProxyTurnTimeoutId = window.setTimeout(() => {
+      this.pendingProxyTurnTimeoutId = undefined;
+      if (!this.scene.isActive()) return;
+      this.playerProxyTurn();
+    }, GAME_CONFIG.ui.modalDelays.nextTurnAfterAuctioneer);
+  }
+
   private setTurnFocusBidder(bidderId?: BidderId): void {
     this.participantTurnFocus.desiredBidderId = bidderId;
     this.applyTurnFocusBidder();
@@ -530,6 +640,11 @@ export class AuctionScene extends BaseGameScene {
 
   private playerEndAuctionEarly(): void {
     if (!this.encounterStarted) return;
+    if (this.auctionFormat !== 'english') {
+      this.withdrawFromHiddenBidAuction();
+      return;
+    }
+    this.proxyBid = undefined;
 
     // Lock out any remaining turns and play a quick closeout before resolving.
     this.isPlayerTurn = false;
@@ -611,13 +726,6 @@ export class AuctionScene extends BaseGameScene {
     }
   }
 
-  private shuffleInPlace<T>(arr: T[]): void {
-    for (let i = arr.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [arr[i], arr[j]] = [arr[j], arr[i]];
-    }
-  }
-
   private runRivalTurnWithConsideration(isRivalOnly: boolean): void {
     if (!this.scene.isActive()) return;
 
@@ -628,7 +736,7 @@ export class AuctionScene extends BaseGameScene {
     }
 
     const order = active.slice();
-    this.shuffleInPlace(order);
+    shuffleInPlace(rng.stream('auction'), order);
 
     const considerationMultiplier = isRivalOnly
       ? AuctionScene.WITHDRAWN_RIVAL_CONSIDERATION_MULTIPLIER
@@ -723,7 +831,7 @@ export class AuctionScene extends BaseGameScene {
     // Cap rival-vs-rival bidding after the player withdraws to avoid extreme overpaying.
     // Allow a modest premium over the estimate so outcomes still feel competitive.
     const rivalOnlyMaxBid = Math.floor(
-      this.auctionMarketEstimateValue * GAME_CONFIG.auction.rivalOnlyMaxBidMultiplier
+      this.auctionMarketEstimateValue * getGameConfig().auction.rivalOnlyMaxBidMultiplier
     );
 
     const context: BiddingContext = {
@@ -815,6 +923,14 @@ export class AuctionScene extends BaseGameScene {
     }, effectiveDelayMs);
   }
 
+  /** Add a proxy log line to the bid history. */
+  private recordProxyStep(note: string): void {
+    this.bidHistory.push({ bidderId: 'player', totalBid: this.currentBid, atMs: Date.now(), note });
+    if (this.bidHistory.length > 50) {
+      this.bidHistory.splice(0, this.bidHistory.length - 50);
+    }
+  }
+
   private recordBid(bidderId: BidderId, totalBid: number): void {
     this.bidHistory.push({ bidderId, totalBid, atMs: Date.now() });
     if (this.bidHistory.length > 50) {
@@ -835,6 +951,27 @@ export class AuctionScene extends BaseGameScene {
   }
 
 
+  /** Display name of the auction's location (special events keep their name after they start). */
+  private getLocationName(): string | null {
+    // An auction day keeps its house after the first lot uses up the offer.
+    const locationId = this.locationId ?? this.auctionDay?.locationId;
+    if (!locationId) return null;
+
+    // Special event encounters remove the event from the active list when started,
+    // so keep the name around from the scene start payload.
+    if (this.specialEvent && this.specialEvent.id === locationId) return this.specialEvent.name;
+
+    const base = BASE_LOCATIONS.find((loc) => loc.id === locationId);
+    if (base) return base.name;
+
+    const specials = this.gameManager.getActiveSpecialEvents();
+    const special = specials.find((event) => event.id === locationId);
+    if (special) return special.name;
+
+    return null;
+  
+  }
+
   private setupUI(): void {
     // resetUIWithHUD() clears the entire overlay. Clear anchor refs and pending flash cleanup timers.
     this.clearAllParticipantFlashTimeouts();
@@ -953,33 +1090,23 @@ export class AuctionScene extends BaseGameScene {
     } satisfies Partial<CSSStyleDeclaration>);
 
     headerLeft.appendChild(
-      this.uiManager.createHeading('AUCTION', 2, {
-        margin: '0',
-        color: '#ffd700',
-        letterSpacing: pixelUI ? '0.08em' : '0.02em',
-        textTransform: pixelUI ? 'uppercase' : 'none',
-      })
+      this.uiManager.createHeading(
+        this.auctionFormat === 'english' ? 'AUCTION' : `AUCTION · ${AUCTION_FORMAT_LABELS[this.auctionFormat].name}`,
+        2,
+        {
+          margin: '0',
+          color: '#ffd700',
+          letterSpacing: pixelUI ? '0.08em' : '0.02em',
+          textTransform: pixelUI ? 'uppercase' : 'none',
+        }
+      )
     );
 
-    const locationName = (() => {
-      if (!this.locationId) return null;
-
-      // Special event encounters remove the event from the active list when started,
-      // so keep the name around from the scene start payload.
-      if (this.specialEvent && this.specialEvent.id === this.locationId) return this.specialEvent.name;
-
-      const base = BASE_LOCATIONS.find((loc) => loc.id === this.locationId);
-      if (base) return base.name;
-
-      const specials = this.gameManager.getActiveSpecialEvents();
-      const special = specials.find((event) => event.id === this.locationId);
-      if (special) return special.name;
-
-      return null;
-    })();
+    const locationName = this.getLocationName();
+    const lotLabel = this.auctionDay ? ` · Lot ${this.auctionDay.lotIndex + 1} of ${this.auctionDay.lots.length}` : '';
 
     headerLeft.appendChild(
-      this.uiManager.createText(locationName ?? 'Live bidding encounter', {
+      this.uiManager.createText(`${locationName ?? 'Live bidding encounter'}${lotLabel}`, {
         margin: '0',
         fontSize: '12px',
         opacity: '0.8',
@@ -1060,8 +1187,14 @@ export class AuctionScene extends BaseGameScene {
       gap: '4px',
       minWidth: '0',
     } satisfies Partial<CSSStyleDeclaration>);
+    const currentBidLabel =
+      this.auctionFormat === 'dutch'
+        ? 'Clock price'
+        : this.auctionFormat === 'sealed' && !this.hasAnyBids
+          ? 'Minimum bid'
+          : 'Current bid';
     currentBidBox.appendChild(
-      this.uiManager.createText('Current bid', {
+      this.uiManager.createText(currentBidLabel, {
         margin: '0',
         fontSize: '11px',
         opacity: '0.75',
@@ -1092,8 +1225,9 @@ export class AuctionScene extends BaseGameScene {
       gap: '4px',
       minWidth: '0',
     } satisfies Partial<CSSStyleDeclaration>);
+    const [nextBidLabel, nextBidValue] = this.getNextBidReadout(normalBidTotal);
     nextBidBox.appendChild(
-      this.uiManager.createText('Next bid', {
+      this.uiManager.createText(nextBidLabel, {
         margin: '0',
         fontSize: '11px',
         opacity: '0.75',
@@ -1103,7 +1237,7 @@ export class AuctionScene extends BaseGameScene {
       })
     );
     nextBidBox.appendChild(
-      this.uiManager.createText(formatCurrency(normalBidTotal), {
+      this.uiManager.createText(nextBidValue, {
         margin: '0',
         fontWeight: '800',
         fontSize: '12px',
@@ -1171,6 +1305,16 @@ export class AuctionScene extends BaseGameScene {
     );
     carCardBody.appendChild(metaText);
 
+    const foundDefects = getDiscoveredDefects(this.car);
+    if (foundDefects.length > 0) {
+      carCardBody.appendChild(
+        this.uiManager.createText(
+          `⚠ Found: ${formatCarDefectList(foundDefects)} · Worth ~${formatCurrency(this.getValueEstimate(this.car))}`,
+          { margin: '4px 0 0 0', fontSize: '12px', lineHeight: '1.35', color: '#e67e22' }
+        )
+      );
+    }
+
     leftCol.appendChild(carStatsPanel);
 
     // LEFT: bidding controls (reference: quick increments + place bid)
@@ -1228,120 +1372,166 @@ export class AuctionScene extends BaseGameScene {
       fundsBox.appendChild(makeFundsRow('Committed', formatCurrency(reservedFunds)));
     }
     fundsBox.appendChild(makeFundsRow('Available', formatCurrency(availableFunds)));
+    if (this.auctionFees.buyersPremium > 0) {
+      fundsBox.appendChild(
+        makeFundsRow(
+          `Premium (${formatFeeRate(this.auctionFees.buyersPremium)})`,
+          `+${formatCurrency(getBuyersPremium(this.currentBid, this.auctionFees))}`
+        )
+      );
+    }
     biddingPanel.appendChild(fundsBox);
 
-    const quickRow = document.createElement('div');
-    Object.assign(quickRow.style, {
-      display: 'grid',
-      gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
-      gap: '6px',
-      margin: '0 0 6px 0',
-    } satisfies Partial<CSSStyleDeclaration>);
+    if (this.auctionFormat !== 'english') {
+      biddingPanel.appendChild(this.createHiddenBidControls());
+    } else {
+      const quickRow = document.createElement('div');
+      Object.assign(quickRow.style, {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+        gap: '6px',
+        margin: '0 0 6px 0',
+      } satisfies Partial<CSSStyleDeclaration>);
 
-    const quickBtnStyle: Partial<CSSStyleDeclaration> = {
-      padding: '9px 8px',
-      fontSize: '12px',
-    };
+      const quickBtnStyle: Partial<CSSStyleDeclaration> = {
+        padding: '9px 8px',
+        fontSize: '12px',
+      };
+
+      const normalQuickText = openingBidMode
+        ? `Opening\n${formatCurrency(this.currentBid)}`
+        : `+${formatCurrency(AuctionScene.BID_INCREMENT)}`;
+      const normalBtn = this.uiManager.createButton(normalQuickText, () => this.playerBid(AuctionScene.BID_INCREMENT), {
+        variant: 'primary',
+        style: quickBtnStyle,
+      });
+      const powerBtn = this.uiManager.createButton(
+        `Power\n+${formatCurrency(AuctionScene.POWER_BID_INCREMENT)}`,
+        () => this.playerBid(AuctionScene.POWER_BID_INCREMENT, { power: true }),
+        { variant: 'warning', style: quickBtnStyle }
+      );
+      powerBtn.dataset.tutorialTarget = 'auction.power-bid';
+
+      const endBtn = this.auctionResolved
+        ? this.uiManager.createButton(this.getNextLot() ? 'Next\nLot' : 'Back\nTo Map', () => this.leaveLot(), {
+            variant: 'danger',
+            style: quickBtnStyle,
+          })
+        : this.uiManager.createButton('Drop\nOut', () => this.playerEndAuctionEarly(), {
+            variant: 'danger',
+            style: quickBtnStyle,
+          });
 
-    const normalQuickText = openingBidMode
-      ? `Opening\n${formatCurrency(this.currentBid)}`
-      : `+${formatCurrency(AuctionScene.BID_INCREMENT)}`;
-    const normalBtn = this.uiManager.createButton(normalQuickText, () => this.playerBid(AuctionScene.BID_INCREMENT), {
-      variant: 'primary',
-      style: quickBtnStyle,
-    });
-    const powerBtn = this.uiManager.createButton(
-      `Power\n+${formatCurrency(AuctionScene.POWER_BID_INCREMENT)}`,
-      () => this.playerBid(AuctionScene.POWER_BID_INCREMENT, { power: true }),
-      { variant: 'warning', style: quickBtnStyle }
-    );
-    powerBtn.dataset.tutorialTarget = 'auction.power-bid';
+      // Affordability gating
+      if (player.money < normalBidTotal) {
+        disableEncounterActionButton(normalBtn, formatEncounterNeedLabel('Bid', formatCurrency(normalBidTotal)));
+      }
+      if (player.money < powerBidTotal) {
+        disableEncounterActionButton(powerBtn, formatEncounterNeedLabel('Power', formatCurrency(powerBidTotal)));
+      }
 
-    const endBtn = this.auctionResolved
-      ? this.uiManager.createButton('Back\nTo Map', () => this.scene.start('MapScene'), {
-          variant: 'danger',
-          style: quickBtnStyle,
-        })
-      : this.uiManager.createButton('Drop\nOut', () => this.playerEndAuctionEarly(), {
-          variant: 'danger',
-          style: quickBtnStyle,
-        });
+      quickRow.appendChild(normalBtn);
+      quickRow.appendChild(powerBtn);
+      quickRow.appendChild(endBtn);
+      biddingPanel.appendChild(quickRow);
 
-    // Affordability gating
-    if (player.money < normalBidTotal) {
-      disableEncounterActionButton(normalBtn, formatEncounterNeedLabel('Bid', formatCurrency(normalBidTotal)));
-    }
-    if (player.money < powerBidTotal) {
-      disableEncounterActionButton(powerBtn, formatEncounterNeedLabel('Power', formatCurrency(powerBidTotal)));
-    }
+      if (this.garageFullForLot) {
+        disableEncounterActionButton(normalBtn, 'Bid\nGarage full');
+        disableEncounterActionButton(powerBtn, 'Power\nGarage full');
+      }
 
-    quickRow.appendChild(normalBtn);
-    quickRow.appendChild(powerBtn);
-    quickRow.appendChild(endBtn);
-    biddingPanel.appendChild(quickRow);
+      // While a proxy bid is set, it takes the player's turns.
+      if (this.proxyBid) {
+        disableEncounterActionButton(normalBtn, 'Bid\nProxy on');
+        disableEncounterActionButton(powerBtn, 'Power\nProxy on');
+      }
 
-    // Turn gating: only allow actions on the player's turn.
-    if (!this.isPlayerTurn) {
-      disableEncounterActionButton(normalBtn, 'Bid\nWaiting');
-      disableEncounterActionButton(powerBtn, 'Power\nWaiting');
-      if (!this.auctionResolved) {
-        disableEncounterActionButton(endBtn, 'Drop\nWaiting');
+      // Turn gating: only allow actions on the player's turn.
+      if (!this.isPlayerTurn) {
+        disableEncounterActionButton(normalBtn, 'Bid\nWaiting');
+        disableEncounterActionButton(powerBtn, 'Power\nWaiting');
+        if (!this.auctionResolved) {
+          disableEncounterActionButton(endBtn, 'Drop\nWaiting');
+        }
       }
-    }
 
-    const tacticsRow = document.createElement('div');
-    Object.assign(tacticsRow.style, {
-      display: 'grid',
-      gridTemplateColumns: 'repeat(2, minmax(0, 1fr))',
-      gap: '6px',
-      margin: '6px 0 0 0',
-    } satisfies Partial<CSSStyleDeclaration>);
+      const tacticsRow = document.createElement('div');
+      Object.assign(tacticsRow.style, {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+        gap: '6px',
+        margin: '6px 0 0 0',
+      } satisfies Partial<CSSStyleDeclaration>);
 
-    const kickTiresBtn = this.uiManager.createButton(
-      `Kick Tires\nEye ${AuctionScene.REQUIRED_EYE_LEVEL_FOR_KICK_TIRES}+ · Budget -${formatCurrency(AuctionScene.KICK_TIRES_BUDGET_REDUCTION)}`,
-      () => this.playerKickTires(),
-      { variant: 'info', style: { padding: '9px 8px', fontSize: '12px' } }
-    );
-    if (player.skills.eye < AuctionScene.REQUIRED_EYE_LEVEL_FOR_KICK_TIRES) {
-      disableEncounterActionButton(
-        kickTiresBtn,
-        `Kick Tires\nRequires Eye ${AuctionScene.REQUIRED_EYE_LEVEL_FOR_KICK_TIRES}+`
-      );
-    }
+      const inspectBtn = this.createInspectButton();
 
-    const maxStalls = player.skills.tongue;
-    const stallsRemaining = Math.max(0, maxStalls - this.stallUsesThisAuction);
-    const stallBtn = this.uiManager.createButton(
-      `Stall\nUses left: ${stallsRemaining}`,
-      () => this.playerStall(),
-      { variant: 'special', style: { padding: '9px 8px', fontSize: '12px' } }
-    );
-    if (player.skills.tongue < AuctionScene.REQUIRED_TONGUE_LEVEL_FOR_STALL || stallsRemaining <= 0) {
-      if (player.skills.tongue < AuctionScene.REQUIRED_TONGUE_LEVEL_FOR_STALL) {
+      const kickTiresBtn = this.uiManager.createButton(
+        `Kick Tires\nEye ${AuctionScene.REQUIRED_EYE_LEVEL_FOR_KICK_TIRES}+ · Budget -${formatCurrency(AuctionScene.KICK_TIRES_BUDGET_REDUCTION)}`,
+        () => this.playerKickTires(),
+        { variant: 'info', style: { padding: '9px 8px', fontSize: '12px' } }
+      );
+      if (player.skills.eye < AuctionScene.REQUIRED_EYE_LEVEL_FOR_KICK_TIRES) {
         disableEncounterActionButton(
-          stallBtn,
-          `Stall\nRequires Tongue ${AuctionScene.REQUIRED_TONGUE_LEVEL_FOR_STALL}+`
+          kickTiresBtn,
+          `Kick Tires\nRequires Eye ${AuctionScene.REQUIRED_EYE_LEVEL_FOR_KICK_TIRES}+`
         );
-      } else {
-        disableEncounterActionButton(stallBtn, 'Stall\nNo uses left');
       }
-    }
 
-    if (!this.isPlayerTurn) {
-      disableEncounterActionButton(kickTiresBtn, 'Kick Tires\nWaiting');
-      disableEncounterActionButton(stallBtn, 'Stall\nWaiting');
-    }
+      const maxStalls = player.skills.tongue;
+      const stallsRemaining = Math.max(0, maxStalls - this.stallUsesThisAuction);
+      const stallBtn = this.uiManager.createButton(
+        `Stall\nUses left: ${stallsRemaining}`,
+        () => this.playerStall(),
+        { variant: 'special', style: { padding: '9px 8px', fontSize: '12px' } }
+      );
+      if (player.skills.tongue < AuctionScene.REQUIRED_TONGUE_LEVEL_FOR_STALL || stallsRemaining <= 0) {
+        if (player.skills.tongue < AuctionScene.REQUIRED_TONGUE_LEVEL_FOR_STALL) {
+          disableEncounterActionButton(
+            stallBtn,
+            `Stall\nRequires Tongue ${AuctionScene.REQUIRED_TONGUE_LEVEL_FOR_STALL}+`
+          );
+        } else {
+          disableEncounterActionButton(stallBtn, 'Stall\nNo uses left');
+        }
+      }
 
-    tacticsRow.appendChild(kickTiresBtn);
-    tacticsRow.appendChild(stallBtn);
-    biddingPanel.appendChild(tacticsRow);
+      if (!this.isPlayerTurn) {
+        disableEncounterActionButton(kickTiresBtn, 'Kick Tires\nWaiting');
+        disableEncounterActionButton(stallBtn, 'Stall\nWaiting');
+      }
 
-    biddingPanel.appendChild(
-      this.uiManager.createText(
-        `Minimum increment: ${formatCurrency(AuctionScene.BID_INCREMENT)} · Power bids reduce rival patience`,
-        { margin: '10px 0 0 0', fontSize: '11px', opacity: '0.75' }
-      )
-    );
+      if (this.proxyBid) {
+        disableEncounterActionButton(kickTiresBtn, 'Kick Tires\nProxy on');
+        disableEncounterActionButton(stallBtn, 'Stall\nProxy on');
+      }
+
+      tacticsRow.appendChild(inspectBtn);
+      tacticsRow.appendChild(kickTiresBtn);
+      tacticsRow.appendChild(stallBtn);
+      biddingPanel.appendChild(tacticsRow);
+
+      const proxyBtn = this.proxyBid
+        ? this.uiManager.createButton(
+            `Cancel Proxy\nUp to ${formatCurrency(this.proxyBid.maxBid)} · ${PROXY_TACTIC_LABELS[this.proxyTactic ?? 'steady'].name}`,
+            () => this.cancelProxyBid(),
+            { variant: 'danger', style: { width: '100%', margin: '6px 0 0 0', padding: '9px 8px', fontSize: '12px' } }
+          )
+        : this.uiManager.createButton('🤖 Proxy Bid\nSet a max and let it bid for you', () => this.showProxyBidPrompt(), {
+            variant: 'info',
+            style: { width: '100%', margin: '6px 0 0 0', padding: '9px 8px', fontSize: '12px' },
+          });
+      if (this.auctionResolved || this.playerHasWithdrawn || this.garageFullForLot) {
+        disableEncounterActionButton(proxyBtn);
+      }
+      biddingPanel.appendChild(proxyBtn);
+
+      biddingPanel.appendChild(
+        this.uiManager.createText(
+          `Minimum increment: ${formatCurrency(AuctionScene.BID_INCREMENT)} · Power bids reduce rival patience`,
+          { margin: '10px 0 0 0', fontSize: '11px', opacity: '0.75' }
+        )
+      );
+    }
     leftCol.appendChild(biddingPanel);
 
     // INFO COLUMN: combined panel (bidder portrait grid + bid history)
@@ -1450,7 +1640,23 @@ export class AuctionScene extends BaseGameScene {
       boxSizing: 'border-box',
     } satisfies Partial<CSSStyleDeclaration>);
 
+    const makeProxyNoteRow = (note: string): HTMLDivElement => {
+      const row = document.createElement('div');
+      row.appendChild(
+        this.uiManager.createText(`🤖 ${note}`, {
+          margin: '0',
+          padding: '2px 8px',
+          fontSize: '11px',
+          fontStyle: 'italic',
+          color: '#4CAF50',
+          opacity: '0.85',
+        })
+      );
+      return row;
+    };
+
     const makeHistoryRow = (entry: BidHistoryEntry): HTMLDivElement => {
+      if (entry.note) return makeProxyNoteRow(entry.note);
       const isPlayer = entry.bidderId === 'player';
       const row = document.createElement('div');
       Object.assign(row.style, {
@@ -1551,6 +1757,119 @@ export class AuctionScene extends BaseGameScene {
     this.renderActiveParticipantBarkBubbles();
   }
 
+  /** The Inspect button, gated on time, turn and whether the car was already inspected. */
+  private createInspectButton(): HTMLButtonElement {
+    const inspectCost = getGameConfig().time.inspectCost;
+    const inspectBtn = this.uiManager.createButton(
+      this.inspected ? 'Inspect\nDone' : `Inspect\n${inspectCost} time · Find defects`,
+      () => this.playerInspect(),
+      { variant: 'warning', style: { padding: '9px 8px', fontSize: '12px' } }
+    );
+    if (this.inspected || this.auctionResolved) {
+      disableEncounterActionButton(inspectBtn);
+    } else if (!this.gameManager.canSpendTime(inspectCost)) {
+      disableEncounterActionButton(inspectBtn, 'Inspect\nNo time left');
+    }
+    if (!this.isPlayerTurn && !this.inspected && !this.auctionResolved) {
+      disableEncounterActionButton(inspectBtn, 'Inspect\nWaiting');
+    }
+    return inspectBtn;
+  }
+
+  /** Label and value of the bid bar's right-hand box. */
+  private getNextBidReadout(normalBidTotal: number): [string, string] {
+    if (this.auctionFormat === 'dutch' && this.dutchClock) {
+      const next = this.auctionResolved ? null : getNextDutchPrice(this.dutchClock, this.currentBid);
+      return ['Next drop', next === null ? '—' : formatCurrency(next)];
+    }
+    if (this.auctionFormat === 'sealed') {
+      return ['Your bid', this.sealedPlayerBid === undefined ? '—' : formatCurrency(this.sealedPlayerBid)];
+    }
+    return ['Next bid', formatCurrency(normalBidTotal)];
+  }
+
+  /**
+   * Controls for sealed and Dutch auctions: submit a bid or accept the clock, inspect, or drop out.
+   * There are no turns to win, so the open-bidding tactics (power bids, stalling, kicking tires, proxies) don't apply.
+   */
+  private createHiddenBidControls(): HTMLDivElement {
+    const controls = document.createElement('div');
+    const player = this.gameManager.getPlayerState();
+    const buttonStyle: Partial<CSSStyleDeclaration> = { padding: '9px 8px', fontSize: '12px' };
+
+    const row = document.createElement('div');
+    Object.assign(row.style, {
+      display: 'grid',
+      gridTemplateColumns: 'repeat(3, minmax(0, 1fr))',
+      gap: '6px',
+      margin: '0 0 6px 0',
+    } satisfies Partial<CSSStyleDeclaration>);
+
+    let actionBtn: HTMLButtonElement;
+    if (this.auctionFormat === 'sealed') {
+      actionBtn = this.uiManager.createButton(
+        `Sealed Bid\nMin ${formatCurrency(this.openingBid)}`,
+        () => this.showSealedBidPrompt(),
+        { variant: 'primary', style: buttonStyle }
+      );
+      if (this.sealedPlayerBid !== undefined) {
+        disableEncounterActionButton(actionBtn, 'Sealed Bid\nSubmitted');
+      } else if (player.money < this.openingBid) {
+        disableEncounterActionButton(actionBtn, formatEncounterNeedLabel('Bid', formatCurrency(this.openingBid)));
+      }
+    } else {
+      actionBtn = this.uiManager.createButton(`Accept\n${formatCurrency(this.currentBid)}`, () => this.playerAcceptDutchPrice(), {
+        variant: 'primary',
+        style: buttonStyle,
+      });
+      if (this.getAffordableBid() < this.currentBid) {
+        const totalPrice = this.currentBid + getBuyersPremium(this.currentBid, this.auctionFees);
+        disableEncounterActionButton(actionBtn, formatEncounterNeedLabel('Accept', formatCurrency(totalPrice)));
+      }
+    }
+
+    if (this.garageFullForLot) {
+      disableEncounterActionButton(actionBtn, this.auctionFormat === 'sealed' ? 'Sealed Bid\nGarage full' : 'Accept\nGarage full');
+    }
+
+    const endBtn = this.auctionResolved
+      ? this.uiManager.createButton(this.getNextLot() ? 'Next\nLot' : 'Back\nTo Map', () => this.leaveLot(), {
+          variant: 'danger',
+          style: buttonStyle,
+        })
+      : this.uiManager.createButton('Drop\nOut', () => this.playerEndAuctionEarly(), {
+          variant: 'danger',
+          style: buttonStyle,
+        });
+
+    if (!this.isPlayerTurn) {
+      if (this.sealedPlayerBid === undefined) {
+        disableEncounterActionButton(actionBtn, this.auctionFormat === 'sealed' ? 'Sealed Bid\nWaiting' : 'Accept\nWaiting');
+      }
+      if (!this.auctionResolved) disableEncounterActionButton(endBtn, 'Drop\nWaiting');
+    }
+
+    row.appendChild(actionBtn);
+    row.appendChild(this.createInspectButton());
+    row.appendChild(endBtn);
+    controls.appendChild(row);
+
+    const rules = AUCTION_FORMAT_LABELS[this.auctionFormat].description;
+    const detail =
+      this.auctionFormat === 'dutch' && this.dutchClock
+        ? ` Drops ${formatCurrency(this.dutchClock.priceDrop)} a tick; unsold below ${formatCurrency(this.dutchClock.floorPrice)}.`
+        : ' Rivals can\'t see your bid, and you can\'t see theirs.';
+    controls.appendChild(
+      this.uiManager.createText(`${rules}${detail}`, { margin: '10px 0 0 0', fontSize: '11px', opacity: '0.75' })
+    );
+    return controls;
+  }
+
+  /** Market-aware value of the car given the defects discovered on it. */
+  private getValueEstimate(car: Car): number {
+    return Math.floor(calculateCarValue(car) * this.gameManager.getCarMarketInfo(car.tags).modifier);
+  }
+
   private showToastAndLog(
     toast: string,
     options?: { backgroundColor?: string; durationMs?: number },
@@ -1657,11 +1976,13 @@ export class AuctionScene extends BaseGameScene {
       | 'rival_bid'
       | 'stall'
       | 'kick_tires'
+      | 'sealed_open'
+      | 'dutch_price'
       | 'end_player_win'
       | 'end_player_lose',
     options?: { winnerBidderId?: BidderId }
   ): void {
-    const pick = (lines: readonly string[]): string => lines[Math.floor(Math.random() * lines.length)] ?? '';
+    const pick = (lines: readonly string[]): string => pickRandom(rng.stream('flavor'), lines) ?? '';
 
     let text = '';
     switch (trigger) {
@@ -1669,6 +1990,14 @@ export class AuctionScene extends BaseGameScene {
         text = 'Alright folks—let\'s get this started.';
         break;
       case 'opening_prompt':
+        if (this.auctionFormat === 'sealed') {
+          text = `Sealed bids, please. Nothing under ${formatCurrency(this.openingBid)}.`;
+          break;
+        }
+        if (this.auctionFormat === 'dutch') {
+          text = `The clock starts at ${formatCurrency(this.currentBid)}. First to call it wins.`;
+          break;
+        }
         text = pick([
           `Opening bid at ${formatCurrency(this.currentBid)}. Who wants it?`,
           `We\'re starting at ${formatCurrency(this.currentBid)}. Do I hear a bid?`,
@@ -1705,6 +2034,12 @@ export class AuctionScene extends BaseGameScene {
           'Careful with that—this isn\'t a showroom.',
         ]);
         break;
+      case 'sealed_open':
+        text = pick(["Envelopes are in. Let's open them.", 'Bidding is closed. Opening the envelopes…']);
+        break;
+      case 'dutch_price':
+        text = pick([`Down to ${formatCurrency(this.currentBid)}!`, `${formatCurrency(this.currentBid)}—anyone?`]);
+        break;
       case 'end_player_win':
         text = `Sold! To you for ${formatCurrency(this.currentBid)}.`;
         break;
@@ -1726,7 +2061,10 @@ export class AuctionScene extends BaseGameScene {
     this.flashParticipant('auctioneer');
   }
 
-  private playerBid(amount: number, options?: { power?: boolean }): void {
+  /**
+   * Run a player action from the bidding engine against this auction's state, then sync the state back.
+   */
+  private runPlayerAction(action: (context: BiddingContext, callbacks: BiddingCallbacks) => BiddingContext): void {
     const context: BiddingContext = {
       car: this.car,
       rivals: this.rivals,
@@ -1777,9 +2115,10 @@ export class AuctionScene extends BaseGameScene {
         this.currentBid = context.currentBid;
         this.endAuction(winner, message, rivalFinalBarkTrigger);
       },
+      onProxyStep: (_action, description: string) => this.recordProxyStep(description),
     };
 
-    const updatedContext = playerBidInternal(amount, context, callbacks, options);
+    const updatedContext = action(context, callbacks);
 
     // Sync updated state back
     this.currentBid = updatedContext.currentBid;
@@ -1791,142 +2130,379 @@ export class AuctionScene extends BaseGameScene {
     this.activeRivalIds = updatedContext.activeRivalIds;
   }
 
+  private playerBid(amount: number, options?: { power?: boolean }): void {
+    if (this.garageFullForLot) return;
+    this.runPlayerAction((context, callbacks) => playerBidInternal(amount, context, callbacks, options));
+  }
 
-  private playerKickTires(): void {
-    const context: BiddingContext = {
-      car: this.car,
-      rivals: this.rivals,
-      rivalAIsById: this.rivalAIsById,
-      auctioneerName: this.auctioneerName,
-      currentBid: this.currentBid,
-      hasAnyBids: this.hasAnyBids,
-      lastBidder: this.lastBidder,
-      stallUsesThisAuction: this.stallUsesThisAuction,
-      powerBidStreak: this.powerBidStreak,
-      isPlayerTurn: this.isPlayerTurn,
-      locationId: this.locationId,
-      activeRivalIds: this.activeRivalIds,
-    };
+  /** Let the proxy take this turn; when it stops (cap or money), control returns to the player. */
+  private playerProxyTurn(): void {
+    const policy = this.proxyBid;
+    if (!policy || !this.isPlayerTurn || this.auctionResolved || this.playerHasWithdrawn) return;
 
-    const callbacks: BiddingCallbacks = {
-      gameManager: this.gameManager,
-      uiManager: this.uiManager,
-      onShowToastAndLog: (toast: string, opts?: { backgroundColor?: string }, log?: string, logKind?: string) => 
-        this.showToastAndLog(toast, opts, log, logKind),
-      onRivalDroppedOut: (rivalId: string, reason: 'patience' | 'budget') => {
-        const message = this.getRivalQuickStatusBubbleText(rivalId, {
-          willDrop: true,
-          outOfPatience: reason === 'patience',
-          outOfBudget: reason === 'budget',
-        });
-        this.showParticipantBarkBubble(makeRivalBidderId(rivalId), message, { durationMs: 1800, tone: 'drop' });
-      },
-      onRecordBid: (bidderId: BidderId, totalBid: number) => {
-        this.currentBid = totalBid;
-        this.recordBid(bidderId, totalBid);
-      },
-      onShowAuctioneerBark: (trigger: string) => {
-        this.currentBid = context.currentBid;
-        this.showAuctioneerBark(trigger as any);
-      },
-      onShowRivalBarkAfterAuctioneer: (rivalId: string, trigger: BarkTrigger, delayMs?: number) =>
-        this.showRivalBarkAfterAuctioneer(rivalId, trigger, delayMs),
-      onSetupUI: () => {
-        this.currentBid = context.currentBid;
-        this.isPlayerTurn = context.isPlayerTurn;
-        this.setTurnFocusBidder(context.isPlayerTurn ? 'player' : undefined);
-        this.setupUI();
-      },
-      onScheduleRivalTurn: (delayMs: number) => this.scheduleRivalTurn(delayMs),
-      onScheduleEnablePlayerTurn: (delayMs?: number) => this.scheduleEnablePlayerTurn(delayMs),
-      onEndAuction: (winner: BidderId, message: string, rivalFinalBarkTrigger?: BarkTrigger) => {
-        this.currentBid = context.currentBid;
-        this.endAuction(winner, message, rivalFinalBarkTrigger);
+    let stopped = false;
+    this.runPlayerAction((context, callbacks) => {
+      const result = proxyBidTurn(context, callbacks, policy);
+      stopped = result.action.kind === 'stop';
+      return result.context;
+    });
+
+    if (stopped) {
+      this.proxyBid = undefined;
+      this.proxyTactic = undefined;
+      this.uiManager.showToast('Proxy bid stopped. Your turn.', { backgroundColor: '#607d8b' });
+      this.setupUI();
+    }
+  }
+
+  /** Highest bid the player can cover once the house's buyer's premium is added. */
+  private getAffordableBid(): number {
+    return Math.floor(this.gameManager.getPlayerState().money / (1 + this.auctionFees.buyersPremium));
+  }
+
+  /** Ask for a cap and a tactic, then hand the player's turns to the proxy. */
+  private showProxyBidPrompt(): void {
+    if (this.auctionResolved || this.playerHasWithdrawn || this.garageFullForLot) return;
+
+    const affordable = this.getAffordableBid();
+    const minimum = this.hasAnyBids ? this.currentBid + AuctionScene.BID_INCREMENT : this.currentBid;
+    const premiumNote =
+      this.auctionFees.buyersPremium > 0
+        ? ` (leaving room for the ${formatFeeRate(this.auctionFees.buyersPremium)} buyer's premium)`
+        : '';
+
+    this.uiManager.showTextPrompt(
+      '🤖 Proxy Bid',
+      `Set your maximum bid. The proxy bids for you, turn by turn, and stops before going past it.\n` +
+        `Next bid: ${formatCurrency(minimum)}. You can afford up to ${formatCurrency(affordable)}${premiumNote}.`,
+      (value) => {
+        const digits = value.replace(/[^0-9]/g, '');
+        const maxBid = digits.length > 0 ? Number.parseInt(digits, 10) : NaN;
+        if (!Number.isFinite(maxBid) || maxBid < minimum || maxBid > affordable) {
+          this.uiManager.showInfo(
+            'Invalid Maximum',
+            `Set a maximum between ${formatCurrency(minimum)} and ${formatCurrency(affordable)}.`
+          );
+          return;
+        }
+
+        const tactics = Object.keys(PROXY_TACTIC_LABELS) as ProxyBidTactic[];
+        this.uiManager.showModal(
+          '🤖 Proxy Tactics',
+          `Proxy up to ${formatCurrency(maxBid)}. How should it bid?\n\n` +
+            tactics.map((tactic) => `• ${PROXY_TACTIC_LABELS[tactic].name}: ${PROXY_TACTIC_LABELS[tactic].description}`).join('\n'),
+          [
+            ...tactics.map((tactic) => ({
+              text: PROXY_TACTIC_LABELS[tactic].name,
+              onClick: () => this.startProxyBid(maxBid, tactic),
+            })),
+            { text: 'Cancel', onClick: () => {} },
+          ]
+        );
       },
-    };
+      { initialValue: String(Math.max(minimum, Math.min(affordable, this.auctionMarketEstimateValue))), maxLength: 12, confirmText: 'Next' }
+    );
+  }
 
-    const updatedContext = playerKickTiresInternal(context, callbacks);
+  private startProxyBid(maxBid: number, tactic: ProxyBidTactic): void {
+    if (this.auctionResolved || this.playerHasWithdrawn) return;
+    this.proxyBid = createProxyBidPolicy(maxBid, tactic);
+    this.proxyTactic = tactic;
+    this.recordProxyStep(`Proxy set: up to ${formatCurrency(maxBid)}, ${PROXY_TACTIC_LABELS[tactic].name.toLowerCase()}.`);
+    this.setupUI();
+    if (this.isPlayerTurn) this.scheduleProxyTurn();
+  }
 
-    // Sync updated state back
-    this.currentBid = updatedContext.currentBid;
-    this.hasAnyBids = updatedContext.hasAnyBids;
-    this.lastBidder = updatedContext.lastBidder;
-    this.stallUsesThisAuction = updatedContext.stallUsesThisAuction;
-    this.powerBidStreak = updatedContext.powerBidStreak;
-    this.isPlayerTurn = updatedContext.isPlayerTurn;
-    this.activeRivalIds = updatedContext.activeRivalIds;
+  private cancelProxyBid(): void {
+    if (!this.proxyBid) return;
+    this.proxyBid = undefined;
+    this.proxyTactic = undefined;
+    if (this.pendingProxyTurnTimeoutId !== undefined) {
+      window.clearTimeout(this.pendingProxyTurnTimeoutId);
+      this.pendingProxyTurnTimeoutId = undefined;
+    }
+    this.recordProxyStep('Proxy cancelled.');
+    this.setupUI();
   }
 
+  private playerKickTires(): void {
+    this.runPlayerAction(playerKickTiresInternal);
+  }
 
-  private playerStall(): void {
-    const context: BiddingContext = {
-      car: this.car,
-      rivals: this.rivals,
-      rivalAIsById: this.rivalAIsById,
-      auctioneerName: this.auctioneerName,
-      currentBid: this.currentBid,
-      hasAnyBids: this.hasAnyBids,
-      lastBidder: this.lastBidder,
-      stallUsesThisAuction: this.stallUsesThisAuction,
-      powerBidStreak: this.powerBidStreak,
-      isPlayerTurn: this.isPlayerTurn,
-      locationId: this.locationId,
-      activeRivalIds: this.activeRivalIds,
-    };
+  /** Seal every rival's bid (their accepting price on a Dutch clock) and set the clock's starting price. */
+  private setupHiddenBids(): void {
+    const rivalMaxBid = Math.floor(this.auctionMarketEstimateValue * getGameConfig().auction.rivalMaxBidMultiplier);
+    this.rivalHiddenBids = {};
+    for (const rival of this.rivals) {
+      const ai = this.rivalAIsById[rival.id];
+      const bid = ai ? getRivalSealedBid(ai, { openingBid: this.openingBid, maxBid: rivalMaxBid }) : null;
+      if (bid !== null) this.rivalHiddenBids[rival.id] = bid;
+    }
 
-    const callbacks: BiddingCallbacks = {
-      gameManager: this.gameManager,
-      uiManager: this.uiManager,
-      onShowToastAndLog: (toast: string, opts?: { backgroundColor?: string }, log?: string, logKind?: string) => 
-        this.showToastAndLog(toast, opts, log, logKind),
-      onRivalDroppedOut: (rivalId: string, reason: 'patience' | 'budget') => {
-        const message = this.getRivalQuickStatusBubbleText(rivalId, {
-          willDrop: true,
-          outOfPatience: reason === 'patience',
-          outOfBudget: reason === 'budget',
-        });
-        this.showParticipantBarkBubble(makeRivalBidderId(rivalId), message, { durationMs: 1800, tone: 'drop' });
-      },
-      onRecordBid: (bidderId: BidderId, totalBid: number) => {
-        this.currentBid = totalBid;
-        this.recordBid(bidderId, totalBid);
+    if (this.auctionFormat === 'dutch') {
+      this.dutchClock = getDutchClock(this.auctionMarketEstimateValue, this.openingBid);
+      this.currentBid = this.dutchClock.startPrice;
+    }
+  }
+
+  private clearPendingFormatStep(): void {
+    if (this.pendingFormatStepTimeoutId !== undefined) {
+      window.clearTimeout(this.pendingFormatStepTimeoutId);
+      this.pendingFormatStepTimeoutId = undefined;
+    }
+  }
+
+  private scheduleDutchTick(): void {
+    this.clearPendingFormatStep();
+    const delayMs = GAME_CONFIG.ui.modalDelays.dutchClockTick;
+    this.pendingFormatStepTimeoutId = window.setTimeout(
+      () => {
+        this.pendingFormatStepTimeoutId = undefined;
+        if (!this.scene.isActive() || this.auctionResolved) return;
+        this.dutchTick();
       },
-      onShowAuctioneerBark: (trigger: string) => {
-        this.currentBid = context.currentBid;
-        this.showAuctioneerBark(trigger as any);
+      this.playerHasWithdrawn ? Math.round(delayMs * AuctionScene.WITHDRAWN_TURN_DELAY_MULTIPLIER) : delayMs
+    );
+  }
+
+  /**
+   * The Dutch clock ticks. A rival willing to pay the starting price takes the car before the first drop
+   * (the player had the first chance at it); otherwise the price drops a step and a rival willing to pay
+   * the new price takes the car at once.
+   */
+  private dutchTick(): void {
+    if (!this.dutchClock) return;
+
+    if (this.currentBid === this.dutchClock.startPrice) {
+      const startTakerId = findDutchTaker(this.currentBid, this.rivalHiddenBids);
+      if (startTakerId) {
+        this.acceptDutchPrice(makeRivalBidderId(startTakerId));
+        return;
+      }
+    }
+
+    const nextPrice = getNextDutchPrice(this.dutchClock, this.currentBid);
+    if (nextPrice === null) {
+      this.endAuctionUnsold(`Nobody took ${this.car.name} at ${formatCurrency(this.dutchClock.floorPrice)}. The seller withdraws it.`);
+      return;
+    }
+    this.currentBid = nextPrice;
+
+    const takerId = findDutchTaker(nextPrice, this.rivalHiddenBids);
+    if (takerId) {
+      this.acceptDutchPrice(makeRivalBidderId(takerId));
+      return;
+    }
+
+    this.showAuctioneerBark('dutch_price');
+    this.setupUI();
+    this.scheduleDutchTick();
+  }
+
+  private playerAcceptDutchPrice(): void {
+    if (this.auctionFormat !== 'dutch' || !this.isPlayerTurn || this.auctionResolved || this.playerHasWithdrawn || this.garageFullForLot) {
+      return;
+    }
+    // Accepting commits to the buyer's premium too.
+    if (this.getAffordableBid() < this.currentBid) {
+      this.uiManager.showInsufficientFundsModal();
+      return;
+    }
+    this.acceptDutchPrice('player');
+  }
+
+  private acceptDutchPrice(bidderId: BidderId): void {
+    this.clearPendingFormatStep();
+    this.hasAnyBids = true;
+    this.lastBidder = bidderId;
+    this.recordBid(bidderId, this.currentBid);
+    const name = this.getBidderDisplayName(bidderId);
+    this.endAuction(
+      bidderId,
+      bidderId === 'player'
+        ? `You stop the clock at ${formatCurrency(this.currentBid)}.`
+        : `${name} stops the clock at ${formatCurrency(this.currentBid)}.`
+    );
+  }
+
+  /** Ask for the player's one sealed bid. */
+  private showSealedBidPrompt(): void {
+    if (
+      this.auctionFormat !== 'sealed' ||
+      !this.isPlayerTurn ||
+      this.auctionResolved ||
+      this.sealedPlayerBid !== undefined ||
+      this.garageFullForLot
+    ) {
+      return;
+    }
+
+    const affordable = this.getAffordableBid();
+    const premiumNote =
+      this.auctionFees.buyersPremium > 0
+        ? ` (leaving room for the ${formatFeeRate(this.auctionFees.buyersPremium)} buyer's premium)`
+        : '';
+
+    this.uiManager.showTextPrompt(
+      '✉️ Sealed Bid',
+      `You get one bid, and the rivals won't see it. The highest bid wins and pays what it bid.\n` +
+        `Minimum: ${formatCurrency(this.openingBid)}. Estimate: ${formatCurrency(this.auctionMarketEstimateValue)}. ` +
+        `You can afford up to ${formatCurrency(affordable)}${premiumNote}.`,
+      (value) => {
+        const digits = value.replace(/[^0-9]/g, '');
+        const amount = digits.length > 0 ? Number.parseInt(digits, 10) : NaN;
+        if (!Number.isFinite(amount) || amount < this.openingBid || amount > affordable) {
+          this.uiManager.showInfo(
+            'Invalid Bid',
+            `Bid between ${formatCurrency(this.openingBid)} and ${formatCurrency(Math.max(this.openingBid, affordable))}.`
+          );
+          return;
+        }
+        this.submitSealedBid(amount);
       },
-      onShowRivalBarkAfterAuctioneer: (rivalId: string, trigger: BarkTrigger, delayMs?: number) =>
-        this.showRivalBarkAfterAuctioneer(rivalId, trigger, delayMs),
-      onSetupUI: () => {
-        this.currentBid = context.currentBid;
-        this.isPlayerTurn = context.isPlayerTurn;
-        this.setTurnFocusBidder(context.isPlayerTurn ? 'player' : undefined);
+      {
+        initialValue: String(Math.max(this.openingBid, Math.min(affordable, this.auctionMarketEstimateValue))),
+        maxLength: 12,
+        confirmText: 'Seal Bid',
+      }
+    );
+  }
+
+  private submitSealedBid(amount: number): void {
+    if (this.auctionResolved || this.sealedPlayerBid !== undefined) return;
+    this.sealedPlayerBid = amount;
+    this.isPlayerTurn = false;
+    this.setTurnFocusBidder(undefined);
+    this.showToastAndLog(`Your sealed bid of ${formatCurrency(amount)} is in.`, { backgroundColor: '#607d8b' });
+    this.setupUI();
+    this.revealSealedBids();
+  }
+
+  /**
+   * Open the envelopes lowest first, so the last one read is the winner.
+   * Ties go to the player, whose envelope was in first.
+   */
+  private revealSealedBids(): void {
+    const bids = rankSealedBids<{ bidderId: BidderId; amount: number }>([
+      ...(this.sealedPlayerBid !== undefined ? [{ bidderId: 'player' as const, amount: this.sealedPlayerBid }] : []),
+      ...Object.entries(this.rivalHiddenBids).map(([rivalId, amount]) => ({ bidderId: makeRivalBidderId(rivalId), amount })),
+    ]);
+
+    this.clearPendingFormatStep();
+    this.showAuctioneerBark('sealed_open');
+    for (const rival of this.rivals) {
+      if (this.rivalHiddenBids[rival.id] === undefined) {
+        this.showParticipantBarkBubble(makeRivalBidderId(rival.id), 'No bid.', { durationMs: 1800, tone: 'drop' });
+      }
+    }
+
+    const revealOrder = bids.slice().reverse();
+    let revealed = 0;
+    const step = (): void => {
+      this.pendingFormatStepTimeoutId = undefined;
+      if (!this.scene.isActive() || this.auctionResolved) return;
+
+      const bid = revealOrder[revealed];
+      if (bid) {
+        revealed++;
+        this.hasAnyBids = true;
+        this.currentBid = bid.amount;
+        this.lastBidder = bid.bidderId;
+        this.recordBid(bid.bidderId, bid.amount);
         this.setupUI();
-      },
-      onScheduleRivalTurn: (delayMs: number) => this.scheduleRivalTurn(delayMs),
-      onScheduleEnablePlayerTurn: (delayMs?: number) => this.scheduleEnablePlayerTurn(delayMs),
-      onEndAuction: (winner: BidderId, message: string, rivalFinalBarkTrigger?: BarkTrigger) => {
-        this.currentBid = context.currentBid;
-        this.endAuction(winner, message, rivalFinalBarkTrigger);
-      },
+        this.pendingFormatStepTimeoutId = window.setTimeout(step, GAME_CONFIG.ui.modalDelays.sealedBidReveal);
+        return;
+      }
+
+      const [winner, runnerUp] = bids;
+      if (!winner) {
+        this.endAuctionUnsold(`No sealed bid met the ${formatCurrency(this.openingBid)} minimum. ${this.car.name} goes unsold.`);
+        return;
+      }
+      const runnerUpNote = runnerUp
+        ? ` Next best: ${runnerUp.bidderId === 'player' ? 'you' : this.getBidderDisplayName(runnerUp.bidderId)} at ${formatCurrency(runnerUp.amount)}.`
+        : ' Nobody else bid.';
+      const message =
+        winner.bidderId === 'player'
+          ? `Your sealed bid of ${formatCurrency(winner.amount)} is the highest.${runnerUpNote}`
+          : `${this.getBidderDisplayName(winner.bidderId)}'s sealed bid of ${formatCurrency(winner.amount)} is the highest.${runnerUpNote}`;
+      this.endAuction(winner.bidderId, message);
     };
 
-    const updatedContext = playerStallInternal(context, callbacks);
+    this.pendingFormatStepTimeoutId = window.setTimeout(step, GAME_CONFIG.ui.modalDelays.sealedBidReveal);
+  }
 
-    // Sync updated state back
-    this.currentBid = updatedContext.currentBid;
-    this.hasAnyBids = updatedContext.hasAnyBids;
-    this.lastBidder = updatedContext.lastBidder;
-    this.stallUsesThisAuction = updatedContext.stallUsesThisAuction;
-    this.powerBidStreak = updatedContext.powerBidStreak;
-    this.isPlayerTurn = updatedContext.isPlayerTurn;
-    this.activeRivalIds = updatedContext.activeRivalIds;
+  /** Leave a sealed or Dutch auction: the envelopes are opened (or the clock keeps running) without the player. */
+  private withdrawFromHiddenBidAuction(): void {
+    this.consumeOfferIfNeeded();
+    this.playerHasWithdrawn = true;
+    this.isPlayerTurn = false;
+    this.setTurnFocusBidder(undefined);
+    this.showToastAndLog('You withdraw. The sale goes on without you.', { backgroundColor: '#607d8b' });
+    this.setupUI();
+
+    if (this.auctionFormat === 'sealed') {
+      this.revealSealedBids();
+    } else {
+      this.scheduleDutchTick();
+    }
+  }
+
+  /** End a sealed or Dutch auction nobody won: the car goes back to the seller. */
+  private endAuctionUnsold(message: string): void {
+    this.clearPendingFormatStep();
+    this.clearPendingUIRefresh();
+    this.clearPendingPlayerTurnEnable();
+    this.isPlayerTurn = false;
+    this.auctionResolved = true;
+    this.consumeOfferIfNeeded();
+    this.setTurnFocusBidder(undefined);
+    if (this.scene.isActive()) {
+      this.setupUI();
+    }
+
+    this.uiManager.showModal('No Sale', message, [{ text: 'Stay', onClick: () => {} }, ...this.getExitButtons()]);
+  }
+
+
+  /**
+   * Inspect the car (costs time, once per auction): may reveal hidden defects.
+   * Doesn't use up the player's turn; rivals bid off the public estimate either way.
+   */
+  private playerInspect(): void {
+    if (this.auctionResolved || this.inspected || !this.isPlayerTurn) return;
+
+    const inspectCost = getGameConfig().time.inspectCost;
+    this.gameManager.markUndoPoint(`Inspect ${this.car.name}`);
+    if (!this.gameManager.trySpendTime(inspectCost)) {
+      this.uiManager.showToast('Not enough time left today to inspect.');
+      return;
+    }
+
+    this.inspected = true;
+    const { car, revealed } = inspectCar(this.car, this.gameManager.getPlayerState().skills.eye);
+    this.car = car;
+    this.showToastAndLog(
+      revealed.length > 0
+        ? `You found: ${formatCarDefectList(revealed)}.`
+        : 'You look it over closely. Nothing hidden that you can see.',
+      { backgroundColor: revealed.length > 0 ? '#e67e22' : '#607d8b' }
+    );
+
+    this.gameManager.addSkillXP('eye', getGameConfig().player.skillProgression.xpGains.inspect);
+    this.setupUI();
+  }
+
+  private playerStall(): void {
+    this.runPlayerAction(playerStallInternal);
   }
 
 
   private consumeOfferIfNeeded(): void {
     if (!this.encounterStarted) return;
     if (!this.locationId) return;
+    // The first lot of an auction day used up the offer (and the catalog with it).
+    if (this.auctionDay && this.auctionDay.lotIndex > 0) return;
 
     // Only base locations participate in the per-day offer system.
     // Special events reuse AuctionScene but are tracked separately.
@@ -1938,13 +2514,54 @@ export class AuctionScene extends BaseGameScene {
     this.locationId = undefined;
   }
 
+  /**
+   * The auction day moved on to its next lot, with the rivals' budgets as this lot left them.
+   * @returns Null outside an auction day or after its last lot
+   */
+  private getNextLot(): AuctionDay | null {
+    if (!this.auctionDay) return null;
+
+    const rivalBudgets: Record<string, number> = {};
+    for (const [rivalId, ai] of Object.entries(this.rivalAIsById)) {
+      rivalBudgets[rivalId] = Math.max(0, ai.getBudget() - (rivalId === this.lotBuyerRivalId ? this.currentBid : 0));
+    }
+    return getNextAuctionDay(this.auctionDay, rivalBudgets);
+  }
+
+  /** Leave a finished lot: on to the auction day's next lot, or back to the map after the last one. */
+  private leaveLot(): void {
+    const nextLot = this.getNextLot();
+    if (!nextLot) {
+      this.scene.start('MapScene');
+      return;
+    }
+
+    this.scene.start('AuctionScene', {
+      car: getCurrentLot(nextLot),
+      rivals: getLotRivalEntries(nextLot),
+      locationId: nextLot.locationId,
+      auctionDay: nextLot,
+    });
+  }
+
+  /** Buttons for leaving a finished lot (an auction day's remaining lots can be skipped). */
+  private getExitButtons(): Array<{ text: string; onClick: () => void }> {
+    const nextLot = this.getNextLot();
+    if (!nextLot) return [{ text: 'Back to Map', onClick: () => this.scene.start('MapScene') }];
+
+    return [
+      { text: `Next Lot (${nextLot.lotIndex + 1} of ${nextLot.lots.length})`, onClick: () => this.leaveLot() },
+      { text: 'Leave Sale', onClick: () => this.scene.start('MapScene') },
+    ];
+  }
+
   private rivalTurnImmediate(
     rivalTurnOrder?: string[],
     rivalTurnDecisions?: Record<string, ReturnType<RivalAI['decideBid']>>
   ): void {
     // Cap rival bids relative to the auction's market estimate to reduce extreme overpaying.
     // Player bids are not capped; this only limits how far rivals will push the price.
-    const rivalMaxBid = Math.floor(this.auctionMarketEstimateValue * GAME_CONFIG.auction.rivalMaxBidMultiplier);
+    const rivalMaxBid = Math.floor(this.auctionMarketEstimateValue * getGameConfig().auction.rivalMaxBidMultiplier);
 
     const context: BiddingContext = {
       car: this.car,
@@ -2050,8 +2667,10 @@ export class AuctionScene extends BaseGameScene {
     this.clearPendingRivalBark();
     this.clearPendingPlayerTurnEnable();
     this.clearPendingEndAuction();
+    this.clearPendingFormatStep();
     this.isPlayerTurn = false;
     this.auctionResolved = true;
+    this.proxyBid = undefined;
 
     // Final-state normalization for the bidders panel.
     // It's possible for a rival to be the last recorded bidder and then drop out via tactics.
@@ -2062,6 +2681,7 @@ export class AuctionScene extends BaseGameScene {
       this.activeRivalIds = [];
     } else if (typeof winnerBidderId === 'string' && winnerBidderId.startsWith('rival:')) {
       this.activeRivalIds = [winnerBidderId.slice('rival:'.length)];
+      this.lotBuyerRivalId = winnerBidderId.slice('rival:'.length);
     }
 
     // Rebuild UI so action buttons are visibly disabled post-auction.
@@ -2106,29 +2726,47 @@ export class AuctionScene extends BaseGameScene {
     if (playerWon) {
       const player = this.gameManager.getPlayerState();
 
+      // The winner pays the house's buyer's premium on top of the hammer price.
+      const premium = getBuyersPremium(this.currentBid, this.auctionFees);
+      const totalPrice = this.currentBid + premium;
+      const premiumNote =
+        premium > 0 ? ` plus a ${formatCurrency(premium)} buyer's premium (${formatCurrency(totalPrice)} in all)` : '';
+
       // Important edge-case: the rival can outbid you, then quit due to tactics (Kick Tires / Stall)
-      // leaving the winning bid above your available money.
-      if (player.money < this.currentBid) {
+      // leaving the winning bid (or the premium on it) above your available money.
+      if (player.money < totalPrice) {
         this.consumeOfferIfNeeded();
         this.uiManager.showModal(
           "Won But Can't Pay",
-          `${message}\n\nYou pressured the other bidders into quitting, but the winning bid is ${formatCurrency(this.currentBid)} and you only have ${formatCurrency(player.money)}.\n\nYou forfeit the car.`,
-          [
-            { text: 'Stay', onClick: () => {} },
-            {
-              text: 'Back to Map',
-              onClick: () => this.scene.start('MapScene'),
-            },
-          ]
+          `${message}\n\nYou pressured the other bidders into quitting, but the winning bid is ${formatCurrency(this.currentBid)}${premiumNote} and you only have ${formatCurrency(player.money)}.\n\nYou forfeit the car.`,
+          [{ text: 'Stay', onClick: () => {} }, ...this.getExitButtons()]
         );
         return;
       }
 
-      if (this.gameManager.spendMoney(this.currentBid)) {
+      // Anything the seller hid comes to light once the car is yours.
+      const hiddenDefects = getUndiscoveredDefects(this.car);
+      this.gameManager.markUndoPoint(`Win auction for ${this.car.name}`);
+      const purchaseTag = { carId: this.car.id, carName: this.car.name };
+      const source = this.getLocationName() ?? 'Auction';
+      if (
+        this.gameManager.spendMoney(this.currentBid, {
+          category: 'purchase',
+          ...purchaseTag,
+          counterpart: source,
+        }) &&
+        this.gameManager.spendMoney(premium, {
+          category: 'purchase',
+          ...purchaseTag,
+          counterpart: source,
+          note: "Buyer's premium",
+        })
+      ) {
         const purchasedCar: Car = {
           ...this.car,
-          purchasePrice: this.currentBid,
+          purchasePrice: totalPrice,
           restorationSpent: this.car.restorationSpent ?? 0,
+          acquiredFrom: source,
         };
 
         if (!this.gameManager.addCar(purchasedCar)) {
@@ -2141,14 +2779,11 @@ export class AuctionScene extends BaseGameScene {
                 text: 'Stay',
                 onClick: () => {},
               },
-              {
-                text: 'Back to Map',
-                onClick: () => this.scene.start('MapScene'),
-              },
+              ...this.getExitButtons(),
             ]
           );
           // Refund the money since we couldn't add the car
-          this.gameManager.addMoney(this.currentBid);
+          this.gameManager.addMoney(totalPrice, { category: 'purchase', ...purchaseTag, note: 'Refund: garage full' });
 
           // The car is forfeited; treat this location as exhausted today.
           this.consumeOfferIfNeeded();
@@ -2164,12 +2799,12 @@ export class AuctionScene extends BaseGameScene {
           const prestigeBonus = this.specialEvent.reward.prestigeBonus ?? 0;
 
           if (moneyBonus > 0) {
-            this.gameManager.addMoney(moneyBonus);
+            this.gameManager.addMoney(moneyBonus, { category: 'event-bonus', counterpart: this.specialEvent.name });
             this.uiManager.showToast(`Special event bonus: +${formatCurrency(moneyBonus)}`, { durationMs: 2500 });
           }
 
           if (prestigeBonus > 0) {
-            this.gameManager.addPrestige(prestigeBonus);
+            this.gameManager.addPrestige(prestigeBonus, { category: 'event-bonus', counterpart: this.specialEvent.name });
             this.uiManager.showToast(`Special event bonus: +${prestigeBonus} prestige`, { durationMs: 2500 });
           }
 
@@ -2187,7 +2822,7 @@ export class AuctionScene extends BaseGameScene {
         }
         
         // Award Tongue XP for winning an auction
-        const tongueXPGain = GAME_CONFIG.player.skillProgression.xpGains.auction;
+        const tongueXPGain = getGameConfig().player.skillProgression.xpGains.auction;
         const leveledUp = this.gameManager.addSkillXP('tongue', tongueXPGain);
         // XP toast + level-up celebration are handled by BaseGameScene via eventBus.
         
@@ -2199,32 +2834,37 @@ export class AuctionScene extends BaseGameScene {
           errorLog('Tutorial error checking completion:', error);
         }
         
+        const discoveryNote =
+          hiddenDefects.length > 0
+            ? `\n\nOn the drive home you discover: ${formatCarDefectList(hiddenDefects)}. It's worth ~${formatCurrency(this.getValueEstimate(discoverCarDefects(this.car, hiddenDefects)))}.`
+            : '';
+
         this.uiManager.showModal(
           'You Won!',
-          `${message}\n\nYou bought ${this.car.name} for ${formatCurrency(this.currentBid)}!${leveledUp ? '\n\n🎉 Your Tongue skill leveled up!' : ''}`,
+          `${message}\n\nYou bought ${this.car.name} for ${formatCurrency(this.currentBid)}${premiumNote}!${discoveryNote}${leveledUp ? '\n\n🎉 Your Tongue skill leveled up!' : ''}`,
           [
             {
               text: 'Stay',
               onClick: () => {},
             },
-            {
-              text: 'Back to Map',
-              onClick: () => {
-                if (isTutorialComplete) {
-                  // Show tutorial completion dialogue before returning to map
-                  this.tutorialManager.showDialogueWithCallback(
-                    "Uncle Ray",
-                    "🎉 Congratulations! 🎉\n\nYou've mastered the basics of car collecting:\n• Winning cars through auctions\n• Restoring cars to increase value\n• Bidding strategically\n• Reading rival behavior\n\nNow go build the world's greatest car collection! Remember: every car tells a story, and you're the curator.",
-                    () => {
-                      this.tutorialManager.onTutorialCompleted();
-                      this.scene.start('MapScene');
-                    }
-                  );
-                } else {
-                  this.scene.start('MapScene');
-                }
-              },
-            },
+            ...(isTutorialComplete
+              ? [
+                  {
+                    text: 'Back to Map',
+                    onClick: () => {
+                      // Show tutorial completion dialogue before returning to map
+                      this.tutorialManager.showDialogueWithCallback(
+                        "Uncle Ray",
+                        "🎉 Congratulations! 🎉\n\nYou've mastered the basics of car collecting:\n• Winning cars through auctions\n• Restoring cars to increase value\n• Bidding strategically\n• Reading rival behavior\n\nNow go build the world's greatest car collection! Remember: every car tells a story, and you're the curator.",
+                        () => {
+                          this.tutorialManager.onTutorialCompleted();
+                          this.scene.start('MapScene');
+                        }
+                      );
+                    },
+                  },
+                ]
+              : this.getExitButtons()),
           ]
         );
       }
@@ -2262,13 +2902,13 @@ export class AuctionScene extends BaseGameScene {
                         const baseValue = calculateCarValue(boxywagon);
                         const marketInfo = this.gameManager.getCarMarketInfo(boxywagon.tags);
                         const estimate = Math.floor(baseValue * marketInfo.modifier);
-                        const openingBid = Math.floor(estimate * GAME_CONFIG.auction.startingBidMultiplier);
-                        const minMoneyToParticipate = openingBid + GAME_CONFIG.auction.powerBidIncrement;
+                        const openingBid = Math.floor(estimate * getGameConfig().auction.startingBidMultiplier);
+                        const minMoneyToParticipate = openingBid + getGameConfig().auction.powerBidIncrement;
 
                         const beforeTopUp = this.gameManager.getPlayerState();
                         if (beforeTopUp.money < minMoneyToParticipate) {
                           const delta = minMoneyToParticipate - beforeTopUp.money;
-                          this.gameManager.addMoney(delta);
+                          this.gameManager.addMoney(delta, { category: 'tutorial-aid', counterpart: 'Uncle Ray' });
                           this.uiManager.showToast('Tutorial: Uncle Ray covers your first power bid.');
                         }
 
@@ -2325,10 +2965,7 @@ export class AuctionScene extends BaseGameScene {
             text: 'Stay',
             onClick: () => {},
           },
-          {
-            text: 'Back to Map',
-            onClick: () => this.scene.start('MapScene'),
-          },
+          ...this.getExitButtons(),
         ]
       );
     }
@@ -2339,6 +2976,11 @@ export class AuctionScene extends BaseGameScene {
    * Helps player understand what happened and learn tactics.
    */
   private showAuctionDebrief(): void {
+    if (this.auctionFormat !== 'english') {
+      this.showHiddenBidDebrief();
+      return;
+    }
+
     const losingRivalId = this.lastBidder && this.lastBidder.startsWith('rival:') ? this.lastBidder.slice('rival:'.length) : undefined;
     const losingRival = losingRivalId ? this.getRivalByIdInAuction(losingRivalId) : undefined;
     const losingAI = losingRivalId ? this.rivalAIsById[losingRivalId] : undefined;
@@ -2349,7 +2991,12 @@ export class AuctionScene extends BaseGameScene {
 
     let analysis = `📈 AUCTION ANALYSIS\n\n`;
     analysis += `YOUR BID: ${formatCurrency(this.currentBid)}\n`;
-    analysis += `RIVAL BID: Won the auction\n\n`;
+    analysis += `RIVAL BID: Won the auction\n`;
+    if (this.auctionFees.buyersPremium > 0) {
+      const premium = getBuyersPremium(this.currentBid, this.auctionFees);
+      analysis += `HOUSE FEES: ${formatFeeRate(this.auctionFees.buyersPremium)} buyer's premium (${formatCurrency(premium)} at this bid)\n`;
+    }
+    analysis += `\n`;
     
     analysis += `👤 RIVAL STATUS${losingRival ? ` (${losingRival.name})` : ''}:\n`;
     analysis += `• Patience Remaining: ${patience}/100\n`;
@@ -2379,7 +3026,7 @@ export class AuctionScene extends BaseGameScene {
     }
     
     if (this.stallUsesThisAuction === 0 && player.skills.tongue >= 3) {
-      analysis += `• You didn't use 'Stall' - it drains ${GAME_CONFIG.auction.stallPatiencePenalty} patience\n`;
+      analysis += `• You didn't use 'Stall' - it drains ${getGameConfig().auction.stallPatiencePenalty} patience\n`;
     }
     
     analysis += `\n🔄 WHAT'S NEXT:\n`;
@@ -2387,6 +3034,43 @@ export class AuctionScene extends BaseGameScene {
     analysis += `• Each loss teaches you rival behavior\n`;
     analysis += `• Level up skills to unlock new tactics`;
 
+    this.showDebriefModal(analysis);
+  }
+
+  /**
+   * Debrief for a lost sealed or Dutch auction: what won it and what it would have taken.
+   */
+  private showHiddenBidDebrief(): void {
+    const winnerName = this.lastBidder ? this.getBidderDisplayName(this.lastBidder) : 'Nobody';
+
+    let analysis = `📈 AUCTION ANALYSIS (${AUCTION_FORMAT_LABELS[this.auctionFormat].name.toUpperCase()})\n\n`;
+    analysis += `WINNING PRICE: ${formatCurrency(this.currentBid)} (${winnerName})\n`;
+    analysis += `ESTIMATE: ${formatCurrency(this.auctionMarketEstimateValue)}\n`;
+    if (this.auctionFees.buyersPremium > 0) {
+      analysis += `HOUSE FEES: ${formatFeeRate(this.auctionFees.buyersPremium)} buyer's premium\n`;
+    }
+    analysis += `\n💡 TACTICAL INSIGHTS:\n`;
+
+    if (this.auctionFormat === 'sealed') {
+      analysis +=
+        this.sealedPlayerBid === undefined
+          ? `• You didn't bid\n`
+          : `• Your bid: ${formatCurrency(this.sealedPlayerBid)}, ${formatCurrency(this.currentBid - this.sealedPlayerBid)} short\n`;
+      analysis += `• Rivals bid below what a car is worth to them, and the keenest collectors shade the least\n`;
+      analysis += `• One envelope, no second chances: bid what the car is worth to you\n`;
+    } else if (this.dutchClock) {
+      analysis += `• Calling the clock one tick earlier would have won it\n`;
+      analysis += `• Rivals call the clock the moment it reaches their price—waiting is a gamble\n`;
+    }
+
+    analysis += `\n🔄 WHAT'S NEXT:\n`;
+    analysis += `• Return to map to find more opportunities\n`;
+    analysis += `• Inspect before you commit: the price is final`;
+
+    this.showDebriefModal(analysis);
+  }
+
+  private showDebriefModal(analysis: string): void {
     this.uiManager.showModal(
       '📊 Auction Debrief',
       analysis,
@@ -2395,10 +3079,7 @@ export class AuctionScene extends BaseGameScene {
           text: 'Close',
           onClick: () => {},
         },
-        {
-          text: 'Back to Map',
-          onClick: () => this.scene.start('MapScene'),
-        },
+        ...this.getExitButtons(),
       ]
     );
   }
@@ -4,7 +4,8 @@ import { UIManager } from '@/ui/ui-manager';
 import { TimeSystem } from '@/systems/time-system';
 import { TutorialManager } from '@/systems/tutorial-manager';
 import { eventBus } from '@/core/event-bus';
-import { GAME_CONFIG, type SkillKey } from '@/config/game-config';
+import type { SkillKey } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
 
 /**
  * BaseGameScene - Abstract base class for all gameplay scenes.
@@ -285,7 +286,7 @@ export abstract class BaseGameScene extends Phaser.Scene {
       skills: player.skills,
       day: world.day,
       timeRemaining: this.gameManager.getTimeRemaining(),
-      timeTotal: GAME_CONFIG.time.unitsPerDay,
+      timeTotal: getGameConfig().time.unitsPerDay,
       location: world.currentLocation,
       garage: {
         used: this.gameManager.getGarageCarCount(),
@@ -315,7 +316,7 @@ export abstract class BaseGameScene extends Phaser.Scene {
             nextSteps.push('Add more cars to your collection (any car at 75%+ condition can be added).');
           }
           if (!victoryResult.skillLevel.met) {
-            nextSteps.push('Level skills: Inspect (Eye), Auction tactics (Tongue), Visit new locations (Network).');
+            nextSteps.push('Level skills: Inspect (Eye), Auction and negotiation tactics (Tongue), Visit new locations (Network).');
           }
 
           const nextStepsText = nextSteps.length > 0 ? `\n\nNext steps:\n- ${nextSteps.join('\n- ')}` : '';
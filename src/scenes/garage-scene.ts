@@ -2,20 +2,42 @@ import { debugLog, errorLog, warnLog } from '@/utils/log';
 import Phaser from 'phaser';
 import { BaseGameScene } from './base-game-scene';
 import { eventBus } from '@/core/event-bus';
+import { pickRandom, rng } from '@/core/rng';
 import { Economy } from '@/systems/Economy';
 import { Car } from '@/data/car-database';
-import { GAME_CONFIG } from '@/config/game-config';
+import { getPartName } from '@/data/parts-database';
+import { getGameConfig } from '@/config/run-config';
 import { formatCurrency, formatNumber } from '@/utils/format';
-import type { VictoryResult } from '@/core/game-manager';
+import type { RestorationJobResult, VictoryResult } from '@/core/game-manager';
 import type { DeepReadonly } from '@/utils/types';
-import { showRestorationChallenges, showRestorationOptions } from './internal/garage-restoration';
+import {
+  showRestorationChallenges,
+  showRestorationJobResult,
+  showRestorationOptions,
+} from './internal/garage-restoration';
 import { sellCar as sellCarInternal, sellCarAsIs as sellCarAsIsInternal } from './internal/garage-inventory';
 import { createCarCard as createCarCardInternal } from './internal/garage-ui';
 import { createGarageMenuInfo } from './internal/garage-menu-info';
 import { showVictoryProgress as showVictoryProgressInternal } from './internal/garage-victory-progress';
 import { createGarageCollectionPanel } from './internal/garage-collection-view';
 import { createGarageRivalTierInfoPanel } from './internal/garage-rival-tier-info';
+import { createGarageFinancesPanel } from './internal/garage-finances-view';
+import { createGaragePartsMarketPanel } from './internal/garage-parts-market-view';
+import { createGarageSpecialistsPanel } from './internal/garage-specialists-view';
+import { createGarageMarketplacePanel, showListCarPrompt } from './internal/garage-marketplace-view';
+import { createGarageAuctionHousesPanel } from './internal/garage-auction-houses-view';
+import {
+  createGarageConsignmentPanel,
+  showConsignCarPrompt,
+  type ConsignmentSale,
+} from './internal/garage-consignment-view';
+import { createGaragePastCarsPanel } from './internal/garage-past-cars-view';
 import { showFinanceModal as showFinanceModalInternal } from './internal/garage-finance';
+import { showCarProvenance } from './internal/garage-provenance';
+import { exportSaveToFile, importSaveFromFile } from './internal/save-transfer-flow';
+import { showSaveRepairReportIfAny } from './internal/save-repair-report';
+import { showRewindDayModal } from './internal/garage-undo';
+import { getSaveSlot } from '@/core/save-slots';
 
 /**
  * Garage Scene - Player's home base for managing cars.
@@ -25,7 +47,7 @@ import { showFinanceModal as showFinanceModalInternal } from './internal/garage-
 export class GarageScene extends BaseGameScene {
   private autoEndDayOnEnter: boolean = false;
   private inventoryButton?: HTMLButtonElement;
-  private currentView: 'menu' | 'inventory' | 'collection' | 'rival-info' = 'menu';
+  private currentView: 'menu' | 'inventory' | 'collection' | 'rival-info' | 'finances' | 'past-cars' | 'parts-market' | 'specialists' | 'marketplace' | 'consignment' | 'auction-houses' = 'menu';
 
   private readonly handleGarageInventoryChanged = (): void => {
     const player = this.gameManager.getPlayerState();
@@ -67,6 +89,10 @@ export class GarageScene extends BaseGameScene {
     );
   };
 
+  private readonly handleRestorationComplete = (result: RestorationJobResult): void => {
+    showRestorationJobResult(result, this.uiManager);
+  };
+
   private readonly handleTutorialComplete = (): void => {
     this.uiManager.showModal(
       '🎓 Tutorial Complete! 🎓',
@@ -106,6 +132,9 @@ export class GarageScene extends BaseGameScene {
     // Start tutorial for new players
     this.initializeTutorial();
 
+    // Surface any repairs made while loading the save (main menu Continue/Load).
+    showSaveRepairReportIfAny({ gameManager: this.gameManager, uiManager: this.uiManager });
+
     if (this.autoEndDayOnEnter) {
       // Reset the flag to avoid re-triggering if the scene is reused.
       this.autoEndDayOnEnter = false;
@@ -238,6 +267,48 @@ export class GarageScene extends BaseGameScene {
     );
     secondaryActions.appendChild(financeBtn);
 
+    const marketplaceBtn = this.createTutorialAwareButton(
+      '🏷 Marketplace',
+      () => this.showMarketplace(),
+      { variant: 'info', style: compactButtonStyle }
+    );
+    secondaryActions.appendChild(marketplaceBtn);
+
+    const auctionHousesBtn = this.createTutorialAwareButton(
+      '🏛 Auction Houses',
+      () => this.showAuctionHouses(),
+      { variant: 'info', style: compactButtonStyle }
+    );
+    secondaryActions.appendChild(auctionHousesBtn);
+
+    const partsMarketBtn = this.createTutorialAwareButton(
+      '🔩 Parts Market',
+      () => this.showPartsMarket(),
+      { variant: 'info', style: compactButtonStyle }
+    );
+    secondaryActions.appendChild(partsMarketBtn);
+
+    const specialistsBtn = this.createTutorialAwareButton(
+      '🧰 Specialists',
+      () => this.showSpecialists(),
+      { variant: 'info', style: compactButtonStyle }
+    );
+    secondaryActions.appendChild(specialistsBtn);
+
+    const financesBtn = this.createTutorialAwareButton(
+      '📒 Finances',
+      () => this.showFinances(),
+      { variant: 'info', style: compactButtonStyle }
+    );
+    secondaryActions.appendChild(financesBtn);
+
+    const pastCarsBtn = this.createTutorialAwareButton(
+      '🗂 Past Cars',
+      () => this.showPastCars(),
+      { variant: 'info', style: compactButtonStyle }
+    );
+    secondaryActions.appendChild(pastCarsBtn);
+
     // Victory Progress button
     const victoryBtn = this.createTutorialAwareButton(
       'Check Victory Progress',
@@ -296,6 +367,7 @@ export class GarageScene extends BaseGameScene {
     this.setupCommonEventListeners();
     eventBus.on('inventory-changed', this.handleGarageInventoryChanged);
     eventBus.on('victory', this.handleVictory);
+    eventBus.on('restoration-complete', this.handleRestorationComplete);
     eventBus.on('tutorial-complete', this.handleTutorialComplete);
 
     this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
@@ -306,6 +378,7 @@ export class GarageScene extends BaseGameScene {
   private cleanupEventListeners(): void {
     eventBus.off('inventory-changed', this.handleGarageInventoryChanged);
     eventBus.off('victory', this.handleVictory);
+    eventBus.off('restoration-complete', this.handleRestorationComplete);
     eventBus.off('tutorial-complete', this.handleTutorialComplete);
   }
 
@@ -367,6 +440,32 @@ export class GarageScene extends BaseGameScene {
         this.sellCar(carId);
       },
       onSellAsIs: (carId) => this.sellCarAsIs(carId),
+      onProvenance: (carId) =>
+        showCarProvenance(carId, {
+          gameManager: this.gameManager,
+          uiManager: this.uiManager,
+          onRefresh: refreshCallback,
+        }),
+      onList: (carId) => {
+        if (!this.tutorialManager.isSideActionAllowed('sell-car')) {
+          this.showTutorialBlockedActionModal(this.tutorialManager.getSideActionBlockedMessage('sell-car'));
+          return;
+        }
+        showListCarPrompt(carId, { gameManager: this.gameManager, uiManager: this.uiManager, onListed: refreshCallback });
+      },
+      onConsign: (carId) => {
+        if (!this.tutorialManager.isSideActionAllowed('sell-car')) {
+          this.showTutorialBlockedActionModal(this.tutorialManager.getSideActionBlockedMessage('sell-car'));
+          return;
+        }
+        showConsignCarPrompt(carId, {
+          gameManager: this.gameManager,
+          uiManager: this.uiManager,
+          onWatch: (sale) => this.showConsignmentAuction(sale),
+          onSettled: refreshCallback,
+        });
+      },
+      onShowMarketplace: () => this.showMarketplace(),
       onRefresh: refreshCallback,
     });
   }
@@ -455,6 +554,10 @@ export class GarageScene extends BaseGameScene {
       this.uiManager.showInfo('Already Restored', 'This car is already in perfect condition.');
       return;
     }
+    if (this.gameManager.isCarInWorkshop(carId)) {
+      this.uiManager.showInfo('In the Workshop', `${car.name} already has work booked in the workshop.`);
+      return;
+    }
     
     // Check for restoration challenges first
     const challenges = Economy.getRestorationChallenges(car);
@@ -474,7 +577,9 @@ export class GarageScene extends BaseGameScene {
       gameManager: this.gameManager,
       uiManager: this.uiManager,
       timeSystem: this.timeSystem,
+      tutorialManager: this.tutorialManager,
       onShowInventory: () => this.showInventory(),
+      onShowPartsMarket: () => this.showPartsMarket(),
       onRestoreCar: (carId) => this.restoreCar(carId),
     });
   }
@@ -489,6 +594,7 @@ export class GarageScene extends BaseGameScene {
       timeSystem: this.timeSystem,
       tutorialManager: this.tutorialManager,
       onShowInventory: () => this.showInventory(),
+      onShowPartsMarket: () => this.showPartsMarket(),
     });
   }
 
@@ -517,7 +623,7 @@ export class GarageScene extends BaseGameScene {
         name: '👁 Eye (Inspection)',
         color: '#3498db',
         abilities: [
-          { level: 1, description: 'Basic inspection - see car condition' },
+          { level: 1, description: 'Basic inspection - see car condition, point out obvious wear, Inspect for hidden defects (better odds each level)' },
           { level: 2, description: 'Reveal car history (Flooded, Rust, Mint)' },
           { level: 3, description: 'Kick Tires in auctions (reduce rival budget)' },
           { level: 4, description: 'See exact damage percentages' },
@@ -529,9 +635,9 @@ export class GarageScene extends BaseGameScene {
         color: '#9b59b6',
         abilities: [
           { level: 1, description: 'Basic bids and auction presence' },
-          { level: 2, description: 'Unlock Stall (drain rival patience)' },
-          { level: 3, description: 'Stall tactic in auctions (drain rival patience)' },
-          { level: 4, description: 'Advanced tactics - stronger pressure tools' },
+          { level: 2, description: 'Unlock Stall (drain rival patience) and Small Talk with sellers' },
+          { level: 3, description: 'Stall tactic in auctions; put Cash on the Table with sellers' },
+          { level: 4, description: 'Advanced tactics - Bluff Walk-Out on sellers' },
           { level: 5, description: 'Master tactician - maximum pressure potential' },
         ],
       },
@@ -539,7 +645,7 @@ export class GarageScene extends BaseGameScene {
         name: '🌐 Network (Connections)',
         color: '#e67e22',
         abilities: [
-          { level: 1, description: 'Access to public opportunities' },
+          { level: 1, description: 'Access to public opportunities, research car provenance' },
           { level: 2, description: 'Spot special events more clearly' },
           { level: 3, description: 'Earlier visibility into special leads' },
           { level: 4, description: 'See rival movements and locations' },
@@ -575,7 +681,7 @@ export class GarageScene extends BaseGameScene {
       message += `\n`;
     });
 
-    message += `\nEarn XP by:\n• Inspecting cars (+10 Eye XP)\n• Winning auctions (+15 Tongue XP)\n• Visiting new locations (+20 Network XP)`;
+    message += `\nEarn XP by:\n• Inspecting cars (+10 Eye XP)\n• Winning auctions or closing negotiations (+15 Tongue XP)\n• Visiting new locations (+20 Network XP)`;
 
     this.uiManager.showModal('📚 Skills Reference', message, [
       { text: 'Close', onClick: () => {} },
@@ -608,8 +714,9 @@ export class GarageScene extends BaseGameScene {
     // Hint 2: Rival activity (random rumor)
     const rivals = ['Sterling Vance', 'Marcus Kane', 'Scrapyard Joe', 'Elena Rossi'];
     const locations = ['Auction House', 'An Estate Sale', 'A Private Auction'];
-    const randomRival = rivals[Math.floor(Math.random() * rivals.length)];
-    const randomLocation = locations[Math.floor(Math.random() * locations.length)];
+    const flavor = rng.stream('flavor');
+    const randomRival = pickRandom(flavor, rivals);
+    const randomLocation = pickRandom(flavor, locations);
     hints.push(`🔍 Word on the street: ${randomRival} was spotted near ${randomLocation}`);
     
     // Hint 3: Special events
@@ -671,12 +778,14 @@ export class GarageScene extends BaseGameScene {
     const rent = this.gameManager.getDailyRent();
     const collectionPrestige = this.gameManager.getCollectionPrestigeInfo();
 
-    const garageCarCount = this.gameManager.getGarageCarCount();
+    const sellableGarageCarCount = this.gameManager
+      .getGarageCars()
+      .filter((car) => !this.gameManager.isCarInWorkshop(car.id)).length;
     const collectionCarCount = this.gameManager.getCollectionCars().length;
 
     // Pre-check: Can player afford rent?
     if (playerBefore.money < rent) {
-      const canSellFromGarage = garageCarCount > 0;
+      const canSellFromGarage = sellableGarageCarCount > 0;
       const canMoveFromCollectionToGarage = collectionCarCount > 0 && this.gameManager.hasGarageSpace();
       const hasAnyCars = canSellFromGarage || collectionCarCount > 0;
       const canBankLoan = this.gameManager.canTakeBankLoan();
@@ -684,19 +793,8 @@ export class GarageScene extends BaseGameScene {
       const canAnyLoan = canBankLoan || canPrestonLoan;
 
       if (!hasAnyCars && !canAnyLoan) {
-        this.uiManager.showModal(
-          'Bankrupt',
-          `You can't pay today's rent (${formatCurrency(rent)}).\n\nGame Over.`,
-          [
-            {
-              text: 'New Game',
-              onClick: () => {
-                this.gameManager.reset();
-                this.setupUI();
-              },
-            },
-          ]
-        );
+        // No way out: let endDay() declare the bankruptcy (it also archives Ironman runs).
+        this.proceedWithEndDay();
         return;
       }
 
@@ -763,7 +861,8 @@ export class GarageScene extends BaseGameScene {
       `💰 Current Money: ${formatCurrency(playerBefore.money)}\n` +
       `🏆 Current Prestige: ${formatNumber(playerBefore.prestige)}\n` +
       `💸 Rent Due: ${formatCurrency(rent)}\n` +
-      `🏛️ Collection Prestige: +${collectionPrestige.totalPerDay} prestige (${collectionPrestige.carCount} cars)\n\n` +
+      `🏛️ Collection Prestige: +${collectionPrestige.totalPerDay} prestige (${collectionPrestige.carCount} cars)\n` +
+      `🔧 Workshop: ${this.gameManager.getRestorationQueue().length} job(s) booked\n\n` +
       `After rent, you'll have ${formatCurrency(playerBefore.money - rent)}.\n\n` +
       `Ready to end the day?`;
     
@@ -788,19 +887,22 @@ export class GarageScene extends BaseGameScene {
     const result = this.timeSystem.endDay();
 
     if (result.bankrupt) {
-      this.uiManager.showModal(
-        'Bankrupt',
-        `You can't pay today's rent (${formatCurrency(result.requiredRent)}).\n\nGame Over.`,
-        [
-          {
-            text: 'New Game',
-            onClick: () => {
-              this.gameManager.reset();
-              this.setupUI();
+      const message = result.runArchived
+        ? `You can't pay today's rent (${formatCurrency(result.requiredRent)}).\n\n☠ Your Ironman run is over. It has been archived and can no longer be loaded.`
+        : `You can't pay today's rent (${formatCurrency(result.requiredRent)}).\n\nGame Over.`;
+      // An archived Ironman run goes back to the main menu, where the next run's mode is chosen.
+      const buttons = result.runArchived
+        ? [{ text: 'Main Menu', onClick: () => this.scene.start('MainMenuScene') }]
+        : [
+            {
+              text: 'New Game',
+              onClick: () => {
+                this.gameManager.reset();
+                this.setupUI();
+              },
             },
-          },
-        ]
-      );
+          ];
+      this.uiManager.showModal('Bankrupt', message, buttons);
       return;
     }
 
@@ -833,6 +935,34 @@ export class GarageScene extends BaseGameScene {
       summary += `🏆 Prestige Gained: +${dayStats.prestigeGained}\n\n`;
     }
     
+    const workshopQueue = this.gameManager.getRestorationQueue();
+    if (result.restorationsCompleted.length > 0 || workshopQueue.length > 0) {
+      summary += `🔧 WORKSHOP:\n`;
+      result.restorationsCompleted.forEach((job) => {
+        summary += `• Finished: ${job.jobName} on ${job.carName}${job.success ? '' : ' (botched)'}\n`;
+      });
+      if (workshopQueue.length > 0) {
+        summary += `• Still in the workshop: ${workshopQueue.length} job(s)\n`;
+      }
+      summary += `\n`;
+    }
+
+    if (result.partsArrived.length > 0) {
+      summary += `🔩 PARTS DELIVERED:\n`;
+      result.partsArrived.forEach((part) => {
+        summary += `• ${getPartName(part.partId)} from ${part.seller}\n`;
+      });
+      summary += `\n`;
+    }
+
+    if (result.buyerOffers.length > 0) {
+      summary += `🏷 NEW OFFERS:\n`;
+      result.buyerOffers.forEach(({ carName, offer }) => {
+        summary += `• ${offer.buyer}: ${formatCurrency(offer.amount)} for ${carName}${offer.kind === 'full' ? ' (full ask)' : ''}\n`;
+      });
+      summary += `\n`;
+    }
+
     summary += `💰 Current Money: ${formatCurrency(player.money)}\n`;
     summary += `🏆 Total Prestige: ${player.prestige}\n\n`;
     summary += `🌅 DAY ${world.day} FORECAST:\n`;
@@ -858,44 +988,89 @@ export class GarageScene extends BaseGameScene {
   }
 
   private showGameMenu(): void {
-    this.uiManager.showModal(
-      'Game Menu',
-      'Save your progress, load a previous game, or return to the main menu.',
-      [
-        {
-          text: 'Save Game',
-          onClick: () => {
-            if (this.gameManager.save()) {
-              this.uiManager.showInfo('Game Saved', 'Your progress has been saved successfully.');
-            } else {
-              this.uiManager.showInfo('Save Failed', 'Unable to save game. Check console for details.');
-            }
-          },
+    const isIronman = this.gameManager.isIronman();
+    const buttons: Array<{ text: string; onClick: () => void }> = [];
+
+    if (this.gameManager.isUndoAvailable()) {
+      buttons.push({
+        text: '↶ Rewind Today',
+        onClick: () =>
+          showRewindDayModal({
+            gameManager: this.gameManager,
+            uiManager: this.uiManager,
+            onRewound: () => this.setupUI(),
+          }),
+      });
+    }
+
+    buttons.push({
+      text: 'Save Game',
+      onClick: () => {
+        if (this.gameManager.save()) {
+          this.uiManager.showInfo('Game Saved', 'Your progress has been saved successfully.');
+        } else {
+          this.uiManager.showInfo('Save Failed', 'Unable to save game. Check console for details.');
+        }
+      },
+    });
+
+    // Ironman runs can't reload: no in-game Load, and no Import (which would swap in another save mid-run).
+    if (this.gameManager.canManualLoad()) {
+      buttons.push({
+        text: 'Load Game',
+        onClick: () => {
+          this.uiManager.showModal(
+            'Load Game?',
+            'This will reload your last saved game. Any unsaved progress will be lost.',
+            [
+              {
+                text: 'Load',
+                onClick: () => this.loadSavedGame(),
+              },
+              { text: 'Cancel', onClick: () => {} },
+            ]
+          );
         },
-        {
-          text: 'Load Game',
-          onClick: () => {
-            this.uiManager.showModal(
-              'Load Game?',
-              'This will reload your last saved game. Any unsaved progress will be lost.',
-              [
-                {
-                  text: 'Load',
-                  onClick: () => this.loadSavedGame(),
-                },
-                { text: 'Cancel', onClick: () => {} },
-              ]
-            );
-          },
+      });
+    }
+
+    if (!isIronman) {
+      buttons.push({
+        text: 'Export Save',
+        onClick: () => this.exportCurrentSave(),
+      });
+      buttons.push({
+        text: 'Import Save',
+        onClick: () => {
+          void importSaveFromFile({
+            gameManager: this.gameManager,
+            uiManager: this.uiManager,
+            onImported: () => {
+              this.uiManager.showInfo('Save Imported', 'The imported save has been loaded.', {
+                onOk: () => this.setupUI(),
+              });
+            },
+          });
         },
-        {
-          text: 'Main Menu',
-          onClick: () => {
-            this.scene.start('MainMenuScene');
-          },
+      });
+    }
+
+    buttons.push(
+      {
+        text: 'Main Menu',
+        onClick: () => {
+          this.scene.start('MainMenuScene');
         },
-        { text: 'Back', onClick: () => {} },
-      ]
+      },
+      { text: 'Back', onClick: () => {} }
+    );
+
+    this.uiManager.showModal(
+      'Game Menu',
+      isIronman
+        ? '☠ Ironman run: every change is saved automatically and cannot be undone.\n\nIronman runs cannot be exported or imported.'
+        : 'Save your progress, rewind today\'s actions, load a previous game, move saves between browsers, or return to the main menu.',
+      buttons
     );
   }
 
@@ -908,13 +1083,26 @@ export class GarageScene extends BaseGameScene {
     });
   }
 
+  private exportCurrentSave(): void {
+    const slotId = this.gameManager.getActiveSlotId();
+    const slotName = slotId ? getSaveSlot(slotId)?.name : undefined;
+    void exportSaveToFile({
+      uiManager: this.uiManager,
+      saveData: this.gameManager.exportSaveData(),
+      label: slotName ?? 'save',
+    });
+  }
+
   private loadSavedGame(): void {
     if (this.gameManager.load()) {
       // Emit events to update UI
       this.gameManager.emitAllStateEvents();
 
       this.uiManager.showInfo('Game Loaded', 'Your saved game has been loaded successfully.', {
-        onOk: () => this.setupUI(),
+        onOk: () => {
+          this.setupUI();
+          showSaveRepairReportIfAny({ gameManager: this.gameManager, uiManager: this.uiManager });
+        },
       });
     } else {
       this.uiManager.showInfo('Load Failed', 'No saved game found or load failed.');
@@ -946,7 +1134,7 @@ export class GarageScene extends BaseGameScene {
     // Calculate rent change
     const currentRent = this.gameManager.getDailyRent();
     const newSlots = player.garageSlots + 1;
-    const rentConfig = GAME_CONFIG.economy.rentByGarageSlots as Record<number, number>;
+    const rentConfig = getGameConfig().economy.rentByGarageSlots as Record<number, number>;
     const newRent = rentConfig[newSlots] || currentRent;
     const rentIncrease = newRent - currentRent;
 
@@ -1014,4 +1202,148 @@ export class GarageScene extends BaseGameScene {
 
     this.uiManager.append(panel);
   }
+
+  private showFinances(): void {
+    this.currentView = 'finances';
+    this.uiManager.clear();
+
+    // Reuse cached HUD
+    if (this.cachedHUD) {
+      this.uiManager.append(this.cachedHUD);
+    } else {
+      const hud = this.createStandardHUD();
+      this.uiManager.append(hud);
+    }
+
+    const panel = createGarageFinancesPanel({
+      gameManager: this.gameManager,
+      uiManager: this.uiManager,
+      onBack: () => this.setupUI(),
+    });
+
+    this.uiManager.append(panel);
+  }
+
+  private showPartsMarket(): void {
+    this.currentView = 'parts-market';
+    this.uiManager.clear();
+
+    // Reuse cached HUD
+    if (this.cachedHUD) {
+      this.uiManager.append(this.cachedHUD);
+    } else {
+      const hud = this.createStandardHUD();
+      this.uiManager.append(hud);
+    }
+
+    const panel = createGaragePartsMarketPanel({
+      gameManager: this.gameManager,
+      uiManager: this.uiManager,
+      onRefresh: () => this.showPartsMarket(),
+      onBack: () => this.setupUI(),
+    });
+
+    this.uiManager.append(panel);
+  }
+
+  private showMarketplace(): void {
+    this.currentView = 'marketplace';
+    this.uiManager.clear();
+
+    // Reuse cached HUD
+    if (this.cachedHUD) {
+      this.uiManager.append(this.cachedHUD);
+    } else {
+      const hud = this.createStandardHUD();
+      this.uiManager.append(hud);
+    }
+
+    const panel = createGarageMarketplacePanel({
+      gameManager: this.gameManager,
+      uiManager: this.uiManager,
+      onRefresh: () => this.showMarketplace(),
+      onBack: () => this.setupUI(),
+    });
+
+    this.uiManager.append(panel);
+  }
+
+  private showAuctionHouses(): void {
+    this.currentView = 'auction-houses';
+    this.uiManager.clear();
+
+    // Reuse cached HUD
+    if (this.cachedHUD) {
+      this.uiManager.append(this.cachedHUD);
+    } else {
+      const hud = this.createStandardHUD();
+      this.uiManager.append(hud);
+    }
+
+    const panel = createGarageAuctionHousesPanel({
+      gameManager: this.gameManager,
+      uiManager: this.uiManager,
+      onRefresh: () => this.showAuctionHouses(),
+      onBack: () => this.setupUI(),
+    });
+
+    this.uiManager.append(panel);
+  }
+
+  private showConsignmentAuction(sale: ConsignmentSale): void {
+    this.currentView = 'consignment';
+    this.uiManager.clear();
+    // No HUD here: the sale is already settled, and the money would give the result away.
+
+    const panel = createGarageConsignmentPanel({
+      uiManager: this.uiManager,
+      sale,
+      onBack: () => this.showInventory(),
+    });
+
+    this.uiManager.append(panel);
+  }
+
+  private showSpecialists(): void {
+    this.currentView = 'specialists';
+    this.uiManager.clear();
+
+    // Reuse cached HUD
+    if (this.cachedHUD) {
+      this.uiManager.append(this.cachedHUD);
+    } else {
+      const hud = this.createStandardHUD();
+      this.uiManager.append(hud);
+    }
+
+    const panel = createGarageSpecialistsPanel({
+      gameManager: this.gameManager,
+      uiManager: this.uiManager,
+      onRefresh: () => this.showSpecialists(),
+      onBack: () => this.setupUI(),
+    });
+
+    this.uiManager.append(panel);
+  }
+
+  private showPastCars(): void {
+    this.currentView = 'past-cars';
+    this.uiManager.clear();
+
+    // Reuse cached HUD
+    if (this.cachedHUD) {
+      this.uiManager.append(this.cachedHUD);
+    } else {
+      const hud = this.createStandardHUD();
+      this.uiManager.append(hud);
+    }
+
+    const panel = createGaragePastCarsPanel({
+      gameManager: this.gameManager,
+      uiManager: this.uiManager,
+      onBack: () => this.setupUI(),
+    });
+
+    this.uiManager.append(panel);
+  }
 }
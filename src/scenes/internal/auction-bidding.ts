@@ -5,6 +5,7 @@ import type { GameManager } from '@/core/game-manager';
 import type { UIManager } from '@/ui/ui-manager';
 import { formatCurrency } from '@/utils/format';
 import { GAME_CONFIG } from '@/config/game-config';
+import { rng, shuffleInPlace } from '@/core/rng';
 
 /**
  * Bidding mechanics for the AuctionScene.
@@ -35,13 +36,6 @@ function findRivalById(rivals: readonly Rival[], rivalId: string): Rival | null
   return rivals.find((r) => r.id === rivalId) ?? null;
 }
 
-function shuffleInPlace<T>(arr: T[]): void {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-}
-
 export interface BiddingContext {
   car: Car;
   rivals: Rival[];
@@ -74,7 +68,8 @@ export interface BiddingContext {
 
 export interface BiddingCallbacks {
   gameManager: GameManager;
-  uiManager: UIManager;
+  /** Carried for the scene; the bidding engine never renders, so headless callers leave it out. */
+  uiManager?: UIManager;
   onShowToastAndLog: (toast: string, options?: { backgroundColor?: string }, log?: string, logKind?: string) => void;
   onRivalDroppedOut?: (rivalId: string, reason: 'patience' | 'budget') => void;
   onRecordBid: (bidderId: BidderId, totalBid: number) => void;
@@ -84,6 +79,8 @@ export interface BiddingCallbacks {
   onScheduleRivalTurn: (delayMs: number) => void;
   onScheduleEnablePlayerTurn: (delayMs?: number) => void;
   onEndAuction: (winner: BidderId, message: string, rivalFinalBarkTrigger?: BarkTrigger) => void;
+  /** Called before each proxy action with a one-line description for the auction log. */
+  onProxyStep?: (action: ProxyBidAction, description: string) => void;
 }
 
 const BID_INCREMENT = GAME_CONFIG.auction.bidIncrement;
@@ -413,7 +410,7 @@ export function rivalTurnImmediate(
     context.activeRivalIds.includes(id)
   );
   if (!context.rivalTurnOrder) {
-    shuffleInPlace(shuffled);
+    shuffleInPlace(rng.stream('auction'), shuffled);
   }
 
   const currentHighRivalId = parseRivalIdFromBidderId(context.lastBidder);
@@ -555,7 +552,7 @@ export function rivalOnlyTurnImmediate(
     context.activeRivalIds.includes(id)
   );
   if (!context.rivalTurnOrder) {
-    shuffleInPlace(shuffled);
+    shuffleInPlace(rng.stream('auction'), shuffled);
   }
 
   const currentHighRivalId = parseRivalIdFromBidderId(context.lastBidder);
@@ -626,4 +623,115 @@ export function rivalOnlyTurnImmediate(
   return context;
 }
 
+/** Preset tactic policies for a proxy bid, from cautious to aggressive. */
+export type ProxyBidTactic = 'steady' | 'pressure' | 'aggressive';
+
+/**
+ * Rules for bidding on the player's behalf: a cap plus when to power bid.
+ * Stall and Kick Tires hand the turn to the rivals while one of them leads, so the proxy leaves them to the player.
+ */
+export interface ProxyBidPolicy {
+  /** Highest bid the proxy places; it stops rather than go past it. */
+  maxBid: number;
+  /** Power bid when the most impatient active rival's patience is under this (null = never power bid). */
+  powerBidBelowPatience: number | null;
+}
+
+export type ProxyBidAction = { kind: 'bid' } | { kind: 'power-bid' } | { kind: 'stop'; reason: 'cap' | 'funds' };
+
+/**
+ * A proxy policy for one of the preset tactics: 'steady' only makes minimum raises, 'pressure'
+ * power bids once a rival is sweating (patience in the low zone), 'aggressive' power bids whenever it can.
+ */
+export function createProxyBidPolicy(maxBid: number, tactic: ProxyBidTactic): ProxyBidPolicy {
+  const powerBidBelowPatience = {
+    steady: null,
+    pressure: GAME_CONFIG.auction.patienceThresholds.low,
+    aggressive: Number.POSITIVE_INFINITY,
+  }[tactic];
+  return { maxBid, powerBidBelowPatience };
+}
+
+function findMostImpatientRival(context: BiddingContext): { rivalId: string; patience: number } | null {
+  let found: { rivalId: string; patience: number } | null = null;
+  for (const rivalId of context.activeRivalIds) {
+    const patience = context.rivalAIsById[rivalId]?.getPatience();
+    if (patience === undefined) continue;
+    if (!found || patience < found.patience) found = { rivalId, patience };
+  }
+  return found;
+}
+
+/**
+ * Decide the proxy's next move on the player's turn: a power bid if the policy calls for one and it
+ * fits under the cap and the player's money, otherwise a minimum raise, otherwise stop.
+ */
+export function decideProxyBidAction(
+  context: BiddingContext,
+  policy: ProxyBidPolicy,
+  player: { money: number }
+): ProxyBidAction {
+  const limit = Math.min(policy.maxBid, player.money);
+  const stopReason = policy.maxBid <= player.money ? 'cap' : 'funds';
+
+  if (!context.hasAnyBids) {
+    return context.currentBid <= limit ? { kind: 'bid' } : { kind: 'stop', reason: stopReason };
+  }
+
+  const impatient = findMostImpatientRival(context);
+  if (
+    impatient &&
+    policy.powerBidBelowPatience !== null &&
+    impatient.patience < policy.powerBidBelowPatience &&
+    context.currentBid + POWER_BID_INCREMENT <= limit
+  ) {
+    return { kind: 'power-bid' };
+  }
+
+  return context.currentBid + BID_INCREMENT <= limit ? { kind: 'bid' } : { kind: 'stop', reason: stopReason };
+}
+
+function describeProxyBidAction(action: ProxyBidAction, context: BiddingContext, policy: ProxyBidPolicy): string {
+  switch (action.kind) {
+    case 'bid':
+      return context.hasAnyBids
+        ? `Proxy bids ${formatCurrency(context.currentBid + BID_INCREMENT)}.`
+        : `Proxy opens at ${formatCurrency(context.currentBid)}.`;
+    case 'power-bid': {
+      const impatient = findMostImpatientRival(context);
+      const rival = impatient ? findRivalById(context.rivals, impatient.rivalId) : null;
+      const reason = rival && impatient ? `: ${rival.name}'s patience is ${impatient.patience}` : '';
+      return `Proxy power bids ${formatCurrency(context.currentBid + POWER_BID_INCREMENT)}${reason}.`;
+    }
+    case 'stop':
+      return action.reason === 'cap'
+        ? `Proxy stops at your ${formatCurrency(policy.maxBid)} cap. Bid yourself or drop out.`
+        : 'Proxy stops: you cannot afford the next bid.';
+  }
+}
+
+/**
+ * Take the player's turn with a proxy bid: decide the move, report it through `onProxyStep`,
+ * then play it through the same handlers as the buttons. On 'stop' the turn stays with the player.
+ */
+export function proxyBidTurn(
+  context: BiddingContext,
+  callbacks: BiddingCallbacks,
+  policy: ProxyBidPolicy
+): { context: BiddingContext; action: ProxyBidAction } {
+  if (!context.isPlayerTurn) return { context, action: { kind: 'stop', reason: 'cap' } };
+
+  const action = decideProxyBidAction(context, policy, callbacks.gameManager.getPlayerState());
+  callbacks.onProxyStep?.(action, describeProxyBidAction(action, context, policy));
+
+  switch (action.kind) {
+    case 'bid':
+      return { context: playerBid(BID_INCREMENT, context, callbacks), action };
+    case 'power-bid':
+      return { context: playerBid(POWER_BID_INCREMENT, context, callbacks, { power: true }), action };
+    case 'stop':
+      return { context, action };
+  }
+}
+
 export { BID_INCREMENT, POWER_BID_INCREMENT, KICK_TIRES_BUDGET_REDUCTION, REQUIRED_EYE_LEVEL_FOR_KICK_TIRES, REQUIRED_TONGUE_LEVEL_FOR_STALL };
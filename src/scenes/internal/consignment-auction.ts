@@ -0,0 +1,116 @@
+import type { Car } from '@/data/car-database';
+import type { GameManager } from '@/core/game-manager';
+import { RivalAI } from '@/systems/rival-ai';
+import type { AuctionRivalEntry } from '@/systems/map-encounter-router';
+import {
+  rivalOnlyTurnImmediate,
+  type BidderId,
+  type BiddingCallbacks,
+  type BiddingContext,
+} from '@/scenes/internal/auction-bidding';
+
+/** Safety cap on bidding rounds so a misbehaving AI cannot hang the sale. */
+const MAX_CONSIGNMENT_ROUNDS = 500;
+
+/** One bid placed on a consigned car. */
+export interface ConsignmentBid {
+  rivalId: string;
+  rivalName: string;
+  amount: number;
+}
+
+/**
+ * Outcome of the bidding on a consigned car (before the reserve is checked).
+ */
+export interface ConsignmentBidding {
+  /** Every bid in order; empty if nobody bid. */
+  bids: ConsignmentBid[];
+  /** The high bidder, or null if nobody bid. */
+  winner: { rivalId: string; rivalName: string } | null;
+  /** The last bid (the opening bid if nobody bid). */
+  hammerPrice: number;
+  rivalIds: string[];
+}
+
+/**
+ * Run the rivals-only bidding on a car the player consigned, without Phaser or the DOM.
+ *
+ * Uses the same `rivalOnlyTurnImmediate` engine as an auction the player has withdrawn from:
+ * rivals outbid each other from the opening bid until nobody raises or the cap is reached.
+ * A lone bidder takes the car at the opening bid.
+ */
+export function runConsignmentBidding(params: {
+  gameManager: GameManager;
+  car: Car;
+  rivals: AuctionRivalEntry[];
+  locationId: string;
+  openingBid: number;
+  maxBid: number;
+}): ConsignmentBidding {
+  const { gameManager, car, rivals, locationId, openingBid, maxBid } = params;
+
+  const rivalAIsById: Record<string, RivalAI> = {};
+  for (const entry of rivals) {
+    rivalAIsById[entry.rival.id] = new RivalAI(entry.rival, entry.interest);
+  }
+
+  const context: BiddingContext = {
+    car,
+    rivals: rivals.map((entry) => entry.rival),
+    rivalAIsById,
+    auctioneerName: 'Auctioneer',
+    currentBid: openingBid,
+    hasAnyBids: false,
+    stallUsesThisAuction: 0,
+    powerBidStreak: 0,
+    isPlayerTurn: false,
+    locationId,
+    // Rivals who can't afford the opening bid sit this one out.
+    activeRivalIds: rivals
+      .filter((entry) => (rivalAIsById[entry.rival.id]?.getBudget() ?? 0) >= openingBid)
+      .map((entry) => entry.rival.id),
+    maxBid,
+  };
+
+  const bids: ConsignmentBid[] = [];
+  // Asserted (not annotated) so TS doesn't narrow away updates made inside the callbacks.
+  let ended = false as boolean;
+  let winner: BidderId | undefined;
+
+  const noop = (): void => {};
+  const callbacks: BiddingCallbacks = {
+    gameManager,
+    onShowToastAndLog: noop,
+    onRecordBid: (bidderId, totalBid) => {
+      if (bidderId === 'player') return;
+      const rivalId = bidderId.slice('rival:'.length);
+      const rival = rivals.find((entry) => entry.rival.id === rivalId)?.rival;
+      bids.push({ rivalId, rivalName: rival?.name ?? rivalId, amount: totalBid });
+    },
+    onShowAuctioneerBark: noop,
+    onShowRivalBarkAfterAuctioneer: noop,
+    onSetupUI: noop,
+    onScheduleRivalTurn: noop,
+    onScheduleEnablePlayerTurn: noop,
+    onEndAuction: (auctionWinner) => {
+      winner = auctionWinner;
+      ended = true;
+    },
+  };
+
+  for (let round = 0; round < MAX_CONSIGNMENT_ROUNDS && !ended; round++) {
+    rivalOnlyTurnImmediate(context, callbacks);
+  }
+
+  // The engine reports 'player' when nobody bid: the seller keeps the car.
+  const finalWinner = winner ?? context.lastBidder;
+  const winnerId = finalWinner && finalWinner !== 'player' ? finalWinner.slice('rival:'.length) : null;
+  const winnerName = winnerId ? (rivals.find((entry) => entry.rival.id === winnerId)?.rival.name ?? winnerId) : null;
+
+  return {
+    bids,
+    winner: winnerId && winnerName ? { rivalId: winnerId, rivalName: winnerName } : null,
+    hammerPrice: context.currentBid,
+    rivalIds: rivals.map((entry) => entry.rival.id),
+  };
+}
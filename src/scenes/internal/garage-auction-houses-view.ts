@@ -0,0 +1,154 @@
+import type { GameManager } from '@/core/game-manager';
+import type { AuctionMembershipBlocker } from '@/core/game-types';
+import type { UIManager } from '@/ui/ui-manager';
+import { BASE_LOCATIONS, type AuctionMembershipTier, type BaseLocationDefinition } from '@/data/location-database';
+import { formatFeeRate, getAuctionHouseFees } from '@/systems/auction-fees';
+import { AUCTION_FORMAT_LABELS, getAuctionFormat } from '@/systems/auction-formats';
+import { formatCurrency } from '@/utils/format';
+import { createStat, createTable } from './garage-report-ui';
+
+function describeJoinBlocker(reason: AuctionMembershipBlocker, tier: AuctionMembershipTier): string {
+  switch (reason) {
+    case 'locked':
+      return `${tier.name} needs ${tier.unlockPrestige} prestige.`;
+    case 'already-member':
+      return `You already hold ${tier.name} or better here.`;
+    case 'no-money':
+      return `Joining costs ${formatCurrency(tier.joiningFee)}.`;
+    case 'unknown':
+      return 'That membership is no longer offered.';
+  }
+}
+
+/**
+ * Auction Houses view: each house's fees (entry fee, buyer's premium, seller's commission)
+ * and the membership tiers that lower them, with joining and upgrading.
+ */
+export function createGarageAuctionHousesPanel(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onRefresh: () => void;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { gameManager, uiManager, onRefresh, onBack } = context;
+
+  const prestige = gameManager.getPlayerState().prestige;
+  const houses = (BASE_LOCATIONS as readonly BaseLocationDefinition[]).filter((location) => location.type === 'auction');
+  const memberships = houses.filter((location) => gameManager.getAuctionMembership(location.id));
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(920px, calc(100% - 40px))',
+    maxHeight: '80%',
+    overflowY: 'auto',
+  });
+
+  panel.appendChild(uiManager.createHeading('🏛 Auction Houses', 2, { textAlign: 'center', color: '#f1c40f' }));
+  panel.appendChild(
+    uiManager.createText(
+      "Every house charges the winning bidder a buyer's premium and keeps a commission on cars you consign; " +
+        'some charge an entry fee just to bid. Members pay less.',
+      { textAlign: 'center', fontSize: '13px', color: '#bdc3c7' }
+    )
+  );
+
+  const stats = document.createElement('div');
+  stats.style.cssText = 'display: flex; gap: 8px; margin-bottom: 12px;';
+  stats.append(
+    createStat('Money', formatCurrency(gameManager.getPlayerState().money), '#f1c40f'),
+    createStat('Prestige', String(prestige), '#9b59b6'),
+    createStat('Memberships', String(memberships.length), '#2ecc71')
+  );
+  panel.appendChild(stats);
+
+  for (const location of houses) {
+    const current = gameManager.getAuctionMembership(location.id);
+    const tiers = location.memberships ?? [];
+    const currentIndex = current ? tiers.findIndex((tier) => tier.id === current.id) : -1;
+    const standard = getAuctionHouseFees(location.id);
+
+    panel.appendChild(uiManager.createHeading(location.name, 3, { marginBottom: '4px' }));
+    panel.appendChild(
+      uiManager.createText(
+        `${AUCTION_FORMAT_LABELS[getAuctionFormat({ locationId: location.id })].name} · ` +
+          (current ? `Your membership: ${current.name}` : 'Not a member'),
+        {
+          fontSize: '13px',
+          color: current ? '#2ecc71' : '#95a5a6',
+          margin: '0 0 6px 0',
+        }
+      )
+    );
+
+    const rows = [
+      { name: 'Standard', unlockPrestige: 0, joiningFee: 0, fees: standard, tier: null as AuctionMembershipTier | null },
+      ...tiers.map((tier) => ({ ...tier, tier })),
+    ].map((row, index) => {
+      const held = index === currentIndex + 1;
+      const locked = prestige < row.unlockPrestige;
+      const tier = row.tier;
+
+      let action: HTMLElement | undefined;
+      // Tiers above the one held can be joined once the player has the prestige.
+      if (tier && index > currentIndex + 1 && !locked) {
+        action = uiManager.createButton(
+          `${current ? 'Upgrade' : 'Join'} (${formatCurrency(tier.joiningFee)})`,
+          () => {
+            gameManager.markUndoPoint(`Join ${location.name}`);
+            const result = gameManager.joinAuctionHouse(location.id, tier.id);
+            if (!result.ok) {
+              if (result.reason === 'no-money') {
+                uiManager.showInsufficientFundsModal();
+              } else {
+                uiManager.showInfo('Cannot Join', describeJoinBlocker(result.reason, tier));
+              }
+              return;
+            }
+            uiManager.showToast(`🏛 You joined ${location.name} as ${tier.name}`);
+            onRefresh();
+          },
+          { variant: 'success', style: { padding: '4px 10px', fontSize: '12px' } }
+        );
+      }
+
+      return {
+        cells: [
+          row.name,
+          row.unlockPrestige > 0 ? String(row.unlockPrestige) : '—',
+          row.joiningFee > 0 ? formatCurrency(row.joiningFee) : '—',
+          row.fees.entryFee > 0 ? formatCurrency(row.fees.entryFee) : 'Free',
+          formatFeeRate(row.fees.buyersPremium),
+          formatFeeRate(row.fees.sellersCommission),
+          held ? 'Current' : locked ? 'Locked' : '',
+        ],
+        colors: [
+          held ? '#2ecc71' : undefined,
+          locked ? '#e67e22' : undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          held ? '#2ecc71' : '#95a5a6',
+        ],
+        action,
+      };
+    });
+
+    panel.appendChild(
+      createTable(['Tier', 'Prestige', 'Joining fee', 'Entry fee', "Buyer's premium", "Seller's commission", ''], rows)
+    );
+  }
+
+  panel.appendChild(
+    uiManager.createText(
+      'Memberships are one-off payments and last the whole run. The entry fee is charged when you start an auction.',
+      { fontSize: '12px', color: '#95a5a6', marginTop: '6px' }
+    )
+  );
+
+  panel.appendChild(uiManager.createButton('Back', onBack, { style: { width: '100%', marginTop: '20px' } }));
+  return panel;
+}
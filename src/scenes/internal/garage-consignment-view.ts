@@ -0,0 +1,298 @@
+import type { GameManager } from '@/core/game-manager';
+import type { ConsignmentBlocker, PastCarRecord } from '@/core/game-types';
+import type { UIManager } from '@/ui/ui-manager';
+import { BASE_LOCATIONS, type BaseLocationDefinition } from '@/data/location-database';
+import { Economy } from '@/systems/Economy';
+import { getConsignmentBidRange, getReservePriceRange, pickConsignmentRivals } from '@/systems/auction-consignment';
+import { formatFeeRate } from '@/systems/auction-fees';
+import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
+import { formatCurrency } from '@/utils/format';
+import { runConsignmentBidding, type ConsignmentBidding } from './consignment-auction';
+import { createStat, createTable } from './garage-report-ui';
+
+/**
+ * Consignment workflow for the Garage scene: pick an auction house and a reserve, then watch
+ * (or skip to the end of) the rivals bidding on the player's car.
+ */
+
+/** A finished consignment auction, as shown to the player. */
+export interface ConsignmentSale {
+  carName: string;
+  houseName: string;
+  reservePrice: number;
+  bidding: ConsignmentBidding;
+  /** The archived record if the car sold, null if it went unsold. */
+  record: PastCarRecord | null;
+  commission: number;
+}
+
+/** Read a price typed by the player ("$12,500" or "12500"); null if it isn't one. */
+function parsePrice(value: string): number | null {
+  const digits = value.replace(/[^0-9]/g, '');
+  if (digits.length === 0) return null;
+  const price = Number.parseInt(digits, 10);
+  return Number.isFinite(price) ? price : null;
+}
+
+function describeBlocker(reason: ConsignmentBlocker, carName: string, range: { min: number; max: number }): string {
+  switch (reason) {
+    case 'in-workshop':
+      return `${carName} is in the workshop. Wait for the job to finish first.`;
+    case 'in-collection':
+      return `${carName} is in your collection. Move it to the garage first.`;
+    case 'listed':
+      return `${carName} is listed for sale. Take it off the market first.`;
+    case 'locked':
+      return 'That auction house needs more prestige before it takes your cars.';
+    case 'invalid-reserve':
+      return `Set a reserve between ${formatCurrency(range.min)} and ${formatCurrency(range.max)} (0 for no reserve).`;
+    case 'no-time':
+      return `Not enough time left today. Consigning a car takes ${getGameConfig().time.consignmentCost} time.`;
+    case 'not-auction':
+    case 'not-owned':
+      return 'That car can no longer be consigned.';
+  }
+}
+
+function describeSaleResult(sale: ConsignmentSale): string {
+  if (!sale.record) {
+    return sale.bidding.winner
+      ? `Bidding stopped at ${formatCurrency(sale.bidding.hammerPrice)}, short of your ${formatCurrency(sale.reservePrice)} reserve. ${sale.carName} comes home unsold.`
+      : `Nobody bid. ${sale.carName} comes home unsold.`;
+  }
+  return (
+    `Sold to ${sale.record.saleChannel} for ${formatCurrency(sale.bidding.hammerPrice)}.\n` +
+    `${sale.houseName} keeps ${formatCurrency(sale.commission)} commission: you take home ${formatCurrency(sale.bidding.hammerPrice - sale.commission)}.`
+  );
+}
+
+function runConsignment(
+  carId: string,
+  location: BaseLocationDefinition,
+  reservePrice: number,
+  gameManager: GameManager
+): ConsignmentSale | ConsignmentBlocker {
+  const car = gameManager.getCar(carId);
+  if (!car) return 'not-owned';
+
+  const { openingBid, maxBid } = getConsignmentBidRange(Economy.getSalePrice(car, gameManager));
+  const rivals = pickConsignmentRivals({
+    car,
+    locationId: location.id,
+    playerPrestige: gameManager.getPlayerState().prestige,
+    day: gameManager.getWorldState().day,
+  });
+  const bidding = runConsignmentBidding({ gameManager, car, rivals, locationId: location.id, openingBid, maxBid });
+
+  gameManager.markUndoPoint(`Consign ${car.name}`);
+  const result = gameManager.settleConsignment(carId, location.id, reservePrice, {
+    hammerPrice: bidding.hammerPrice,
+    buyer: bidding.winner?.rivalName ?? null,
+  });
+  if (!result.ok) return result.reason;
+
+  return {
+    carName: car.name,
+    houseName: location.name,
+    reservePrice,
+    bidding,
+    record: result.record,
+    commission: result.commission,
+  };
+}
+
+/**
+ * Consign a car: choose an auction house, set a reserve, then watch the sale or fast-resolve it.
+ * @param onWatch - Show the bidding as it happens (the sale is already settled)
+ * @param onSettled - Called after a fast-resolved sale
+ */
+export function showConsignCarPrompt(
+  carId: string,
+  context: {
+    gameManager: GameManager;
+    uiManager: UIManager;
+    onWatch: (sale: ConsignmentSale) => void;
+    onSettled: () => void;
+  }
+): void {
+  const { gameManager, uiManager, onWatch, onSettled } = context;
+  const car = gameManager.getCar(carId);
+  if (!car) return;
+
+  const marketValue = Economy.getSalePrice(car, gameManager);
+  const range = getReservePriceRange(marketValue);
+  const { openingBid } = getConsignmentBidRange(marketValue);
+  const config = getGameConfig();
+  const prestige = gameManager.getPlayerState().prestige;
+  const houses = (BASE_LOCATIONS as readonly BaseLocationDefinition[]).filter(
+    (location) => location.type === 'auction' && prestige >= (location.unlockPrestige ?? 0)
+  );
+
+  const precheck = gameManager.canConsignCar(carId, houses[0]?.id ?? '', 0);
+  if (!precheck.ok && precheck.reason !== 'not-auction') {
+    uiManager.showInfo('Cannot Consign', describeBlocker(precheck.reason, car.name, range));
+    return;
+  }
+  if (houses.length === 0) {
+    uiManager.showInfo('Cannot Consign', 'No auction house will take your cars yet. Earn some prestige first.');
+    return;
+  }
+
+  const houseLines = houses.map((location) => {
+    const commission = formatFeeRate(gameManager.getAuctionHouseFees(location.id).sellersCommission);
+    const draws = location.focusTags?.length ? `, draws ${location.focusTags.join('/')} and wishlist collectors` : '';
+    return `• ${location.name} (${commission} commission${draws})`;
+  });
+
+  const chooseReserve = (location: BaseLocationDefinition): void => {
+    uiManager.showTextPrompt(
+      `🔨 Reserve for ${car.name}`,
+      `${location.name} opens bidding at ${formatCurrency(openingBid)}. Market value: ${formatCurrency(marketValue)}.\n` +
+        `Set a reserve up to ${formatCurrency(range.max)} (0 for no reserve). If bidding stops below it, the car comes home unsold.`,
+      (value) => {
+        const reservePrice = parsePrice(value);
+        if (reservePrice === null) {
+          uiManager.showInfo('Invalid Reserve', 'Enter a reserve price in dollars (0 for no reserve).');
+          return;
+        }
+
+        const check = gameManager.canConsignCar(carId, location.id, reservePrice);
+        if (!check.ok) {
+          uiManager.showInfo('Cannot Consign', describeBlocker(check.reason, car.name, range));
+          return;
+        }
+
+        const settle = (watch: boolean): void => {
+          const sale = runConsignment(carId, location, reservePrice, gameManager);
+          if (typeof sale === 'string') {
+            uiManager.showInfo('Cannot Consign', describeBlocker(sale, car.name, range));
+            return;
+          }
+          if (watch) {
+            onWatch(sale);
+            return;
+          }
+          if (sale.record) uiManager.showFloatingMoney(sale.bidding.hammerPrice - sale.commission, true);
+          uiManager.showModal(sale.record ? '🔨 Sold!' : '🔨 Unsold', describeSaleResult(sale), [
+            { text: 'OK', onClick: () => onSettled() },
+          ]);
+        };
+
+        uiManager.showModal(
+          `🔨 ${location.name}`,
+          `${car.name} goes under the hammer with a ${reservePrice > 0 ? `${formatCurrency(reservePrice)} reserve` : 'no reserve'}.\n` +
+            'Watch the rivals bid, or skip straight to the result?',
+          [
+            { text: '👀 Watch', onClick: () => settle(true) },
+            { text: '⏩ Fast-resolve', onClick: () => settle(false) },
+            { text: 'Cancel', onClick: () => {} },
+          ]
+        );
+      },
+      { initialValue: String(Math.min(openingBid, range.max)), maxLength: 12, confirmText: 'Set Reserve' }
+    );
+  };
+
+  uiManager.showModal(
+    `🔨 Consign ${car.name}`,
+    `Let the rivals bid against each other for your car. Market value: ${formatCurrency(marketValue)}.\n` +
+      "The house keeps its seller's commission from the hammer price. " +
+      `Takes ${config.time.consignmentCost} time, sold or not.\n\n` +
+      houseLines.join('\n'),
+    [
+      ...houses.map((location) => ({ text: location.name, onClick: () => chooseReserve(location) })),
+      { text: 'Cancel', onClick: () => {} },
+    ]
+  );
+}
+
+/**
+ * Watch view for a consignment auction: the bids appear one by one, then the result.
+ */
+export function createGarageConsignmentPanel(context: {
+  uiManager: UIManager;
+  sale: ConsignmentSale;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { uiManager, sale, onBack } = context;
+  const { bids } = sale.bidding;
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(820px, calc(100% - 40px))',
+    maxHeight: '80%',
+    overflowY: 'auto',
+  });
+
+  panel.appendChild(uiManager.createHeading(`🔨 ${sale.houseName}`, 2, { textAlign: 'center', color: '#f1c40f' }));
+  panel.appendChild(
+    uiManager.createText(
+      `${sale.carName} · Reserve ${sale.reservePrice > 0 ? formatCurrency(sale.reservePrice) : 'none'} · ` +
+        `${sale.bidding.rivalIds.length} bidder${sale.bidding.rivalIds.length === 1 ? '' : 's'} in the room`,
+      { textAlign: 'center', fontSize: '13px', color: '#bdc3c7' }
+    )
+  );
+
+  const log = document.createElement('div');
+  log.style.cssText = 'margin: 12px 0;';
+  panel.appendChild(log);
+
+  const result = document.createElement('div');
+  panel.appendChild(result);
+
+  const skipButton = uiManager.createButton('⏩ Skip to Result', () => reveal(bids.length), {
+    variant: 'info',
+    style: { width: '100%', marginTop: '10px' },
+  });
+  panel.appendChild(skipButton);
+  panel.appendChild(uiManager.createButton('Back', onBack, { style: { width: '100%', marginTop: '10px' } }));
+
+  let shown = -1;
+  const reveal = (count: number): void => {
+    if (count <= shown) return;
+    shown = count;
+
+    log.replaceChildren(
+      bids.length === 0
+        ? uiManager.createText('The auctioneer asks for an opening bid… silence.', { fontSize: '13px', color: '#95a5a6' })
+        : createTable(
+            ['Bidder', 'Bid'],
+            bids.slice(0, count).map((bid, index) => ({
+              cells: [bid.rivalName, formatCurrency(bid.amount)],
+              colors: [undefined, index === count - 1 ? '#f1c40f' : undefined],
+            }))
+          )
+    );
+    if (count < bids.length) return;
+
+    skipButton.remove();
+    const stats = document.createElement('div');
+    stats.style.cssText = 'display: flex; gap: 8px; margin-bottom: 12px;';
+    stats.append(
+      createStat('Hammer price', sale.bidding.winner ? formatCurrency(sale.bidding.hammerPrice) : '—', '#f1c40f'),
+      createStat('Commission', formatCurrency(sale.commission), '#e74c3c'),
+      createStat('You take home', formatCurrency(sale.record ? sale.bidding.hammerPrice - sale.commission : 0), '#2ecc71')
+    );
+    result.replaceChildren(
+      uiManager.createHeading(sale.record ? '🔨 Sold!' : '🔨 Unsold', 3, { textAlign: 'center', marginBottom: '8px' }),
+      stats,
+      uiManager.createText(describeSaleResult(sale), { fontSize: '13px', color: '#bdc3c7' })
+    );
+  };
+
+  // Play the bids back at auction pace; stop once the player leaves the view.
+  const step = (count: number): void => {
+    if (!panel.isConnected && count > 1) return;
+    reveal(count);
+    if (count < bids.length) {
+      window.setTimeout(() => step(count + 1), GAME_CONFIG.ui.modalDelays.auctionLogLine);
+    }
+  };
+  step(Math.min(1, bids.length));
+
+  return panel;
+}
@@ -0,0 +1,158 @@
+import type { GameManager } from '@/core/game-manager';
+import type { UIManager } from '@/ui/ui-manager';
+import {
+  describeLedgerEntry,
+  summarizeLedgerByCar,
+  summarizeLedgerByDay,
+  type LedgerDaySummary,
+} from '@/core/ledger-summary';
+import { formatCurrency } from '@/utils/format';
+import { createStat, createTable, formatSignedCurrency, moneyColor } from './garage-report-ui';
+
+const CHART_DAYS = 30;
+const MAX_CAR_ROWS = 20;
+const MAX_TRANSACTION_ROWS = 40;
+
+/**
+ * Column chart for one value per day. Signed charts draw from a middle baseline
+ * (green above, red below); unsigned charts grow from the bottom.
+ */
+function createDayChart(
+  days: readonly LedgerDaySummary[],
+  getValue: (day: LedgerDaySummary) => number,
+  options: { signed: boolean; color?: string }
+): HTMLDivElement {
+  const chart = document.createElement('div');
+  chart.style.cssText =
+    'display: flex; align-items: stretch; gap: 2px; height: 110px; padding: 4px; background: rgba(0,0,0,0.25);';
+
+  const maxMagnitude = Math.max(1, ...days.map((day) => Math.abs(getValue(day))));
+  for (const day of days) {
+    const value = getValue(day);
+    const heightPct = (Math.abs(value) / maxMagnitude) * (options.signed ? 50 : 100);
+
+    const column = document.createElement('div');
+    column.style.cssText = 'position: relative; flex: 1 1 0; min-width: 3px;';
+    column.title = `Day ${day.day}: ${options.signed ? formatSignedCurrency(value) : formatCurrency(value)}`;
+
+    const bar = document.createElement('div');
+    const color = options.color ?? moneyColor(value);
+    const anchor = options.signed ? (value >= 0 ? 'bottom: 50%;' : 'top: 50%;') : 'bottom: 0;';
+    bar.style.cssText = `position: absolute; left: 0; right: 0; ${anchor} height: ${heightPct}%; background: ${color};`;
+    column.appendChild(bar);
+    chart.appendChild(column);
+  }
+
+  if (options.signed) {
+    chart.style.position = 'relative';
+    const baseline = document.createElement('div');
+    baseline.style.cssText =
+      'position: absolute; left: 0; right: 0; top: 50%; border-top: 1px solid rgba(255,255,255,0.3); pointer-events: none;';
+    chart.appendChild(baseline);
+  }
+  return chart;
+}
+
+/**
+ * Finances view: run totals, balance and daily net charts, profit per car, and recent transactions,
+ * all derived from the transaction ledger.
+ */
+export function createGarageFinancesPanel(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { gameManager, uiManager, onBack } = context;
+
+  const entries = gameManager.getLedgerEntries();
+  const days = summarizeLedgerByDay(entries);
+  const cars = summarizeLedgerByCar(entries);
+  const balance = gameManager.getPlayerState().money;
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(820px, calc(100% - 40px))',
+    maxHeight: '80%',
+    overflowY: 'auto',
+  });
+
+  panel.appendChild(uiManager.createHeading('📒 Finances', 2, { textAlign: 'center', color: '#2ecc71' }));
+
+  const income = days.reduce((sum, day) => sum + day.income, 0);
+  const expenses = days.reduce((sum, day) => sum + day.expenses, 0);
+  const firstEntry = entries[0];
+  const startingBalance = firstEntry ? firstEntry.balance - (firstEntry.category === 'opening' ? 0 : firstEntry.money) : balance;
+
+  const stats = document.createElement('div');
+  stats.style.cssText = 'display: flex; gap: 8px; margin-bottom: 12px;';
+  stats.append(
+    createStat('Balance', formatCurrency(balance), '#f1c40f'),
+    createStat('Income', formatCurrency(income), '#2ecc71'),
+    createStat('Expenses', formatCurrency(expenses), '#e74c3c'),
+    createStat(`Net since day ${firstEntry?.day ?? 1}`, formatSignedCurrency(balance - startingBalance), moneyColor(balance - startingBalance))
+  );
+  panel.appendChild(stats);
+
+  if (entries.length === 0) {
+    panel.appendChild(
+      uiManager.createText('No transactions recorded yet.', { textAlign: 'center', color: '#95a5a6' })
+    );
+  } else {
+    const recentDays = days.slice(-CHART_DAYS);
+    const rangeLabel =
+      recentDays.length > 1 ? `days ${recentDays[0].day}–${recentDays[recentDays.length - 1].day}` : `day ${recentDays[0].day}`;
+
+    panel.appendChild(uiManager.createHeading(`Balance by day (${rangeLabel})`, 3, { marginBottom: '6px' }));
+    panel.appendChild(createDayChart(recentDays, (day) => day.closingBalance, { signed: false, color: '#f1c40f' }));
+
+    panel.appendChild(uiManager.createHeading('Daily net', 3, { marginBottom: '6px' }));
+    panel.appendChild(createDayChart(recentDays, (day) => day.net, { signed: true }));
+
+    panel.appendChild(uiManager.createHeading('Profit per car', 3, { marginBottom: '6px' }));
+    if (cars.length === 0) {
+      panel.appendChild(uiManager.createText('No cars bought or sold yet.', { fontSize: '13px', color: '#95a5a6' }));
+    } else {
+      panel.appendChild(
+        createTable(
+          ['Car', 'Bought', 'Restoration', 'Sold', 'Profit'],
+          cars.slice(0, MAX_CAR_ROWS).map((car) => ({
+            cells: [
+              car.carName,
+              formatCurrency(car.purchase),
+              formatCurrency(car.restoration),
+              car.sale === null ? 'Owned' : formatCurrency(car.sale),
+              car.profit === null ? '—' : formatSignedCurrency(car.profit),
+            ],
+            colors: [undefined, undefined, undefined, undefined, car.profit === null ? undefined : moneyColor(car.profit)],
+          }))
+        )
+      );
+    }
+
+    panel.appendChild(uiManager.createHeading('Recent transactions', 3, { marginBottom: '6px' }));
+    panel.appendChild(
+      createTable(
+        ['Transaction', 'Day', 'Money', 'Prestige', 'Balance'],
+        entries
+          .slice(-MAX_TRANSACTION_ROWS)
+          .reverse()
+          .map((entry) => ({
+            cells: [
+              describeLedgerEntry(entry),
+              String(entry.day),
+              entry.money === 0 ? '' : formatSignedCurrency(entry.money),
+              entry.prestige === 0 ? '' : `${entry.prestige > 0 ? '+' : ''}${entry.prestige}`,
+              formatCurrency(entry.balance),
+            ],
+            colors: [undefined, undefined, moneyColor(entry.money), entry.prestige < 0 ? '#e74c3c' : '#9b59b6'],
+          }))
+      )
+    );
+  }
+
+  panel.appendChild(uiManager.createButton('Back', onBack, { style: { width: '100%', marginTop: '20px' } }));
+  return panel;
+}
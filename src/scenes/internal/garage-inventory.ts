@@ -3,7 +3,7 @@ import type { GameManager } from '@/core/game-manager';
 import type { UIManager } from '@/ui/ui-manager';
 import type { TutorialManager } from '@/systems/tutorial-manager';
 import { formatCurrency } from '@/utils/format';
-import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
 
 /**
  * Handles car management operations (sell, sell as-is) for the Garage scene.
@@ -39,8 +39,8 @@ export function sellCar(
     'Sell Car',
     `Sell ${car.name} for ${formatCurrency(salePrice)}?`,
     () => {
-      gameManager.addMoney(salePrice);
-      gameManager.removeCar(carId);
+      gameManager.markUndoPoint(`Sell ${car.name}`);
+      gameManager.sellCar(carId, salePrice, { counterpart: 'Private buyer' });
       uiManager.showFloatingMoney(salePrice, true);
 
       tutorialManager.onFirstTutorialCarSold();
@@ -76,15 +76,15 @@ export function sellCarAsIs(
   if (!car) return;
 
   const salePrice = Math.floor(
-    Economy.getSalePrice(car, gameManager) * GAME_CONFIG.economy.sellAsIsMultiplier
+    Economy.getSalePrice(car, gameManager) * getGameConfig().economy.sellAsIsMultiplier
   );
 
   uiManager.confirmAction(
     'Sell As-Is',
     `Quick sell ${car.name} for ${formatCurrency(salePrice)}? (70% Value)`,
     () => {
-      gameManager.addMoney(salePrice);
-      gameManager.removeCar(carId);
+      gameManager.markUndoPoint(`Sell ${car.name} as-is`);
+      gameManager.sellCar(carId, salePrice, { counterpart: 'Quick-sale dealer', note: 'As-is' });
       uiManager.showFloatingMoney(salePrice, true);
       onShowInventory();
     },
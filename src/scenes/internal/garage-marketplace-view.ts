@@ -0,0 +1,292 @@
+import type { GameManager } from '@/core/game-manager';
+import type { BuyerOffer, BuyerOfferKind, CarListing } from '@/core/game-types';
+import type { UIManager } from '@/ui/ui-manager';
+import { Economy } from '@/systems/Economy';
+import { getAskingPriceRange, getSuggestedCounterOffer } from '@/systems/car-marketplace';
+import { formatCurrency } from '@/utils/format';
+import { createStat, createTable } from './garage-report-ui';
+
+const OFFER_KIND_LABELS: Record<BuyerOfferKind, string> = {
+  full: 'Full ask',
+  counter: 'Counter-offer',
+  lowball: 'Lowball',
+};
+
+const OFFER_KIND_COLORS: Record<BuyerOfferKind, string> = {
+  full: '#2ecc71',
+  counter: '#f1c40f',
+  lowball: '#e74c3c',
+};
+
+/** Read a price typed by the player ("$12,500" or "12500"); null if it isn't one. */
+function parsePrice(value: string): number | null {
+  const digits = value.replace(/[^0-9]/g, '');
+  if (digits.length === 0) return null;
+  const price = Number.parseInt(digits, 10);
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+function formatPercentOf(value: number, of: number): string {
+  return of > 0 ? `${Math.round((value / of) * 100)}%` : '—';
+}
+
+/**
+ * Ask for an asking price and list the car (or reprice it if it is already listed).
+ * @param onListed - Called after the car was listed or repriced
+ */
+export function showListCarPrompt(
+  carId: string,
+  context: { gameManager: GameManager; uiManager: UIManager; onListed: () => void }
+): void {
+  const { gameManager, uiManager, onListed } = context;
+  const car = gameManager.getCar(carId);
+  if (!car) return;
+
+  const marketValue = Economy.getSalePrice(car, gameManager);
+  const range = getAskingPriceRange(marketValue);
+  const listing = gameManager.getCarListing(carId);
+
+  uiManager.showTextPrompt(
+    listing ? `🏷 Reprice ${car.name}` : `🏷 List ${car.name}`,
+    `Market value: ${formatCurrency(marketValue)}. Ask between ${formatCurrency(range.min)} and ${formatCurrency(range.max)}.\n` +
+      'Buyers make offers at the end of each day. The higher you ask, the fewer of them bite.',
+    (value) => {
+      const price = parsePrice(value);
+      if (price === null) {
+        uiManager.showInfo('Invalid Price', 'Enter an asking price in dollars.');
+        return;
+      }
+
+      gameManager.markUndoPoint(listing ? `Reprice ${car.name}` : `List ${car.name}`);
+      const result = gameManager.listCarForSale(carId, price);
+      if (!result.ok) {
+        uiManager.showInfo(
+          'Cannot List',
+          result.reason === 'invalid-price'
+            ? `Ask between ${formatCurrency(range.min)} and ${formatCurrency(range.max)}.`
+            : result.reason === 'in-workshop'
+              ? `${car.name} is in the workshop. Wait for the job to finish first.`
+              : result.reason === 'in-collection'
+                ? `${car.name} is in your collection. Move it to the garage first.`
+                : 'That car is no longer yours.'
+        );
+        return;
+      }
+
+      uiManager.showToast(`🏷 ${car.name} listed at ${formatCurrency(result.listing.askingPrice)}`);
+      onListed();
+    },
+    { initialValue: String(listing?.askingPrice ?? marketValue), maxLength: 12, confirmText: listing ? 'Reprice' : 'List' }
+  );
+}
+
+function createOfferActions(
+  listing: CarListing,
+  offer: BuyerOffer,
+  context: { gameManager: GameManager; uiManager: UIManager; onRefresh: () => void }
+): HTMLDivElement {
+  const { gameManager, uiManager, onRefresh } = context;
+  const smallButton = { padding: '4px 10px', fontSize: '12px' };
+
+  const actions = document.createElement('div');
+  actions.style.cssText = 'display: flex; gap: 6px; justify-content: flex-end;';
+
+  actions.appendChild(
+    uiManager.createButton(
+      'Accept',
+      () => {
+        uiManager.confirmAction(
+          'Accept Offer',
+          `Sell ${listing.carName} to ${offer.buyer} for ${formatCurrency(offer.amount)}?`,
+          () => {
+            gameManager.markUndoPoint(`Sell ${listing.carName}`);
+            if (gameManager.acceptBuyerOffer(listing.carId, offer.id)) {
+              uiManager.showFloatingMoney(offer.amount, true);
+            }
+            onRefresh();
+          },
+          () => {},
+          { confirmText: 'Sell', confirmVariant: 'success' }
+        );
+      },
+      { variant: 'success', style: smallButton }
+    )
+  );
+
+  if (offer.kind !== 'full') {
+    actions.appendChild(
+      uiManager.createButton(
+        'Counter',
+        () => {
+          uiManager.showTextPrompt(
+            `Counter ${offer.buyer}`,
+            `${offer.buyer} offered ${formatCurrency(offer.amount)} against your ask of ${formatCurrency(listing.askingPrice)}.\n` +
+              "Name your price. If it's more than they'll pay, they walk away.",
+            (value) => {
+              const price = parsePrice(value);
+              if (price === null) {
+                uiManager.showInfo('Invalid Price', 'Enter a counter-offer in dollars.');
+                return;
+              }
+
+              gameManager.markUndoPoint(`Counter ${offer.buyer}'s offer`);
+              const result = gameManager.counterBuyerOffer(listing.carId, offer.id, price);
+              if (result === 'walked') {
+                uiManager.showToast(`🏷 ${offer.buyer} walked away from ${formatCurrency(price)}`, {
+                  backgroundColor: 'rgba(192, 57, 43, 0.95)',
+                });
+              } else if (result) {
+                uiManager.showToast(`🏷 ${offer.buyer} bought ${listing.carName} for ${formatCurrency(price)}`);
+                uiManager.showFloatingMoney(price, true);
+              }
+              onRefresh();
+            },
+            {
+              initialValue: String(getSuggestedCounterOffer(offer, listing.askingPrice)),
+              maxLength: 12,
+              confirmText: 'Counter',
+            }
+          );
+        },
+        { variant: 'warning', style: smallButton }
+      )
+    );
+  }
+
+  actions.appendChild(
+    uiManager.createButton(
+      'Decline',
+      () => {
+        gameManager.markUndoPoint(`Decline ${offer.buyer}'s offer`);
+        gameManager.declineBuyerOffer(listing.carId, offer.id);
+        onRefresh();
+      },
+      { variant: 'danger', style: smallButton }
+    )
+  );
+  return actions;
+}
+
+/**
+ * Marketplace view: cars listed for sale, each with its asking price and the open offers
+ * from private buyers (accept, counter or decline them).
+ */
+export function createGarageMarketplacePanel(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onRefresh: () => void;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { gameManager, uiManager, onRefresh, onBack } = context;
+
+  const day = gameManager.getWorldState().day;
+  const listings = gameManager.getCarListings();
+  const offers = listings.flatMap((listing) => listing.offers);
+  const bestOffer = offers.reduce((best, offer) => Math.max(best, offer.amount), 0);
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(820px, calc(100% - 40px))',
+    maxHeight: '80%',
+    overflowY: 'auto',
+  });
+
+  panel.appendChild(uiManager.createHeading('🏷 Marketplace', 2, { textAlign: 'center', color: '#f1c40f' }));
+  panel.appendChild(
+    uiManager.createText(
+      'List cars from your garage at an asking price. Private buyers make offers at the end of each day: ' +
+        'ask near market value for a quick sale, or hold out for a buyer who wants it.',
+      { textAlign: 'center', fontSize: '13px', color: '#bdc3c7' }
+    )
+  );
+
+  const stats = document.createElement('div');
+  stats.style.cssText = 'display: flex; gap: 8px; margin-bottom: 12px;';
+  stats.append(
+    createStat('Money', formatCurrency(gameManager.getPlayerState().money), '#f1c40f'),
+    createStat('Cars listed', String(listings.length), '#3498db'),
+    createStat('Open offers', String(offers.length), '#2ecc71'),
+    createStat('Best offer', bestOffer > 0 ? formatCurrency(bestOffer) : '—', '#2ecc71')
+  );
+  panel.appendChild(stats);
+
+  if (listings.length === 0) {
+    panel.appendChild(
+      uiManager.createText('No cars listed. Use 🏷 List for Sale on a car in your garage.', {
+        fontSize: '13px',
+        color: '#95a5a6',
+      })
+    );
+  }
+
+  for (const listing of listings) {
+    const car = gameManager.getCar(listing.carId);
+    const marketValue = car ? Economy.getSalePrice(car, gameManager) : 0;
+    const daysListed = day - listing.listedDay;
+
+    panel.appendChild(uiManager.createHeading(listing.carName, 3, { marginBottom: '4px' }));
+    panel.appendChild(
+      uiManager.createText(
+        `Asking ${formatCurrency(listing.askingPrice)} · Market value ${formatCurrency(marketValue)} ` +
+          `(${formatPercentOf(listing.askingPrice, marketValue)}) · Listed ${daysListed === 0 ? 'today' : `${daysListed}d ago`}`,
+        { fontSize: '13px', color: '#bdc3c7', margin: '0 0 6px 0' }
+      )
+    );
+
+    const listingActions = uiManager.createButtonContainer({ flexDirection: 'row', gap: '8px', marginBottom: '6px' });
+    listingActions.append(
+      uiManager.createButton(
+        'Reprice',
+        () => showListCarPrompt(listing.carId, { gameManager, uiManager, onListed: onRefresh }),
+        { variant: 'info', style: { padding: '4px 10px', fontSize: '12px' } }
+      ),
+      uiManager.createButton(
+        'Take Off Market',
+        () => {
+          gameManager.markUndoPoint(`Delist ${listing.carName}`);
+          gameManager.delistCar(listing.carId);
+          onRefresh();
+        },
+        { variant: 'danger', style: { padding: '4px 10px', fontSize: '12px' } }
+      )
+    );
+    panel.appendChild(listingActions);
+
+    if (listing.offers.length === 0) {
+      panel.appendChild(
+        uiManager.createText('No offers yet.', { fontSize: '13px', color: '#95a5a6', margin: '0 0 10px 0' })
+      );
+      continue;
+    }
+
+    panel.appendChild(
+      createTable(
+        ['Buyer', 'Offer', 'Type', 'Of ask', 'Expires'],
+        listing.offers.map((offer) => ({
+          cells: [
+            offer.buyer,
+            formatCurrency(offer.amount),
+            OFFER_KIND_LABELS[offer.kind],
+            formatPercentOf(offer.amount, listing.askingPrice),
+            offer.expiresDay <= day ? 'Today' : `Day ${offer.expiresDay}`,
+          ],
+          colors: [undefined, undefined, OFFER_KIND_COLORS[offer.kind], undefined, offer.expiresDay <= day ? '#e67e22' : undefined],
+          action: createOfferActions(listing, offer, { gameManager, uiManager, onRefresh }),
+        }))
+      )
+    );
+  }
+
+  panel.appendChild(
+    uiManager.createText(
+      'Counter-offers sell at once if the buyer can stretch that far; otherwise they walk away. Offers lapse after their last day.',
+      { fontSize: '12px', color: '#95a5a6', marginTop: '6px' }
+    )
+  );
+
+  panel.appendChild(uiManager.createButton('Back', onBack, { style: { width: '100%', marginTop: '20px' } }));
+  return panel;
+}
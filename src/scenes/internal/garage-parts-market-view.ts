@@ -0,0 +1,172 @@
+import type { GameManager } from '@/core/game-manager';
+import type { PartListing } from '@/core/game-types';
+import type { UIManager } from '@/ui/ui-manager';
+import type { CarTier } from '@/data/car-database';
+import { getCarPartIds, getPartById, getPartName } from '@/data/parts-database';
+import { getPartsOriginalityLoss } from '@/systems/parts-market';
+import { formatCurrency } from '@/utils/format';
+import { createStat, createTable } from './garage-report-ui';
+
+const TIER_ORDER: readonly CarTier[] = ['Daily Driver', 'Cult Classic', 'Icon', 'Unicorn'];
+
+function formatDelivery(days: number): string {
+  if (days === 0) return 'Today';
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+function compareListings(a: PartListing, b: PartListing): number {
+  const partA = getPartById(a.partId);
+  const partB = getPartById(b.partId);
+  const tierDiff = TIER_ORDER.indexOf(partA?.tier ?? 'Daily Driver') - TIER_ORDER.indexOf(partB?.tier ?? 'Daily Driver');
+  if (tierDiff !== 0) return tierDiff;
+  return getPartName(a.partId).localeCompare(getPartName(b.partId)) || a.price - b.price;
+}
+
+/**
+ * Parts Market view: parts in stock and on order, plus today's listings from the scrapyard,
+ * the marque specialists and rivals clearing out their shelves.
+ */
+export function createGaragePartsMarketPanel(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onRefresh: () => void;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { gameManager, uiManager, onRefresh, onBack } = context;
+
+  const day = gameManager.getWorldState().day;
+  const owned = gameManager.getOwnedParts();
+  const inStock = owned.filter((part) => part.arrivesDay <= day);
+  const onOrder = owned.filter((part) => part.arrivesDay > day);
+  const listings = gameManager.getPartsMarket().sort(compareListings);
+  const neededPartIds = new Set(gameManager.getPlayerState().inventory.flatMap((car) => getCarPartIds(car)));
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(820px, calc(100% - 40px))',
+    maxHeight: '80%',
+    overflowY: 'auto',
+  });
+
+  panel.appendChild(uiManager.createHeading('🔩 Parts Market', 2, { textAlign: 'center', color: '#e67e22' }));
+  panel.appendChild(
+    uiManager.createText(
+      'Every job in the workshop needs its parts in stock before it can be booked. Stock and prices change daily.',
+      { textAlign: 'center', fontSize: '13px', color: '#bdc3c7' }
+    )
+  );
+
+  const stats = document.createElement('div');
+  stats.style.cssText = 'display: flex; gap: 8px; margin-bottom: 12px;';
+  stats.append(
+    createStat('Money', formatCurrency(gameManager.getPlayerState().money), '#f1c40f'),
+    createStat('Parts in stock', String(inStock.length), '#2ecc71'),
+    createStat('On order', String(onOrder.length), '#3498db'),
+    createStat('Listings today', String(listings.filter((listing) => listing.stock > 0).length), '#e67e22')
+  );
+  panel.appendChild(stats);
+
+  panel.appendChild(uiManager.createHeading('Your parts', 3, { marginBottom: '6px' }));
+  if (owned.length === 0) {
+    panel.appendChild(uiManager.createText('No parts in stock or on order.', { fontSize: '13px', color: '#95a5a6' }));
+  } else {
+    panel.appendChild(
+      createTable(
+        ['Part', 'Fits', 'Seller', 'Originality', 'Paid', 'Status'],
+        [...inStock, ...onOrder].map((part) => {
+          const originalityLoss = getPartsOriginalityLoss([part]);
+          return {
+            cells: [
+              getPartName(part.partId),
+              getPartById(part.partId)?.tier ?? '—',
+              part.seller,
+              originalityLoss > 0 ? `−${originalityLoss}` : 'Original',
+              formatCurrency(part.price),
+              part.arrivesDay <= day ? 'In stock' : `Arrives day ${part.arrivesDay}`,
+            ],
+            colors: [
+              undefined,
+              undefined,
+              undefined,
+              originalityLoss > 0 ? '#e74c3c' : '#2ecc71',
+              undefined,
+              part.arrivesDay <= day ? '#2ecc71' : '#3498db',
+            ],
+          };
+        })
+      )
+    );
+  }
+
+  panel.appendChild(uiManager.createHeading("Today's listings", 3, { marginBottom: '6px' }));
+  if (listings.length === 0) {
+    panel.appendChild(uiManager.createText('Nothing for sale today.', { fontSize: '13px', color: '#95a5a6' }));
+  } else {
+    panel.appendChild(
+      createTable(
+        ['Part', 'Fits', 'Rarity', 'Seller', 'Stock', 'Delivery', 'Originality', 'Price'],
+        listings.map((listing) => {
+          const part = getPartById(listing.partId);
+          const soldOut = listing.stock <= 0;
+          const originalityLoss = getPartsOriginalityLoss([listing]);
+          const buyBtn = uiManager.createButton(
+            soldOut ? 'Sold out' : 'Buy',
+            () => {
+              const partName = getPartName(listing.partId);
+              gameManager.markUndoPoint(`Buy ${partName}`);
+              const bought = gameManager.buyPartListing(listing.id);
+              if (!bought) {
+                uiManager.showInsufficientFundsModal();
+                return;
+              }
+              uiManager.showToast(
+                bought.arrivesDay > day
+                  ? `🔩 Ordered ${partName} from ${bought.seller} (arrives day ${bought.arrivesDay})`
+                  : `🔩 Bought ${partName} from ${bought.seller}`
+              );
+              onRefresh();
+            },
+            { variant: soldOut ? 'info' : 'success', style: { padding: '4px 10px', fontSize: '12px' } }
+          );
+          buyBtn.disabled = soldOut;
+
+          return {
+            cells: [
+              `${neededPartIds.has(listing.partId) ? '★ ' : ''}${getPartName(listing.partId)}`,
+              part?.tier ?? '—',
+              part?.rarity ?? '—',
+              listing.seller,
+              String(listing.stock),
+              formatDelivery(listing.deliveryDays),
+              originalityLoss > 0 ? `−${originalityLoss}` : 'Original',
+              formatCurrency(listing.price),
+            ],
+            colors: [
+              neededPartIds.has(listing.partId) ? '#f1c40f' : undefined,
+              undefined,
+              part?.rarity === 'rare' ? '#9b59b6' : part?.rarity === 'scarce' ? '#e67e22' : undefined,
+              undefined,
+              soldOut ? '#e74c3c' : undefined,
+              listing.deliveryDays > 0 ? '#3498db' : undefined,
+              originalityLoss > 0 ? '#e74c3c' : '#2ecc71',
+            ],
+            action: buyBtn,
+          };
+        })
+      )
+    );
+    panel.appendChild(
+      uiManager.createText('★ Fits a car in your garage. Originality: what each part costs the car it is fitted to.', {
+        fontSize: '12px',
+        color: '#95a5a6',
+        marginTop: '6px',
+      })
+    );
+  }
+
+  panel.appendChild(uiManager.createButton('Back', onBack, { style: { width: '100%', marginTop: '20px' } }));
+  return panel;
+}
@@ -0,0 +1,166 @@
+import type { GameManager } from '@/core/game-manager';
+import type { PastCarRecord } from '@/core/game-types';
+import type { UIManager } from '@/ui/ui-manager';
+import {
+  summarizePastCars,
+  summarizePastCarsByTemplate,
+  summarizePastCarsByTier,
+  type PastCarGroupSummary,
+} from '@/core/car-ownership';
+import { formatCurrency } from '@/utils/format';
+import { createStat, createTable, formatSignedCurrency, moneyColor, type ReportTableRow } from './garage-report-ui';
+
+const MAX_MODEL_ROWS = 15;
+const MAX_RECORD_ROWS = 50;
+
+function formatRoi(roi: number | null): string {
+  return roi === null ? '—' : `${roi >= 0 ? '+' : ''}${Math.round(roi * 100)}%`;
+}
+
+function formatDays(days: number | null): string {
+  if (days === null) return '—';
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} day${rounded === 1 ? '' : 's'}`;
+}
+
+function toGroupRow(group: PastCarGroupSummary): ReportTableRow {
+  return {
+    cells: [
+      group.label,
+      String(group.count),
+      group.averageProfit === null ? '—' : formatSignedCurrency(Math.round(group.averageProfit)),
+      formatRoi(group.averageRoi),
+      formatDays(group.averageDaysHeld),
+    ],
+    colors: [undefined, undefined, group.averageProfit === null ? undefined : moneyColor(group.averageProfit)],
+  };
+}
+
+function describeRecord(record: PastCarRecord): string {
+  const lines = [
+    `Acquired: ${record.acquiredDay === null ? 'before records were kept' : `day ${record.acquiredDay}`}${record.acquiredFrom ? ` at ${record.acquiredFrom}` : ''}${record.purchasePrice === null ? '' : ` for ${formatCurrency(record.purchasePrice)}`}`,
+  ];
+
+  if (record.restorations.length === 0) {
+    lines.push('Restoration: none');
+  } else {
+    lines.push(
+      `Restoration: ${formatCurrency(record.restorationSpent)} over ${record.restorations.length} step${record.restorations.length === 1 ? '' : 's'} (${record.challengesCompleted} challenge${record.challengesCompleted === 1 ? '' : 's'})`
+    );
+    for (const step of record.restorations) {
+      const who = step.specialist ? ` by ${step.specialist}` : '';
+      lines.push(
+        `  • Day ${step.day}: ${step.name}${who}, ${formatCurrency(step.cost)}, condition ${step.conditionBefore} → ${step.conditionAfter}`
+      );
+    }
+  }
+
+  lines.push(
+    `Sold: day ${record.soldDay} to ${record.saleChannel} for ${formatCurrency(record.salePrice)} at condition ${record.conditionAtSale}/100 after ${formatDays(record.daysHeld)}`
+  );
+  if (record.profit !== null) {
+    lines.push(`Result: ${formatSignedCurrency(record.profit)} (ROI ${formatRoi(record.roi)})`);
+  }
+  return lines.join('\n');
+}
+
+function createRecordRow(record: PastCarRecord): HTMLDetailsElement {
+  const row = document.createElement('details');
+  row.style.cssText = 'border-bottom: 1px solid rgba(255,255,255,0.08); padding: 4px 0;';
+
+  const summary = document.createElement('summary');
+  summary.style.cssText = 'cursor: pointer; display: flex; gap: 8px; font-size: 13px;';
+
+  const name = document.createElement('span');
+  name.style.cssText = 'flex: 1 1 auto;';
+  name.textContent = `${record.name} · ${record.tier}`;
+
+  const sold = document.createElement('span');
+  sold.style.cssText = 'color: #95a5a6;';
+  sold.textContent = `Day ${record.soldDay} · ${record.saleChannel}`;
+
+  const result = document.createElement('span');
+  result.style.cssText = 'min-width: 140px; text-align: right;';
+  result.textContent =
+    record.profit === null
+      ? formatCurrency(record.salePrice)
+      : `${formatSignedCurrency(record.profit)} (${formatRoi(record.roi)})`;
+  result.style.color = record.profit === null ? '#bdc3c7' : moneyColor(record.profit);
+
+  summary.append(name, sold, result);
+
+  const details = document.createElement('div');
+  details.style.cssText = 'font-size: 12px; color: #bdc3c7; white-space: pre-line; padding: 6px 0 4px 16px;';
+  details.textContent = describeRecord(record);
+
+  row.append(summary, details);
+  return row;
+}
+
+/**
+ * Past Cars archive: every sold car with its ownership record, plus flip results
+ * per tier and per model so players can see what is worth flipping.
+ */
+export function createGaragePastCarsPanel(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { gameManager, uiManager, onBack } = context;
+  const records = gameManager.getPastCars();
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(820px, calc(100% - 40px))',
+    maxHeight: '80%',
+    overflowY: 'auto',
+  });
+
+  panel.appendChild(uiManager.createHeading('🗂 Past Cars', 2, { textAlign: 'center', color: '#3498db' }));
+
+  if (records.length === 0) {
+    panel.appendChild(
+      uiManager.createText('No cars sold yet. Every car you sell is archived here with its full history.', {
+        textAlign: 'center',
+        color: '#95a5a6',
+      })
+    );
+  } else {
+    const overall = summarizePastCars(records);
+    const stats = document.createElement('div');
+    stats.style.cssText = 'display: flex; gap: 8px; margin-bottom: 12px;';
+    stats.append(
+      createStat('Cars sold', String(records.length), '#f1c40f'),
+      createStat('Total profit', formatSignedCurrency(overall.totalProfit), moneyColor(overall.totalProfit)),
+      createStat('Average ROI', formatRoi(overall.averageRoi), overall.averageRoi === null ? '#bdc3c7' : moneyColor(overall.averageRoi)),
+      createStat('Average time held', formatDays(overall.averageDaysHeld), '#bdc3c7')
+    );
+    panel.appendChild(stats);
+
+    const groupColumns = ['Sold', 'Avg profit', 'Avg ROI', 'Avg held'];
+
+    panel.appendChild(uiManager.createHeading('By tier', 3, { marginBottom: '6px' }));
+    panel.appendChild(createTable(['Tier', ...groupColumns], summarizePastCarsByTier(records).map(toGroupRow)));
+
+    panel.appendChild(uiManager.createHeading('By model', 3, { marginBottom: '6px' }));
+    panel.appendChild(
+      createTable(
+        ['Model', ...groupColumns],
+        summarizePastCarsByTemplate(records).slice(0, MAX_MODEL_ROWS).map(toGroupRow)
+      )
+    );
+
+    panel.appendChild(uiManager.createHeading('Sold cars', 3, { marginBottom: '6px' }));
+    const list = document.createElement('div');
+    for (const record of records.slice(-MAX_RECORD_ROWS).reverse()) {
+      list.appendChild(createRecordRow(record));
+    }
+    panel.appendChild(list);
+  }
+
+  panel.appendChild(uiManager.createButton('Back', onBack, { style: { width: '100%', marginTop: '20px' } }));
+  return panel;
+}
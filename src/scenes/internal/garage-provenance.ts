@@ -0,0 +1,102 @@
+import {
+  getFoundProvenanceDocuments,
+  getLostProvenanceDocuments,
+  getProvenanceDocumentLabel,
+  isProvenanceDocumented,
+  PROVENANCE_DOCUMENT_KINDS,
+  type Car,
+} from '@/data/car-database';
+import type { GameManager } from '@/core/game-manager';
+import type { UIManager } from '@/ui/ui-manager';
+import { canResearchProvenance } from '@/systems/car-provenance';
+import { getGameConfig } from '@/config/run-config';
+import type { DeepReadonly } from '@/utils/types';
+
+/**
+ * Provenance workflow for the Garage scene: a car's owners, events and paper trail, and researching them.
+ */
+
+function describeProvenance(car: DeepReadonly<Car>): string {
+  const provenance = car.provenance;
+  if (!provenance) {
+    return "Nobody has looked into this car's history yet. Research it to trace its previous owners and paperwork.";
+  }
+
+  const found = getFoundProvenanceDocuments(car);
+  const lost = getLostProvenanceDocuments(car);
+  let message = 'Previous owners (oldest first):\n';
+  message += provenance.owners.map((owner) => `• ${owner}`).join('\n');
+  if (provenance.events.length > 0) {
+    message += '\n\nNotable events:\n';
+    message += provenance.events.map((event) => `• ${event}`).join('\n');
+  }
+  message += '\n\nDocuments:\n';
+  message += PROVENANCE_DOCUMENT_KINDS.filter((kind) => provenance.documents.some((document) => document.kind === kind))
+    .map((kind) => {
+      const label = getProvenanceDocumentLabel(kind);
+      if (found.includes(kind)) return `✓ ${label}`;
+      if (lost.includes(kind)) return `✗ ${label} (lost)`;
+      return `? ${label} (not traced yet)`;
+    })
+    .join('\n');
+  if (isProvenanceDocumented(car)) {
+    message += '\n\n📜 Documented: the paperwork adds to its value and counts toward the Documented set.';
+  }
+  return message;
+}
+
+/**
+ * Show a car's provenance, with a Research button while the player's Network can trace more.
+ */
+export function showCarProvenance(
+  carId: string,
+  context: { gameManager: GameManager; uiManager: UIManager; onRefresh: () => void }
+): void {
+  const { gameManager, uiManager, onRefresh } = context;
+  const car = gameManager.getCar(carId);
+  if (!car) return;
+
+  const networkLevel = gameManager.getPlayerState().skills.network;
+  const researchCost = getGameConfig().time.provenanceResearchCost;
+  let message = describeProvenance(car);
+
+  const buttons: { text: string; onClick: () => void }[] = [];
+  if (canResearchProvenance(car, networkLevel)) {
+    message += car.provenance
+      ? `\n\nYour Network has grown since the last research (Level ${networkLevel}): dig deeper for ${researchCost} time.`
+      : `\n\nResearch with your Network (Level ${networkLevel}) for ${researchCost} time.`;
+    buttons.push({
+      text: `Research (${researchCost} time)`,
+      onClick: () => {
+        gameManager.markUndoPoint(`Research ${car.name}`);
+        const result = gameManager.researchCarProvenance(carId);
+        if (!result.ok) {
+          uiManager.showInfo(
+            'Cannot Research',
+            result.reason === 'no-time'
+              ? `Not enough time left today. Research takes ${researchCost} time.`
+              : 'There is nothing more your Network can trace right now.'
+          );
+          return;
+        }
+
+        const news: string[] = [];
+        if (result.found.length > 0) news.push(`found ${result.found.map(getProvenanceDocumentLabel).join(', ')}`);
+        if (result.lost.length > 0) news.push(`${result.lost.map(getProvenanceDocumentLabel).join(', ')} lost for good`);
+        uiManager.showToast(
+          news.length > 0
+            ? `📜 ${car.name}: ${news.join(' · ')}${result.documented ? ' · Documented!' : ''}`
+            : `📜 ${car.name}: no paperwork turned up this time`,
+          { backgroundColor: result.found.length > 0 ? 'rgba(39, 174, 96, 0.95)' : 'rgba(96, 125, 139, 0.95)' }
+        );
+        onRefresh();
+        showCarProvenance(carId, context);
+      },
+    });
+  } else if (car.provenance) {
+    message += '\n\nRaise your Network skill to trace more of its history.';
+  }
+  buttons.push({ text: 'Close', onClick: () => {} });
+
+  uiManager.showModal(`📜 Provenance: ${car.name}`, message, buttons);
+}
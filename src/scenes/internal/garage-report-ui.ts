@@ -0,0 +1,81 @@
+import { formatCurrency } from '@/utils/format';
+
+/**
+ * Small building blocks shared by the garage's report views (Finances, Past Cars, Parts Market, Specialists).
+ */
+
+/** Currency with an explicit sign, e.g. "+$1,200" or "-$300". */
+export function formatSignedCurrency(amount: number): string {
+  if (amount === 0) return formatCurrency(0);
+  return `${amount < 0 ? '-' : '+'}${formatCurrency(Math.abs(amount))}`;
+}
+
+/** Green for gains, red for losses, grey for zero. */
+export function moneyColor(amount: number): string {
+  if (amount > 0) return '#2ecc71';
+  if (amount < 0) return '#e74c3c';
+  return '#bdc3c7';
+}
+
+/** Big value with a small label underneath, for a row of headline numbers. */
+export function createStat(label: string, value: string, color: string): HTMLDivElement {
+  const stat = document.createElement('div');
+  stat.style.cssText = 'flex: 1 1 0; background: rgba(0,0,0,0.25); padding: 8px; text-align: center;';
+
+  const valueEl = document.createElement('div');
+  valueEl.style.cssText = `font-size: 18px; font-weight: bold; color: ${color};`;
+  valueEl.textContent = value;
+
+  const labelEl = document.createElement('div');
+  labelEl.style.cssText = 'font-size: 12px; color: #95a5a6;';
+  labelEl.textContent = label;
+
+  stat.append(valueEl, labelEl);
+  return stat;
+}
+
+export interface ReportTableRow {
+  cells: string[];
+  /** Optional text color per cell. */
+  colors?: (string | undefined)[];
+  /** Optional control (e.g. a button) placed in an extra last cell. */
+  action?: HTMLElement;
+}
+
+/**
+ * Plain table: first column left-aligned, the rest right-aligned (numbers).
+ * Rows with an `action` get it in a cell after the last header.
+ */
+export function createTable(headers: readonly string[], rows: readonly ReportTableRow[]): HTMLTableElement {
+  const table = document.createElement('table');
+  table.style.cssText = 'width: 100%; border-collapse: collapse; font-size: 13px;';
+
+  const headRow = document.createElement('tr');
+  headers.forEach((header, index) => {
+    const th = document.createElement('th');
+    th.textContent = header;
+    th.style.cssText = `padding: 4px 6px; color: #95a5a6; border-bottom: 1px solid rgba(255,255,255,0.2); text-align: ${index === 0 ? 'left' : 'right'};`;
+    headRow.appendChild(th);
+  });
+  table.appendChild(headRow);
+
+  for (const row of rows) {
+    const tr = document.createElement('tr');
+    row.cells.forEach((cell, index) => {
+      const td = document.createElement('td');
+      td.textContent = cell;
+      td.style.cssText = `padding: 3px 6px; border-bottom: 1px solid rgba(255,255,255,0.05); text-align: ${index === 0 ? 'left' : 'right'};`;
+      const color = row.colors?.[index];
+      if (color) td.style.color = color;
+      tr.appendChild(td);
+    });
+    if (row.action) {
+      const td = document.createElement('td');
+      td.style.cssText = 'padding: 3px 6px; border-bottom: 1px solid rgba(255,255,255,0.05); text-align: right;';
+      td.appendChild(row.action);
+      tr.appendChild(td);
+    }
+    table.appendChild(tr);
+  }
+  return table;
+}
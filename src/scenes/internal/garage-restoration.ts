@@ -1,17 +1,213 @@
-import type { Car } from '@/data/car-database';
-import { Economy } from '@/systems/Economy';
-import type { GameManager } from '@/core/game-manager';
+import { getCarComponentLabel, CAR_COMPONENTS, type Car } from '@/data/car-database';
+import { Economy, getRestorationSpecialistName, type RestorationOption } from '@/systems/Economy';
+import type { GameManager, RestorationJobResult, RestorationWork } from '@/core/game-manager';
 import type { UIManager } from '@/ui/ui-manager';
 import type { TimeSystem } from '@/systems/time-system';
 import type { TutorialManager } from '@/systems/tutorial-manager';
 import { formatCurrency } from '@/utils/format';
 import { getCharacterPortraitUrlOrPlaceholder } from '@/assets/character-portraits';
+import { getPartName } from '@/data/parts-database';
+import { getPartsOriginalityLoss, planPartsPurchase } from '@/systems/parts-market';
 
 /**
  * Handles restoration workflow logic for the Garage scene.
  * Extracted from GarageScene to reduce file size and improve maintainability.
  */
 
+function formatWorkshopDays(days: number): string {
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : `${value}`;
+}
+
+/** e.g. "Engine +44" or "All components +10". */
+function describeComponentGains(gains: RestorationOption['componentGains']): string {
+  const worked = CAR_COMPONENTS.filter((component) => gains[component] !== undefined);
+  if (worked.length === CAR_COMPONENTS.length && new Set(worked.map((component) => gains[component])).size === 1) {
+    return `All components ${formatSigned(gains[worked[0]] ?? 0)}`;
+  }
+  return worked.map((component) => `${getCarComponentLabel(component)} ${formatSigned(gains[component] ?? 0)}`).join(', ');
+}
+
+function getRequiredParts(work: RestorationWork): string[] {
+  return work.kind === 'challenge' ? work.challenge.requiredParts : work.option.requiredParts;
+}
+
+/**
+ * One line per required part: ticked if it's in stock, otherwise where it can be had today.
+ */
+function describeRequiredParts(requiredParts: readonly string[], gameManager: GameManager): string {
+  if (requiredParts.length === 0) return 'None';
+  const missing = gameManager.getMissingParts(requiredParts);
+  return requiredParts
+    .map((partId) => {
+      const index = missing.indexOf(partId);
+      if (index === -1) return `✓ ${getPartName(partId)}`;
+      missing.splice(index, 1);
+      return `✗ ${getPartName(partId)}`;
+    })
+    .join(', ');
+}
+
+/**
+ * The work needs parts that aren't in stock: offer to buy the cheapest ones delivered today
+ * and book straight away, or send the player to the Parts Market.
+ */
+function showMissingParts(
+  car: Car,
+  work: RestorationWork,
+  context: { gameManager: GameManager; uiManager: UIManager; onShowInventory: () => void; onShowPartsMarket: () => void },
+  onRetry: () => void
+): void {
+  const { gameManager, uiManager, onShowInventory, onShowPartsMarket } = context;
+  const name = work.kind === 'challenge' ? work.challenge.name : work.option.name;
+  const missing = gameManager.getMissingParts(getRequiredParts(work));
+  const plan = planPartsPurchase(gameManager.getPartsMarket(), missing);
+
+  let message = `${name} on your ${car.name} needs parts you don't have in stock:\n\n`;
+  plan.listings.forEach((listing) => {
+    message += `• ${getPartName(listing.partId)}: ${formatCurrency(listing.price)} from ${listing.seller}\n`;
+  });
+  plan.unavailable.forEach((partId) => {
+    message += `• ${getPartName(partId)}: nobody can deliver it today\n`;
+  });
+  const originalityLoss = getPartsOriginalityLoss(plan.listings);
+  if (originalityLoss > 0) {
+    message += `\nNon-original parts: the car loses ${originalityLoss} originality when they are fitted.\n`;
+  }
+  message +=
+    plan.unavailable.length === 0
+      ? `\nBuy them for ${formatCurrency(plan.total)} and book the work now?`
+      : '\nCheck the Parts Market for orders that arrive on a later day, or come back tomorrow when stock changes.';
+
+  const buttons: { text: string; onClick: () => void }[] = [];
+  if (plan.unavailable.length === 0) {
+    buttons.push({
+      text: `Buy Parts (${formatCurrency(plan.total)}) & Book`,
+      onClick: () => {
+        const laborCost = work.kind === 'challenge' ? work.challenge.cost : work.option.cost;
+        if (gameManager.getPlayerState().money < plan.total + laborCost) {
+          uiManager.showInsufficientFundsModal();
+          return;
+        }
+        gameManager.markUndoPoint(`${name} on ${car.name}`);
+        for (const listing of plan.listings) {
+          if (!gameManager.buyPartListing(listing.id)) {
+            uiManager.showInsufficientFundsModal();
+            return;
+          }
+        }
+        onRetry();
+      },
+    });
+  }
+  buttons.push({ text: 'Open Parts Market', onClick: onShowPartsMarket });
+  buttons.push({ text: 'Cancel', onClick: onShowInventory });
+
+  uiManager.showModal('🔩 Parts Needed', message, buttons);
+}
+
+/**
+ * Book work into the workshop, surfacing why it couldn't be booked.
+ * @param onRetry - Run the booking again (after missing parts have been bought)
+ * @returns The booking result, or null if it failed (the reason has been shown)
+ */
+function bookRestorationJob(
+  car: Car,
+  work: RestorationWork,
+  context: { gameManager: GameManager; uiManager: UIManager; onShowInventory: () => void; onShowPartsMarket: () => void },
+  onRetry: () => void,
+  options: { finishToday?: boolean; guaranteedSuccess?: boolean } = {}
+): { completed: RestorationJobResult | null } | null {
+  const { gameManager, uiManager } = context;
+  const timeCost = work.kind === 'challenge' ? work.challenge.timeCost : work.option.timeCost;
+  const name = work.kind === 'challenge' ? work.challenge.name : work.option.name;
+
+  gameManager.markUndoPoint(`${name} on ${car.name}`);
+  const booking = gameManager.startRestorationJob(car.id, work, options);
+  if (booking.ok) return { completed: booking.completed };
+
+  switch (booking.reason) {
+    case 'no-time':
+      uiManager.showOutOfTimeModal({
+        action: work.kind === 'challenge' ? 'for this work' : 'for this restoration',
+        timeRequired: timeCost,
+        timeRemaining: gameManager.getTimeRemaining(),
+      });
+      break;
+    case 'missing-parts':
+      showMissingParts(car, work, context, onRetry);
+      break;
+    case 'no-money':
+      uiManager.showInsufficientFundsModal();
+      break;
+    case 'in-workshop':
+      uiManager.showInfo('In the Workshop', `${car.name} already has work booked in the workshop.`);
+      break;
+    case 'listed':
+      uiManager.showInfo('Listed for Sale', `${car.name} is listed for sale. Take it off the market before booking work.`);
+      break;
+    case 'not-hired':
+      uiManager.showInfo('Contract Expired', `${name} needs a specialist under contract. Hire them from Specialists.`);
+      break;
+    case 'not-owned':
+      break;
+  }
+  return null;
+}
+
+/**
+ * Confirm a booking that will be worked on over the coming days.
+ */
+function showBookedInWorkshop(car: Car, jobName: string, days: number, context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onShowInventory: () => void;
+}): void {
+  const { gameManager, uiManager, onShowInventory } = context;
+  const status = gameManager.getRestorationJobStatus(car.id);
+  const statusText =
+    status?.status === 'waiting'
+      ? `All bays are busy, so it's #${status.queuePosition} in line for the next free bay.`
+      : 'Work starts today.';
+
+  uiManager.showModal(
+    '🔧 Booked into the Workshop',
+    `${jobName} on your ${car.name} needs ${formatWorkshopDays(days)} in the workshop. ${statusText}\n\n` +
+      `Each End Day gives the job a day of work. You can't sell or display the car until it's done.`,
+    [{ text: 'Continue', onClick: onShowInventory }]
+  );
+}
+
+/**
+ * Announce a finished workshop job (at End Day, on a rush, or the tutorial's same-day restoration).
+ */
+export function showRestorationJobResult(result: RestorationJobResult, uiManager: UIManager): void {
+  const originalityText = result.originalityChange ? `\nOriginality ${formatSigned(result.originalityChange)}` : '';
+  if (!result.specialist) {
+    uiManager.showToast(`🔧 ${result.carName}: ${result.message}${originalityText}`, {
+      backgroundColor: 'rgba(52, 152, 219, 0.95)',
+    });
+    return;
+  }
+
+  const backgroundColor = result.success
+    ? (result.originalityChange ?? 0) < 0
+      ? 'rgba(96, 125, 139, 0.95)'
+      : 'rgba(39, 174, 96, 0.95)'
+    : 'rgba(230, 126, 34, 0.95)';
+  const discoveryText = result.discovery
+    ? `\n${result.discovery.name}: ${formatCurrency(Math.abs(result.discovery.valueChange))} value change`
+    : '';
+  uiManager.showCharacterToast(
+    getRestorationSpecialistName(result.specialist),
+    `${result.carName}: ${result.message}${discoveryText}${originalityText}`,
+    { backgroundColor }
+  );
+}
+
 /**
  * Show restoration challenges that must be completed before standard restoration.
  */
@@ -22,22 +218,28 @@ export function showRestorationChallenges(
     gameManager: GameManager;
     uiManager: UIManager;
     timeSystem: TimeSystem;
+    tutorialManager: TutorialManager;
     onShowInventory: () => void;
+    onShowPartsMarket: () => void;
     onRestoreCar: (carId: string) => void;
   }
 ): void {
-  const { gameManager, uiManager, onShowInventory, onRestoreCar } = context;
+  const { gameManager, uiManager, tutorialManager, onShowInventory, onShowPartsMarket, onRestoreCar } = context;
 
   // Build plain text message with proper formatting
   let message = '⚠️ RESTORATION BLOCKED\n\n';
-  message += 'This car requires special treatment before standard restoration can begin.\n\n';
+  message += 'This car requires special treatment before standard restoration can begin.\n';
+  message += 'Book the work into the workshop; the car is ready for restoration once it is done.\n\n';
   message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
 
   challenges.forEach((challenge, index) => {
     message += `${challenge.name}\n`;
     message += `${challenge.description}\n\n`;
-    message += `💰 Cost: ${formatCurrency(challenge.cost)}\n`;
+    message += `💰 Labor: ${formatCurrency(challenge.cost)}\n`;
+    message += `🔩 Parts: ${describeRequiredParts(challenge.requiredParts, gameManager)}`;
+    message += ` (~${formatCurrency(gameManager.estimatePartsCost(challenge.requiredParts))})\n`;
     message += `⏱️ Time: ${challenge.timeCost}\n`;
+    message += `🔧 Workshop: ${formatWorkshopDays(challenge.durationDays)}\n`;
 
     if (index < challenges.length - 1) {
       message += '\n━━━━━━━━━━━━━━━━━━━━━━\n\n';
@@ -46,43 +248,27 @@ export function showRestorationChallenges(
 
   const buttons = challenges.map((challenge) => ({
     text: `Fix: ${challenge.name}`,
-    onClick: () => {
-      if (!gameManager.canSpendTime(challenge.timeCost)) {
-        const remaining = gameManager.getTimeRemaining();
-        uiManager.showOutOfTimeModal({
-          action: 'for this work',
-          timeRequired: challenge.timeCost,
-          timeRemaining: remaining,
-        });
+    onClick: function bookChallenge(): void {
+      // Tutorial: work on the first car finishes today so the first restoration can follow straight away.
+      const finishToday = tutorialManager.shouldForceFirstRestorationSuccess();
+      const booking = bookRestorationJob(
+        car,
+        { kind: 'challenge', challenge },
+        { gameManager, uiManager, onShowInventory, onShowPartsMarket },
+        bookChallenge,
+        { finishToday }
+      );
+      if (!booking) return;
+      if (!booking.completed) {
+        showBookedInWorkshop(car, challenge.name, challenge.durationDays, { gameManager, uiManager, onShowInventory });
         return;
       }
 
-      if (gameManager.spendMoney(challenge.cost)) {
-        if (!gameManager.trySpendTime(challenge.timeCost)) {
-          // Safety: should be unreachable because we just validated canSpendTime.
-          gameManager.addMoney(challenge.cost);
-          const remaining = gameManager.getTimeRemaining();
-          uiManager.showOutOfTimeModal({
-            action: 'for this work',
-            timeRequired: challenge.timeCost,
-            timeRemaining: remaining,
-          });
-          return;
-        }
-        const fixedCar = Economy.completeRestorationChallenge(car, challenge);
-        gameManager.updateCar({
-          ...fixedCar,
-          restorationSpent: (car.restorationSpent ?? 0) + challenge.cost,
-        });
-
-        uiManager.showModal(
-          '✅ Challenge Complete!',
-          `${challenge.name} completed successfully!\n\nThe car is now ready for standard restoration.`,
-          [{ text: 'Continue', onClick: () => onRestoreCar(car.id) }]
-        );
-      } else {
-        uiManager.showInsufficientFundsModal();
-      }
+      uiManager.showModal(
+        '✅ Challenge Complete!',
+        `${challenge.name} completed successfully!\n\nThe car is now ready for standard restoration.`,
+        [{ text: 'Continue', onClick: () => onRestoreCar(car.id) }]
+      );
     },
   }));
 
@@ -105,141 +291,91 @@ export function showRestorationOptions(
     timeSystem: TimeSystem;
     tutorialManager: TutorialManager;
     onShowInventory: () => void;
+    onShowPartsMarket: () => void;
   }
 ): void {
-  const { gameManager, uiManager, tutorialManager, onShowInventory } = context;
+  const { gameManager, uiManager, tutorialManager, onShowInventory, onShowPartsMarket } = context;
 
-  const options = Economy.getRestorationOptions(car);
+  const options = gameManager.getRestorationOptions(car);
 
   // Calculate profit preview for each option
   const currentValue = Economy.getSalePrice(car, gameManager);
 
   const modalOptions = options.map((opt) => {
     // Simulate restoration result
-    const simulatedCar = { ...car, condition: Math.min(100, car.condition + opt.conditionGain) };
+    const simulatedCar = Economy.previewRestoration(car, opt);
     const futureValue = Economy.getSalePrice(simulatedCar, gameManager);
     const valueIncrease = futureValue - currentValue;
-    const netProfit = valueIncrease - opt.cost;
+    const partsCost = gameManager.estimatePartsCost(opt.requiredParts);
+    const netProfit = valueIncrease - opt.cost - partsCost;
 
     return {
       name: opt.name,
-      cost: opt.cost,
-      description: `${opt.description} (Time: ${opt.timeCost})`,
+      cost: opt.cost + partsCost,
+      description:
+        `${opt.description} (Time: ${opt.timeCost} · Workshop: ${formatWorkshopDays(opt.durationDays)} · ` +
+        `Originality ${formatSigned(opt.originalityChange)}) ${describeComponentGains(opt.componentGains)}. ` +
+        `Labor ${formatCurrency(opt.cost)} + parts ~${formatCurrency(partsCost)}: ${describeRequiredParts(opt.requiredParts, gameManager)}`,
       conditionGain: opt.conditionGain,
       valueIncrease,
       netProfit,
       risk: opt.risk,
-      portraitUrl: getCharacterPortraitUrlOrPlaceholder(
-        opt.specialist === 'Charlie' ? 'Cheap Charlie' : 'The Artisan'
-      ),
-      portraitAlt: opt.specialist === 'Charlie' ? 'Cheap Charlie' : 'The Artisan',
-      onClick: () => {
-        if (!gameManager.canSpendTime(opt.timeCost)) {
-          const remaining = gameManager.getTimeRemaining();
-          uiManager.showOutOfTimeModal({
-            action: 'for this restoration',
-            timeRequired: opt.timeCost,
-            timeRemaining: remaining,
-          });
+      portraitUrl: getCharacterPortraitUrlOrPlaceholder(getRestorationSpecialistName(opt.specialist)),
+      portraitAlt: getRestorationSpecialistName(opt.specialist),
+      onClick: function bookRestoration(): void {
+        // Tutorial override: the first restoration finishes today and always succeeds (ignore the specialist's risk)
+        const isTutorialFirstRestore = tutorialManager.shouldForceFirstRestorationSuccess();
+        const booking = bookRestorationJob(
+          car,
+          { kind: 'restoration', option: opt },
+          { gameManager, uiManager, onShowInventory, onShowPartsMarket },
+          bookRestoration,
+          { finishToday: isTutorialFirstRestore, guaranteedSuccess: isTutorialFirstRestore }
+        );
+        if (!booking) return;
+
+        if (!booking.completed) {
+          showBookedInWorkshop(car, opt.name, opt.durationDays, { gameManager, uiManager, onShowInventory });
           return;
         }
 
-        if (gameManager.spendMoney(opt.cost)) {
-          if (!gameManager.trySpendTime(opt.timeCost)) {
-            // Safety: should be unreachable because we just validated canSpendTime.
-            gameManager.addMoney(opt.cost);
-            const remaining = gameManager.getTimeRemaining();
-            uiManager.showOutOfTimeModal({
-              action: 'for this restoration',
-              timeRequired: opt.timeCost,
-              timeRemaining: remaining,
-            });
-            return;
-          }
-          // Tutorial override: first restoration always succeeds (ignore Cheap Charlie risk)
-          const isTutorialFirstRestore = tutorialManager.shouldForceFirstRestorationSuccess();
-          const result = Economy.performRestoration(car, opt, isTutorialFirstRestore);
-          gameManager.updateCar({
-            ...result.car,
-            restorationSpent: (car.restorationSpent ?? 0) + opt.cost,
-          });
-
-          const specialistName = opt.specialist === 'Charlie' ? 'Cheap Charlie' : 'The Artisan';
-          const backgroundColor = result.success
-            ? opt.specialist === 'Charlie'
-              ? 'rgba(96, 125, 139, 0.95)'
-              : 'rgba(39, 174, 96, 0.95)'
-            : 'rgba(230, 126, 34, 0.95)';
-          uiManager.showCharacterToast(specialistName, result.message, { backgroundColor });
-
-          // Show discovery message if found
-          if (result.discovery) {
-            const discoveryIcon = result.discovery.type === 'positive' ? '💎' : '⚠️';
-            const discoveryName = result.discovery.name;
-            const valueChange = result.discovery.valueChange;
-
-            setTimeout(() => {
-              uiManager.showCharacterModal(
-                specialistName,
-                `${discoveryIcon} Hidden Discovery!`,
-                result.message +
-                  `\n\n${discoveryName}\nValue change: ${formatCurrency(Math.abs(valueChange))}`,
+        // Tutorial trigger: advance to first_restore immediately after restoration
+        tutorialManager.onFirstTutorialRestorationCompleted();
+
+        // Tutorial: Auto-sell the first car after restoration
+        if (tutorialManager.shouldAutoSellAfterFirstRestoration()) {
+          onShowInventory();
+          // Auto-trigger the sale
+          setTimeout(() => {
+            const restoredCar = gameManager.getCar(car.id);
+            if (restoredCar) {
+              const salePrice = Economy.getSalePrice(restoredCar, gameManager);
+              uiManager.showModal(
+                'Tutorial: Your First Sale',
+                `An NPC buyer saw your ${restoredCar.name} and wants to buy it immediately for ${formatCurrency(salePrice)}!\n\nThis is how you flip cars for profit: Buy low, restore, sell high.`,
                 [
                   {
-                    text: 'Continue',
+                    text: 'Sell to Buyer',
                     onClick: () => {
-                      onShowInventory();
+                      gameManager.sellCar(car.id, salePrice, { counterpart: 'Tutorial buyer' });
+                      tutorialManager.onFirstTutorialCarSold();
+
+                      // Show next tutorial guidance
+                      setTimeout(() => {
+                        tutorialManager.showDialogueWithCallback(
+                          'Uncle Ray',
+                          `Great work! You've completed your first car deal and made a profit.\n\nNow let's try something more challenging. Click "Explore Map", then visit the Auction House. You'll face competition from other collectors there.`,
+                          onShowInventory
+                        );
+                      }, 300);
                     },
                   },
                 ]
               );
-            }, 300);
-          } else {
-            // Normal restoration result
-            onShowInventory();
-          }
-
-          // Tutorial trigger: advance to first_restore immediately after restoration
-          tutorialManager.onFirstTutorialRestorationCompleted();
-
-          // Tutorial: Auto-sell the first car after restoration
-          if (tutorialManager.shouldAutoSellAfterFirstRestoration()) {
-            onShowInventory();
-            // Auto-trigger the sale
-            setTimeout(() => {
-              const restoredCar = gameManager.getCar(car.id);
-              if (restoredCar) {
-                const salePrice = Economy.getSalePrice(restoredCar, gameManager);
-                uiManager.showModal(
-                  'Tutorial: Your First Sale',
-                  `An NPC buyer saw your ${restoredCar.name} and wants to buy it immediately for ${formatCurrency(salePrice)}!\n\nThis is how you flip cars for profit: Buy low, restore, sell high.`,
-                  [
-                    {
-                      text: 'Sell to Buyer',
-                      onClick: () => {
-                        gameManager.addMoney(salePrice);
-                        gameManager.removeCar(car.id);
-                        tutorialManager.onFirstTutorialCarSold();
-
-                        // Show next tutorial guidance
-                        setTimeout(() => {
-                          tutorialManager.showDialogueWithCallback(
-                            'Uncle Ray',
-                            `Great work! You've completed your first car deal and made a profit.\n\nNow let's try something more challenging. Click "Explore Map", then visit the Auction House. You'll face competition from other collectors there.`,
-                            onShowInventory
-                          );
-                        }, 300);
-                      },
-                    },
-                  ]
-                );
-              }
-            }, 500);
-          } else {
-            onShowInventory();
-          }
+            }
+          }, 500);
         } else {
-          uiManager.showInsufficientFundsModal();
+          onShowInventory();
         }
       },
     };
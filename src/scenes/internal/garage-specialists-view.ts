@@ -0,0 +1,146 @@
+import type { GameManager } from '@/core/game-manager';
+import type { UIManager } from '@/ui/ui-manager';
+import { RestorationSpecialistDatabase, type SpecialistTrade } from '@/data/character-database';
+import { getSpecialistLoyaltyEffects } from '@/systems/Economy';
+import { getGameConfig } from '@/config/run-config';
+import { formatCurrency } from '@/utils/format';
+import { createStat, createTable } from './garage-report-ui';
+
+const TRADE_LABELS: Record<SpecialistTrade, string> = {
+  general: 'General',
+  engine: 'Engine',
+  body: 'Body',
+  paint: 'Paint',
+  interior: 'Interior',
+  electrical: 'Electrical',
+};
+
+function formatSkill(skill: number): string {
+  return '★'.repeat(skill) + '☆'.repeat(Math.max(0, 5 - skill));
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Specialists view: the restoration roster with each specialist's stats, the player's loyalty
+ * with them and their contract, plus hiring and extending contracts.
+ */
+export function createGarageSpecialistsPanel(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onRefresh: () => void;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { gameManager, uiManager, onRefresh, onBack } = context;
+
+  const day = gameManager.getWorldState().day;
+  const restorationConfig = getGameConfig().economy.restoration;
+  const available = RestorationSpecialistDatabase.filter((specialist) =>
+    gameManager.isSpecialistAvailable(specialist.id)
+  );
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(920px, calc(100% - 40px))',
+    maxHeight: '80%',
+    overflowY: 'auto',
+  });
+
+  panel.appendChild(uiManager.createHeading('🧰 Specialists', 2, { textAlign: 'center', color: '#1abc9c' }));
+  panel.appendChild(
+    uiManager.createText(
+      `Freelancers take any job. Trade specialists only work for you under a ${restorationConfig.contractDays}-day contract. ` +
+        `Every finished job builds loyalty: cheaper labor and contracts, and fewer botched jobs.`,
+      { textAlign: 'center', fontSize: '13px', color: '#bdc3c7' }
+    )
+  );
+
+  const stats = document.createElement('div');
+  stats.style.cssText = 'display: flex; gap: 8px; margin-bottom: 12px;';
+  stats.append(
+    createStat('Money', formatCurrency(gameManager.getPlayerState().money), '#f1c40f'),
+    createStat('Taking your work', String(available.length), '#2ecc71'),
+    createStat('Under contract', String(available.filter((specialist) => specialist.contract).length), '#1abc9c')
+  );
+  panel.appendChild(stats);
+
+  panel.appendChild(
+    createTable(
+      ['Specialist', 'Trade', 'Skill', 'Speed', 'Labor', 'Reliability', 'Originality', 'Loyalty', 'Contract'],
+      RestorationSpecialistDatabase.map((specialist) => {
+        const relationship = gameManager.getSpecialistRelationship(specialist.id);
+        const loyalty = getSpecialistLoyaltyEffects(relationship.loyalty);
+        const underContract = !!specialist.contract && gameManager.isSpecialistAvailable(specialist.id);
+        const fee = gameManager.getSpecialistSigningFee(specialist.id);
+
+        let action: HTMLElement | undefined;
+        if (fee !== null) {
+          action = uiManager.createButton(
+            `${underContract ? 'Extend' : 'Hire'} (${formatCurrency(fee)})`,
+            () => {
+              gameManager.markUndoPoint(`${underContract ? 'Extend' : 'Hire'} ${specialist.name}`);
+              const contractEndsDay = gameManager.hireSpecialist(specialist.id);
+              if (contractEndsDay === null) {
+                uiManager.showInsufficientFundsModal();
+                return;
+              }
+              uiManager.showToast(`🧰 ${specialist.name} is under contract until day ${contractEndsDay}`);
+              onRefresh();
+            },
+            { variant: underContract ? 'info' : 'success', style: { padding: '4px 10px', fontSize: '12px' } }
+          );
+        }
+
+        const contractText = !specialist.contract
+          ? 'Freelance'
+          : underContract
+            ? `Until day ${relationship.contractEndsDay}`
+            : relationship.contractEndsDay !== null && relationship.contractEndsDay < day
+              ? 'Expired'
+              : 'Not hired';
+        const originality = specialist.originalityChange;
+
+        return {
+          cells: [
+            specialist.name,
+            TRADE_LABELS[specialist.trade],
+            formatSkill(specialist.skill),
+            `${specialist.durationDays} day${specialist.durationDays === 1 ? '' : 's'}`,
+            formatPercent(specialist.laborRate * (1 - loyalty.laborDiscount)),
+            formatPercent(Math.min(1, specialist.reliability + loyalty.reliabilityBonus)),
+            originality > 0 ? `+${originality}` : String(originality),
+            `${relationship.loyalty} · ${relationship.jobsCompleted} job${relationship.jobsCompleted === 1 ? '' : 's'}`,
+            contractText,
+          ],
+          colors: [
+            undefined,
+            undefined,
+            '#f1c40f',
+            undefined,
+            undefined,
+            specialist.reliability < 0.9 ? '#e67e22' : undefined,
+            originality > 0 ? '#2ecc71' : originality < 0 ? '#e74c3c' : undefined,
+            relationship.loyalty > 0 ? '#1abc9c' : undefined,
+            !specialist.contract || underContract ? '#2ecc71' : '#95a5a6',
+          ],
+          action,
+        };
+      })
+    )
+  );
+  panel.appendChild(
+    uiManager.createText("Labor is a share of the car's base value. Originality is added or removed per job.", {
+      fontSize: '12px',
+      color: '#95a5a6',
+      marginTop: '6px',
+    })
+  );
+
+  panel.appendChild(uiManager.createButton('Back', onBack, { style: { width: '100%', marginTop: '20px' } }));
+  return panel;
+}
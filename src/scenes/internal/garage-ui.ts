@@ -1,4 +1,11 @@
-import type { Car } from '@/data/car-database';
+import {
+  formatCarComponents,
+  formatCarDefectList,
+  formatCarProvenance,
+  getDiscoveredDefects,
+  isProvenanceDocumented,
+  type Car,
+} from '@/data/car-database';
 import { Economy } from '@/systems/Economy';
 import type { GameManager } from '@/core/game-manager';
 import type { UIManager } from '@/ui/ui-manager';
@@ -27,10 +34,25 @@ export function createCarCard(
     onRestore: (carId: string) => void;
     onSell: (carId: string) => void;
     onSellAsIs: (carId: string) => void;
+    onProvenance: (carId: string) => void;
+    onList: (carId: string) => void;
+    onConsign: (carId: string) => void;
+    onShowMarketplace: () => void;
     onRefresh: () => void;
   }
 ): HTMLDivElement {
-  const { gameManager, uiManager, onRestore, onSell, onSellAsIs, onRefresh } = callbacks;
+  const {
+    gameManager,
+    uiManager,
+    onRestore,
+    onSell,
+    onSellAsIs,
+    onProvenance,
+    onList,
+    onConsign,
+    onShowMarketplace,
+    onRefresh,
+  } = callbacks;
 
   const compactButtonStyle: Partial<CSSStyleDeclaration> = {
     padding: '8px 12px',
@@ -52,13 +74,15 @@ export function createCarCard(
 
   const purchasePrice = car.purchasePrice;
   const restorationSpent = car.restorationSpent ?? 0;
+  const heldText =
+    car.acquiredDay === undefined ? '' : ` · Held ${gameManager.getWorldState().day - car.acquiredDay}d`;
   const profitText = (() => {
     if (purchasePrice === undefined) {
-      return `Paid — · Spent ${formatCurrency(restorationSpent)} · Est. profit —`;
+      return `Paid — · Spent ${formatCurrency(restorationSpent)} · Est. profit —${heldText}`;
     }
 
     const profit = Economy.calculateProfit(purchasePrice, restorationSpent, salePrice);
-    return `Paid ${formatCurrency(purchasePrice)} · Spent ${formatCurrency(restorationSpent)} · Est. profit ${formatCurrency(profit)}`;
+    return `Paid ${formatCurrency(purchasePrice)} · Spent ${formatCurrency(restorationSpent)} · Est. profit ${formatCurrency(profit)}${heldText}`;
   })();
 
   const profitMetaText = uiManager.createText(profitText, {
@@ -69,10 +93,39 @@ export function createCarCard(
   });
 
   body.appendChild(metaText);
+  body.appendChild(
+    uiManager.createText(formatCarComponents(car), {
+      margin: '0',
+      fontSize: '12px',
+      lineHeight: '1.35',
+      color: '#bdc3c7',
+    })
+  );
   if (context === 'inventory') {
     body.appendChild(profitMetaText);
   }
 
+  const defects = getDiscoveredDefects(car);
+  if (defects.length > 0) {
+    body.appendChild(
+      uiManager.createText(`⚠ Defects: ${formatCarDefectList(defects)}`, {
+        margin: '4px 0 0 0',
+        fontSize: '12px',
+        lineHeight: '1.35',
+        color: '#e67e22',
+      })
+    );
+  }
+
+  body.appendChild(
+    uiManager.createText(`📜 ${formatCarProvenance(car)}`, {
+      margin: '4px 0 0 0',
+      fontSize: '12px',
+      lineHeight: '1.35',
+      color: isProvenanceDocumented(car) ? '#f1c40f' : '#95a5a6',
+    })
+  );
+
   if (context === 'collection') {
     const carTags = uiManager.createText(`Tags: ${car.tags.join(', ')}`, {
       fontSize: '12px',
@@ -83,7 +136,145 @@ export function createCarCard(
     body.appendChild(carTags);
   }
 
-  if (context === 'inventory') {
+  const workshopJob = context === 'inventory' ? gameManager.getRestorationJob(car.id) : null;
+  const listing = context === 'inventory' ? gameManager.getCarListing(car.id) : null;
+  if (workshopJob) {
+    const status = gameManager.getRestorationJobStatus(car.id);
+    const statusText =
+      status?.status === 'paused'
+        ? 'paused'
+        : status?.status === 'waiting'
+          ? `waiting for a bay (#${status.queuePosition} in line)`
+          : 'in progress';
+    body.appendChild(
+      uiManager.createText(
+        `🔧 In workshop: ${workshopJob.name} · Day ${workshopJob.daysWorked}/${workshopJob.daysRequired} · ${statusText}`,
+        { margin: '4px 0 0 0', fontSize: '12px', lineHeight: '1.35', color: '#3498db' }
+      )
+    );
+
+    const buttonContainer = uiManager.createButtonContainer({
+      marginTop: '10px',
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: '8px',
+    });
+    buttonContainer.classList.add('garage-card-actions');
+
+    buttonContainer.appendChild(
+      uiManager.createButton(
+        workshopJob.paused ? 'Resume Work' : 'Pause Work',
+        () => {
+          gameManager.markUndoPoint(`${workshopJob.paused ? 'Resume' : 'Pause'} work on ${car.name}`);
+          gameManager.setRestorationJobPaused(car.id, !workshopJob.paused);
+          onRefresh();
+        },
+        { style: compactButtonStyle }
+      )
+    );
+
+    const rushCost = gameManager.getRestorationRushCost(car.id) ?? 0;
+    buttonContainer.appendChild(
+      uiManager.createButton(
+        `Rush (${formatCurrency(rushCost)})`,
+        () => {
+          uiManager.confirmAction(
+            '⚡ Rush the Job?',
+            `Pay ${formatCurrency(rushCost)} to finish ${workshopJob.name} on your ${car.name} today?`,
+            () => {
+              gameManager.markUndoPoint(`Rush ${workshopJob.name} on ${car.name}`);
+              if (!gameManager.rushRestorationJob(car.id)) {
+                uiManager.showInsufficientFundsModal();
+                return;
+              }
+              onRefresh();
+            },
+            () => {},
+            { confirmText: 'Rush It', confirmVariant: 'warning', cancelText: 'Keep Waiting' }
+          );
+        },
+        { variant: 'warning', style: compactButtonStyle }
+      )
+    );
+
+    if (workshopJob.daysWorked === 0) {
+      buttonContainer.appendChild(
+        uiManager.createButton(
+          'Cancel Job',
+          () => {
+            gameManager.markUndoPoint(`Cancel ${workshopJob.name} on ${car.name}`);
+            gameManager.cancelRestorationJob(car.id);
+            onRefresh();
+          },
+          { variant: 'danger', style: compactButtonStyle }
+        )
+      );
+    }
+
+    body.appendChild(buttonContainer);
+    body.appendChild(
+      uiManager.createText(
+        workshopJob.daysWorked === 0
+          ? 'Cars in the workshop cannot be sold or displayed. Cancelling before work starts refunds the job.'
+          : 'Cars in the workshop cannot be sold or displayed.',
+        { fontSize: '12px', color: '#95a5a6', fontStyle: 'italic', margin: '6px 0 0 0', lineHeight: '1.35' }
+      )
+    );
+  } else if (listing) {
+    const bestOffer = listing.offers.reduce((best, offer) => Math.max(best, offer.amount), 0);
+    body.appendChild(
+      uiManager.createText(
+        `🏷 Listed at ${formatCurrency(listing.askingPrice)} · ` +
+          (listing.offers.length === 0
+            ? 'no offers yet'
+            : `${listing.offers.length} offer${listing.offers.length === 1 ? '' : 's'} (best ${formatCurrency(bestOffer)})`),
+        { margin: '4px 0 0 0', fontSize: '12px', lineHeight: '1.35', color: '#f1c40f' }
+      )
+    );
+
+    const buttonContainer = uiManager.createButtonContainer({
+      marginTop: '10px',
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: '8px',
+    });
+    buttonContainer.classList.add('garage-card-actions');
+
+    buttonContainer.appendChild(
+      uiManager.createButton(`🏷 Offers (${listing.offers.length})`, onShowMarketplace, {
+        variant: 'success',
+        style: compactButtonStyle,
+      })
+    );
+    buttonContainer.appendChild(
+      uiManager.createButton('Reprice', () => onList(car.id), { variant: 'info', style: compactButtonStyle })
+    );
+    buttonContainer.appendChild(
+      uiManager.createButton(
+        'Take Off Market',
+        () => {
+          gameManager.markUndoPoint(`Delist ${car.name}`);
+          gameManager.delistCar(car.id);
+          onRefresh();
+        },
+        { variant: 'danger', style: compactButtonStyle }
+      )
+    );
+    buttonContainer.appendChild(
+      uiManager.createButton('📜 Provenance', () => onProvenance(car.id), { variant: 'info', style: compactButtonStyle })
+    );
+
+    body.appendChild(buttonContainer);
+    body.appendChild(
+      uiManager.createText('Listed cars cannot be restored, displayed or sold elsewhere. Buyers make offers at the end of each day.', {
+        fontSize: '12px',
+        color: '#95a5a6',
+        fontStyle: 'italic',
+        margin: '6px 0 0 0',
+        lineHeight: '1.35',
+      })
+    );
+  } else if (context === 'inventory') {
     const buttonContainer = uiManager.createButtonContainer({
       marginTop: '10px',
       flexDirection: 'row',
@@ -130,6 +321,15 @@ export function createCarCard(
     });
     buttonContainer.appendChild(sellBtn);
     buttonContainer.appendChild(sellAsIsBtn);
+    buttonContainer.appendChild(
+      uiManager.createButton('🏷 List for Sale', () => onList(car.id), { variant: 'info', style: compactButtonStyle })
+    );
+    buttonContainer.appendChild(
+      uiManager.createButton('🔨 Consign', () => onConsign(car.id), { variant: 'info', style: compactButtonStyle })
+    );
+    buttonContainer.appendChild(
+      uiManager.createButton('📜 Provenance', () => onProvenance(car.id), { variant: 'info', style: compactButtonStyle })
+    );
 
     body.appendChild(buttonContainer);
 
@@ -176,6 +376,9 @@ export function createCarCard(
       { variant: 'danger', style: compactButtonStyle }
     );
     buttonContainer.appendChild(removeBtn);
+    buttonContainer.appendChild(
+      uiManager.createButton('📜 Provenance', () => onProvenance(car.id), { variant: 'info', style: compactButtonStyle })
+    );
 
     body.appendChild(buttonContainer);
   }
@@ -0,0 +1,58 @@
+import type { GameManager } from '@/core/game-manager';
+import type { UIManager } from '@/ui/ui-manager';
+import { getGameConfig } from '@/config/run-config';
+import { formatCurrency } from '@/utils/format';
+
+const MAX_LISTED_POINTS = 8;
+
+/**
+ * Show today's undo points and rewind to the one the player picks.
+ * End of day is the hard checkpoint, so only actions since the day started are listed.
+ */
+export function showRewindDayModal(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onRewound: () => void;
+}): void {
+  const { gameManager, uiManager, onRewound } = context;
+
+  if (!gameManager.isUndoAvailable()) {
+    uiManager.showInfo('Rewind Unavailable', 'Rewinding is not available in this run.');
+    return;
+  }
+
+  const points = gameManager.getUndoHistory();
+  if (points.length === 0) {
+    uiManager.showInfo('Nothing to Rewind', 'You have not done anything yet today.');
+    return;
+  }
+
+  const listed = points.slice(0, MAX_LISTED_POINTS);
+  let message = 'Pick an action to undo. Everything you did after it today is undone too.';
+  if (points.length > listed.length) {
+    message += `\n\nShowing the ${listed.length} most recent of ${points.length} actions.`;
+  }
+
+  const buttons = listed.map((point) => ({
+    text: `↶ ${point.label} (${formatCurrency(point.money)}, ${point.timeRemaining}/${getGameConfig().time.unitsPerDay} time)`,
+    onClick: () => {
+      uiManager.confirmAction(
+        'Rewind?',
+        `Go back to just before "${point.label}"?\n\nYou'll have ${formatCurrency(point.money)}, ${point.carCount} cars and ${point.timeRemaining} time left.`,
+        () => {
+          if (gameManager.rewindTo(point.id)) {
+            uiManager.showToast(`Rewound: ${point.label}`);
+            onRewound();
+          } else {
+            uiManager.showInfo('Rewind Failed', 'That point is no longer available.');
+          }
+        },
+        undefined,
+        { confirmText: 'Rewind', confirmVariant: 'warning' }
+      );
+    },
+  }));
+
+  buttons.push({ text: 'Cancel', onClick: () => {} });
+  uiManager.showModal('↶ Rewind Today', message, buttons);
+}
@@ -0,0 +1,206 @@
+import type { UIManager } from '@/ui/ui-manager';
+import {
+  deleteSaveSlot,
+  duplicateSaveSlot,
+  isSaveSlotPlayable,
+  listSaveSlots,
+  renameSaveSlot,
+  type SaveSlotMetadata,
+} from '@/core/save-slots';
+import { SAVE_VERSION } from '@/core/game-persistence';
+import { getCarImageUrlOrPlaceholder } from '@/assets/car-images';
+import { DIFFICULTY_PRESET_LABELS } from '@/config/run-config';
+import { formatCurrency } from '@/utils/format';
+
+function formatLastPlayed(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function getSlotTitle(slot: SaveSlotMetadata, isActive: boolean): string {
+  let title = slot.mode === 'ironman' ? `☠ ${slot.name}` : slot.name;
+  if (isActive) title += ' (current)';
+  return title;
+}
+
+/**
+ * Load Game screen for the main menu: one card per save slot with a thumbnail,
+ * progress summary, and Load / Rename / Duplicate / Export / Delete actions.
+ * Ironman slots can't be duplicated or exported; archived (ended) runs can't be loaded.
+ * Slot management actions re-render the panel through `onRefresh`.
+ */
+export function createLoadGamePanel(context: {
+  uiManager: UIManager;
+  activeSlotId: string | null;
+  onLoad: (slot: SaveSlotMetadata) => void;
+  onExport: (slot: SaveSlotMetadata) => void;
+  onRefresh: () => void;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { uiManager, activeSlotId, onLoad, onExport, onRefresh, onBack } = context;
+  const slots = listSaveSlots();
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(720px, calc(100% - 40px))',
+    maxHeight: 'calc(100% - 40px)',
+    overflowY: 'auto',
+  });
+
+  const heading = uiManager.createHeading('Load Game', 2, {
+    textAlign: 'center',
+    color: '#f39c12',
+  });
+  panel.appendChild(heading);
+
+  if (slots.length === 0) {
+    panel.appendChild(
+      uiManager.createText('No saved games yet. Start a new game and it will appear here.', {
+        textAlign: 'center',
+        color: '#95a5a6',
+      })
+    );
+  }
+
+  slots.forEach((slot) => {
+    const isActive = slot.id === activeSlotId;
+
+    const card = document.createElement('div');
+    card.style.cssText = `
+        background: rgba(255,255,255,0.05);
+        border: 2px solid ${isActive ? '#f39c12' : 'rgba(100, 200, 255, 0.2)'};
+        padding: 12px;
+        margin-bottom: 10px;
+        display: flex;
+        gap: 12px;
+        align-items: center;
+      `;
+
+    const thumbnail = document.createElement('img');
+    thumbnail.src = getCarImageUrlOrPlaceholder(slot.thumbnailTemplateId);
+    thumbnail.alt = slot.name;
+    thumbnail.style.cssText = 'width: 120px; height: 72px; object-fit: cover; flex: 0 0 auto;';
+    card.appendChild(thumbnail);
+
+    const info = document.createElement('div');
+    info.style.flex = '1 1 auto';
+    info.style.textAlign = 'left';
+
+    const name = uiManager.createText(getSlotTitle(slot, isActive), {
+      fontWeight: 'bold',
+      fontSize: '16px',
+      margin: '0 0 4px 0',
+    });
+    info.appendChild(name);
+
+    const stats = uiManager.createText(
+      `Day ${slot.day} • ${formatCurrency(slot.money)} • ${slot.prestige} Prestige • ${slot.collectionCount} in collection`,
+      { fontSize: '13px', margin: '0 0 4px 0' }
+    );
+    info.appendChild(stats);
+
+    const versionLabel = slot.version === SAVE_VERSION ? `v${slot.version}` : `v${slot.version} (will be upgraded)`;
+    let rulesLabel = DIFFICULTY_PRESET_LABELS[slot.difficulty ?? 'standard'];
+    if (slot.customRules) rulesLabel += ' (custom rules)';
+    const meta = uiManager.createText(`${rulesLabel} • Last played ${formatLastPlayed(slot.lastPlayedAt)} • ${versionLabel}`, {
+      fontSize: '12px',
+      color: '#95a5a6',
+      margin: '0',
+    });
+    info.appendChild(meta);
+
+    if (slot.archived) {
+      info.appendChild(
+        uiManager.createText(`Ironman run over: bankrupt on day ${slot.archived.day}`, {
+          fontSize: '12px',
+          color: '#e74c3c',
+          margin: '4px 0 0 0',
+        })
+      );
+    }
+    card.appendChild(info);
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; gap: 6px; flex: 0 0 auto;';
+
+    const smallButton = { fontSize: '13px', padding: '6px 10px' };
+    const loadBtn = uiManager.createButton('Load', () => onLoad(slot), {
+      variant: 'success',
+      style: { ...smallButton, gridColumn: '1 / -1' },
+    });
+    if (!isSaveSlotPlayable(slot)) {
+      loadBtn.disabled = true;
+      loadBtn.title = 'This Ironman run has ended.';
+    }
+    actions.appendChild(loadBtn);
+    actions.appendChild(
+      uiManager.createButton(
+        'Rename',
+        () => {
+          uiManager.showTextPrompt(
+            'Rename Save',
+            '',
+            (value) => {
+              if (renameSaveSlot(slot.id, value)) onRefresh();
+            },
+            { initialValue: slot.name, maxLength: 40, confirmText: 'Rename' }
+          );
+        },
+        { style: smallButton }
+      )
+    );
+    // Copies of Ironman and archived runs would be reload points (see duplicateSaveSlot).
+    if (slot.mode !== 'ironman' && !slot.archived) {
+      actions.appendChild(
+        uiManager.createButton(
+          'Duplicate',
+          () => {
+            if (duplicateSaveSlot(slot.id)) {
+              onRefresh();
+            } else {
+              uiManager.showInfo('Duplicate Failed', 'This save could not be copied.');
+            }
+          },
+          { style: smallButton }
+        )
+      );
+      actions.appendChild(uiManager.createButton('Export', () => onExport(slot), { style: smallButton }));
+    }
+    actions.appendChild(
+      uiManager.createButton(
+        'Delete',
+        () => {
+          uiManager.confirmAction(
+            'Delete Save?',
+            `Delete "${slot.name}" (Day ${slot.day})?\n\nThis cannot be undone.`,
+            () => {
+              deleteSaveSlot(slot.id);
+              onRefresh();
+            },
+            undefined,
+            { confirmText: 'Delete', confirmVariant: 'danger' }
+          );
+        },
+        { variant: 'danger', style: smallButton }
+      )
+    );
+    card.appendChild(actions);
+
+    panel.appendChild(card);
+  });
+
+  const backBtn = uiManager.createButton('Back', onBack, {
+    style: { width: '100%', marginTop: '10px' },
+  });
+  panel.appendChild(backBtn);
+
+  return panel;
+}
@@ -0,0 +1,323 @@
+import type { UIManager } from '@/ui/ui-manager';
+import {
+  DIFFICULTY_PRESETS,
+  DIFFICULTY_PRESET_LABELS,
+  resolveGameConfig,
+  type DifficultyPreset,
+  type GameConfig,
+  type GameMode,
+  type RunConfigOverrides,
+  type RunSettings,
+} from '@/config/run-config';
+import { formatCurrency } from '@/utils/format';
+
+const PRESET_DESCRIPTIONS: Readonly<Record<DifficultyPreset, string>> = {
+  relaxed: 'More starting cash, cheaper rent, fewer and poorer rivals, and shorter goals. Good for short sessions and demos.',
+  standard: 'The intended balance.',
+  cutthroat: 'Less cash, steeper rent, more and richer rivals, and longer goals. For experienced curators.',
+};
+
+type VictoryKey = keyof GameConfig['victory'];
+
+const VICTORY_FIELDS: readonly { key: VictoryKey; label: string }[] = [
+  { key: 'requiredPrestige', label: 'Prestige goal' },
+  { key: 'requiredUnicorns', label: 'Unicorns goal' },
+  { key: 'requiredCollectionCars', label: 'Collection goal' },
+  { key: 'requiredSkillLevel', label: 'Skill level goal' },
+];
+
+interface NewGameSetupState {
+  mode: GameMode;
+  difficulty: DifficultyPreset;
+  overrides: RunConfigOverrides;
+  customOpen: boolean;
+}
+
+function describeRules(config: GameConfig, mode: GameMode): string {
+  const { victory } = config;
+  const lines = [
+    `Start with ${formatCurrency(config.player.startingMoney)} • Rent from ${formatCurrency(config.economy.rentByGarageSlots[1])}/day • Rivals at ${Math.round(config.encounters.rivalPresenceChance * 100)}% of encounters`,
+    `Goal: ${victory.requiredPrestige} prestige, ${victory.requiredUnicorns} Unicorns and ${victory.requiredCollectionCars} cars in the collection, one skill at level ${victory.requiredSkillLevel}`,
+  ];
+  if (mode === 'ironman') {
+    lines.push('☠ Ironman: every change is saved, there is no reloading or rewinding, rent and rival budgets are higher, and bankruptcy ends the run for good.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Keep only overrides that differ from the preset, so a run stores real deviations
+ * and picks up preset retuning for everything else.
+ */
+function pruneOverrides(overrides: RunConfigOverrides, preset: GameConfig): RunConfigOverrides | undefined {
+  const pruned: RunConfigOverrides = {};
+  if (overrides.startingMoney !== undefined && overrides.startingMoney !== preset.player.startingMoney) {
+    pruned.startingMoney = overrides.startingMoney;
+  }
+  if (
+    overrides.rivalPresenceChance !== undefined &&
+    overrides.rivalPresenceChance !== preset.encounters.rivalPresenceChance
+  ) {
+    pruned.rivalPresenceChance = overrides.rivalPresenceChance;
+  }
+
+  const presetRent = preset.economy.rentByGarageSlots as Record<number, number>;
+  const rent = Object.entries(overrides.rentByGarageSlots ?? {}).filter(
+    ([slots, value]) => value !== undefined && value !== presetRent[Number(slots)]
+  );
+  if (rent.length > 0) {
+    pruned.rentByGarageSlots = Object.fromEntries(rent);
+  }
+
+  const victory = Object.entries(overrides.victory ?? {}).filter(
+    ([key, value]) => value !== undefined && value !== preset.victory[key as VictoryKey]
+  );
+  if (victory.length > 0) {
+    pruned.victory = Object.fromEntries(victory);
+  }
+
+  return Object.keys(pruned).length > 0 ? pruned : undefined;
+}
+
+function createNumberField(
+  label: string,
+  value: number,
+  limits: { min: number; max?: number; step?: number },
+  onChange: (value: number) => void
+): HTMLLabelElement {
+  const field = document.createElement('label');
+  field.style.cssText = 'display: flex; flex-direction: column; gap: 4px; font-size: 13px; text-align: left;';
+  field.textContent = label;
+
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.className = 'game-modal__input';
+  input.style.marginTop = '0';
+  input.style.fontSize = '14px';
+  input.style.padding = '6px 8px';
+  input.min = String(limits.min);
+  if (limits.max !== undefined) input.max = String(limits.max);
+  input.step = String(limits.step ?? 1);
+  input.value = String(value);
+
+  // Keep keystrokes away from Phaser's keyboard handling while typing.
+  input.addEventListener('keydown', (event) => event.stopPropagation());
+  input.addEventListener('change', () => {
+    const parsed = Number(input.value);
+    if (input.value.trim() === '' || !Number.isFinite(parsed)) {
+      input.value = String(value);
+      return;
+    }
+    let next = Math.max(limits.min, Math.round(parsed));
+    if (limits.max !== undefined) next = Math.min(limits.max, next);
+    input.value = String(next);
+    value = next;
+    onChange(next);
+  });
+
+  field.appendChild(input);
+  return field;
+}
+
+/**
+ * New Game screen for the main menu: pick a difficulty preset and game mode,
+ * optionally customize the run's rules, then start. The chosen settings are stored in the save.
+ */
+export function createNewGamePanel(context: {
+  uiManager: UIManager;
+  hasSavedGame: boolean;
+  onStart: (settings: RunSettings) => void;
+  onBack: () => void;
+}): HTMLDivElement {
+  const { uiManager, hasSavedGame, onStart, onBack } = context;
+  const state: NewGameSetupState = { mode: 'standard', difficulty: 'standard', overrides: {}, customOpen: false };
+
+  const panel = uiManager.createPanel({
+    position: 'absolute',
+    top: '50%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    width: 'min(640px, calc(100% - 40px))',
+    maxHeight: 'calc(100% - 40px)',
+    overflowY: 'auto',
+  });
+
+  // Rules shown in the setup screen leave out the Ironman layer; the summary mentions it instead.
+  const getPresetConfig = (): GameConfig => resolveGameConfig({ mode: 'standard', difficulty: state.difficulty });
+  const getRunConfig = (): GameConfig =>
+    resolveGameConfig({ mode: 'standard', difficulty: state.difficulty, overrides: state.overrides });
+
+  const render = (): void => {
+    panel.replaceChildren();
+    const config = getRunConfig();
+
+    panel.appendChild(uiManager.createHeading('New Game', 2, { textAlign: 'center', color: '#f39c12' }));
+    panel.appendChild(
+      uiManager.createText(
+        hasSavedGame
+          ? 'Your new game gets its own save slot; existing saves are kept.'
+          : 'Begin your journey as a car curator.',
+        { textAlign: 'center', color: '#bdc3c7' }
+      )
+    );
+
+    const choiceRow = (): HTMLDivElement => {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; gap: 8px; justify-content: center; margin: 8px 0;';
+      return row;
+    };
+
+    panel.appendChild(uiManager.createText('Difficulty', { fontWeight: 'bold', margin: '12px 0 0 0' }));
+    const presetRow = choiceRow();
+    for (const preset of DIFFICULTY_PRESETS) {
+      const selected = preset === state.difficulty;
+      presetRow.appendChild(
+        uiManager.createButton(
+          selected ? `✓ ${DIFFICULTY_PRESET_LABELS[preset]}` : DIFFICULTY_PRESET_LABELS[preset],
+          () => {
+            state.difficulty = preset;
+            render();
+          },
+          { variant: selected ? 'success' : undefined, style: { flex: '1 1 0' } }
+        )
+      );
+    }
+    panel.appendChild(presetRow);
+    panel.appendChild(
+      uiManager.createText(PRESET_DESCRIPTIONS[state.difficulty], { fontSize: '13px', color: '#95a5a6', margin: '0' })
+    );
+
+    panel.appendChild(uiManager.createText('Mode', { fontWeight: 'bold', margin: '12px 0 0 0' }));
+    const modeRow = choiceRow();
+    const modes: { mode: GameMode; label: string; variant: 'success' | 'danger' }[] = [
+      { mode: 'standard', label: 'Standard', variant: 'success' },
+      { mode: 'ironman', label: '☠ Ironman', variant: 'danger' },
+    ];
+    for (const option of modes) {
+      const selected = option.mode === state.mode;
+      modeRow.appendChild(
+        uiManager.createButton(
+          selected ? `✓ ${option.label}` : option.label,
+          () => {
+            state.mode = option.mode;
+            render();
+          },
+          { variant: selected ? option.variant : undefined, style: { flex: '1 1 0' } }
+        )
+      );
+    }
+    panel.appendChild(modeRow);
+
+    const summary = uiManager.createText(describeRules(config, state.mode), {
+      fontSize: '13px',
+      whiteSpace: 'pre-line',
+      background: 'rgba(0,0,0,0.25)',
+      padding: '8px 10px',
+      margin: '12px 0',
+    });
+    panel.appendChild(summary);
+    const refreshSummary = (): void => {
+      summary.textContent = describeRules(getRunConfig(), state.mode);
+    };
+
+    const custom = document.createElement('details');
+    custom.open = state.customOpen;
+    custom.addEventListener('toggle', () => {
+      state.customOpen = custom.open;
+    });
+    const customTitle = document.createElement('summary');
+    customTitle.textContent = 'Custom rules';
+    customTitle.style.cssText = 'cursor: pointer; font-weight: bold; text-align: left;';
+    custom.appendChild(customTitle);
+
+    const grid = (columns: number): HTMLDivElement => {
+      const element = document.createElement('div');
+      element.style.cssText = `display: grid; grid-template-columns: repeat(${columns}, 1fr); gap: 8px; margin-top: 8px;`;
+      return element;
+    };
+
+    const generalGrid = grid(2);
+    generalGrid.appendChild(
+      createNumberField('Starting money', config.player.startingMoney, { min: 0, step: 500 }, (value) => {
+        state.overrides.startingMoney = value;
+        refreshSummary();
+      })
+    );
+    generalGrid.appendChild(
+      createNumberField(
+        'Rival presence (%)',
+        Math.round(config.encounters.rivalPresenceChance * 100),
+        { min: 0, max: 100 },
+        (value) => {
+          state.overrides.rivalPresenceChance = value / 100;
+          refreshSummary();
+        }
+      )
+    );
+    custom.appendChild(generalGrid);
+
+    const victoryGrid = grid(2);
+    for (const field of VICTORY_FIELDS) {
+      const isSkill = field.key === 'requiredSkillLevel';
+      victoryGrid.appendChild(
+        createNumberField(
+          field.label,
+          config.victory[field.key],
+          { min: isSkill ? 1 : 0, max: isSkill ? config.player.skillProgression.maxLevel : undefined },
+          (value) => {
+            state.overrides.victory = { ...state.overrides.victory, [field.key]: value };
+            refreshSummary();
+          }
+        )
+      );
+    }
+    custom.appendChild(victoryGrid);
+
+    custom.appendChild(
+      uiManager.createText('Daily rent by garage size', { fontSize: '13px', fontWeight: 'bold', margin: '12px 0 0 0' })
+    );
+    const rentGrid = grid(5);
+    const rentTable = config.economy.rentByGarageSlots as Record<number, number>;
+    for (const slots of Object.keys(rentTable).map(Number)) {
+      rentGrid.appendChild(
+        createNumberField(`${slots} slot${slots === 1 ? '' : 's'}`, rentTable[slots], { min: 0, step: 25 }, (value) => {
+          state.overrides.rentByGarageSlots = { ...state.overrides.rentByGarageSlots, [slots]: value };
+          refreshSummary();
+        })
+      );
+    }
+    custom.appendChild(rentGrid);
+
+    custom.appendChild(
+      uiManager.createButton(
+        'Reset to Preset',
+        () => {
+          state.overrides = {};
+          render();
+        },
+        { style: { marginTop: '10px', fontSize: '13px', padding: '6px 10px' } }
+      )
+    );
+    panel.appendChild(custom);
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: flex; gap: 8px; margin-top: 16px;';
+    actions.appendChild(
+      uiManager.createButton(
+        'Start',
+        () =>
+          onStart({
+            mode: state.mode,
+            difficulty: state.difficulty,
+            overrides: pruneOverrides(state.overrides, getPresetConfig()),
+          }),
+        { variant: state.mode === 'ironman' ? 'danger' : 'success', style: { flex: '1 1 0' } }
+      )
+    );
+    actions.appendChild(uiManager.createButton('Back', onBack, { style: { flex: '1 1 0' } }));
+    panel.appendChild(actions);
+  };
+
+  render();
+  return panel;
+}
@@ -155,7 +155,8 @@ export function computeMapLocationCardState(params: {
   offerMap: Record<string, unknown>;
 
   travelCost: number;
-  auctionParticipationCost: number;
+  /** Auction or negotiation participation cost, depending on today's rival presence. */
+  participationCost: number;
 }): MapLocationCardState {
   const {
     node,
@@ -166,7 +167,7 @@ export function computeMapLocationCardState(params: {
     isOnFirstVisitAuctionStep,
     offerMap,
     travelCost,
-    auctionParticipationCost,
+    participationCost,
   } = params;
 
   const isGarage = node.id === 'garage' || node.type === 'garage';
@@ -195,7 +196,7 @@ export function computeMapLocationCardState(params: {
     if (node.specialEvent) return node.specialEvent.timeCost;
     // Tutorial flow currently waives this cost to avoid soft-locks.
     if (isTutorialActive) return 0;
-    return travelCost + auctionParticipationCost;
+    return travelCost + participationCost;
   })();
 
   return { isGarage, isLocked, lockReason, isExhaustedToday, timeCost };
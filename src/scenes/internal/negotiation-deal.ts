@@ -0,0 +1,41 @@
+import type { Car } from '@/data/car-database';
+import type { GameManager } from '@/core/game-manager';
+
+/**
+ * Outcome of settling an agreed negotiation price.
+ * 'garage-full' means the money was refunded and the car forfeited.
+ */
+export type NegotiatedPurchaseResult = 'purchased' | 'cannot-afford' | 'garage-full';
+
+/**
+ * Pay the seller and move the car into the garage.
+ * Shared by NegotiationScene and the headless simulator so both settle deals identically.
+ */
+export function completeNegotiatedPurchase(params: {
+  gameManager: GameManager;
+  car: Car;
+  price: number;
+  sellerName: string;
+  /** Location or event name recorded as where the car came from. */
+  source: string;
+}): NegotiatedPurchaseResult {
+  const { gameManager, car, price, sellerName, source } = params;
+  const ledgerTag = { carId: car.id, carName: car.name };
+
+  if (!gameManager.spendMoney(price, { category: 'purchase', ...ledgerTag, counterpart: sellerName })) {
+    return 'cannot-afford';
+  }
+
+  const purchasedCar: Car = {
+    ...car,
+    purchasePrice: price,
+    restorationSpent: car.restorationSpent ?? 0,
+    acquiredFrom: source,
+  };
+  if (!gameManager.addCar(purchasedCar)) {
+    gameManager.addMoney(price, { category: 'purchase', ...ledgerTag, note: 'Refund: garage full' });
+    return 'garage-full';
+  }
+
+  return 'purchased';
+}
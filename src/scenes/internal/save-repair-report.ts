@@ -0,0 +1,25 @@
+import type { GameManager } from '@/core/game-manager';
+import { formatSaveRepairReport } from '@/core/save-validation';
+import type { UIManager } from '@/ui/ui-manager';
+
+/**
+ * Show what the last load had to repair, if anything.
+ * Safe to call on every scene entry: the report is consumed the first time it is shown.
+ */
+export function showSaveRepairReportIfAny(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+}): void {
+  const { gameManager, uiManager } = context;
+  const report = gameManager.consumeSaveRepairReport();
+  if (!report) return;
+
+  const summary =
+    `${report.repairedCount} value${report.repairedCount === 1 ? '' : 's'} repaired, ` +
+    `${report.droppedCount} dropped.`;
+  uiManager.showInfo(
+    'Save Repaired',
+    `Your save had problems and was repaired so it could load.\n${summary}\n\n${formatSaveRepairReport(report)}`,
+    { okText: 'Continue' }
+  );
+}
@@ -0,0 +1,127 @@
+import type { GameManager } from '@/core/game-manager';
+import type { SavedGameData } from '@/core/game-persistence';
+import {
+  createSaveExportFile,
+  parseSaveImportFile,
+  summarizeSaveDiff,
+  type SaveDiffSummary,
+} from '@/core/save-transfer';
+import { formatSaveRepairReport, hasSaveRepairs } from '@/core/save-validation';
+import type { UIManager } from '@/ui/ui-manager';
+import { formatCurrency } from '@/utils/format';
+import { errorLog } from '@/utils/log';
+
+const MAX_LISTED_CAR_NAMES = 5;
+
+function formatCarNames(names: string[]): string {
+  const listed = names.slice(0, MAX_LISTED_CAR_NAMES).join(', ');
+  const extra = names.length - MAX_LISTED_CAR_NAMES;
+  return extra > 0 ? `${listed} (+${extra} more)` : listed;
+}
+
+function formatSaveDiff(diff: SaveDiffSummary, hasCurrent: boolean): string {
+  if (!hasCurrent) {
+    return (
+      `Day: ${diff.day.incoming}\n` +
+      `Money: ${formatCurrency(diff.money.incoming)}\n` +
+      `Prestige: ${diff.prestige.incoming}\n` +
+      `Cars: ${diff.cars.incoming}`
+    );
+  }
+
+  let text =
+    'Current → Imported\n\n' +
+    `Day: ${diff.day.current} → ${diff.day.incoming}\n` +
+    `Money: ${formatCurrency(diff.money.current)} → ${formatCurrency(diff.money.incoming)}\n` +
+    `Prestige: ${diff.prestige.current} → ${diff.prestige.incoming}\n` +
+    `Cars: ${diff.cars.current} → ${diff.cars.incoming}`;
+
+  if (diff.cars.added.length > 0) {
+    text += `\n  + ${formatCarNames(diff.cars.added)}`;
+  }
+  if (diff.cars.removed.length > 0) {
+    text += `\n  − ${formatCarNames(diff.cars.removed)}`;
+  }
+  return text;
+}
+
+function toFileSlug(label: string): string {
+  const slug = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'save';
+}
+
+/**
+ * Download a save as a portable, checksummed (and, where supported, gzip-compressed) file.
+ */
+export async function exportSaveToFile(context: {
+  uiManager: UIManager;
+  saveData: SavedGameData;
+  label: string;
+}): Promise<void> {
+  const { uiManager, saveData, label } = context;
+
+  try {
+    const contents = await createSaveExportFile(saveData);
+    const filename = `the-curator-${toFileSlug(label)}-day${saveData.world.day}.json`;
+    uiManager.downloadTextFile(filename, contents);
+    uiManager.showToast(`Exported ${filename}`);
+  } catch (error) {
+    errorLog('Failed to export save:', error);
+    uiManager.showInfo('Export Failed', 'Unable to export this save. Check console for details.');
+  }
+}
+
+/**
+ * Pick a save file, validate and migrate it, show what would change, then import it
+ * over the current save or into a new slot.
+ */
+export async function importSaveFromFile(context: {
+  gameManager: GameManager;
+  uiManager: UIManager;
+  onImported: () => void;
+}): Promise<void> {
+  const { gameManager, uiManager, onImported } = context;
+
+  const text = await uiManager.pickTextFile();
+  if (text === null) return;
+
+  const result = await parseSaveImportFile(text);
+  if (!result.ok) {
+    uiManager.showInfo('Import Failed', result.error);
+    return;
+  }
+
+  // An Ironman run is never overwritten: imports always go into a new slot.
+  const canOverwrite = gameManager.getActiveSlotId() !== null && !gameManager.isIronman();
+  const current = canOverwrite ? gameManager.exportSaveData() : null;
+  const diff = summarizeSaveDiff(current, result.saveData);
+
+  const apply = (asNewSlot: boolean): void => {
+    if (gameManager.importSaveData(result.saveData, { asNewSlot })) {
+      onImported();
+    } else {
+      uiManager.showInfo('Import Failed', 'The save was valid but could not be written. Check console for details.');
+    }
+  };
+
+  const buttons = current
+    ? [
+        { text: 'Overwrite Current', onClick: () => apply(false) },
+        { text: 'Import as New Slot', onClick: () => apply(true) },
+        { text: 'Cancel', onClick: () => {} },
+      ]
+    : [
+        { text: 'Import', onClick: () => apply(true) },
+        { text: 'Cancel', onClick: () => {} },
+      ];
+
+  let message = formatSaveDiff(diff, current !== null);
+  if (hasSaveRepairs(result.report)) {
+    message += `\n\nThe file had problems that will be repaired on import:\n${formatSaveRepairReport(result.report, 6)}`;
+  }
+
+  uiManager.showModal(current ? 'Replace Current Save?' : 'Import Save?', message, buttons);
+}
@@ -1,12 +1,16 @@
 import Phaser from 'phaser';
 import { GameManager } from '@/core/game-manager';
 import { UIManager } from '@/ui/ui-manager';
-import { SAVE_KEY } from '@/core/game-persistence';
+import { isSaveSlotPlayable, listSaveSlots, readSaveSlot, type SaveSlotMetadata } from '@/core/save-slots';
+import type { RunSettings } from '@/config/run-config';
+import { createLoadGamePanel } from '@/scenes/internal/main-menu-load-game';
+import { createNewGamePanel } from '@/scenes/internal/main-menu-new-game';
+import { exportSaveToFile, importSaveFromFile } from '@/scenes/internal/save-transfer-flow';
 import { debugLog } from '@/utils/log';
 
 /**
  * Main Menu Scene - Entry point for the game.
- * Presents options for New Game, Continue (Load), and Credits.
+ * Presents options for New Game (difficulty and mode setup), Continue, Load Game (save slot picker), Import Save, and Credits.
  * Separates meta-game actions from gameplay actions.
  */
 export class MainMenuScene extends Phaser.Scene {
@@ -126,8 +130,8 @@ export class MainMenuScene extends Phaser.Scene {
 
       // Load Game button
       const loadBtn = this.uiManager.createButton(
-        'Load Saved Game',
-        () => this.loadGame(),
+        'Load Game',
+        () => this.showLoadGameScreen(),
         {
           style: {
             width: '300px',
@@ -140,6 +144,21 @@ export class MainMenuScene extends Phaser.Scene {
       buttonContainer.appendChild(loadBtn);
     }
 
+    // Import Save button
+    const importBtn = this.uiManager.createButton(
+      'Import Save',
+      () => void this.importSave(),
+      {
+        style: {
+          width: '300px',
+          fontSize: '16px',
+          padding: '10px',
+          backgroundColor: '#2c3e50',
+        }
+      }
+    );
+    buttonContainer.appendChild(importBtn);
+
     // Credits button
     const creditsBtn = this.uiManager.createButton(
       'About',
@@ -174,34 +193,32 @@ export class MainMenuScene extends Phaser.Scene {
 
   private checkForSavedGame(): boolean {
     try {
-      const saved = localStorage.getItem(SAVE_KEY);
-      return saved !== null;
+      return listSaveSlots().length > 0;
     } catch {
       return false;
     }
   }
 
   private startNewGame(): void {
-    this.uiManager.showModal(
-      'Start New Game?',
-      this.hasSavedGame
-        ? 'Starting a new game will not delete your saved game.\n\nYou can return to your saved game from the main menu.'
-        : 'Begin your journey as a car curator?\n\nYou start with $8,000 and a dream.',
-      [
-        {
-          text: 'Start',
-          onClick: () => {
-            this.gameManager.reset();
-            this.scene.start('GarageScene');
-          },
-        },
-        { text: 'Cancel', onClick: () => {} },
-      ]
-    );
+    this.uiManager.clear();
+    const panel = createNewGamePanel({
+      uiManager: this.uiManager,
+      hasSavedGame: this.hasSavedGame,
+      onStart: (settings) => this.beginRun(settings),
+      onBack: () => this.returnToMenu(),
+    });
+    this.uiManager.append(panel);
+  }
+
+  private beginRun(settings: RunSettings): void {
+    this.gameManager.reset(undefined, settings);
+    this.scene.start('GarageScene');
   }
 
   private continueGame(): void {
-    if (this.gameManager.load()) {
+    // Continue resumes the most recently played slot that is still playable.
+    const latest = listSaveSlots().find(isSaveSlotPlayable);
+    if (latest && this.gameManager.load(latest.id)) {
       this.scene.start('GarageScene');
     } else {
       this.uiManager.showModal(
@@ -217,9 +234,57 @@ export class MainMenuScene extends Phaser.Scene {
     }
   }
 
-  private loadGame(): void {
-    // Same as continue, but with explicit feedback
-    this.continueGame();
+  private showLoadGameScreen(): void {
+    this.uiManager.clear();
+    const panel = createLoadGamePanel({
+      uiManager: this.uiManager,
+      activeSlotId: this.gameManager.getActiveSlotId(),
+      onLoad: (slot) => this.loadSlot(slot),
+      onExport: (slot) => this.exportSlot(slot),
+      onRefresh: () => this.showLoadGameScreen(),
+      onBack: () => this.returnToMenu(),
+    });
+    this.uiManager.append(panel);
+  }
+
+  private returnToMenu(): void {
+    this.uiManager.clear();
+    this.hasSavedGame = this.checkForSavedGame();
+    this.setupUI();
+  }
+
+  private exportSlot(slot: SaveSlotMetadata): void {
+    if (slot.mode === 'ironman' || slot.archived) {
+      this.uiManager.showInfo('Export Unavailable', "Ironman runs can't be exported: a copy of the run would be a reload point.");
+      return;
+    }
+    const saveData = readSaveSlot(slot.id);
+    if (!saveData) {
+      this.uiManager.showInfo('Export Failed', `Unable to read "${slot.name}".`);
+      return;
+    }
+    void exportSaveToFile({ uiManager: this.uiManager, saveData, label: slot.name });
+  }
+
+  private async importSave(): Promise<void> {
+    await importSaveFromFile({
+      gameManager: this.gameManager,
+      uiManager: this.uiManager,
+      onImported: () => this.scene.start('GarageScene'),
+    });
+  }
+
+  private loadSlot(slot: SaveSlotMetadata): void {
+    if (this.gameManager.load(slot.id)) {
+      this.gameManager.emitAllStateEvents();
+      this.scene.start('GarageScene');
+      return;
+    }
+
+    this.uiManager.showInfo(
+      'Load Failed',
+      `Unable to load "${slot.name}". The save may be corrupted or from an unsupported version.`
+    );
   }
 
   private showAbout(): void {
@@ -3,10 +3,25 @@ import Phaser from 'phaser';
 import { BaseGameScene } from './base-game-scene';
 import { calculateCarValue, getCarById, getRandomCarForPrestige, type Car } from '@/data/car-database';
 import { calculateRivalInterest, getRivalById } from '@/data/rival-database';
-import { GAME_CONFIG } from '@/config/game-config';
-import { BASE_LOCATIONS, getBaseLocationDefinitionById, type LocationType } from '@/data/location-database';
+import { getGameConfig } from '@/config/run-config';
+import { formatCurrency } from '@/utils/format';
+import { formatFeeRate } from '@/systems/auction-fees';
+import { AUCTION_FORMAT_LABELS, getAuctionFormat } from '@/systems/auction-formats';
+import { getCatalogLotPreview } from '@/systems/auction-catalog';
+import {
+  BASE_LOCATIONS,
+  getBaseLocationDefinitionById,
+  type AuctionFormat,
+  type LocationType,
+} from '@/data/location-database';
 import type { SpecialEvent } from '@/systems/special-events-system';
-import { buildSpecialEventCar, routeRegularEncounter } from '@/systems/map-encounter-router';
+import {
+  buildSpecialEventCar,
+  routeRegularEncounter,
+  routeSpecialEncounter,
+  type RoutedNegotiation,
+} from '@/systems/map-encounter-router';
+import { getMinimumNegotiationOffer } from '@/systems/seller-ai';
 import { computeMapLocationCardState, computeMapLocationVisitGate } from './internal/map-location-card-state';
 
 /**
@@ -35,11 +50,14 @@ export class MapScene extends BaseGameScene {
   private nodes: MapNode[] = [];
   private dashboardContainer: HTMLElement | null = null;
 
-  private getAuctionOpeningBid(car: Car): number {
+  private getMarketEstimate(car: Car): number {
     const baseValue = calculateCarValue(car);
     const marketInfo = this.gameManager.getCarMarketInfo(car.tags);
-    const estimate = Math.floor(baseValue * marketInfo.modifier);
-    return Math.floor(estimate * GAME_CONFIG.auction.startingBidMultiplier);
+    return Math.floor(baseValue * marketInfo.modifier);
+  }
+
+  private getAuctionOpeningBid(car: Car): number {
+    return Math.floor(this.getMarketEstimate(car) * getGameConfig().auction.startingBidMultiplier);
   }
 
   constructor() {
@@ -142,8 +160,10 @@ export class MapScene extends BaseGameScene {
       isOnRedemptionStep: this.tutorialManager.isOnRedemptionStep(),
       isOnFirstVisitAuctionStep: this.tutorialManager.isOnFirstVisitAuctionStep(),
       offerMap: world.carOfferByLocation ?? {},
-      travelCost: GAME_CONFIG.time.travelCost,
-      auctionParticipationCost: GAME_CONFIG.time.auctionParticipationCost,
+      travelCost: getGameConfig().time.travelCost,
+      participationCost: node.hasRival
+        ? getGameConfig().time.auctionParticipationCost
+        : getGameConfig().time.negotiationParticipationCost,
     });
 
     return this.uiManager.createMapLocationCard({
@@ -156,7 +176,7 @@ export class MapScene extends BaseGameScene {
       isLocked: state.isLocked,
       lockReason: state.lockReason,
       isExhaustedToday: state.isExhaustedToday,
-      showRivalBadge: false,
+      showRivalBadge: !isTutorialActive && node.hasRival === true,
       showSpecialBadge: node.type === 'special',
       timeCost: state.timeCost,
       onVisit: () => this.visitNode(node),
@@ -268,7 +288,7 @@ export class MapScene extends BaseGameScene {
     const isFirstVisit = this.gameManager.visitLocation(node.id);
     if (isFirstVisit) {
       setTimeout(() => {
-        const message = `New location discovered! Network +${GAME_CONFIG.player.skillProgression.xpGains.travelNewLocation} XP`;
+        const message = `New location discovered! Network +${getGameConfig().player.skillProgression.xpGains.travelNewLocation} XP`;
         this.uiManager.showModal('Location Discovered', message, [
           { text: 'Continue', onClick: () => {} },
         ]);
@@ -298,7 +318,7 @@ export class MapScene extends BaseGameScene {
           const car =
             getCarById('car_tutorial_rusty_sedan') || getRandomCarForPrestige(player.prestige);
           const rival = getRivalById('scrapyard_joe');
-          const interest = calculateRivalInterest(rival, car.tags);
+          const interest = calculateRivalInterest(rival, car.tags, car.originality);
 
           this.tutorialManager.showDialogueWithCallback(
             'Uncle Ray',
@@ -317,14 +337,14 @@ export class MapScene extends BaseGameScene {
 
               if (beforeTopUp.money < openingBid) {
                 const delta = openingBid - beforeTopUp.money;
-                this.gameManager.addMoney(delta);
+                this.gameManager.addMoney(delta, { category: 'tutorial-aid', counterpart: 'Uncle Ray' });
                 this.uiManager.showToast('Tutorial: Uncle Ray covers the opening bid.');
               }
 
               const afterTopUp = this.gameManager.getPlayerState();
               if (afterTopUp.money < openingBid) {
                 const isTutorialActive = this.tutorialManager.isTutorialActive();
-                const bidIncrement = GAME_CONFIG.auction.bidIncrement;
+                const bidIncrement = getGameConfig().auction.bidIncrement;
                 const minMoneyToBid = openingBid; // Opening bid is all that's required to participate.
                 this.uiManager.showCannotAffordAuctionModal({
                   context: 'map',
@@ -355,7 +375,7 @@ export class MapScene extends BaseGameScene {
           const car =
             getCarById('car_tutorial_muscle_car') || getRandomCarForPrestige(player.prestige);
           const sterlingVance = getRivalById('sterling_vance');
-          const interest = calculateRivalInterest(sterlingVance, car.tags);
+          const interest = calculateRivalInterest(sterlingVance, car.tags, car.originality);
 
           // Show Sterling's dramatic intro dialogue, then start auction
           this.tutorialManager.showDialogueWithCallback(
@@ -371,7 +391,7 @@ export class MapScene extends BaseGameScene {
               }
 
               const openingBid = this.getAuctionOpeningBid(car);
-              const bidIncrement = GAME_CONFIG.auction.bidIncrement;
+              const bidIncrement = getGameConfig().auction.bidIncrement;
               const minMoneyToParticipate = openingBid + bidIncrement;
 
               const beforeTopUp = this.gameManager.getPlayerState();
@@ -380,7 +400,7 @@ export class MapScene extends BaseGameScene {
               // The Auction UI requires at least (opening bid + bid increment) to take an action.
               if (beforeTopUp.money < minMoneyToParticipate) {
                 const delta = minMoneyToParticipate - beforeTopUp.money;
-                this.gameManager.addMoney(delta);
+                this.gameManager.addMoney(delta, { category: 'tutorial-aid', counterpart: 'Uncle Ray' });
                 this.uiManager.showToast('Tutorial: Uncle Ray covers your first bid.');
               }
 
@@ -388,7 +408,7 @@ export class MapScene extends BaseGameScene {
               const afterTopUp = this.gameManager.getPlayerState();
               if (afterTopUp.money < minMoneyToParticipate) {
                 const isTutorialActive = this.tutorialManager.isTutorialActive();
-                const bidIncrement = GAME_CONFIG.auction.bidIncrement;
+                const bidIncrement = getGameConfig().auction.bidIncrement;
                 const minMoneyToBid = openingBid; // Opening bid is all that's required to participate.
                 this.uiManager.showCannotAffordAuctionModal({
                   context: 'map',
@@ -448,20 +468,20 @@ export class MapScene extends BaseGameScene {
               }
 
               const openingBid = this.getAuctionOpeningBid(boxywagon);
-              const minMoneyToParticipate = openingBid + GAME_CONFIG.auction.powerBidIncrement;
+              const minMoneyToParticipate = openingBid + getGameConfig().auction.powerBidIncrement;
               const beforeTopUp = this.gameManager.getPlayerState();
 
               // Tutorial safety: ensure the player can actually follow the prompt and use Power Bid.
               if (beforeTopUp.money < minMoneyToParticipate) {
                 const delta = minMoneyToParticipate - beforeTopUp.money;
-                this.gameManager.addMoney(delta);
+                this.gameManager.addMoney(delta, { category: 'tutorial-aid', counterpart: 'Uncle Ray' });
                 this.uiManager.showToast('Tutorial: Uncle Ray covers your first power bid.');
               }
 
               const afterTopUp = this.gameManager.getPlayerState();
               if (afterTopUp.money < minMoneyToParticipate) {
                 const isTutorialActive = this.tutorialManager.isTutorialActive();
-                const bidIncrement = GAME_CONFIG.auction.bidIncrement;
+                const bidIncrement = getGameConfig().auction.bidIncrement;
                 const minMoneyToBid = openingBid; // Opening bid is all that's required to participate.
                 this.uiManager.showCannotAffordAuctionModal({
                   context: 'map',
@@ -508,11 +528,18 @@ export class MapScene extends BaseGameScene {
     
     const playerPrestige = this.gameManager.getPlayerState().prestige;
     const day = this.gameManager.getWorldState().day;
+    // The tutorial teaches auctions, so it always routes to one.
+    const hasRival = this.tutorialManager.isTutorialActive() || this.gameManager.hasRivalAtLocation(node.id);
+    // Auction houses sell a catalog of lots; tutorial auctions stay single cars.
+    const lots =
+      hasRival && !this.tutorialManager.isTutorialActive() ? this.gameManager.getAuctionCatalogForLocation(node.id) : [car];
     const routed = routeRegularEncounter({
       locationId: node.id,
       car,
       playerPrestige,
       day,
+      hasRival,
+      lots,
     });
 
     if (!this.hasGarageSpace()) {
@@ -523,15 +550,36 @@ export class MapScene extends BaseGameScene {
       return;
     }
 
+    if (routed.kind === 'negotiation') {
+      this.showNegotiationStartModal(node, routed);
+      return;
+    }
+
     const rivals = routed.sceneData.rivals;
     const rivalryLabel =
       rivals.length === 1
         ? `Competition: ${rivals[0].rival.name}`
         : `Competition: ${rivals.length} rival bidders`;
 
+    // House fees don't apply to tutorial auctions.
+    const fees = this.tutorialManager.isTutorialActive() ? null : this.gameManager.getAuctionHouseFees(node.id);
+    const feeLines = fees
+      ? [
+          fees.entryFee > 0 ? `Entry fee: ${formatCurrency(fees.entryFee)}` : null,
+          fees.buyersPremium > 0 ? `Buyer's premium: ${formatFeeRate(fees.buyersPremium)} of the winning bid` : null,
+        ].filter((line): line is string => line !== null)
+      : [];
+    const feeText = feeLines.length > 0 ? `\n\n${feeLines.join('\n')}` : '';
+    const format = this.tutorialManager.isTutorialActive() ? 'english' : getAuctionFormat({ locationId: node.id });
+    const formatText = format === 'english' ? '' : `\n\n${this.describeAuctionFormat(format)}`;
+    const auctionDay = routed.sceneData.auctionDay;
+    const lotsText = auctionDay
+      ? `Today's catalog (${auctionDay.lots.length} lots, same bidders all day):\n${this.describeCatalog(auctionDay.lots)}`
+      : `Up for bid today:\n${car.name}`;
+
     this.uiManager.showModal(
-      'Auction Starting',
-      `You arrive at ${node.name}.\n\nUp for bid today:\n${car.name}\n\n${rivalryLabel}`,
+      auctionDay ? 'Auction Day' : 'Auction Starting',
+      `You arrive at ${node.name}.\n\n${lotsText}\n\n${rivalryLabel}${formatText}${feeText}`,
       [
         {
           text: 'Start Auction',
@@ -547,8 +595,8 @@ export class MapScene extends BaseGameScene {
             // Time gating: only applies to normal gameplay (not tutorial, not special events).
             // For base-location auctions, charge travel + auction participation.
             const isTutorialActive = this.tutorialManager.isTutorialActive();
-            const travelCost = isTutorialActive ? 0 : GAME_CONFIG.time.travelCost;
-            const auctionCost = isTutorialActive ? 0 : GAME_CONFIG.time.auctionParticipationCost;
+            const travelCost = isTutorialActive ? 0 : getGameConfig().time.travelCost;
+            const auctionCost = isTutorialActive ? 0 : getGameConfig().time.auctionParticipationCost;
             const totalTimeCost = travelCost + auctionCost;
 
             if (totalTimeCost > 0 && !this.gameManager.canSpendTime(totalTimeCost)) {
@@ -562,13 +610,16 @@ export class MapScene extends BaseGameScene {
             }
 
             const player = this.gameManager.getPlayerState();
-            const openingBid = this.getAuctionOpeningBid(car);
-            if (player.money < openingBid) {
-              const bidIncrement = GAME_CONFIG.auction.bidIncrement;
+            // At an auction day, being able to bid on any one lot is enough.
+            const openingBid = Math.min(...(auctionDay?.lots ?? [car]).map((lot) => this.getAuctionOpeningBid(lot)));
+            const entryFee = fees?.entryFee ?? 0;
+            if (player.money < openingBid + entryFee) {
+              const bidIncrement = getGameConfig().auction.bidIncrement;
               const minMoneyToBid = openingBid; // Opening bid is all that's required to participate.
               this.uiManager.showCannotAffordAuctionModal({
                 context: 'map',
                 openingBid,
+                entryFee,
                 playerMoney: player.money,
                 isTutorialActive,
                 bidIncrement,
@@ -581,6 +632,7 @@ export class MapScene extends BaseGameScene {
               return;
             }
 
+            this.gameManager.markUndoPoint(`Travel to ${node.name}`);
             if (totalTimeCost > 0) {
               if (!this.gameManager.trySpendTime(totalTimeCost)) {
                 const remaining = this.gameManager.getTimeRemaining();
@@ -592,6 +644,55 @@ export class MapScene extends BaseGameScene {
                 return;
               }
             }
+            if (entryFee > 0) this.gameManager.payAuctionEntryFee(node.id);
+            this.applyArrivalEffects(node);
+            this.scene.start(routed.sceneKey, routed.sceneData);
+          },
+        },
+      ]
+    );
+  }
+
+  private showNegotiationStartModal(node: MapNode, routed: RoutedNegotiation): void {
+    const { car, seller } = routed.sceneData;
+
+    this.uiManager.showModal(
+      'Private Sale',
+      `You arrive at ${node.name}. No rivals around today.\n\nFor sale by ${seller.name}:\n${car.name}\n\nMake an offer and haggle over the price.`,
+      [
+        {
+          text: 'Start Negotiation',
+          onClick: () => {
+            if (!this.hasGarageSpace()) {
+              this.uiManager.showGarageFullGate({
+                primary: { text: 'Go to Garage', onClick: () => this.scene.start('GarageScene') },
+                secondary: { text: 'Stay Here', onClick: () => {} },
+              });
+              return;
+            }
+
+            const totalTimeCost =
+              getGameConfig().time.travelCost + getGameConfig().time.negotiationParticipationCost;
+            if (totalTimeCost > 0 && !this.gameManager.canSpendTime(totalTimeCost)) {
+              this.uiManager.showOutOfTimeModal({
+                action: 'to go out and negotiate',
+                timeRequired: totalTimeCost,
+                timeRemaining: this.gameManager.getTimeRemaining(),
+              });
+              return;
+            }
+
+            if (!this.canAffordNegotiation(car)) return;
+
+            this.gameManager.markUndoPoint(`Travel to ${node.name}`);
+            if (totalTimeCost > 0 && !this.gameManager.trySpendTime(totalTimeCost)) {
+              this.uiManager.showOutOfTimeModal({
+                action: 'to go out and negotiate',
+                timeRequired: totalTimeCost,
+                timeRemaining: this.gameManager.getTimeRemaining(),
+              });
+              return;
+            }
             this.applyArrivalEffects(node);
             this.scene.start(routed.sceneKey, routed.sceneData);
           },
@@ -600,11 +701,23 @@ export class MapScene extends BaseGameScene {
     );
   }
 
+  /** Sellers won't discuss offers below a minimum; don't start a negotiation the player can't take part in. */
+  private canAffordNegotiation(car: Car): boolean {
+    const minimumOffer = getMinimumNegotiationOffer(this.getMarketEstimate(car));
+    const money = this.gameManager.getPlayerState().money;
+    if (money >= minimumOffer) return true;
+
+    this.uiManager.showInfo(
+      'Not Enough Money',
+      `The seller won't discuss offers below ${formatCurrency(minimumOffer)}.\n\nYour money: ${formatCurrency(money)}`
+    );
+    return false;
+  }
+
   private generateSpecialEncounter(specialEvent: SpecialEvent): void {
     const player = this.gameManager.getPlayerState();
     const car = buildSpecialEventCar(specialEvent, player.prestige);
 
-    // Special events are also auctions.
     if (!this.hasGarageSpace()) {
       this.uiManager.showGarageFullGate({
         primary: { text: 'Go to Garage', onClick: () => this.scene.start('GarageScene') },
@@ -613,21 +726,26 @@ export class MapScene extends BaseGameScene {
       return;
     }
 
-    const playerPrestige = this.gameManager.getPlayerState().prestige;
-    const day = this.gameManager.getWorldState().day;
-    const routed = routeRegularEncounter({
-      locationId: specialEvent.id,
+    const routed = routeSpecialEncounter({
+      specialEvent,
       car,
-      playerPrestige,
-      day,
+      playerPrestige: player.prestige,
+      day: this.gameManager.getWorldState().day,
     });
 
+    const isAuction = routed.kind === 'auction';
+    const body =
+      routed.kind === 'auction'
+        ? `Up for bid:\n${car.name}\n\nCompetition: ${routed.sceneData.rivals.length} rival bidder${routed.sceneData.rivals.length === 1 ? '' : 's'}\n\n` +
+          this.describeAuctionFormat(getAuctionFormat({ specialEvent }))
+        : `For sale by ${routed.sceneData.seller.name}:\n${car.name}\n\nNo rivals: it's you and the seller.`;
+
     this.uiManager.showModal(
       specialEvent.name,
-      `${specialEvent.description}\n\nUp for bid:\n${car.name}\n\nCompetition: ${routed.sceneData.rivals.length} rival bidders`,
+      `${specialEvent.description}\n\n${body}`,
       [
         {
-          text: 'Start Special Auction',
+          text: isAuction ? 'Start Auction' : 'Start Negotiation',
           onClick: () => {
             if (!this.hasGarageSpace()) {
               this.uiManager.showGarageFullGate({
@@ -647,27 +765,27 @@ export class MapScene extends BaseGameScene {
               return;
             }
 
-            const player = this.gameManager.getPlayerState();
-            const openingBid = this.getAuctionOpeningBid(car);
-            if (player.money < openingBid) {
-              const isTutorialActive = this.tutorialManager.isTutorialActive();
-              const bidIncrement = GAME_CONFIG.auction.bidIncrement;
-              const minMoneyToBid = openingBid; // Opening bid is all that's required to participate.
-              this.uiManager.showCannotAffordAuctionModal({
-                context: 'map',
-                openingBid,
-                playerMoney: player.money,
-                isTutorialActive,
-                bidIncrement,
-                minMoneyToBid,
-                onGoToGarage: () => this.scene.start('GarageScene'),
-                onSkipTutorial: () => {
-                  setTimeout(() => this.tutorialManager.requestSkipTutorialPrompt(), 0);
-                },
-              });
+            if (isAuction) {
+              const openingBid = this.getAuctionOpeningBid(car);
+              const money = this.gameManager.getPlayerState().money;
+              if (money < openingBid) {
+                this.uiManager.showCannotAffordAuctionModal({
+                  context: 'map',
+                  openingBid,
+                  playerMoney: money,
+                  isTutorialActive: false,
+                  bidIncrement: getGameConfig().auction.bidIncrement,
+                  minMoneyToBid: openingBid,
+                  onGoToGarage: () => this.scene.start('GarageScene'),
+                  onSkipTutorial: () => {},
+                });
+                return;
+              }
+            } else if (!this.canAffordNegotiation(car)) {
               return;
             }
 
+            this.gameManager.markUndoPoint(`Attend ${specialEvent.name}`);
             if (!this.gameManager.trySpendTime(specialEvent.timeCost)) {
               const remaining = this.gameManager.getTimeRemaining();
               this.uiManager.showOutOfTimeModal({
@@ -680,13 +798,51 @@ export class MapScene extends BaseGameScene {
 
             // Remove the event since it's been started/completed.
             this.gameManager.removeSpecialEvent(specialEvent.id);
-            this.scene.start('AuctionScene', { ...routed.sceneData, specialEvent });
+            this.scene.start(routed.sceneKey, routed.sceneData);
           },
         },
       ]
     );
   }
 
+  /**
+   * The catalog's lots as the player's Eye reads them, with a hint at what the next Eye level would show.
+   */
+  private describeCatalog(lots: readonly Car[]): string {
+    const eyeLevel = this.gameManager.getPlayerState().skills.eye;
+    const lines = lots.map((lot, index) => {
+      const preview = getCatalogLotPreview(lot, { eyeLevel, estimate: this.getMarketEstimate(lot) });
+      const details = [
+        preview.condition !== null ? `Condition ${preview.condition}/100` : null,
+        preview.estimate !== null ? `Est. ${formatCurrency(preview.estimate)}` : null,
+        preview.hiddenDefects !== null
+          ? preview.hiddenDefects > 0
+            ? `${preview.hiddenDefects} hidden problem${preview.hiddenDefects === 1 ? '' : 's'}`
+            : 'No hidden problems'
+          : null,
+      ].filter((detail): detail is string => detail !== null);
+      return `Lot ${index + 1}: ${preview.name} (${preview.tier})${details.length > 0 ? ` · ${details.join(' · ')}` : ''}`;
+    });
+
+    const required = getGameConfig().auction.catalog.previewEyeLevel;
+    const nextDetail = [
+      { level: required.condition, label: 'condition' },
+      { level: required.estimate, label: 'estimate' },
+      { level: required.hiddenDefects, label: 'hidden problems' },
+    ]
+      .filter((detail) => detail.level > eyeLevel)
+      .sort((a, b) => a.level - b.level)[0];
+    if (nextDetail) lines.push(`(Eye ${nextDetail.level} reads each lot's ${nextDetail.label}.)`);
+
+    return lines.join('\n');
+  }
+
+  /** The "Format: …" lines of an auction start modal. */
+  private describeAuctionFormat(format: AuctionFormat): string {
+    const label = AUCTION_FORMAT_LABELS[format];
+    return `Format: ${label.name}\n${label.description}`;
+  }
+
   private hasGarageSpace(): boolean {
     return this.gameManager.hasGarageSpace();
   }
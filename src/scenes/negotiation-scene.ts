@@ -0,0 +1,691 @@
+import Phaser from 'phaser';
+import { debugLog } from '@/utils/log';
+import { BaseGameScene } from './base-game-scene';
+import {
+  Car,
+  calculateCarValue,
+  discoverCarDefects,
+  formatCarDefectList,
+  getDiscoveredDefects,
+  getUndiscoveredDefects,
+} from '@/data/car-database';
+import { getSellerLine, getSellerMoodModifiers, type Seller, type SellerLineTrigger } from '@/data/seller-database';
+import { BASE_LOCATIONS } from '@/data/location-database';
+import {
+  SellerAI,
+  getNegotiationFlaws,
+  type NegotiationFlaw,
+  type NegotiationTactic,
+  type SellerResponse,
+} from '@/systems/seller-ai';
+import { inspectCar } from '@/systems/car-inspection';
+import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
+import { formatCurrency } from '@/utils/format';
+import type { SpecialEvent } from '@/systems/special-events-system';
+import {
+  createEncounterCenteredLayoutRoot,
+  createEncounterLogPanel,
+  createEncounterTwoColGrid,
+  disableEncounterActionButton,
+  ensureEncounterLayoutStyles,
+  formatEncounterNeedLabel,
+  type EncounterLogEntry,
+} from '@/ui/internal/ui-encounter';
+import { createCarCardPreset } from '@/ui/internal/ui-car-card';
+import { completeNegotiatedPurchase } from './internal/negotiation-deal';
+
+type NegotiationLogKind = 'player' | 'seller' | 'system';
+
+const TACTIC_LABELS: Readonly<Record<NegotiationTactic, { name: string; effect: string }>> = {
+  smallTalk: { name: 'Small Talk', effect: 'Restore patience' },
+  cashOnTheTable: { name: 'Cash on the Table', effect: 'Lower their floor' },
+  bluffWalkOut: { name: 'Bluff Walk-Out', effect: 'Big drop, costs patience' },
+};
+
+/**
+ * Negotiation Scene - Solo encounter with a private seller (no rival present).
+ * The player trades offers with a SellerAI, uses Tongue tactics, and points out
+ * flaws (Eye) to argue the price down. Inspecting the car (costs time) can reveal
+ * hidden defects to point out. The seller walks if pushed too far.
+ */
+export class NegotiationScene extends BaseGameScene {
+  private car!: Car;
+  private seller!: Seller;
+  private sellerAI!: SellerAI;
+  private flaws: NegotiationFlaw[] = [];
+  private locationId?: string;
+  private specialEvent?: SpecialEvent;
+  private specialEventBonusesApplied: boolean = false;
+  private marketEstimate: number = 0;
+  private draftOffer: number = 0;
+  private lastOffer?: number;
+  private inspected: boolean = false;
+  private encounterStarted: boolean = false;
+  private negotiationResolved: boolean = false;
+  private logEntries: Array<EncounterLogEntry<NegotiationLogKind>> = [];
+
+  constructor() {
+    super({ key: 'NegotiationScene' });
+  }
+
+  init(data: { car: Car; seller: Seller; locationId?: string; specialEvent?: SpecialEvent }): void {
+    // This scene instance is reused; reset all transient state.
+    this.car = data.car;
+    this.seller = data.seller;
+    this.locationId = data.locationId;
+    this.specialEvent = data.specialEvent;
+    this.specialEventBonusesApplied = false;
+    this.flaws = getNegotiationFlaws(this.car);
+    this.marketEstimate = 0;
+    this.draftOffer = 0;
+    this.lastOffer = undefined;
+    this.inspected = false;
+    this.encounterStarted = false;
+    this.negotiationResolved = false;
+    this.logEntries = [];
+  }
+
+  create(): void {
+    debugLog('Negotiation Scene: Loaded');
+
+    this.initializeManagers('negotiation');
+
+    const marketInfo = this.gameManager.getCarMarketInfo(this.car.tags);
+    this.marketEstimate = Math.floor(calculateCarValue(this.car) * marketInfo.modifier);
+    this.sellerAI = new SellerAI(this.seller, this.marketEstimate);
+    this.draftOffer = this.clampDraftOffer(this.marketEstimate * 0.8);
+
+    // Defensive guard: entry points (e.g., MapScene) should prevent this.
+    if (!this.gameManager.hasGarageSpace()) {
+      this.uiManager.showGarageFullGate({
+        message: 'Your garage is full. Sell or scrap a car before buying another.',
+        primary: { text: 'Go to Garage', onClick: () => this.scene.start('GarageScene') },
+        secondary: { text: 'Back to Map', onClick: () => this.scene.start('MapScene') },
+      });
+      return;
+    }
+
+    this.encounterStarted = true;
+
+    this.setupBackground('PRIVATE SALE', {
+      topColor: 0x1e3a2f,
+      bottomColor: 0x0f1f19,
+      titleSize: '42px',
+      titleColor: '#2ecc71',
+    });
+
+    this.addLog('system', `${this.seller.name} ${getSellerMoodModifiers(this.seller.mood).description}.`);
+    this.addSellerLine('greeting');
+    this.addLog('seller', `Asking: ${formatCurrency(this.sellerAI.getAsk())}`);
+
+    this.setupUI();
+    this.setupCommonEventListeners();
+
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      this.logEntries = [];
+    });
+  }
+
+  private setupUI(): void {
+    this.resetUIWithHUD();
+
+    const player = this.gameManager.getPlayerState();
+    const sellerAI = this.sellerAI;
+    const isOpen = !this.negotiationResolved && !sellerAI.hasWalkedAway();
+
+    ensureEncounterLayoutStyles({
+      styleId: 'negotiationLayoutStyles',
+      rootClass: 'negotiation-layout',
+      topClass: 'negotiation-layout__main',
+      bottomClass: 'negotiation-layout__main',
+    });
+
+    const layoutRoot = createEncounterCenteredLayoutRoot('negotiation-layout');
+    Object.assign(layoutRoot.style, {
+      top: '64px',
+      transform: 'translate(-50%, 0)',
+      maxHeight: 'calc(100% - 84px)',
+    } satisfies Partial<CSSStyleDeclaration>);
+
+    const mainGrid = createEncounterTwoColGrid('negotiation-layout__main');
+
+    // LEFT: car card + flaws
+    const leftCol = document.createElement('div');
+    Object.assign(leftCol.style, {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '10px',
+      minWidth: '0',
+    } satisfies Partial<CSSStyleDeclaration>);
+
+    const { panel: carPanel, body: carCardBody } = createCarCardPreset(this.car, 'standard');
+    carCardBody.appendChild(
+      this.uiManager.createText(
+        `Tier: ${this.car.tier} · Cond ${Math.round(this.car.condition)}/100 · Estimate ${formatCurrency(this.marketEstimate)}`,
+        { margin: '0', fontSize: '13px', lineHeight: '1.35', opacity: '0.95' }
+      )
+    );
+    const foundDefects = getDiscoveredDefects(this.car);
+    if (foundDefects.length > 0) {
+      carCardBody.appendChild(
+        this.uiManager.createText(
+          `⚠ Found: ${formatCarDefectList(foundDefects)} · Worth ~${formatCurrency(this.getValueEstimate(this.car))}`,
+          { margin: '4px 0 0 0', fontSize: '12px', lineHeight: '1.35', color: '#e67e22' }
+        )
+      );
+    }
+    leftCol.appendChild(carPanel);
+    leftCol.appendChild(this.createFlawsPanel(player.skills.eye, isOpen));
+
+    // RIGHT: seller + offer controls + log
+    const rightCol = document.createElement('div');
+    Object.assign(rightCol.style, {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '10px',
+      minWidth: '0',
+    } satisfies Partial<CSSStyleDeclaration>);
+
+    rightCol.appendChild(this.createSellerPanel());
+    rightCol.appendChild(this.createOfferPanel(player.money, player.skills.tongue, isOpen));
+    rightCol.appendChild(
+      createEncounterLogPanel(
+        {
+          createPanel: (options) => this.uiManager.createPanel(options),
+          createHeading: (text, level, style) => this.uiManager.createHeading(text, level, style),
+        },
+        {
+          title: 'Negotiation Log',
+          entries: this.logEntries,
+          getStyle: (kind) =>
+            kind === 'player'
+              ? { color: '#3498db', fontWeight: '800' }
+              : kind === 'seller'
+                ? { color: '#2ecc71', fontWeight: '800' }
+                : { color: '#f39c12' },
+          maxHeight: '200px',
+          newestFirst: true,
+        }
+      )
+    );
+
+    mainGrid.appendChild(leftCol);
+    mainGrid.appendChild(rightCol);
+    layoutRoot.appendChild(mainGrid);
+    this.uiManager.append(layoutRoot);
+  }
+
+  private createSellerPanel(): HTMLDivElement {
+    const sellerAI = this.sellerAI;
+    const panel = this.uiManager.createPanel({ padding: '10px 12px' });
+
+    panel.appendChild(this.uiManager.createHeading(this.seller.name, 3, { margin: '0 0 4px 0', textAlign: 'left' }));
+    panel.appendChild(
+      this.uiManager.createText(`Mood: ${this.seller.mood} · ${getSellerMoodModifiers(this.seller.mood).description}`, {
+        margin: '0 0 8px 0',
+        fontSize: '12px',
+        opacity: '0.8',
+      })
+    );
+
+    const askLabel = sellerAI.isFinalOffer() ? 'Final offer' : 'Asking price';
+    panel.appendChild(
+      this.uiManager.createText(`${askLabel}: ${formatCurrency(sellerAI.getAsk())}`, {
+        margin: '0 0 8px 0',
+        fontSize: '18px',
+        fontWeight: '900',
+        color: sellerAI.isFinalOffer() ? '#e74c3c' : '#ffd700',
+      })
+    );
+
+    const patience = sellerAI.getPatience();
+    const patiencePct = sellerAI.getMaxPatience() > 0 ? Math.round((patience / sellerAI.getMaxPatience()) * 100) : 0;
+    const thresholds = GAME_CONFIG.auction.patienceThresholds;
+    const patienceColor =
+      patiencePct <= thresholds.critical
+        ? '#e74c3c'
+        : patiencePct <= thresholds.low
+          ? '#e67e22'
+          : patiencePct <= thresholds.medium
+            ? '#f1c40f'
+            : '#2ecc71';
+
+    panel.appendChild(
+      this.uiManager.createText(`Patience: ${patience}/${sellerAI.getMaxPatience()}`, {
+        margin: '0 0 4px 0',
+        fontSize: '11px',
+        opacity: '0.75',
+        textTransform: 'uppercase',
+        letterSpacing: '0.06em',
+      })
+    );
+    const bar = document.createElement('div');
+    bar.style.cssText = 'height: 8px; background: rgba(255,255,255,0.12); border-radius: 4px; overflow: hidden;';
+    const fill = document.createElement('div');
+    fill.style.cssText = `height: 100%; width: ${patiencePct}%; background: ${patienceColor};`;
+    bar.appendChild(fill);
+    panel.appendChild(bar);
+
+    return panel;
+  }
+
+  private createOfferPanel(money: number, tongueLevel: number, isOpen: boolean): HTMLDivElement {
+    const sellerAI = this.sellerAI;
+    const panel = this.uiManager.createPanel({ padding: '10px' });
+    panel.appendChild(this.uiManager.createHeading('MAKE AN OFFER', 3, { margin: '0 0 6px 0', textAlign: 'left' }));
+
+    panel.appendChild(
+      this.uiManager.createText(
+        `Funds ${formatCurrency(money)}${this.lastOffer === undefined ? '' : ` · Your last offer ${formatCurrency(this.lastOffer)}`}`,
+        { margin: '0 0 6px 0', fontSize: '12px', opacity: '0.85' }
+      )
+    );
+    panel.appendChild(
+      this.uiManager.createText(formatCurrency(this.draftOffer), {
+        margin: '0 0 6px 0',
+        fontSize: '20px',
+        fontWeight: '900',
+        textAlign: 'center',
+        color: '#ffd700',
+      })
+    );
+
+    const quickBtnStyle: Partial<CSSStyleDeclaration> = { padding: '9px 8px', fontSize: '12px' };
+    const grid = (columns: number): HTMLDivElement => {
+      const row = document.createElement('div');
+      Object.assign(row.style, {
+        display: 'grid',
+        gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+        gap: '6px',
+        margin: '0 0 6px 0',
+      } satisfies Partial<CSSStyleDeclaration>);
+      return row;
+    };
+
+    const offerSteps = getGameConfig().negotiation.offerSteps;
+    const stepRow = grid(offerSteps.length * 2);
+    const stepButtons = [...offerSteps].reverse().map((step) => ({ delta: -step, label: `−${formatCurrency(step)}` }));
+    stepButtons.push(...offerSteps.map((step) => ({ delta: step, label: `+${formatCurrency(step)}` })));
+    for (const { delta, label } of stepButtons) {
+      const button = this.uiManager.createButton(label, () => this.adjustDraftOffer(delta), {
+        variant: 'info',
+        style: quickBtnStyle,
+      });
+      if (!isOpen || sellerAI.isFinalOffer()) {
+        disableEncounterActionButton(button);
+      }
+      stepRow.appendChild(button);
+    }
+    panel.appendChild(stepRow);
+
+    const actionRow = grid(3);
+    const offerBtn = this.uiManager.createButton('Make\nOffer', () => this.playerMakeOffer(), {
+      variant: 'primary',
+      style: quickBtnStyle,
+    });
+    const acceptBtn = this.uiManager.createButton(
+      `Pay Asking\n${formatCurrency(sellerAI.getAsk())}`,
+      () => this.playerAcceptAsk(),
+      { variant: 'success', style: quickBtnStyle }
+    );
+    const endBtn = isOpen
+      ? this.uiManager.createButton('Walk\nAway', () => this.playerWalkAway(), { variant: 'danger', style: quickBtnStyle })
+      : this.uiManager.createButton('Back\nTo Map', () => this.scene.start('MapScene'), {
+          variant: 'danger',
+          style: quickBtnStyle,
+        });
+
+    if (!isOpen) {
+      disableEncounterActionButton(offerBtn, 'Make\nOffer');
+      disableEncounterActionButton(acceptBtn, 'Pay\nAsking');
+    } else {
+      if (sellerAI.isFinalOffer()) {
+        disableEncounterActionButton(offerBtn, 'Offer\nFinal price');
+      } else if (money < sellerAI.getMinimumOffer()) {
+        disableEncounterActionButton(offerBtn, formatEncounterNeedLabel('Offer', formatCurrency(sellerAI.getMinimumOffer())));
+      }
+      if (money < sellerAI.getAsk()) {
+        disableEncounterActionButton(acceptBtn, formatEncounterNeedLabel('Pay', formatCurrency(sellerAI.getAsk())));
+      }
+    }
+
+    actionRow.appendChild(offerBtn);
+    actionRow.appendChild(acceptBtn);
+    actionRow.appendChild(endBtn);
+    panel.appendChild(actionRow);
+
+    const tacticsRow = grid(3);
+    const tactics = getGameConfig().negotiation.tactics;
+    for (const tactic of Object.keys(TACTIC_LABELS) as NegotiationTactic[]) {
+      const { name, effect } = TACTIC_LABELS[tactic];
+      const requiredLevel = tactics[tactic].requiredTongueLevel;
+      const button = this.uiManager.createButton(`${name}\n${effect}`, () => this.playerUseTactic(tactic), {
+        variant: 'special',
+        style: quickBtnStyle,
+      });
+      if (tongueLevel < requiredLevel) {
+        disableEncounterActionButton(button, `${name}\nRequires Tongue ${requiredLevel}+`);
+      } else if (sellerAI.hasUsedTactic(tactic)) {
+        disableEncounterActionButton(button, `${name}\nUsed`);
+      } else if (!isOpen || !sellerAI.canUseTactic(tactic, tongueLevel)) {
+        disableEncounterActionButton(button);
+      }
+      tacticsRow.appendChild(button);
+    }
+    panel.appendChild(tacticsRow);
+
+    panel.appendChild(
+      this.uiManager.createText(
+        `Minimum offer ${formatCurrency(sellerAI.getMinimumOffer())} · Lowballs cost extra patience · Each tactic works once`,
+        { margin: '4px 0 0 0', fontSize: '11px', opacity: '0.75' }
+      )
+    );
+
+    return panel;
+  }
+
+  private createFlawsPanel(eyeLevel: number, isOpen: boolean): HTMLDivElement {
+    const panel = this.uiManager.createPanel({ padding: '10px' });
+    panel.appendChild(this.uiManager.createHeading('POINT OUT FLAWS', 3, { margin: '0 0 6px 0', textAlign: 'left' }));
+
+    const inspectCost = getGameConfig().time.inspectCost;
+    const inspectBtn = this.uiManager.createButton(
+      this.inspected ? '✓ Inspected' : `🔍 Inspect · ${inspectCost} time`,
+      () => this.playerInspect(),
+      { variant: 'warning', style: { width: '100%', margin: '0 0 8px 0', padding: '8px', fontSize: '12px' } }
+    );
+    if (this.inspected || !isOpen) {
+      disableEncounterActionButton(inspectBtn);
+    } else if (!this.gameManager.canSpendTime(inspectCost)) {
+      disableEncounterActionButton(inspectBtn, 'Inspect · No time left');
+    }
+    panel.appendChild(inspectBtn);
+
+    if (this.flaws.length === 0) {
+      panel.appendChild(
+        this.uiManager.createText('You look it over carefully. Nothing worth arguing about.', {
+          margin: '0',
+          fontSize: '12px',
+          opacity: '0.8',
+        })
+      );
+      return panel;
+    }
+
+    for (const flaw of this.flaws) {
+      const spotted = eyeLevel >= flaw.requiredEyeLevel;
+      const used = this.sellerAI.hasPointedOutFlaw(flaw.id);
+      const label = spotted ? flaw.label : `Something seems off (Eye ${flaw.requiredEyeLevel}+)`;
+      const button = this.uiManager.createButton(used ? `✓ ${label}` : label, () => this.playerPointOutFlaw(flaw), {
+        variant: 'info',
+        style: { width: '100%', margin: '0 0 6px 0', padding: '8px', fontSize: '12px', textAlign: 'left' },
+      });
+      if (!spotted || used || !isOpen || !this.sellerAI.canPointOutFlaw(flaw, eyeLevel)) {
+        disableEncounterActionButton(button);
+      }
+      panel.appendChild(button);
+    }
+
+    panel.appendChild(
+      this.uiManager.createText(
+        `Each flaw knocks about ${formatCurrency(Math.round(this.marketEstimate * getGameConfig().negotiation.flawDiscountMultiplier))} off; defects found on inspection knock off more.`,
+        { margin: '4px 0 0 0', fontSize: '11px', opacity: '0.75' }
+      )
+    );
+    return panel;
+  }
+
+  /** Lowest and highest offer the player can currently make. */
+  private getDraftOfferBounds(): { min: number; max: number } {
+    const min = Math.max(this.sellerAI.getMinimumOffer(), this.lastOffer ?? 0);
+    const max = Math.max(min, Math.min(this.sellerAI.getAsk(), this.gameManager.getPlayerState().money));
+    return { min, max };
+  }
+
+  private clampDraftOffer(value: number): number {
+    const { min, max } = this.getDraftOfferBounds();
+    return Math.max(min, Math.min(max, Math.round(value)));
+  }
+
+  private adjustDraftOffer(delta: number): void {
+    this.draftOffer = this.clampDraftOffer(this.draftOffer + delta);
+    this.setupUI();
+  }
+
+  private playerMakeOffer(): void {
+    if (this.negotiationResolved) return;
+
+    const offer = this.clampDraftOffer(this.draftOffer);
+    if (offer > this.gameManager.getPlayerState().money) {
+      this.uiManager.showToast(`You only have ${formatCurrency(this.gameManager.getPlayerState().money)}.`);
+      return;
+    }
+
+    this.lastOffer = offer;
+    this.addLog('player', `You offer: ${formatCurrency(offer)}`);
+    this.handleSellerResponse(this.sellerAI.respondToOffer(offer));
+  }
+
+  private playerAcceptAsk(): void {
+    if (this.negotiationResolved) return;
+    const price = this.sellerAI.acceptAsk();
+    this.addLog('player', `You agree to: ${formatCurrency(price)}`);
+    this.closeDeal(price);
+  }
+
+  private playerUseTactic(tactic: NegotiationTactic): void {
+    if (this.negotiationResolved) return;
+    if (!this.sellerAI.canUseTactic(tactic, this.gameManager.getPlayerState().skills.tongue)) return;
+
+    this.addLog('player', `You try: ${TACTIC_LABELS[tactic].name}`);
+    this.handleSellerResponse(this.sellerAI.useTactic(tactic));
+  }
+
+  private playerPointOutFlaw(flaw: NegotiationFlaw): void {
+    if (this.negotiationResolved) return;
+    if (!this.sellerAI.canPointOutFlaw(flaw, this.gameManager.getPlayerState().skills.eye)) return;
+
+    const ask = this.sellerAI.pointOutFlaw(flaw);
+    this.addLog('player', `You point out: ${flaw.label}`);
+    this.addLog('seller', `Now asking: ${formatCurrency(ask)}`);
+
+    // Pointing out flaws is an inspection; it trains the Eye.
+    this.gameManager.addSkillXP('eye', getGameConfig().player.skillProgression.xpGains.inspect);
+    this.draftOffer = this.clampDraftOffer(this.draftOffer);
+    this.setupUI();
+  }
+
+  private playerInspect(): void {
+    if (this.negotiationResolved || this.inspected) return;
+
+    const inspectCost = getGameConfig().time.inspectCost;
+    this.gameManager.markUndoPoint(`Inspect ${this.car.name}`);
+    if (!this.gameManager.trySpendTime(inspectCost)) {
+      this.uiManager.showToast('Not enough time left today to inspect.');
+      return;
+    }
+
+    this.inspected = true;
+    const { car, revealed } = inspectCar(this.car, this.gameManager.getPlayerState().skills.eye);
+    this.car = car;
+    this.flaws = getNegotiationFlaws(this.car);
+    this.addLog('player', 'You inspect the car closely.');
+    this.addLog(
+      'system',
+      revealed.length > 0 ? `You found: ${formatCarDefectList(revealed)}.` : 'Nothing hidden that you can see.'
+    );
+
+    this.gameManager.addSkillXP('eye', getGameConfig().player.skillProgression.xpGains.inspect);
+    this.setupUI();
+  }
+
+  private playerWalkAway(): void {
+    if (this.negotiationResolved) return;
+    this.uiManager.confirmAction(
+      'Walk Away?',
+      `Leave without buying ${this.car.name}? The seller won't wait for you to come back today.`,
+      () => {
+        this.negotiationResolved = true;
+        this.consumeOfferIfNeeded();
+        this.scene.start('MapScene');
+      },
+      undefined,
+      { confirmText: 'Walk Away', confirmVariant: 'danger', cancelText: 'Keep Talking' }
+    );
+  }
+
+  private handleSellerResponse(response: SellerResponse): void {
+    switch (response.kind) {
+      case 'accept':
+        this.addSellerLine('accept');
+        this.closeDeal(response.price);
+        return;
+      case 'counter':
+        this.addSellerLine(response.lowball ? 'lowball' : 'counter');
+        this.addLog('seller', `Counter: ${formatCurrency(response.ask)}`);
+        break;
+      case 'final':
+        this.addSellerLine('final');
+        this.addLog('seller', `Final offer: ${formatCurrency(response.ask)}`);
+        break;
+      case 'walk':
+        this.addSellerLine('walk');
+        this.negotiationResolved = true;
+        this.consumeOfferIfNeeded();
+        this.setupUI();
+        this.uiManager.showModal(
+          'Seller Walked Away',
+          `${this.seller.name} has had enough and won't sell you the ${this.car.name}.`,
+          [
+            { text: 'Stay', onClick: () => {} },
+            { text: 'Back to Map', onClick: () => this.scene.start('MapScene') },
+          ]
+        );
+        return;
+    }
+
+    this.draftOffer = this.clampDraftOffer(this.draftOffer);
+    this.setupUI();
+  }
+
+  private closeDeal(price: number): void {
+    const player = this.gameManager.getPlayerState();
+    if (player.money < price) {
+      this.uiManager.showToast(`You need ${formatCurrency(price)} to close this deal.`);
+      this.setupUI();
+      return;
+    }
+
+    // Anything the seller hid comes to light once the car is yours.
+    const hiddenDefects = getUndiscoveredDefects(this.car);
+    this.gameManager.markUndoPoint(`Buy ${this.car.name}`);
+    const result = completeNegotiatedPurchase({
+      gameManager: this.gameManager,
+      car: this.car,
+      price,
+      sellerName: this.seller.name,
+      source: this.getLocationName() ?? 'Private sale',
+    });
+
+    if (result === 'cannot-afford') {
+      this.uiManager.showToast(`You need ${formatCurrency(price)} to close this deal.`);
+      this.setupUI();
+      return;
+    }
+
+    this.negotiationResolved = true;
+    this.consumeOfferIfNeeded();
+
+    if (result === 'garage-full') {
+      this.setupUI();
+      this.uiManager.showModal(
+        'Garage Full!',
+        `You agreed a price, but your garage is full!\n\nThe seller keeps the car.`,
+        [
+          { text: 'Stay', onClick: () => {} },
+          { text: 'Back to Map', onClick: () => this.scene.start('MapScene') },
+        ]
+      );
+      return;
+    }
+
+    // Apply special event bonuses only if the player successfully acquires the car.
+    if (this.specialEvent && !this.specialEventBonusesApplied) {
+      const moneyBonus = this.specialEvent.reward.moneyBonus ?? 0;
+      const prestigeBonus = this.specialEvent.reward.prestigeBonus ?? 0;
+
+      if (moneyBonus > 0) {
+        this.gameManager.addMoney(moneyBonus, { category: 'event-bonus', counterpart: this.specialEvent.name });
+        this.uiManager.showToast(`Special event bonus: +${formatCurrency(moneyBonus)}`, { durationMs: 2500 });
+      }
+
+      if (prestigeBonus > 0) {
+        this.gameManager.addPrestige(prestigeBonus, { category: 'event-bonus', counterpart: this.specialEvent.name });
+        this.uiManager.showToast(`Special event bonus: +${prestigeBonus} prestige`, { durationMs: 2500 });
+      }
+
+      this.specialEventBonusesApplied = true;
+    }
+
+    // Award Tongue XP for closing a deal.
+    const leveledUp = this.gameManager.addSkillXP(
+      'tongue',
+      getGameConfig().player.skillProgression.xpGains.negotiation
+    );
+
+    const ownedValue = this.getValueEstimate(discoverCarDefects(this.car, hiddenDefects));
+    const difference = ownedValue - price;
+    const verdict =
+      difference > 0
+        ? `${formatCurrency(difference)} under its value.`
+        : difference < 0
+          ? `${formatCurrency(-difference)} over its value.`
+          : 'Right on its value.';
+    const discoveryNote =
+      hiddenDefects.length > 0 ? `On the drive home you discover: ${formatCarDefectList(hiddenDefects)}.\n\n` : '';
+
+    this.setupUI();
+    this.uiManager.showModal(
+      'Deal!',
+      `You bought ${this.car.name} from ${this.seller.name} for ${formatCurrency(price)}.\n\n${discoveryNote}${verdict}${leveledUp ? '\n\n🎉 Your Tongue skill leveled up!' : ''}`,
+      [
+        { text: 'Stay', onClick: () => {} },
+        { text: 'Back to Map', onClick: () => this.scene.start('MapScene') },
+      ]
+    );
+  }
+
+  /** Market-aware value of the car given the defects discovered on it. */
+  private getValueEstimate(car: Car): number {
+    return Math.floor(calculateCarValue(car) * this.gameManager.getCarMarketInfo(car.tags).modifier);
+  }
+
+  private consumeOfferIfNeeded(): void {
+    if (!this.encounterStarted) return;
+    if (!this.locationId) return;
+
+    // Only base locations participate in the per-day offer system.
+    const isBaseLocation = BASE_LOCATIONS.some((loc) => loc.id === this.locationId);
+    if (!isBaseLocation) return;
+
+    this.gameManager.consumeDailyCarOfferForLocation(this.locationId);
+    // Prevent accidental double-consumption across multiple resolution paths.
+    this.locationId = undefined;
+  }
+
+  /** Display name of the encounter's location (special events keep their name after they start). */
+  private getLocationName(): string | null {
+    if (this.specialEvent) return this.specialEvent.name;
+    if (!this.locationId) return null;
+    return BASE_LOCATIONS.find((loc) => loc.id === this.locationId)?.name ?? null;
+  }
+
+  private addSellerLine(trigger: SellerLineTrigger): void {
+    this.addLog('seller', `${this.seller.name}: "${getSellerLine(this.seller.mood, trigger)}"`);
+  }
+
+  private addLog(kind: NegotiationLogKind, text: string): void {
+    this.logEntries.push({ kind, text });
+  }
+}
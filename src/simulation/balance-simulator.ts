@@ -0,0 +1,453 @@
+import { GameManager } from '@/core/game-manager';
+import { summarizePastCarsByTier, type PastCarGroupSummary } from '@/core/car-ownership';
+import type { PastCarRecord, RestorationWork } from '@/core/game-types';
+import { DEFAULT_RUN_SETTINGS, getGameConfig, type DifficultyPreset, type RunSettings } from '@/config/run-config';
+import { calculateCarValue, type Car } from '@/data/car-database';
+import { BASE_LOCATIONS, getBaseLocationDefinitionById } from '@/data/location-database';
+import { Economy } from '@/systems/Economy';
+import { planPartsPurchase } from '@/systems/parts-market';
+import { routeRegularEncounter } from '@/systems/map-encounter-router';
+import {
+  createAuctionDay,
+  getCurrentLot,
+  getLotRivalEntries,
+  getNextAuctionDay,
+  type AuctionDay,
+} from '@/systems/auction-catalog';
+import { getMinimumNegotiationOffer } from '@/systems/seller-ai';
+import { formatCurrency, formatNumber } from '@/utils/format';
+import { installHeadlessEnvironment } from './headless-environment';
+import { runHeadlessAuction } from './headless-auction';
+import { runHeadlessNegotiation } from './headless-negotiation';
+import type { SimulationPolicy } from './simulation-policies';
+
+/** How a simulated run ended. */
+export type SimulationOutcome = 'victory' | 'bankrupt' | 'timeout';
+
+/**
+ * Per-rival auction tally. "Entered" counts auctions the rival attended against the player.
+ */
+export interface RivalAuctionStats {
+  entered: number;
+  wins: number;
+}
+
+/**
+ * Result of one simulated run.
+ */
+export interface SimulationRunResult {
+  seed: number;
+  policyId: string;
+  outcome: SimulationOutcome;
+  /** Last day reached (the day victory/bankruptcy happened, or maxDays). */
+  daysPlayed: number;
+  /** End-of-day money, index 0 = start of day 1. */
+  moneyByDay: number[];
+  /** End-of-day prestige, index 0 = start of day 1. */
+  prestigeByDay: number[];
+  auctionsEntered: number;
+  auctionsWon: number;
+  /** Solo encounters (no rival present) the player negotiated in, and how many ended in a purchase. */
+  negotiationsEntered: number;
+  negotiationsWon: number;
+  carsSold: number;
+  /** Ownership records of the cars sold during the run. */
+  pastCars: PastCarRecord[];
+  rivalStats: Record<string, RivalAuctionStats>;
+}
+
+/**
+ * Aggregated report across many seeded runs.
+ */
+export interface SimulationBatchReport {
+  policyId: string;
+  difficulty: DifficultyPreset;
+  runs: number;
+  maxDays: number;
+  baseSeed: number;
+  victoryRate: number;
+  bankruptcyRate: number;
+  timeoutRate: number;
+  /** Days-to-victory among winning runs (null when no run won). */
+  daysToVictory: { min: number; median: number; max: number } | null;
+  /** Day on which runs went bankrupt (null when none did). */
+  daysToBankruptcy: { min: number; median: number; max: number } | null;
+  /** Money percentiles across runs still alive on each checkpoint day. */
+  moneyCurve: Array<{ day: number; alive: number; p10: number; p50: number; p90: number }>;
+  auctionsEntered: number;
+  playerAuctionWinRate: number;
+  negotiationsEntered: number;
+  /** Share of negotiations that ended in a purchase. */
+  playerNegotiationDealRate: number;
+  /** Rival win rates, highest first. */
+  rivalWinRates: Array<{ rivalId: string; entered: number; wins: number; winRate: number }>;
+  /** Flip results of every car sold across all runs, per tier. */
+  flipsByTier: PastCarGroupSummary[];
+}
+
+function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)));
+  return sorted[index];
+}
+
+function summarizeDays(days: number[]): { min: number; median: number; max: number } | null {
+  if (days.length === 0) return null;
+  const sorted = days.slice().sort((a, b) => a - b);
+  return { min: sorted[0], median: percentile(sorted, 0.5), max: sorted[sorted.length - 1] };
+}
+
+/** Sell, collect and upgrade according to the policy. */
+function runGaragePhase(gameManager: GameManager, policy: SimulationPolicy, result: SimulationRunResult): void {
+  const idleCars = (): Car[] =>
+    gameManager.getGarageCars().filter((car) => !gameManager.isCarInWorkshop(car.id));
+
+  for (const car of idleCars()) {
+    if (policy.shouldCollect(car, gameManager)) {
+      gameManager.toggleCollectionStatus(car.id);
+    }
+  }
+
+  for (const car of idleCars()) {
+    const salePrice = Economy.getSalePrice(car, gameManager);
+    if (policy.shouldSell(car, salePrice, gameManager)) {
+      gameManager.sellCar(car.id, salePrice, { counterpart: 'Private buyer' });
+      result.carsSold += 1;
+    }
+  }
+
+  while (policy.shouldUpgradeGarage(gameManager) && gameManager.upgradeGarageSlots()) {
+    // Keep upgrading while the policy wants to and prestige allows.
+  }
+}
+
+/**
+ * Book work, first buying any missing parts at today's cheapest same-day listings (as the garage's
+ * "Buy Parts & Book" does). Work whose parts nobody sells today, or that would leave too little
+ * for rent, is skipped.
+ */
+function bookWorkWithParts(
+  gameManager: GameManager,
+  carId: string,
+  work: RestorationWork
+): ReturnType<GameManager['startRestorationJob']> {
+  const booking = gameManager.startRestorationJob(carId, work);
+  if (booking.ok || booking.reason !== 'missing-parts') return booking;
+
+  const { requiredParts, cost, durationDays } = work.kind === 'challenge' ? work.challenge : work.option;
+  const plan = planPartsPurchase(gameManager.getPartsMarket(), gameManager.getMissingParts(requiredParts));
+  // Don't sink the rent money into parts: the car is stuck in the workshop until the job is done.
+  const budget = gameManager.getPlayerState().money - gameManager.getDailyRent() * (durationDays + 1);
+  if (plan.unavailable.length > 0 || plan.total + cost > budget) return booking;
+
+  for (const listing of plan.listings) {
+    if (!gameManager.buyPartListing(listing.id)) return booking;
+  }
+  return gameManager.startRestorationJob(carId, work);
+}
+
+/**
+ * Book one workshop job per idle garage car (the first challenge it needs, otherwise a restoration)
+ * until the policy stops or time/money runs out. Jobs finish at later End Days.
+ */
+function runRestorationPhase(gameManager: GameManager, policy: SimulationPolicy): void {
+  for (const car of gameManager.getGarageCars()) {
+    if (gameManager.isCarInWorkshop(car.id)) continue;
+
+    const challenge = Economy.getRestorationChallenges(car)[0];
+    if (challenge) {
+      if (!policy.shouldFixChallenge(car, challenge, gameManager)) continue;
+      const booking = bookWorkWithParts(gameManager, car.id, { kind: 'challenge', challenge });
+      if (!booking.ok && booking.reason === 'no-time') return;
+      continue;
+    }
+
+    const option = policy.chooseRestoration(car, gameManager.getRestorationOptions(car), gameManager);
+    if (!option) continue;
+    const booking = bookWorkWithParts(gameManager, car.id, { kind: 'restoration', option });
+    if (!booking.ok && booking.reason === 'no-time') return;
+  }
+}
+
+function getEstimate(gameManager: GameManager, car: Car): number {
+  return Math.floor(calculateCarValue(car) * gameManager.getCarMarketInfo(car.tags).modifier);
+}
+
+/**
+ * Visit each unlocked location once: an auction day when a rival is present, otherwise a negotiation.
+ * At an auction day the player bids on the lots the policy wants and leaves the rest to the rivals.
+ */
+function runEncounterPhase(gameManager: GameManager, policy: SimulationPolicy, result: SimulationRunResult): void {
+  const time = getGameConfig().time;
+
+  for (const location of BASE_LOCATIONS) {
+    if (location.type !== 'auction') continue;
+    const player = gameManager.getPlayerState();
+    const unlockPrestige = getBaseLocationDefinitionById(location.id)?.unlockPrestige ?? 0;
+    if (player.prestige < unlockPrestige) continue;
+    if (!gameManager.hasGarageSpace()) return;
+
+    const car = gameManager.getDailyCarOfferForLocation(location.id);
+    if (!car) continue;
+
+    const hasRival = gameManager.hasRivalAtLocation(location.id);
+    const visitCost = time.travelCost + (hasRival ? time.auctionParticipationCost : time.negotiationParticipationCost);
+    if (!gameManager.canSpendTime(visitCost)) continue;
+
+    const lots = hasRival ? gameManager.getAuctionCatalogForLocation(location.id) : [car];
+    /**
+     * The most the player will pay for a lot, or null to pass on it.
+     * @param entryFee - Fee still to pay to get in (0 once in the room)
+     */
+    const getLotMaxBid = (lot: Car, entryFee = 0): number | null => {
+      const estimate = getEstimate(gameManager, lot);
+      const minimumPrice = hasRival
+        ? Math.floor(estimate * getGameConfig().auction.startingBidMultiplier)
+        : getMinimumNegotiationOffer(estimate);
+      const maxBid = policy.getMaxBid(lot, estimate, gameManager);
+      const money = gameManager.getPlayerState().money;
+      return maxBid !== null && maxBid >= minimumPrice && money >= minimumPrice + entryFee ? maxBid : null;
+    };
+    const entryFee = hasRival ? gameManager.getAuctionHouseFees(location.id).entryFee : 0;
+    if (!lots.some((lot) => getLotMaxBid(lot, entryFee) !== null)) continue;
+
+    gameManager.trySpendTime(visitCost);
+    if (entryFee > 0) gameManager.payAuctionEntryFee(location.id);
+    gameManager.visitLocation(location.id);
+
+    const routed = routeRegularEncounter({
+      locationId: location.id,
+      car,
+      playerPrestige: player.prestige,
+      day: gameManager.getWorldState().day,
+      hasRival,
+      lots,
+    });
+
+    if (routed.kind === 'negotiation') {
+      const negotiation = runHeadlessNegotiation({
+        gameManager,
+        car,
+        seller: routed.sceneData.seller,
+        locationId: location.id,
+        playerMaxPrice: getLotMaxBid(car) ?? 0,
+      });
+      result.negotiationsEntered += 1;
+      if (negotiation.outcome === 'bought') result.negotiationsWon += 1;
+      continue;
+    }
+
+    let auctionDay: AuctionDay | null =
+      routed.sceneData.auctionDay ??
+      createAuctionDay({ locationId: location.id, lots: [car], rivals: routed.sceneData.rivals.map((entry) => entry.rival) });
+    while (auctionDay) {
+      const lot = getCurrentLot(auctionDay);
+      // Lots the policy passes on still sell: the rivals spend their budgets on them.
+      const maxBid = gameManager.hasGarageSpace() ? getLotMaxBid(lot) : null;
+      const auction = runHeadlessAuction({
+        gameManager,
+        car: lot,
+        rivals: getLotRivalEntries(auctionDay),
+        locationId: location.id,
+        playerMaxBid: maxBid ?? 0,
+        rivalBudgets: auctionDay.rivalBudgets,
+      });
+      auctionDay = getNextAuctionDay(auctionDay, auction.rivalBudgets);
+      if (maxBid === null) continue;
+
+      result.auctionsEntered += 1;
+      if (auction.winner === 'player' && !auction.forfeited) {
+        result.auctionsWon += 1;
+      }
+      for (const rivalId of auction.rivalIds) {
+        const stats = (result.rivalStats[rivalId] ??= { entered: 0, wins: 0 });
+        stats.entered += 1;
+        if (auction.winner === rivalId) stats.wins += 1;
+      }
+    }
+  }
+}
+
+/**
+ * Simulate one full run headlessly with a scripted policy.
+ * The run is reproducible: the same seed, policy and config always produce the same result.
+ */
+export function runSimulation(params: {
+  seed: number;
+  policy: SimulationPolicy;
+  maxDays: number;
+  /** Run rules (difficulty preset, overrides); defaults to a standard run. */
+  settings?: Readonly<RunSettings>;
+}): SimulationRunResult {
+  const { seed, policy, maxDays, settings = DEFAULT_RUN_SETTINGS } = params;
+  installHeadlessEnvironment();
+  // Every reset starts a new save slot; wipe storage so slots don't pile up across runs.
+  localStorage.clear();
+
+  const gameManager = GameManager.getInstance();
+  gameManager.reset(seed, settings);
+
+  const result: SimulationRunResult = {
+    seed,
+    policyId: policy.id,
+    outcome: 'timeout',
+    daysPlayed: maxDays,
+    moneyByDay: [gameManager.getPlayerState().money],
+    prestigeByDay: [gameManager.getPlayerState().prestige],
+    auctionsEntered: 0,
+    auctionsWon: 0,
+    negotiationsEntered: 0,
+    negotiationsWon: 0,
+    carsSold: 0,
+    pastCars: [],
+    rivalStats: {},
+  };
+
+  for (let day = 1; day <= maxDays; day++) {
+    runGaragePhase(gameManager, policy, result);
+    runRestorationPhase(gameManager, policy);
+    runEncounterPhase(gameManager, policy, result);
+    // Cars bought today can use whatever time is left.
+    runRestorationPhase(gameManager, policy);
+
+    const endDay = gameManager.endDay();
+    if (endDay.bankrupt) {
+      result.outcome = 'bankrupt';
+      result.daysPlayed = day;
+      break;
+    }
+
+    const player = gameManager.getPlayerState();
+    result.moneyByDay.push(player.money);
+    result.prestigeByDay.push(player.prestige);
+
+    if (gameManager.checkVictory().hasWon) {
+      result.outcome = 'victory';
+      result.daysPlayed = day;
+      break;
+    }
+  }
+
+  result.pastCars = gameManager.getPastCars();
+  return result;
+}
+
+/**
+ * Run many seeded simulations (seeds baseSeed, baseSeed + 1, ...) and aggregate the results.
+ */
+export function runSimulationBatch(params: {
+  runs: number;
+  baseSeed: number;
+  policy: SimulationPolicy;
+  maxDays: number;
+  settings?: Readonly<RunSettings>;
+  /** Days at which the money curve is sampled (defaults to every 10 days). */
+  checkpointDays?: readonly number[];
+}): SimulationBatchReport {
+  const { runs, baseSeed, policy, maxDays, settings = DEFAULT_RUN_SETTINGS } = params;
+  const results: SimulationRunResult[] = [];
+  for (let i = 0; i < runs; i++) {
+    results.push(runSimulation({ seed: (baseSeed + i) >>> 0, policy, maxDays, settings }));
+  }
+
+  const checkpointDays =
+    params.checkpointDays ??
+    Array.from({ length: Math.floor(maxDays / 10) }, (_, i) => (i + 1) * 10).filter((day) => day <= maxDays);
+
+  const moneyCurve = [0, ...checkpointDays].map((day) => {
+    const values = results
+      .filter((run) => run.moneyByDay.length > day)
+      .map((run) => run.moneyByDay[day])
+      .sort((a, b) => a - b);
+    return {
+      day,
+      alive: values.length,
+      p10: percentile(values, 0.1),
+      p50: percentile(values, 0.5),
+      p90: percentile(values, 0.9),
+    };
+  });
+
+  const rivalTotals: Record<string, RivalAuctionStats> = {};
+  for (const run of results) {
+    for (const [rivalId, stats] of Object.entries(run.rivalStats)) {
+      const total = (rivalTotals[rivalId] ??= { entered: 0, wins: 0 });
+      total.entered += stats.entered;
+      total.wins += stats.wins;
+    }
+  }
+
+  const auctionsEntered = results.reduce((sum, run) => sum + run.auctionsEntered, 0);
+  const auctionsWon = results.reduce((sum, run) => sum + run.auctionsWon, 0);
+  const negotiationsEntered = results.reduce((sum, run) => sum + run.negotiationsEntered, 0);
+  const negotiationsWon = results.reduce((sum, run) => sum + run.negotiationsWon, 0);
+  const countOutcome = (outcome: SimulationOutcome): number =>
+    results.filter((run) => run.outcome === outcome).length;
+
+  return {
+    policyId: policy.id,
+    difficulty: settings.difficulty,
+    runs,
+    maxDays,
+    baseSeed,
+    victoryRate: runs > 0 ? countOutcome('victory') / runs : 0,
+    bankruptcyRate: runs > 0 ? countOutcome('bankrupt') / runs : 0,
+    timeoutRate: runs > 0 ? countOutcome('timeout') / runs : 0,
+    daysToVictory: summarizeDays(results.filter((run) => run.outcome === 'victory').map((run) => run.daysPlayed)),
+    daysToBankruptcy: summarizeDays(
+      results.filter((run) => run.outcome === 'bankrupt').map((run) => run.daysPlayed)
+    ),
+    moneyCurve,
+    auctionsEntered,
+    playerAuctionWinRate: auctionsEntered > 0 ? auctionsWon / auctionsEntered : 0,
+    negotiationsEntered,
+    playerNegotiationDealRate: negotiationsEntered > 0 ? negotiationsWon / negotiationsEntered : 0,
+    rivalWinRates: Object.entries(rivalTotals)
+      .map(([rivalId, stats]) => ({
+        rivalId,
+        entered: stats.entered,
+        wins: stats.wins,
+        winRate: stats.entered > 0 ? stats.wins / stats.entered : 0,
+      }))
+      .sort((a, b) => b.winRate - a.winRate || b.entered - a.entered),
+    flipsByTier: summarizePastCarsByTier(results.flatMap((run) => run.pastCars)),
+  };
+}
+
+/**
+ * Format a batch report as plain text for the terminal.
+ */
+export function formatSimulationReport(report: SimulationBatchReport): string {
+  const pct = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  const range = (days: { min: number; median: number; max: number } | null): string =>
+    days ? `min ${days.min} / median ${days.median} / max ${days.max}` : 'n/a';
+
+  const lines: string[] = [
+    `Policy: ${report.policyId} | difficulty: ${report.difficulty} | runs: ${formatNumber(report.runs)} | max days: ${report.maxDays} | seeds: ${report.baseSeed}..${report.baseSeed + report.runs - 1}`,
+    '',
+    `Victory:    ${pct(report.victoryRate)} (days ${range(report.daysToVictory)})`,
+    `Bankruptcy: ${pct(report.bankruptcyRate)} (days ${range(report.daysToBankruptcy)})`,
+    `Timeout:    ${pct(report.timeoutRate)}`,
+    `Player auction win rate: ${pct(report.playerAuctionWinRate)} of ${formatNumber(report.auctionsEntered)} auctions entered`,
+    `Negotiation deal rate: ${pct(report.playerNegotiationDealRate)} of ${formatNumber(report.negotiationsEntered)} negotiations entered`,
+    '',
+    'Money curve (runs alive: p10 / p50 / p90):',
+    ...report.moneyCurve.map(
+      (point) =>
+        `  day ${String(point.day).padStart(4)}  (${String(point.alive).padStart(4)} alive)  ${formatCurrency(point.p10)} / ${formatCurrency(point.p50)} / ${formatCurrency(point.p90)}`
+    ),
+    '',
+    'Rival win rates (wins / auctions entered against the player):',
+    ...report.rivalWinRates.map(
+      (rival) => `  ${rival.rivalId.padEnd(24)} ${pct(rival.winRate).padStart(6)}  (${rival.wins}/${rival.entered})`
+    ),
+    '',
+    'Flips by tier (cars sold: avg profit / avg ROI / avg days held):',
+    ...report.flipsByTier.map(
+      (tier) =>
+        `  ${tier.label.padEnd(14)} ${formatNumber(tier.count).padStart(6)}  ${tier.averageProfit === null ? 'n/a' : formatCurrency(Math.round(tier.averageProfit))} / ${tier.averageRoi === null ? 'n/a' : pct(tier.averageRoi)} / ${tier.averageDaysHeld === null ? 'n/a' : tier.averageDaysHeld.toFixed(1)}`
+    ),
+  ];
+
+  return lines.join('\n');
+}
@@ -0,0 +1,259 @@
+import { calculateCarValue, type Car } from '@/data/car-database';
+import type { GameManager } from '@/core/game-manager';
+import { getGameConfig } from '@/config/run-config';
+import { getBaseLocationDefinitionById } from '@/data/location-database';
+import { RivalAI } from '@/systems/rival-ai';
+import { getBuyersPremium } from '@/systems/auction-fees';
+import {
+  findDutchTaker,
+  getAuctionFormat,
+  getDutchClock,
+  getNextDutchPrice,
+  getRivalSealedBid,
+  rankSealedBids,
+} from '@/systems/auction-formats';
+import type { AuctionRivalEntry } from '@/systems/map-encounter-router';
+import {
+  BID_INCREMENT,
+  playerBid,
+  rivalOnlyTurnImmediate,
+  rivalTurnImmediate,
+  type BidderId,
+  type BiddingCallbacks,
+  type BiddingContext,
+} from '@/scenes/internal/auction-bidding';
+
+/** Safety cap on bidding rounds so a misbehaving AI cannot hang a simulation. */
+const MAX_AUCTION_ROUNDS = 500;
+
+/**
+ * Outcome of a headless auction.
+ */
+export interface HeadlessAuctionResult {
+  /** 'player', the winning rival's id, or null if the car went unsold (sealed and Dutch auctions). */
+  winner: 'player' | string | null;
+  finalBid: number;
+  /** Market-aware estimate used for the opening bid and rival caps. */
+  estimate: number;
+  /** True if the player won but could not pay (forfeit). */
+  forfeited: boolean;
+  rivalIds: string[];
+  /** Each rival's budget after this lot (the winner has paid), for the next lot of an auction day. */
+  rivalBudgets: Record<string, number>;
+}
+
+type NextTurn = 'player' | 'rival' | 'rival-only' | 'ended';
+
+/**
+ * Sealed and Dutch auctions, which have no turns: the player's sealed bid is the most they'll pay
+ * (in bid increments), and on a Dutch clock they accept the first price they can pay, unless a rival
+ * accepted it on the way down.
+ */
+function resolveHiddenBids(params: {
+  rivalAIsById: Record<string, RivalAI>;
+  format: 'sealed' | 'dutch';
+  estimate: number;
+  openingBid: number;
+  /** Highest hammer price the player will pay. */
+  playerLimit: number;
+}): { winner: BidderId | null; finalBid: number } {
+  const { rivalAIsById, format, estimate, openingBid, playerLimit } = params;
+  const maxBid = Math.floor(estimate * getGameConfig().auction.rivalMaxBidMultiplier);
+  const rivalBids: Record<string, number> = {};
+  for (const [rivalId, ai] of Object.entries(rivalAIsById)) {
+    const bid = getRivalSealedBid(ai, { openingBid, maxBid });
+    if (bid !== null) rivalBids[rivalId] = bid;
+  }
+
+  if (format === 'sealed') {
+    const playerBid = Math.floor(playerLimit / BID_INCREMENT) * BID_INCREMENT;
+    const [winner] = rankSealedBids<{ bidderId: BidderId; amount: number }>([
+      ...(playerBid >= openingBid ? [{ bidderId: 'player' as const, amount: playerBid }] : []),
+      ...Object.entries(rivalBids).map(([rivalId, amount]) => ({ bidderId: `rival:${rivalId}` as const, amount })),
+    ]);
+    return winner ? { winner: winner.bidderId, finalBid: winner.amount } : { winner: null, finalBid: openingBid };
+  }
+
+  // Like AuctionScene: the player has the first chance at the starting price; after that, rivals willing
+  // to pay a price (the starting price included) call the clock before the player can.
+  const clock = getDutchClock(estimate, openingBid);
+  if (clock.startPrice <= playerLimit) return { winner: 'player', finalBid: clock.startPrice };
+  let price: number | null = clock.startPrice;
+  while (price !== null) {
+    const takerId = findDutchTaker(price, rivalBids);
+    if (takerId) return { winner: `rival:${takerId}`, finalBid: price };
+    if (price <= playerLimit) return { winner: 'player', finalBid: price };
+    price = getNextDutchPrice(clock, price);
+  }
+  return { winner: null, finalBid: clock.floorPrice };
+}
+
+/**
+ * Run one auction to completion without Phaser or the DOM.
+ *
+ * Mirrors AuctionScene: market-aware opening bid, player-first cadence, and a rival-only
+ * continuation when the player withdraws. The player bids the minimum increment while the
+ * price plus the house's buyer's premium stays at or below `playerMaxBid`. A player win is settled
+ * through GameManager exactly like the scene (spend money, add car, consume the daily offer, award Tongue XP).
+ * Houses that run sealed or Dutch auctions are resolved in their format instead (see resolveHiddenBids).
+ * For later lots of an auction day, pass the budgets the rivals have left (see HeadlessAuctionResult.rivalBudgets).
+ */
+export function runHeadlessAuction(params: {
+  gameManager: GameManager;
+  car: Car;
+  rivals: AuctionRivalEntry[];
+  locationId: string;
+  /** Highest total price the player will pay. */
+  playerMaxBid: number;
+  /** Budgets the rivals have left from earlier lots of the day, by rival id. */
+  rivalBudgets?: Readonly<Record<string, number>>;
+}): HeadlessAuctionResult {
+  const { gameManager, car, rivals, locationId, playerMaxBid } = params;
+  const fees = gameManager.getAuctionHouseFees(locationId);
+
+  const estimate = Math.floor(calculateCarValue(car) * gameManager.getCarMarketInfo(car.tags).modifier);
+  const rivalAIsById: Record<string, RivalAI> = {};
+  for (const entry of rivals) {
+    rivalAIsById[entry.rival.id] = new RivalAI(entry.rival, entry.interest, params.rivalBudgets?.[entry.rival.id]);
+  }
+
+  const settle = (finalWinner: BidderId | null, finalBid: number): HeadlessAuctionResult => {
+    const rivalIds = rivals.map((entry) => entry.rival.id);
+    const winningRivalId = finalWinner && finalWinner !== 'player' ? finalWinner.slice('rival:'.length) : null;
+    // The buyer pays for the lot out of their budget for the rest of the day.
+    const rivalBudgets = Object.fromEntries(
+      Object.entries(rivalAIsById).map(([rivalId, ai]) => [
+        rivalId,
+        Math.max(0, ai.getBudget() - (rivalId === winningRivalId ? finalBid : 0)),
+      ])
+    );
+
+    gameManager.consumeDailyCarOfferForLocation(locationId);
+    if (finalWinner !== 'player') {
+      return { winner: winningRivalId, finalBid, estimate, forfeited: false, rivalIds, rivalBudgets };
+    }
+
+    // Like AuctionScene, a withdrawn player still takes the car if every rival drops out.
+    const ledgerTag = { carId: car.id, carName: car.name };
+    const source = getBaseLocationDefinitionById(locationId)?.name ?? 'Auction';
+    const premium = getBuyersPremium(finalBid, fees);
+    if (
+      gameManager.getPlayerState().money < finalBid + premium ||
+      !gameManager.spendMoney(finalBid, { category: 'purchase', ...ledgerTag, counterpart: source }) ||
+      !gameManager.spendMoney(premium, { category: 'purchase', ...ledgerTag, counterpart: source, note: "Buyer's premium" })
+    ) {
+      return { winner: 'player', finalBid, estimate, forfeited: true, rivalIds, rivalBudgets };
+    }
+
+    const totalPrice = finalBid + premium;
+    if (
+      !gameManager.addCar({ ...car, purchasePrice: totalPrice, restorationSpent: car.restorationSpent ?? 0, acquiredFrom: source })
+    ) {
+      gameManager.addMoney(totalPrice, { category: 'purchase', ...ledgerTag, note: 'Refund: garage full' });
+      return { winner: 'player', finalBid, estimate, forfeited: true, rivalIds, rivalBudgets };
+    }
+
+    gameManager.addSkillXP('tongue', getGameConfig().player.skillProgression.xpGains.auction);
+    return { winner: 'player', finalBid, estimate, forfeited: false, rivalIds, rivalBudgets };
+  };
+
+  const format = getAuctionFormat({ locationId });
+  const openingBid = Math.floor(estimate * getGameConfig().auction.startingBidMultiplier);
+  if (format !== 'english') {
+    const cap = Math.min(playerMaxBid, gameManager.getPlayerState().money);
+    const { winner, finalBid } = resolveHiddenBids({
+      rivalAIsById,
+      format,
+      estimate,
+      openingBid,
+      playerLimit: Math.floor(cap / (1 + fees.buyersPremium)),
+    });
+    return settle(winner, finalBid);
+  }
+
+  const context: BiddingContext = {
+    car,
+    rivals: rivals.map((entry) => entry.rival),
+    rivalAIsById,
+    auctioneerName: 'Simulator',
+    currentBid: openingBid,
+    hasAnyBids: false,
+    stallUsesThisAuction: 0,
+    powerBidStreak: 0,
+    isPlayerTurn: true,
+    locationId,
+    activeRivalIds: rivals.map((entry) => entry.rival.id),
+    maxBid: Math.floor(estimate * getGameConfig().auction.rivalMaxBidMultiplier),
+  };
+
+  // Asserted (not annotated) so TS doesn't narrow away updates made inside the callbacks.
+  let next = 'player' as NextTurn;
+  let winner: BidderId | undefined;
+  let playerHasWithdrawn = false;
+
+  const noop = (): void => {};
+  const callbacks: BiddingCallbacks = {
+    gameManager,
+    onShowToastAndLog: noop,
+    onRecordBid: noop,
+    onShowAuctioneerBark: noop,
+    onShowRivalBarkAfterAuctioneer: noop,
+    onSetupUI: noop,
+    onScheduleRivalTurn: () => {
+      next = playerHasWithdrawn ? 'rival-only' : 'rival';
+    },
+    onScheduleEnablePlayerTurn: () => {
+      if (playerHasWithdrawn) {
+        next = 'rival-only';
+        return;
+      }
+      context.isPlayerTurn = true;
+      next = 'player';
+    },
+    onEndAuction: (auctionWinner) => {
+      winner = auctionWinner;
+      next = 'ended';
+    },
+  };
+
+  const withdraw = (): void => {
+    playerHasWithdrawn = true;
+    context.isPlayerTurn = false;
+    context.maxBid = Math.floor(estimate * getGameConfig().auction.rivalOnlyMaxBidMultiplier);
+
+    if (context.activeRivalIds.length === 0) {
+      callbacks.onEndAuction('player', 'All rival bidders dropped out.');
+      return;
+    }
+
+    // Same re-open rule as AuctionScene.resolveAuctionAfterPlayerEnded.
+    const lastRivalId = context.lastBidder?.startsWith('rival:') ? context.lastBidder.slice('rival:'.length) : null;
+    const lastRivalInactive = !!lastRivalId && !context.activeRivalIds.includes(lastRivalId);
+    if (context.lastBidder === 'player' || context.lastBidder === undefined || lastRivalInactive) {
+      context.hasAnyBids = false;
+      context.lastBidder = undefined;
+    }
+    next = 'rival-only';
+  };
+
+  for (let round = 0; round < MAX_AUCTION_ROUNDS && next !== 'ended'; round++) {
+    if (next === 'player') {
+      const money = gameManager.getPlayerState().money;
+      const price = context.hasAnyBids ? context.currentBid + BID_INCREMENT : context.currentBid;
+      const totalPrice = price + getBuyersPremium(price, fees);
+      if (totalPrice > playerMaxBid || totalPrice > money) {
+        withdraw();
+        continue;
+      }
+      next = 'rival';
+      playerBid(BID_INCREMENT, context, callbacks);
+    } else if (next === 'rival') {
+      rivalTurnImmediate(context, callbacks);
+    } else {
+      rivalOnlyTurnImmediate(context, callbacks);
+    }
+  }
+
+  // Round cap reached: settle with whoever leads, like "No further bids."
+  return settle(winner ?? context.lastBidder ?? 'player', context.currentBid);
+}
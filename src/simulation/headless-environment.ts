@@ -0,0 +1,51 @@
+/**
+ * Minimal browser globals required to run GameManager outside the browser.
+ *
+ * GameManager persists through `localStorage` and schedules debounced saves with `window.setTimeout`.
+ * The balance simulator runs under Node, so it installs an in-memory storage and a `window` alias
+ * before touching any game state. In the browser this is a no-op.
+ */
+
+class MemoryStorage implements Storage {
+  private readonly items = new Map<string, string>();
+
+  public get length(): number {
+    return this.items.size;
+  }
+
+  public clear(): void {
+    this.items.clear();
+  }
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+/**
+ * Install in-memory `localStorage` and a `window` alias if they are missing.
+ * Safe to call multiple times.
+ */
+export function installHeadlessEnvironment(): void {
+  const globals = globalThis as unknown as { window?: unknown; localStorage?: Storage };
+
+  if (typeof globals.window === 'undefined') {
+    globals.window = globalThis;
+  }
+
+  if (typeof globals.localStorage === 'undefined') {
+    globals.localStorage = new MemoryStorage();
+  }
+}
@@ -0,0 +1,117 @@
+import { calculateCarValue, type Car } from '@/data/car-database';
+import type { GameManager } from '@/core/game-manager';
+import type { Seller } from '@/data/seller-database';
+import { getGameConfig } from '@/config/run-config';
+import { getBaseLocationDefinitionById } from '@/data/location-database';
+import { SellerAI, getNegotiationFlaws, type NegotiationTactic } from '@/systems/seller-ai';
+import { inspectCar } from '@/systems/car-inspection';
+import { completeNegotiatedPurchase } from '@/scenes/internal/negotiation-deal';
+
+/** Safety cap on offer rounds so a misbehaving AI cannot hang a simulation. */
+const MAX_NEGOTIATION_ROUNDS = 100;
+
+/** Tactics the scripted player opens with (Small Talk is saved for when patience runs low). */
+const OPENING_TACTICS: readonly NegotiationTactic[] = ['cashOnTheTable', 'bluffWalkOut'];
+
+/**
+ * Outcome of a headless negotiation.
+ */
+export interface HeadlessNegotiationResult {
+  /** 'bought', the seller walked, the player left because the price stayed too high, or the deal fell through. */
+  outcome: 'bought' | 'seller-walked' | 'player-walked' | 'forfeited';
+  /** Agreed price (null when no deal was made). */
+  price: number | null;
+  /** Market-aware estimate the seller's prices are based on. */
+  estimate: number;
+  /** Seller's opening ask. */
+  openingAsk: number;
+}
+
+/**
+ * Run one negotiation to completion without Phaser or the DOM.
+ *
+ * Mirrors NegotiationScene with a scripted player: inspect the car when there is time left,
+ * point out every flaw the Eye level allows (including defects the inspection found),
+ * open with the available Tongue tactics, then raise the offer by a third of the remaining gap
+ * each round without going above `playerMaxPrice`. A deal is settled exactly like the scene
+ * (pay the seller, add the car, consume the daily offer, award Tongue XP).
+ */
+export function runHeadlessNegotiation(params: {
+  gameManager: GameManager;
+  car: Car;
+  seller: Seller;
+  locationId: string;
+  /** Highest total price the player will pay. */
+  playerMaxPrice: number;
+}): HeadlessNegotiationResult {
+  const { gameManager, seller, locationId, playerMaxPrice } = params;
+  let car = params.car;
+  const config = getGameConfig();
+
+  const estimate = Math.floor(calculateCarValue(car) * gameManager.getCarMarketInfo(car.tags).modifier);
+  const sellerAI = new SellerAI(seller, estimate);
+  const openingAsk = sellerAI.getAsk();
+  const skills = gameManager.getPlayerState().skills;
+
+  if (gameManager.trySpendTime(config.time.inspectCost)) {
+    car = inspectCar(car, skills.eye).car;
+    gameManager.addSkillXP('eye', config.player.skillProgression.xpGains.inspect);
+  }
+
+  for (const flaw of getNegotiationFlaws(car)) {
+    if (!sellerAI.canPointOutFlaw(flaw, skills.eye)) continue;
+    sellerAI.pointOutFlaw(flaw);
+    gameManager.addSkillXP('eye', config.player.skillProgression.xpGains.inspect);
+  }
+  for (const tactic of OPENING_TACTICS) {
+    if (sellerAI.canUseTactic(tactic, skills.tongue)) sellerAI.useTactic(tactic);
+  }
+
+  const limit = Math.min(playerMaxPrice, gameManager.getPlayerState().money);
+  let offer = Math.max(sellerAI.getMinimumOffer(), Math.floor(estimate * 0.7));
+  let agreedPrice: number | null = null;
+
+  for (let round = 0; round < MAX_NEGOTIATION_ROUNDS && agreedPrice === null; round++) {
+    if (sellerAI.hasWalkedAway()) break;
+    if (sellerAI.isFinalOffer()) {
+      if (sellerAI.getAsk() <= limit) agreedPrice = sellerAI.acceptAsk();
+      break;
+    }
+
+    if (sellerAI.getPatience() <= config.negotiation.lowballPatiencePenalty && sellerAI.canUseTactic('smallTalk', skills.tongue)) {
+      sellerAI.useTactic('smallTalk');
+    }
+
+    const response = sellerAI.respondToOffer(Math.min(offer, limit));
+    if (response.kind === 'accept') {
+      agreedPrice = response.price;
+    } else if (response.kind !== 'walk') {
+      const target = Math.min(sellerAI.getAsk(), limit);
+      offer = Math.min(limit, offer + Math.max(config.negotiation.priceRounding, Math.floor((target - offer) / 3)));
+    }
+  }
+
+  gameManager.consumeDailyCarOfferForLocation(locationId);
+  if (agreedPrice === null) {
+    return {
+      outcome: sellerAI.hasWalkedAway() ? 'seller-walked' : 'player-walked',
+      price: null,
+      estimate,
+      openingAsk,
+    };
+  }
+
+  const purchase = completeNegotiatedPurchase({
+    gameManager,
+    car,
+    price: agreedPrice,
+    sellerName: seller.name,
+    source: getBaseLocationDefinitionById(locationId)?.name ?? 'Private sale',
+  });
+  if (purchase !== 'purchased') {
+    return { outcome: 'forfeited', price: agreedPrice, estimate, openingAsk };
+  }
+
+  gameManager.addSkillXP('tongue', config.player.skillProgression.xpGains.negotiation);
+  return { outcome: 'bought', price: agreedPrice, estimate, openingAsk };
+}
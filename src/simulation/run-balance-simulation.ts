@@ -0,0 +1,62 @@
+import { DIFFICULTY_PRESETS, isDifficultyPreset } from '@/config/run-config';
+import { formatSimulationReport, runSimulationBatch } from './balance-simulator';
+import { getSimulationPolicyById, SIMULATION_POLICIES } from './simulation-policies';
+
+/**
+ * CLI entry for the balance simulator (loaded by `scripts/simulate-balance.mjs`).
+ *
+ * Flags:
+ *   --policy <id>   Scripted player policy (default: flipper; use "all" to compare every policy)
+ *   --runs <n>      Number of seeded runs (default: 200)
+ *   --days <n>      Day limit per run (default: 120)
+ *   --seed <n>      First seed; runs use seed, seed + 1, ... (default: 1)
+ *   --difficulty <preset>  Difficulty preset: relaxed, standard, cutthroat (default: standard)
+ *   --json          Print the raw report as JSON instead of text
+ */
+export function main(argv: readonly string[]): number {
+  const readFlag = (name: string): string | undefined => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  /** A whole-number flag at or above `min`; null (after printing why) if it was given but isn't one. */
+  const readInt = (name: string, fallback: number, min: number): number | null => {
+    const raw = readFlag(name);
+    if (raw === undefined) return fallback;
+    const parsed = /^-?\d+$/.test(raw) ? Number.parseInt(raw, 10) : Number.NaN;
+    if (!Number.isSafeInteger(parsed) || parsed < min) {
+      console.error(`Invalid --${name} "${raw}": expected a whole number of at least ${min}.`);
+      return null;
+    }
+    return parsed;
+  };
+
+  const policyId = readFlag('policy') ?? 'flipper';
+  const policies = policyId === 'all' ? SIMULATION_POLICIES : [getSimulationPolicyById(policyId)];
+  if (policies.some((policy) => policy === undefined)) {
+    const known = SIMULATION_POLICIES.map((policy) => policy.id).join(', ');
+    console.error(`Unknown policy "${policyId}". Known policies: ${known}, all`);
+    return 1;
+  }
+
+  const difficulty = readFlag('difficulty') ?? 'standard';
+  if (!isDifficultyPreset(difficulty)) {
+    console.error(`Unknown difficulty "${difficulty}". Known presets: ${DIFFICULTY_PRESETS.join(', ')}`);
+    return 1;
+  }
+
+  const runs = readInt('runs', 200, 1);
+  const maxDays = readInt('days', 120, 1);
+  // 0 is a valid seed.
+  const baseSeed = readInt('seed', 1, 0);
+  if (runs === null || maxDays === null || baseSeed === null) return 1;
+  const asJson = argv.includes('--json');
+
+  const reports = policies.map((policy) => runSimulationBatch({ runs, baseSeed, policy: policy!, maxDays, settings: { mode: 'standard', difficulty } }));
+
+  if (asJson) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    console.log(reports.map(formatSimulationReport).join('\n\n'));
+  }
+  return 0;
+}
@@ -0,0 +1,123 @@
+import type { Car } from '@/data/car-database';
+import type { GameManager } from '@/core/game-manager';
+import { Economy, type RestorationChallenge, type RestorationOption } from '@/systems/Economy';
+
+/**
+ * Scripted player behaviour for the balance simulator.
+ * Every decision is a pure function of the car and the current GameManager state,
+ * so a run is fully determined by its seed.
+ */
+export interface SimulationPolicy {
+  id: string;
+  description: string;
+  /**
+   * Highest total price the player will pay for this car (auction or negotiation), or null to skip it.
+   * @param estimate - Market-aware value estimate (same number the encounter UI shows)
+   */
+  getMaxBid(car: Car, estimate: number, gameManager: GameManager): number | null;
+  /** Whether to pay for a blocking restoration challenge (e.g. rust removal). */
+  shouldFixChallenge(car: Car, challenge: RestorationChallenge, gameManager: GameManager): boolean;
+  /** Pick one restoration to run on a garage car, or null to leave it as-is. */
+  chooseRestoration(car: Car, options: RestorationOption[], gameManager: GameManager): RestorationOption | null;
+  /** Whether to sell this garage car now. */
+  shouldSell(car: Car, salePrice: number, gameManager: GameManager): boolean;
+  /** Whether to move this garage car into the private collection. */
+  shouldCollect(car: Car, gameManager: GameManager): boolean;
+  /** Whether to spend prestige on the next garage slot. */
+  shouldUpgradeGarage(gameManager: GameManager): boolean;
+}
+
+/** Labor plus the expected price of the parts (see GameManager.estimatePartsCost). */
+function getWorkCost(work: RestorationOption | RestorationChallenge, gameManager: GameManager): number {
+  return work.cost + gameManager.estimatePartsCost(work.requiredParts);
+}
+
+/**
+ * Best restoration by expected net value gain (value increase minus labor and parts), ignoring the specialist's risk.
+ * Mirrors the profit preview shown in the garage restoration modal.
+ */
+function pickMostProfitableRestoration(
+  car: Car,
+  options: RestorationOption[],
+  gameManager: GameManager
+): RestorationOption | null {
+  const money = gameManager.getPlayerState().money;
+  const currentValue = Economy.getSalePrice(car, gameManager);
+
+  let best: { option: RestorationOption; netProfit: number } | null = null;
+  for (const option of options) {
+    const cost = getWorkCost(option, gameManager);
+    // The car can't be sold while it's in the workshop, so keep rent for the job's duration.
+    if (cost > money - getCashReserve(gameManager, option.durationDays + 1)) continue;
+    const simulatedCar = Economy.previewRestoration(car, option);
+    const netProfit = Economy.getSalePrice(simulatedCar, gameManager) - currentValue - cost;
+    if (netProfit <= 0) continue;
+    if (!best || netProfit > best.netProfit) {
+      best = { option, netProfit };
+    }
+  }
+  return best?.option ?? null;
+}
+
+/** Keep enough cash on hand to cover a few days of rent. */
+function getCashReserve(gameManager: GameManager, days: number): number {
+  return gameManager.getDailyRent() * days;
+}
+
+/**
+ * Flipper: buys below estimate, restores while profitable, then sells. Never collects.
+ */
+export const FLIPPER_POLICY: SimulationPolicy = {
+  id: 'flipper',
+  description: 'Bid up to 85% of estimate, restore while profitable, sell everything.',
+  getMaxBid: (_car, estimate, gameManager) => {
+    const spendable = gameManager.getPlayerState().money - getCashReserve(gameManager, 3);
+    const maxBid = Math.min(Math.floor(estimate * 0.85), spendable);
+    return maxBid > 0 ? maxBid : null;
+  },
+  shouldFixChallenge: (car, challenge, gameManager) =>
+    getWorkCost(challenge, gameManager) < Economy.getSalePrice(car, gameManager) * 0.25,
+  chooseRestoration: pickMostProfitableRestoration,
+  shouldSell: (car, _salePrice, gameManager) =>
+    Economy.getRestorationChallenges(car).length === 0 &&
+    pickMostProfitableRestoration(car, gameManager.getRestorationOptions(car), gameManager) === null,
+  shouldCollect: () => false,
+  shouldUpgradeGarage: () => true,
+};
+
+/**
+ * Collector: bids closer to estimate, keeps collection-grade cars for prestige, flips the rest.
+ */
+export const COLLECTOR_POLICY: SimulationPolicy = {
+  id: 'collector',
+  description: 'Bid up to 100% of estimate, collect cars at 75%+ condition, flip the rest.',
+  getMaxBid: (_car, estimate, gameManager) => {
+    const spendable = gameManager.getPlayerState().money - getCashReserve(gameManager, 2);
+    const maxBid = Math.min(estimate, spendable);
+    return maxBid > 0 ? maxBid : null;
+  },
+  shouldFixChallenge: (car, challenge, gameManager) =>
+    getWorkCost(challenge, gameManager) < Economy.getSalePrice(car, gameManager) * 0.4,
+  chooseRestoration: (car, options, gameManager) => {
+    if (car.tier === 'Unicorn' || car.tier === 'Icon') {
+      // Trophy cars are worth pushing to collection grade even at a loss.
+      const affordable = options.filter((option) => getWorkCost(option, gameManager) <= gameManager.getPlayerState().money);
+      return affordable.find((option) => option.specialist === 'the_artisan') ?? affordable[0] ?? null;
+    }
+    return pickMostProfitableRestoration(car, options, gameManager);
+  },
+  shouldSell: (car, _salePrice, gameManager) =>
+    !gameManager.isCollectionEligible(car) &&
+    Economy.getRestorationChallenges(car).length === 0 &&
+    pickMostProfitableRestoration(car, gameManager.getRestorationOptions(car), gameManager) === null,
+  shouldCollect: (car, gameManager) => gameManager.isCollectionEligible(car),
+  shouldUpgradeGarage: () => true,
+};
+
+/** Built-in policies selectable from the simulator CLI by id. */
+export const SIMULATION_POLICIES: readonly SimulationPolicy[] = [FLIPPER_POLICY, COLLECTOR_POLICY];
+
+/** Look up a built-in policy by id. */
+export function getSimulationPolicyById(id: string): SimulationPolicy | undefined {
+  return SIMULATION_POLICIES.find((policy) => policy.id === id);
+}
@@ -1,7 +1,26 @@
-import { Car, calculateCarValue } from '@/data/car-database';
+import {
+  Car,
+  CAR_COMPONENTS,
+  adjustCarComponents,
+  adjustCarOriginality,
+  calculateCarValue,
+  getCarComponents,
+  type CarComponentConditions,
+  type CarDefect,
+  type CarProvenanceSource,
+  type CarTier,
+} from '@/data/car-database';
 import type { GameManager } from '@/core/game-manager';
-import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
 import { formatCurrency } from '@/utils/format';
+import { rng, type RandomFn } from '@/core/rng';
+import { getCarPartIdsByCategory } from '@/data/parts-database';
+import {
+  getRestorationSpecialistById,
+  RestorationSpecialistDatabase,
+  type RestorationSpecialist,
+} from '@/data/character-database';
+import type { SpecialistRelationship } from '@/core/game-types';
 
 /**
  * Restoration challenge for damaged cars.
@@ -12,24 +31,77 @@ export interface RestorationChallenge {
   name: string;
   cost: number;
   timeCost: number;
+  /** Days of workshop work before the challenge is done. */
+  durationDays: number;
   description: string;
   requiredFor: string[]; // History tags that require this challenge
+  /** Part ids that must be in stock to book the challenge (consumed by the job). */
+  requiredParts: string[];
 }
 
 /**
  * Restoration option configuration.
- * Defines cost, quality, and risk for a specific restoration service.
+ * Defines cost, quality, and risk for one specialist's service on a car.
  */
 export interface RestorationOption {
   id: string;
   name: string;
-  specialist: 'Charlie' | 'Artisan';
-  type: 'Minor' | 'Major';
+  /** Id of the specialist doing the work (see RestorationSpecialistDatabase). */
+  specialist: string;
   cost: number;
+  /** Condition added to each component the job works on. */
+  componentGains: Partial<CarComponentConditions>;
+  /** What the component gains add to the car's overall condition (after capping at 100). */
   conditionGain: number;
+  /** Chance the job goes to plan, including the specialist's loyalty bonus. */
+  reliability: number;
+  /** Originality points the job adds or removes on success. */
+  originalityChange: number;
   timeCost: number;
+  /** Days of workshop work before the restoration is done. */
+  durationDays: number;
   description: string;
   risk?: string;
+  /** Part ids that must be in stock to book the work (consumed by the job). */
+  requiredParts: string[];
+}
+
+/**
+ * Display name of a restoration specialist (as shown in toasts, the ledger and restoration logs).
+ */
+export function getRestorationSpecialistName(specialistId: string): string {
+  return getRestorationSpecialistById(specialistId)?.name ?? specialistId;
+}
+
+/**
+ * What a specialist's loyalty is worth: discounts on labor and signing fees and a reliability bonus,
+ * scaling linearly up to the config's values at maximum loyalty.
+ */
+export function getSpecialistLoyaltyEffects(loyalty: number): {
+  laborDiscount: number;
+  signingFeeDiscount: number;
+  reliabilityBonus: number;
+} {
+  const config = getGameConfig().economy.restoration.loyalty;
+  const share = Math.max(0, Math.min(1, loyalty / config.max));
+  return {
+    laborDiscount: share * config.laborDiscountAtMax,
+    signingFeeDiscount: share * config.signingFeeDiscountAtMax,
+    reliabilityBonus: share * config.reliabilityBonusAtMax,
+  };
+}
+
+/**
+ * Whether a specialist takes work today: freelancers always do, the rest only under contract.
+ */
+export function isSpecialistAvailable(
+  specialist: RestorationSpecialist,
+  relationship: Readonly<SpecialistRelationship> | undefined,
+  day: number
+): boolean {
+  if (!specialist.contract) return true;
+  const contractEndsDay = relationship?.contractEndsDay;
+  return typeof contractEndsDay === 'number' && contractEndsDay >= day;
 }
 
 /**
@@ -48,7 +120,7 @@ export class Economy {
 
     // Check for Rust damage
     if (car.history.includes('Rust')) {
-      const rustConfig = GAME_CONFIG.economy.challenges.rustRemoval;
+      const rustConfig = getGameConfig().economy.challenges.rustRemoval;
       const minCost = rustConfig.cost;
       const rate = rustConfig.costRateOfBaseValue ?? 0;
       const scaledCost = Math.floor(car.baseValue * rate);
@@ -59,21 +131,25 @@ export class Economy {
         name: 'Rust Removal Treatment',
         cost,
         timeCost: rustConfig.timeCost ?? 1,
+        durationDays: rustConfig.durationDays,
         description: 'Remove rust and treat metal surfaces before restoration.',
         requiredFor: ['Rust'],
+        requiredParts: getCarPartIdsByCategory(car, ['body']),
       });
     }
 
     // Check for Flood damage
     if (car.history.includes('Flooded')) {
-      const engineConfig = GAME_CONFIG.economy.challenges.engineRebuild;
+      const engineConfig = getGameConfig().economy.challenges.engineRebuild;
       challenges.push({
         id: 'engine_rebuild',
         name: 'Engine Rebuild',
         cost: engineConfig.cost,
         timeCost: engineConfig.timeCost ?? 2,
+        durationDays: engineConfig.durationDays,
         description: 'Rebuild engine to fix water damage before restoration.',
         requiredFor: ['Flooded'],
+        requiredParts: getCarPartIdsByCategory(car, ['engine']),
       });
     }
 
@@ -86,7 +162,7 @@ export class Economy {
    * @param challenge - The challenge to complete
    * @returns Updated car with history tag removed
    */
-  public static completeRestorationChallenge(car: Car, challenge: RestorationChallenge): Car {
+  public static completeRestorationChallenge(car: Car, challenge: Pick<RestorationChallenge, 'requiredFor'>): Car {
     const updatedHistory = car.history.filter((tag) => !challenge.requiredFor.includes(tag));
     return {
       ...car,
@@ -95,68 +171,84 @@ export class Economy {
   }
 
   /**
-   * Get available restoration options for a car based on its current condition.
-   * Charlie (Minor) available if condition < 100
-   * Artisan (Major) available if condition < 90
+   * Get available restoration options for a car: one per specialist who takes work today
+   * and whose service is offered at the condition of the components they work on.
    * @param car - The car to get restoration options for
-   * @returns Array of available restoration options
+   * @param relationships - The player's standing with each specialist, by id (loyalty and contracts)
+   * @param day - Today, for contract checks
+   * @returns Array of available restoration options, freelancers first
    */
-  public static getRestorationOptions(car: Car): RestorationOption[] {
-    const options: RestorationOption[] = [];
-    const baseValue = car.baseValue;
+  public static getRestorationOptions(
+    car: Car,
+    relationships: Readonly<Record<string, Readonly<SpecialistRelationship>>> = {},
+    day: number = 1
+  ): RestorationOption[] {
+    const config = getGameConfig().economy.restoration;
 
-    const charlie = GAME_CONFIG.economy.restoration.charlieMinor;
-    const artisan = GAME_CONFIG.economy.restoration.artisanMajor;
+    const components = getCarComponents(car);
 
-    // Cheap Charlie - Minor Service
-    // Low Cost, Fast, Risk of bad work
-    if (car.condition < charlie.availableBelowCondition) {
-      options.push({
-        id: 'charlie_minor',
-        name: "Cheap Charlie's Quick Fix",
-        specialist: 'Charlie',
-        type: 'Minor',
-        cost: Math.floor(baseValue * charlie.costRateOfBaseValue),
-        conditionGain: charlie.conditionGain,
-        timeCost: charlie.timeCost ?? 1,
-        description: "Fast and cheap. Don't ask questions.",
-        risk: `${Math.round(charlie.failChance * 100)}% chance to damage car`,
-      });
-    }
+    return RestorationSpecialistDatabase.filter((specialist) => {
+      const worked = specialist.components.reduce((sum, component) => sum + components[component], 0);
+      return (
+        worked / specialist.components.length < specialist.service.availableBelowCondition &&
+        isSpecialistAvailable(specialist, relationships[specialist.id], day)
+      );
+    }).map((specialist) => {
+      const loyalty = getSpecialistLoyaltyEffects(relationships[specialist.id]?.loyalty ?? 0);
+      const reliability = Math.min(1, specialist.reliability + loyalty.reliabilityBonus);
+      const skillIndex = Math.max(0, Math.min(config.conditionGainBySkill.length - 1, specialist.skill - 1));
+      // Trade specialists put a whole job's effort into their components.
+      const gain =
+        config.conditionGainBySkill[skillIndex] * (specialist.trade === 'general' ? 1 : config.tradeGainMultiplier);
+      const componentGains: Partial<CarComponentConditions> = {};
+      for (const component of specialist.components) componentGains[component] = gain;
 
-    // The Artisan - Major Overhaul
-    // High Cost, Slow, Quality work
-    if (car.condition < artisan.availableBelowCondition) {
-      options.push({
-        id: 'artisan_major',
-        name: "The Artisan's Restoration",
-        specialist: 'Artisan',
-        type: 'Major',
-        cost: Math.floor(baseValue * artisan.costRateOfBaseValue),
-        conditionGain: artisan.conditionGain,
-        timeCost: artisan.timeCost ?? 2,
-        description: 'Perfection takes time. Increases value significantly.',
-      });
-    }
+      return {
+        id: specialist.id,
+        name: specialist.service.name,
+        specialist: specialist.id,
+        cost: Math.floor(car.baseValue * specialist.laborRate * (1 - loyalty.laborDiscount)),
+        componentGains,
+        conditionGain: adjustCarComponents(car, componentGains).condition - car.condition,
+        reliability,
+        originalityChange: specialist.originalityChange,
+        timeCost: config.bookingTimeCost,
+        durationDays: specialist.durationDays,
+        description: specialist.service.description,
+        ...(reliability < 1 ? { risk: `${Math.round((1 - reliability) * 100)}% chance to damage car` } : {}),
+        requiredParts: getCarPartIdsByCategory(car, specialist.partCategories),
+      };
+    });
+  }
 
-    return options;
+  /**
+   * The car as a successful job would leave it (ignoring discoveries and the parts' originality).
+   * Used for profit previews.
+   */
+  public static previewRestoration(
+    car: Car,
+    option: Pick<RestorationOption, 'componentGains' | 'originalityChange'>
+  ): Car {
+    return adjustCarOriginality(adjustCarComponents(car, option.componentGains), option.originalityChange);
   }
 
   /**
    * Perform restoration on a car with chance of hidden discoveries.
-   * Charlie has a 10% chance to damage the car instead of improving it.
-   * Artisan always succeeds and improves condition.
-   * Both have chance of hidden discoveries (positive or negative).
-   * Condition is capped at 100.
+   * The job is botched (the components it works on lose condition instead) with a chance of 1 - reliability.
+   * Successful jobs also apply the specialist's originality change; botched ones only its losses.
+   * Every job has a chance of hidden discoveries (positive or negative).
+   * Component condition is capped at 100; the overall condition is rolled up from the components.
    * @param car - The car to restore
    * @param option - The restoration option to apply
-   * @param tutorialOverride - If true, always succeed (ignore Charlie's risk) for tutorial
+   * @param tutorialOverride - If true, always succeed (ignore the specialist's risk) for tutorial
+   * @param random - Random source for discovery and failure rolls (defaults to the seeded 'restoration' stream)
    * @returns Object with updated car, success flag, message, and discovery info
    */
   public static performRestoration(
     car: Car,
-    option: RestorationOption,
-    tutorialOverride: boolean = false
+    option: Pick<RestorationOption, 'specialist' | 'componentGains' | 'reliability' | 'originalityChange'>,
+    tutorialOverride: boolean = false,
+    random: RandomFn = rng.stream('restoration')
   ): {
     car: Car;
     success: boolean;
@@ -175,13 +267,13 @@ export class Economy {
       valueChange: number;
     };
 
-    let newCondition = car.condition;
+    let componentChanges: Partial<CarComponentConditions> = option.componentGains;
     let message = 'Restoration complete.';
     let success = true;
     let discovery: RestorationDiscovery | undefined;
 
-    const charlie = GAME_CONFIG.economy.restoration.charlieMinor;
-    const conditionMax = GAME_CONFIG.economy.restoration.conditionMax;
+    const restorationConfig = getGameConfig().economy.restoration;
+    const specialistName = getRestorationSpecialistName(option.specialist);
 
     const discoveryPositiveRate = 0.10;
     const discoveryNegativeRate = 0.05;
@@ -191,7 +283,7 @@ export class Economy {
     // Check for hidden discoveries (10% chance for positive, 5% chance for negative).
     // Value deltas scale with base value to avoid making cheap cars a grindable money printer.
     if (!tutorialOverride) {
-      const discoveryRoll = Math.random();
+      const discoveryRoll = random();
       if (discoveryRoll < discoveryPositiveRate) {
         // Positive discovery
         discovery = {
@@ -213,30 +305,27 @@ export class Economy {
       }
     }
 
-    if (option.specialist === 'Charlie') {
-      // Charlie has a risk factor (skip in tutorial override)
-      if (!tutorialOverride && Math.random() < charlie.failChance) {
-        newCondition -= charlie.failConditionPenalty;
-        message = discovery ? `${message} AND Charlie botched the job!` : 'Charlie botched the job! Condition worsened.';
-        success = false;
-      } else {
-        newCondition += option.conditionGain;
-        if (!discovery) {
-          message = tutorialOverride ? 'Charlie managed to fix it up perfectly!' : 'Charlie managed to fix it up.';
+    let originalityChange = option.originalityChange;
+    if (!tutorialOverride && random() >= option.reliability) {
+      componentChanges = {};
+      for (const component of CAR_COMPONENTS) {
+        if (option.componentGains[component] !== undefined) {
+          componentChanges[component] = -restorationConfig.botchConditionPenalty;
         }
       }
+      originalityChange = Math.min(0, originalityChange);
+      message = discovery
+        ? `${message} AND ${specialistName} botched the job!`
+        : `${specialistName} botched the job! Condition worsened.`;
+      success = false;
     } else {
-      // Artisan always succeeds
-      newCondition += option.conditionGain;
       if (!discovery) {
-        message = 'The Artisan did a magnificent job.';
+        message =
+          getRestorationSpecialistById(option.specialist)?.successMessage ?? `${specialistName} finished the job.`;
       }
     }
 
-    let updatedCar = {
-      ...car,
-      condition: Math.max(0, Math.min(newCondition, conditionMax)),
-    };
+    let updatedCar = adjustCarOriginality(adjustCarComponents(car, componentChanges), originalityChange);
 
     // Apply discovery value change if found
     if (discovery) {
@@ -256,7 +345,17 @@ export class Economy {
    * @returns Final sale price as an integer
    */
   public static getSalePrice(
-    car: { baseValue: number; condition: number; history?: readonly string[]; tags: readonly string[] },
+    car: {
+      baseValue: number;
+      condition: number;
+      tier?: CarTier;
+      components?: Readonly<CarComponentConditions>;
+      history?: readonly string[];
+      defects?: readonly CarDefect[];
+      originality?: number;
+      provenance?: CarProvenanceSource['provenance'];
+      tags: readonly string[];
+    },
     gameManager?: Pick<GameManager, 'getMarketModifier'>
   ): number {
     const baseValue = calculateCarValue(car);
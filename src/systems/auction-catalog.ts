@@ -0,0 +1,84 @@
+import { getUndiscoveredDefects, type Car, type CarTier } from '@/data/car-database';
+import { calculateRivalInterest, type Rival } from '@/data/rival-database';
+import type { AuctionRivalEntry } from '@/systems/map-encounter-router';
+import { getGameConfig } from '@/config/run-config';
+
+/**
+ * An auction day at a house: its catalog of lots, sold one after another to the same room of rivals.
+ * Passed from lot to lot in the scene data; it isn't saved (leaving the sale ends it).
+ */
+export interface AuctionDay {
+  locationId: string;
+  /** The catalog, in sale order. */
+  lots: Car[];
+  /** Index of the lot under the hammer. */
+  lotIndex: number;
+  /** Rivals in the room for the whole day. */
+  rivals: Rival[];
+  /** Budget each rival has left after the earlier lots, by rival id (missing before the first lot). */
+  rivalBudgets: Record<string, number>;
+}
+
+/** Start an auction day with the first lot under the hammer. */
+export function createAuctionDay(params: { locationId: string; lots: readonly Car[]; rivals: readonly Rival[] }): AuctionDay {
+  return {
+    locationId: params.locationId,
+    lots: [...params.lots],
+    lotIndex: 0,
+    rivals: [...params.rivals],
+    rivalBudgets: {},
+  };
+}
+
+/** The lot under the hammer. */
+export function getCurrentLot(auctionDay: AuctionDay): Car {
+  return auctionDay.lots[auctionDay.lotIndex];
+}
+
+/** The room's rivals with their interest in the lot under the hammer. */
+export function getLotRivalEntries(auctionDay: AuctionDay): AuctionRivalEntry[] {
+  const lot = getCurrentLot(auctionDay);
+  return auctionDay.rivals.map((rival) => ({
+    rival,
+    interest: calculateRivalInterest(rival, [...lot.tags], lot.originality),
+  }));
+}
+
+/**
+ * Move on to the next lot.
+ * @param rivalBudgets - What each rival has left once the current lot is sold
+ * @returns The day with the next lot under the hammer, or null after the last lot
+ */
+export function getNextAuctionDay(auctionDay: AuctionDay, rivalBudgets: Record<string, number>): AuctionDay | null {
+  if (auctionDay.lotIndex + 1 >= auctionDay.lots.length) return null;
+  return { ...auctionDay, lotIndex: auctionDay.lotIndex + 1, rivalBudgets: { ...rivalBudgets } };
+}
+
+/**
+ * What the catalog tells the player about a lot. Better Eye reads more of it;
+ * details the player can't read yet are null.
+ */
+export interface CatalogLotPreview {
+  name: string;
+  tier: CarTier;
+  condition: number | null;
+  estimate: number | null;
+  /** How many problems the catalog glosses over. */
+  hiddenDefects: number | null;
+}
+
+/**
+ * Read a catalog lot with the player's Eye.
+ * @param estimate - The lot's market-aware estimate
+ */
+export function getCatalogLotPreview(car: Car, params: { eyeLevel: number; estimate: number }): CatalogLotPreview {
+  const required = getGameConfig().auction.catalog.previewEyeLevel;
+  const { eyeLevel, estimate } = params;
+  return {
+    name: car.name,
+    tier: car.tier,
+    condition: eyeLevel >= required.condition ? car.condition : null,
+    estimate: eyeLevel >= required.estimate ? estimate : null,
+    hiddenDefects: eyeLevel >= required.hiddenDefects ? getUndiscoveredDefects(car).length : null,
+  };
+}
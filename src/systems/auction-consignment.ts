@@ -0,0 +1,73 @@
+import { getCarOriginality } from '@/data/car-database';
+import { getBaseLocationDefinitionById } from '@/data/location-database';
+import { calculateRivalInterest, getRivalById, RivalDatabase } from '@/data/rival-database';
+import { pickAttendingRivals, type AuctionRivalEntry } from '@/systems/map-encounter-router';
+import { getGameConfig } from '@/config/run-config';
+import { rng, shuffleInPlace, type RandomFn } from '@/core/rng';
+
+/**
+ * Reserve prices the player can set for a car with this market value (0 = no reserve).
+ */
+export function getReservePriceRange(marketValue: number): { min: number; max: number } {
+  return { min: 0, max: Math.max(0, Math.floor(marketValue * getGameConfig().consignment.maxReserveMultiplier)) };
+}
+
+/** Whether a hammer price sells the car (it must reach the reserve). */
+export function isReserveMet(hammerPrice: number, reservePrice: number): boolean {
+  return hammerPrice >= reservePrice;
+}
+
+/** Opening bid and rival cap of a consignment auction for a car with this market value. */
+export function getConsignmentBidRange(marketValue: number): { openingBid: number; maxBid: number } {
+  const config = getGameConfig().consignment;
+  return {
+    openingBid: Math.max(1, Math.floor(marketValue * config.startingBidMultiplier)),
+    maxBid: Math.max(1, Math.floor(marketValue * config.rivalMaxBidMultiplier)),
+  };
+}
+
+/** Whether a specialty house (one with focus tags) specializes in this car. */
+function isSpecialtyMatch(focusTags: readonly string[] | undefined, carTags: readonly string[]): boolean {
+  return !!focusTags && focusTags.some((tag) => carTags.includes(tag));
+}
+
+/**
+ * Rivals who show up to bid on the player's car: the usual attendance for the player's prestige,
+ * plus, when a specialty house's focus tags fit the car, collectors whose wishlist matches the car's tags.
+ * @param random - Random source (defaults to the seeded 'encounters' stream)
+ */
+export function pickConsignmentRivals(params: {
+  car: { tags: readonly string[]; originality?: number };
+  locationId: string;
+  playerPrestige: number;
+  day: number;
+  random?: RandomFn;
+}): AuctionRivalEntry[] {
+  const { car, locationId, playerPrestige, day } = params;
+  const random = params.random ?? rng.stream('encounters');
+  const config = getGameConfig().consignment;
+
+  const attending = pickAttendingRivals({
+    playerPrestige,
+    day,
+    carTags: car.tags,
+    carOriginality: car.originality,
+    minAttendees: config.attendees.min,
+    maxAttendees: config.attendees.max,
+    random,
+  });
+
+  const location = getBaseLocationDefinitionById(locationId);
+  if (!isSpecialtyMatch(location?.focusTags, car.tags)) return attending;
+
+  const collectors = RivalDatabase.filter(
+    (rival) =>
+      !attending.some((entry) => entry.rival.id === rival.id) && rival.wishlist.some((tag) => car.tags.includes(tag))
+  );
+  shuffleInPlace(random, collectors);
+  for (const collector of collectors.slice(0, config.specialtyWishlistRivals)) {
+    const rival = getRivalById(collector.id, day);
+    attending.push({ rival, interest: calculateRivalInterest(rival, [...car.tags], getCarOriginality(car)) });
+  }
+  return attending;
+}
@@ -0,0 +1,39 @@
+import {
+  getBaseLocationDefinitionById,
+  type AuctionHouseFees,
+  type AuctionMembershipTier,
+} from '@/data/location-database';
+
+/** Fees at places that don't charge any (tutorial and special-event auctions). */
+export const NO_AUCTION_FEES: Readonly<AuctionHouseFees> = { buyersPremium: 0, sellersCommission: 0, entryFee: 0 };
+
+/**
+ * A house's membership tier by id, or null if it has no such tier.
+ */
+export function getAuctionMembershipTier(locationId: string, tierId: string): AuctionMembershipTier | null {
+  return getBaseLocationDefinitionById(locationId)?.memberships?.find((tier) => tier.id === tierId) ?? null;
+}
+
+/**
+ * Fees a player pays at a location: the membership tier's if they hold one, otherwise the house's standard fees.
+ * @param membershipTierId - The player's tier at this house, if any
+ */
+export function getAuctionHouseFees(locationId: string, membershipTierId?: string | null): AuctionHouseFees {
+  const membership = membershipTierId ? getAuctionMembershipTier(locationId, membershipTierId) : null;
+  return { ...(membership?.fees ?? getBaseLocationDefinitionById(locationId)?.fees ?? NO_AUCTION_FEES) };
+}
+
+/** The winning bidder's premium on a hammer price. */
+export function getBuyersPremium(hammerPrice: number, fees: Pick<AuctionHouseFees, 'buyersPremium'>): number {
+  return Math.round(Math.max(0, hammerPrice) * fees.buyersPremium);
+}
+
+/** The house's cut of a consigned car's hammer price. */
+export function getSellersCommission(hammerPrice: number, fees: Pick<AuctionHouseFees, 'sellersCommission'>): number {
+  return Math.round(Math.max(0, hammerPrice) * fees.sellersCommission);
+}
+
+/** A fee rate as a percentage, e.g. "8%". */
+export function formatFeeRate(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
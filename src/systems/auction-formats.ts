@@ -0,0 +1,103 @@
+import { getBaseLocationDefinitionById, type AuctionFormat } from '@/data/location-database';
+import type { RivalStrategy } from '@/data/rival-database';
+import type { RivalAI } from '@/systems/rival-ai';
+import type { SpecialEvent } from '@/systems/special-events-system';
+import { getGameConfig } from '@/config/run-config';
+import { rng, type RandomFn } from '@/core/rng';
+
+/** Display names and one-line rules of the auction formats. */
+export const AUCTION_FORMAT_LABELS: Record<AuctionFormat, { name: string; description: string }> = {
+  english: { name: 'Open bidding', description: 'Bidders raise in turn until one is left.' },
+  sealed: { name: 'Sealed bids', description: 'One hidden bid each. The highest bid wins and pays what it bid.' },
+  dutch: { name: 'Dutch clock', description: 'The price drops until someone accepts it. First to accept wins.' },
+};
+
+/**
+ * The format an auction is run in: the special event's if it sets one, otherwise the house's (english by default).
+ */
+export function getAuctionFormat(params: { locationId?: string; specialEvent?: SpecialEvent }): AuctionFormat {
+  const { locationId, specialEvent } = params;
+  if (specialEvent?.auctionFormat) return specialEvent.auctionFormat;
+  return (locationId ? getBaseLocationDefinitionById(locationId)?.auctionFormat : undefined) ?? 'english';
+}
+
+function roundDownToIncrement(amount: number): number {
+  const increment = getGameConfig().auction.bidIncrement;
+  return Math.floor(amount / increment) * increment;
+}
+
+/**
+ * A rival's hidden bid: a strategy-shaded share of what the car is worth to them
+ * (their willingness to pay, as in open bidding), capped by their budget and the auction's rival cap.
+ * The same price is where they accept on a Dutch clock.
+ * @param maxBid - The most any rival will pay at this auction
+ * @param random - Random source for the bid's jitter (defaults to the seeded 'auction' stream)
+ * @returns The bid, or null if the rival won't meet the opening bid
+ */
+export function getRivalSealedBid(
+  ai: RivalAI,
+  params: { openingBid: number; maxBid: number; random?: RandomFn }
+): number | null {
+  const config = getGameConfig().auction.sealedBid;
+  const random = params.random ?? rng.stream('auction');
+
+  const limit = Math.min(ai.getMaxWillingBid(), ai.getBudget(), params.maxBid);
+  const shadingByStrategy: Record<RivalStrategy, number> = {
+    Aggressive: config.bidShading.aggressive,
+    Passive: config.bidShading.passive,
+    Collector: config.bidShading.collector,
+  };
+  const jitter = 1 + config.jitter * (random() * 2 - 1);
+  const bid = roundDownToIncrement(Math.min(limit, limit * shadingByStrategy[ai.getRival().strategy] * jitter));
+
+  return bid >= params.openingBid ? bid : null;
+}
+
+/**
+ * Open the sealed bids: highest first. Ties go to whoever is listed first.
+ */
+export function rankSealedBids<T extends { amount: number }>(bids: readonly T[]): T[] {
+  return bids
+    .map((bid, index) => ({ bid, index }))
+    .sort((a, b) => b.bid.amount - a.bid.amount || a.index - b.index)
+    .map((entry) => entry.bid);
+}
+
+/**
+ * Prices of a Dutch auction clock.
+ */
+export interface DutchClock {
+  startPrice: number;
+  /** How much the price drops per tick. */
+  priceDrop: number;
+  /** The lowest price (the usual opening bid); the car goes unsold if nobody accepts it. */
+  floorPrice: number;
+}
+
+/** The clock for a car with this market estimate and opening bid. */
+export function getDutchClock(estimate: number, openingBid: number): DutchClock {
+  const config = getGameConfig().auction;
+  return {
+    startPrice: Math.max(openingBid, roundDownToIncrement(estimate * config.dutch.startingPriceMultiplier)),
+    priceDrop: Math.max(config.bidIncrement, roundDownToIncrement(estimate * config.dutch.priceDropMultiplier)),
+    floorPrice: openingBid,
+  };
+}
+
+/** The clock's next price, or null once it has reached the floor. */
+export function getNextDutchPrice(clock: DutchClock, price: number): number | null {
+  if (price <= clock.floorPrice) return null;
+  return Math.max(clock.floorPrice, price - clock.priceDrop);
+}
+
+/**
+ * The rival who accepts the clock at this price: the one willing to pay the most, if anyone will pay it.
+ * @param takePrices - Each rival's accepting price by rival id (see getRivalSealedBid)
+ */
+export function findDutchTaker(price: number, takePrices: Readonly<Record<string, number>>): string | null {
+  let taker: string | null = null;
+  for (const [rivalId, takePrice] of Object.entries(takePrices)) {
+    if (takePrice >= price && (taker === null || takePrice > (takePrices[taker] ?? 0))) taker = rivalId;
+  }
+  return taker;
+}
@@ -0,0 +1,37 @@
+import {
+  discoverCarDefects,
+  getUndiscoveredDefects,
+  type Car,
+  type CarDefectKind,
+} from '@/data/car-database';
+import { getGameConfig } from '@/config/run-config';
+import { rng, type RandomFn } from '@/core/rng';
+
+/**
+ * Chance an Inspect reveals one hidden defect at a given Eye level.
+ * @param kind - The hidden defect
+ * @param eyeLevel - The player's Eye skill level
+ * @returns Probability in [0, maxRevealChance]
+ */
+export function getDefectRevealChance(kind: CarDefectKind, eyeLevel: number): number {
+  const config = getGameConfig().defects;
+  const chance = Math.max(0, eyeLevel) * config.revealChancePerEyeLevel - config.kinds[kind].concealment;
+  return Math.max(0, Math.min(config.maxRevealChance, chance));
+}
+
+/**
+ * Inspect a car: roll to reveal each hidden defect.
+ * Pure; the caller charges the time cost and awards XP.
+ * @param car - The car being inspected
+ * @param eyeLevel - The player's Eye skill level
+ * @param random - Random source (defaults to the seeded 'encounters' stream)
+ * @returns A copy of the car with revealed defects marked discovered, and the kinds just revealed
+ */
+export function inspectCar(
+  car: Car,
+  eyeLevel: number,
+  random: RandomFn = rng.stream('encounters')
+): { car: Car; revealed: CarDefectKind[] } {
+  const revealed = getUndiscoveredDefects(car).filter((kind) => random() < getDefectRevealChance(kind, eyeLevel));
+  return { car: discoverCarDefects(car, revealed), revealed };
+}
@@ -0,0 +1,134 @@
+import type { BuyerOffer, BuyerOfferKind, CarListing } from '@/core/game-types';
+import { PrivateBuyerDatabase, type BuyerStyle, type PrivateBuyer } from '@/data/buyer-database';
+import { getGameConfig } from '@/config/run-config';
+import { randomIdSuffix, rng, shuffleInPlace, type RandomFn } from '@/core/rng';
+
+const BUYER_STYLE_KEYS = {
+  Enthusiast: 'enthusiast',
+  Dealer: 'dealer',
+  'Bargain Hunter': 'bargainHunter',
+} as const satisfies Record<BuyerStyle, string>;
+
+/** Round down to the marketplace price step (buyers never round up). */
+function roundOfferPrice(value: number): number {
+  const step = Math.max(1, getGameConfig().marketplace.priceRounding);
+  return Math.max(step, Math.floor(value / step) * step);
+}
+
+function countWishlistMatches(buyer: PrivateBuyer, carTags: readonly string[]): number {
+  return buyer.wishlist.filter((tag) => carTags.includes(tag)).length;
+}
+
+/**
+ * Asking prices the player can set for a car with this market value.
+ */
+export function getAskingPriceRange(marketValue: number): { min: number; max: number } {
+  const { askingPriceMultiplier } = getGameConfig().marketplace;
+  return {
+    min: Math.max(1, Math.ceil(marketValue * askingPriceMultiplier.min)),
+    max: Math.max(1, Math.floor(marketValue * askingPriceMultiplier.max)),
+  };
+}
+
+/**
+ * Chance a buyer who looks at a listing makes an offer: lower the further the ask is above market value.
+ * @param wishlistMatch - The buyer's wishlist shares a tag with the car
+ */
+export function getOfferChance(askingPrice: number, marketValue: number, wishlistMatch: boolean): number {
+  const config = getGameConfig().marketplace;
+  const markup = marketValue > 0 ? askingPrice / marketValue - 1 : 1;
+  const chance =
+    config.baseOfferChance - config.priceSensitivity * markup + (wishlistMatch ? config.wishlistOfferChanceBonus : 0);
+  return Math.min(config.offerChance.max, Math.max(config.offerChance.min, chance));
+}
+
+/**
+ * Build a buyer's offer: the ask if they think the car is worth it, otherwise a counter-offer
+ * or lowball bid below their hidden maximum.
+ * @param random - Random source (defaults to the seeded 'buyers' stream)
+ */
+export function createBuyerOffer(
+  buyer: PrivateBuyer,
+  car: { tags: readonly string[] },
+  askingPrice: number,
+  marketValue: number,
+  day: number,
+  random: RandomFn = rng.stream('buyers')
+): BuyerOffer {
+  const config = getGameConfig().marketplace;
+  const { valuation } = config.buyerStyles[BUYER_STYLE_KEYS[buyer.style]];
+  const wishlistBonus = Math.min(
+    config.wishlistValuationBonusMax,
+    countWishlistMatches(buyer, car.tags) * config.wishlistValuationBonusPerTag
+  );
+  const maxPrice = roundOfferPrice(
+    marketValue * (valuation.min + random() * (valuation.max - valuation.min)) * (1 + wishlistBonus)
+  );
+
+  let kind: BuyerOfferKind = 'full';
+  let amount = askingPrice;
+  if (maxPrice < askingPrice) {
+    const opening = buyer.style === 'Bargain Hunter' ? config.lowballOfferMultiplier : config.counterOfferMultiplier;
+    amount = roundOfferPrice(maxPrice * opening);
+    kind = amount < askingPrice * config.lowballThreshold ? 'lowball' : 'counter';
+  }
+
+  return {
+    id: `offer_${randomIdSuffix(random, 8)}`,
+    buyer: buyer.name,
+    kind,
+    amount,
+    maxPrice,
+    madeDay: day,
+    expiresDay: day + config.offerDays - 1,
+  };
+}
+
+/**
+ * Roll one day of buyer interest in a listing: up to `buyersPerDay` buyers without an open offer
+ * look at it, and each makes an offer with `getOfferChance()`.
+ * @param marketValue - The car's market value today (Economy.getSalePrice)
+ * @param random - Random source (defaults to the seeded 'buyers' stream)
+ * @returns The new offers (the listing is not changed)
+ */
+export function rollBuyerOffers(
+  listing: Readonly<Pick<CarListing, 'askingPrice'>> & { readonly offers: readonly Pick<BuyerOffer, 'buyer'>[] },
+  car: { tags: readonly string[] },
+  marketValue: number,
+  day: number,
+  random: RandomFn = rng.stream('buyers')
+): BuyerOffer[] {
+  const config = getGameConfig().marketplace;
+  const buyers = PrivateBuyerDatabase.filter((buyer) => !listing.offers.some((offer) => offer.buyer === buyer.name));
+  shuffleInPlace(random, buyers);
+
+  const offers: BuyerOffer[] = [];
+  const room = Math.max(0, config.maxOpenOffers - listing.offers.length);
+  for (const buyer of buyers.slice(0, config.buyersPerDay)) {
+    if (offers.length >= room) break;
+    const chance = getOfferChance(listing.askingPrice, marketValue, countWishlistMatches(buyer, car.tags) > 0);
+    if (random() >= chance) continue;
+    offers.push(createBuyerOffer(buyer, car, listing.askingPrice, marketValue, day, random));
+  }
+  return offers;
+}
+
+/** Offers still open on `day`. */
+export function getOpenOffers<T extends Pick<BuyerOffer, 'expiresDay'>>(offers: readonly T[], day: number): T[] {
+  return offers.filter((offer) => offer.expiresDay >= day);
+}
+
+/**
+ * Counter-offer suggested to the player: halfway between the buyer's offer and the ask.
+ */
+export function getSuggestedCounterOffer(offer: Pick<BuyerOffer, 'amount'>, askingPrice: number): number {
+  const step = Math.max(1, getGameConfig().marketplace.priceRounding);
+  return Math.max(offer.amount, Math.round((offer.amount + askingPrice) / 2 / step) * step);
+}
+
+/**
+ * Whether a buyer takes the player's counter-offer (anything at or below their hidden maximum).
+ */
+export function isCounterOfferAccepted(offer: Pick<BuyerOffer, 'maxPrice'>, price: number): boolean {
+  return price <= offer.maxPrice;
+}
@@ -0,0 +1,117 @@
+import {
+  getFoundProvenanceDocuments,
+  getLostProvenanceDocuments,
+  PROVENANCE_DOCUMENT_KINDS,
+  type Car,
+  type CarProvenance,
+  type CarProvenanceSource,
+  type ProvenanceDocumentKind,
+} from '@/data/car-database';
+import { RivalDatabase } from '@/data/rival-database';
+import { getGameConfig } from '@/config/run-config';
+import { pickRandom, randomInt, rng, shuffleInPlace, type RandomFn } from '@/core/rng';
+
+/** Collectors who owned cars before the current rivals came along. */
+const FICTIONAL_COLLECTORS: readonly string[] = [
+  'Dr. Harold Finch',
+  'Evelyn Marsh',
+  'Count Alessandro Bertini',
+  'The Whitmore Estate',
+  'Walt "Gearhead" Kowalczyk',
+  'Junko Sato',
+  'Reverend Amos Pike',
+  'Lady Philippa Grange',
+  'Tex Maddox',
+  'The Lindqvist Museum',
+  'Dieter Hoffmann',
+  'Marguerite Dubois',
+];
+
+/** What a car's history tags say happened to it. */
+const HISTORY_TAG_EVENTS: Readonly<Record<string, string>> = {
+  Flooded: 'Caught in a flood and left standing in water for days',
+  Rust: 'Stored outdoors for years under a leaking tarp',
+  Mint: 'Kept under a cover in a heated garage for decades',
+};
+
+const NOTABLE_EVENTS: readonly string[] = [
+  'Won its class at a regional concours',
+  'Road tested by a period motoring magazine',
+  'Raced at club level for two seasons',
+  'Shipped overseas and brought back home',
+  'Used in a television commercial',
+  'Laid up in a barn after its owner passed away',
+  'Repainted in a non-factory color, then back again',
+  'Featured on a marque club calendar',
+  'Sold at a celebrity estate auction',
+];
+
+/**
+ * Roll a car's provenance: previous owners (rivals and fictional collectors), notable events
+ * (from its history tags, sometimes one more) and which documents survive.
+ * Nothing is known about the documents yet (research level 0).
+ * @param random - Random source (defaults to the seeded 'provenance' stream)
+ */
+export function rollCarProvenance(
+  car: Pick<Car, 'history'>,
+  random: RandomFn = rng.stream('provenance')
+): CarProvenance {
+  const config = getGameConfig().provenance;
+
+  const candidates = [...RivalDatabase.map((rival) => rival.name), ...FICTIONAL_COLLECTORS];
+  shuffleInPlace(random, candidates);
+  const ownerCount = config.previousOwners.min + randomInt(random, config.previousOwners.max - config.previousOwners.min + 1);
+  const owners = candidates.slice(0, ownerCount);
+
+  const events = car.history.flatMap((tag) => (HISTORY_TAG_EVENTS[tag] ? [HISTORY_TAG_EVENTS[tag]] : []));
+  if (random() < config.notableEventChance) {
+    const event = pickRandom(random, NOTABLE_EVENTS);
+    if (event) events.unshift(event);
+  }
+
+  const documents = PROVENANCE_DOCUMENT_KINDS.map((kind) => ({
+    kind,
+    exists: random() < config.documents[kind].survivalChance,
+    obscurity: config.obscurity.min + randomInt(random, config.obscurity.max - config.obscurity.min + 1),
+  }));
+
+  return { owners, events, documents, researchLevel: 0 };
+}
+
+/** Whether researching now would trace anything new (the player's Network has grown since the last research). */
+export function canResearchProvenance(car: CarProvenanceSource, networkLevel: number): boolean {
+  return networkLevel > (car.provenance?.researchLevel ?? 0);
+}
+
+/**
+ * Research a car's provenance at the player's Network level, rolling it first if needed.
+ * Pure; the caller charges the time cost and awards XP.
+ * @param random - Random source for the first roll (defaults to the seeded 'provenance' stream)
+ * @returns A copy of the car and the documents this research found or confirmed lost
+ */
+export function researchCarProvenance(
+  car: Car,
+  networkLevel: number,
+  random: RandomFn = rng.stream('provenance')
+): { car: Car; found: ProvenanceDocumentKind[]; lost: ProvenanceDocumentKind[] } {
+  const provenance = car.provenance ?? rollCarProvenance(car, random);
+  const before = { provenance };
+  const researched: Car = {
+    ...car,
+    provenance: {
+      ...provenance,
+      owners: [...provenance.owners],
+      events: [...provenance.events],
+      documents: provenance.documents.map((document) => ({ ...document })),
+      researchLevel: Math.max(provenance.researchLevel, networkLevel),
+    },
+  };
+
+  const foundBefore = getFoundProvenanceDocuments(before);
+  const lostBefore = getLostProvenanceDocuments(before);
+  return {
+    car: researched,
+    found: getFoundProvenanceDocuments(researched).filter((kind) => !foundBefore.includes(kind)),
+    lost: getLostProvenanceDocuments(researched).filter((kind) => !lostBefore.includes(kind)),
+  };
+}
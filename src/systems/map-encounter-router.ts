@@ -1,7 +1,10 @@
 import { getRandomCarWithPreferences, type Car, type CarTier } from '@/data/car-database';
 import { getBaseLocationDefinitionById } from '@/data/location-database';
 import { calculateRivalInterest, getRivalByTierProgression, type Rival } from '@/data/rival-database';
+import { generateSeller, type Seller } from '@/data/seller-database';
 import type { SpecialEvent } from '@/systems/special-events-system';
+import { createAuctionDay, getLotRivalEntries, type AuctionDay } from '@/systems/auction-catalog';
+import { rng, type RandomFn } from '@/core/rng';
 
 export type AuctionRivalEntry = { rival: Rival; interest: number };
 
@@ -21,11 +24,16 @@ export function pickAttendingRivals(params: {
   playerPrestige: number;
   day: number;
   carTags: readonly string[];
+  /** The car's originality (defaults to untouched). */
+  carOriginality?: number;
   minAttendees?: number;
   maxAttendees?: number;
   candidateCount?: number;
   excludeIds?: readonly string[];
+  /** Random source for attendance rolls (defaults to the seeded 'encounters' stream). */
+  random?: RandomFn;
 }): AuctionRivalEntry[] {
+  const random = params.random ?? rng.stream('encounters');
   const minAttendees = Math.max(1, Math.floor(params.minAttendees ?? 2));
   const maxAttendees = Math.max(minAttendees, Math.floor(params.maxAttendees ?? 5));
   const candidateCount = Math.max(maxAttendees, Math.floor(params.candidateCount ?? 8));
@@ -38,7 +46,7 @@ export function pickAttendingRivals(params: {
       excludeIds: [...exclude],
     });
     exclude.add(rival.id);
-    const interest = calculateRivalInterest(rival, [...params.carTags]);
+    const interest = calculateRivalInterest(rival, [...params.carTags], params.carOriginality);
     candidates.push({ rival, interest });
   }
 
@@ -47,7 +55,7 @@ export function pickAttendingRivals(params: {
   for (const entry of candidates) {
     if (attending.length >= maxAttendees) break;
     const chance = rollAttendanceChanceFromInterest(entry.interest);
-    if (Math.random() < chance) attending.push(entry);
+    if (random() < chance) attending.push(entry);
   }
 
   // Ensure a minimum number of attendees by taking the highest-interest candidates.
@@ -71,27 +79,68 @@ export type RoutedEncounter =
   | {
       kind: 'auction';
       sceneKey: 'AuctionScene';
-      sceneData: { car: Car; rivals: AuctionRivalEntry[]; locationId: string };
+      sceneData: {
+        car: Car;
+        rivals: AuctionRivalEntry[];
+        locationId: string;
+        specialEvent?: SpecialEvent;
+        auctionDay?: AuctionDay;
+      };
+    }
+  | {
+      kind: 'negotiation';
+      sceneKey: 'NegotiationScene';
+      sceneData: { car: Car; seller: Seller; locationId: string; specialEvent?: SpecialEvent };
     };
 
+/** A routed solo encounter with a private seller. */
+export type RoutedNegotiation = Extract<RoutedEncounter, { kind: 'negotiation' }>;
+
 /**
- * Routes a regular map exploration into an auction encounter.
+ * Routes a regular map exploration into an encounter:
+ * an auction when a rival is present, otherwise a negotiation with a private seller.
+ * An auction with a catalog of several lots becomes an auction day: the rivals are picked once,
+ * for the whole catalog, and stay in the room from lot to lot.
  */
 export function routeRegularEncounter(params: {
   locationId: string;
   car: Car;
   playerPrestige: number;
   day?: number;
+  /** Whether a rival is at the location today (defaults to true). */
+  hasRival?: boolean;
+  /** The house's catalog for the day, lot 1 first (defaults to just the car). */
+  lots?: readonly Car[];
 }): RoutedEncounter {
   const { locationId, car, playerPrestige } = params;
   const day = Math.max(1, Math.floor(params.day ?? 1));
 
+  if (params.hasRival === false) {
+    return {
+      kind: 'negotiation',
+      sceneKey: 'NegotiationScene',
+      sceneData: { car, seller: generateSeller(), locationId },
+    };
+  }
+
+  const lots = params.lots && params.lots.length > 1 ? params.lots : null;
   const rivals = pickAttendingRivals({
     playerPrestige,
     day,
-    carTags: car.tags,
+    // A catalog draws rivals for any of its lots.
+    carTags: lots ? [...new Set(lots.flatMap((lot) => lot.tags))] : car.tags,
+    carOriginality: car.originality,
   });
 
+  if (lots) {
+    const auctionDay = createAuctionDay({ locationId, lots, rivals: rivals.map((entry) => entry.rival) });
+    return {
+      kind: 'auction',
+      sceneKey: 'AuctionScene',
+      sceneData: { car: lots[0], rivals: getLotRivalEntries(auctionDay), locationId, auctionDay },
+    };
+  }
+
   return {
     kind: 'auction',
     sceneKey: 'AuctionScene',
@@ -99,6 +148,38 @@ export function routeRegularEncounter(params: {
   };
 }
 
+/**
+ * Routes a special event into its encounter: an auction against rivals if the event sets an auction format
+ * (e.g. sealed-bid police auctions), otherwise a solo negotiation.
+ */
+export function routeSpecialEncounter(params: {
+  specialEvent: SpecialEvent;
+  car: Car;
+  playerPrestige: number;
+  day?: number;
+}): RoutedEncounter {
+  const { specialEvent, car, playerPrestige } = params;
+  if (specialEvent.auctionFormat) {
+    const rivals = pickAttendingRivals({
+      playerPrestige,
+      day: Math.max(1, Math.floor(params.day ?? 1)),
+      carTags: car.tags,
+      carOriginality: car.originality,
+    });
+    return {
+      kind: 'auction',
+      sceneKey: 'AuctionScene',
+      sceneData: { car, rivals, locationId: specialEvent.id, specialEvent },
+    };
+  }
+
+  return {
+    kind: 'negotiation',
+    sceneKey: 'NegotiationScene',
+    sceneData: { car, seller: generateSeller(), locationId: specialEvent.id, specialEvent },
+  };
+}
+
 /**
  * Builds the car reward for a special event by starting from a random car
  * and applying any event-specific tag guarantees and value multipliers.
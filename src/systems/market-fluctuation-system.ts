@@ -1,4 +1,5 @@
-import { GAME_CONFIG } from '@/config/game-config';
+import { getGameConfig } from '@/config/run-config';
+import { rng, shuffleInPlace } from '@/core/rng';
 
 /**
  * Market event types that can affect prices.
@@ -63,6 +64,15 @@ export class MarketFluctuationSystem {
     };
   }
 
+  /**
+   * Reset to a calm market (no active event).
+   * Called when starting a new game.
+   */
+  public reset(): void {
+    this.currentEvent = undefined;
+    this.lastEventDay = 0;
+  }
+
   /**
    * Advance to next day, potentially triggering new market events.
    */
@@ -105,6 +115,15 @@ export class MarketFluctuationSystem {
     return modifier;
   }
 
+  /**
+   * Price modifier for the parts market: booms make parts dearer and busts cheaper,
+   * damped by `parts.marketSensitivity`. Niche booms and seasons leave parts alone.
+   */
+  public getPartsPriceModifier(): number {
+    if (!this.currentEvent || this.currentEvent.type === 'nicheBoom') return 1.0;
+    return 1 + (this.currentEvent.modifier - 1) * getGameConfig().parts.marketSensitivity;
+  }
+
   /**
    * Get current market description for UI display.
    * @param gameDay - Current game day for seasonal calculations
@@ -159,7 +178,7 @@ export class MarketFluctuationSystem {
     // If no gameDay provided, we can't determine season (fallback to 'Spring')
     if (gameDay === undefined) return 'Spring';
 
-    const seasonalConfig = GAME_CONFIG.economy.market.seasonal;
+    const seasonalConfig = getGameConfig().economy.market.seasonal;
     
     // Normalize day to 1-365 cycle for seasonal calculations
     const normalizedDay = ((gameDay - 1) % 365) + 1;
@@ -185,7 +204,7 @@ export class MarketFluctuationSystem {
    * @param gameDay - Current game day for seasonal calculations
    */
   private getSeasonalModifier(carTags: readonly string[], gameDay?: number): number {
-    const seasonalConfigs = GAME_CONFIG.economy.market.seasonal;
+    const seasonalConfigs = getGameConfig().economy.market.seasonal;
     const seasonKey = this.getCurrentSeason(gameDay).toLowerCase();
     if (seasonKey !== 'winter' && seasonKey !== 'spring' && seasonKey !== 'summer' && seasonKey !== 'fall') {
       return 1.0;
@@ -220,8 +239,8 @@ export class MarketFluctuationSystem {
    */
   private tryTriggerEvent(): void {
     const events: Record<MarketEventType, { chance: number; duration: number; modifier: number; description: string }> =
-      GAME_CONFIG.economy.market.events;
-    const rand = Math.random();
+      getGameConfig().economy.market.events;
+    const rand = rng.next('market');
 
     let cumulativeChance = 0;
 
@@ -261,7 +280,8 @@ export class MarketFluctuationSystem {
   private getRandomTags(count: number): string[] {
     // This would ideally come from a central tag list, but for now we'll hardcode common tags
     const allTags = ['Sports', 'Muscle', 'JDM', 'Classic', 'Exotic', 'Convertible', 'Barn Find', 'Project Car'];
-    const shuffled = [...allTags].sort(() => Math.random() - 0.5);
+    const shuffled = [...allTags];
+    shuffleInPlace(rng.stream('market'), shuffled);
     return shuffled.slice(0, count);
   }
 
@@ -0,0 +1,193 @@
+import type { OwnedPart, PartListing, PartSource } from '@/core/game-types';
+import { PartsDatabase, type PartDefinition } from '@/data/parts-database';
+import { RivalDatabase } from '@/data/rival-database';
+import { getGameConfig } from '@/config/run-config';
+import { pickRandom, randomIdSuffix, randomInt, rng, shuffleInPlace, type RandomFn } from '@/core/rng';
+
+function rollStock(random: RandomFn): number {
+  const { min, max } = getGameConfig().parts.stockPerListing;
+  return min + randomInt(random, Math.max(1, max - min + 1));
+}
+
+function rollPrice(part: PartDefinition, sourceMultiplier: number, marketModifier: number, random: RandomFn): number {
+  const variance = getGameConfig().parts.priceVariance;
+  const swing = 1 + (random() * 2 - 1) * variance;
+  return Math.max(1, Math.round(part.basePrice * sourceMultiplier * marketModifier * swing));
+}
+
+function buildListing(
+  part: PartDefinition,
+  source: PartSource,
+  seller: string,
+  price: number,
+  deliveryDays: number,
+  random: RandomFn
+): PartListing {
+  return {
+    id: `part_${randomIdSuffix(random, 8)}`,
+    partId: part.id,
+    source,
+    seller,
+    price,
+    stock: rollStock(random),
+    deliveryDays,
+  };
+}
+
+/**
+ * Roll a day's parts market.
+ * - Scrapyard and specialists list each part they deal in with its rarity's stock chance.
+ *   Rare parts from the specialists are made to order and take `parts.rareDeliveryDays` to arrive.
+ * - A few rivals sell off random parts of any tier, delivered at once.
+ * @param marketModifier - Parts price modifier from the market (see MarketFluctuationSystem.getPartsPriceModifier)
+ * @param random - Random source (defaults to the seeded 'parts' stream)
+ */
+export function rollPartsMarket(marketModifier: number, random: RandomFn = rng.stream('parts')): PartListing[] {
+  const config = getGameConfig().parts;
+  const listings: PartListing[] = [];
+
+  for (const source of ['scrapyard', 'specialist'] as const) {
+    const sourceConfig = config.sources[source];
+    for (const part of PartsDatabase) {
+      if (!sourceConfig.tiers.some((tier) => tier === part.tier)) continue;
+      if (random() >= sourceConfig.stockChance[part.rarity]) continue;
+
+      const deliveryDays =
+        source === 'specialist' && part.rarity === 'rare'
+          ? config.rareDeliveryDays.min +
+            randomInt(random, Math.max(1, config.rareDeliveryDays.max - config.rareDeliveryDays.min + 1))
+          : 0;
+      const price = rollPrice(part, sourceConfig.priceMultiplier, marketModifier, random);
+      listings.push(buildListing(part, source, sourceConfig.name, price, deliveryDays, random));
+    }
+  }
+
+  const rivals = RivalDatabase.filter((rival) => rival.id !== 'scrapyard_joe');
+  shuffleInPlace(random, rivals);
+  for (const rival of rivals.slice(0, config.rivalSellOff.rivalsPerDay)) {
+    for (let i = 0; i < config.rivalSellOff.partsPerRival; i++) {
+      const part = pickRandom(random, PartsDatabase);
+      if (!part) continue;
+      const price = rollPrice(part, config.rivalSellOff.priceMultiplier, marketModifier, random);
+      listings.push(buildListing(part, 'rival', rival.name, price, 0, random));
+    }
+  }
+
+  return listings;
+}
+
+/**
+ * Cheapest listing still in stock for a part.
+ * @param options.deliveredToday - Skip listings that arrive on a later day
+ */
+export function findCheapestListing(
+  listings: readonly PartListing[],
+  partId: string,
+  options: { deliveredToday?: boolean } = {}
+): PartListing | undefined {
+  return listings
+    .filter((listing) => listing.partId === partId && listing.stock > 0)
+    .filter((listing) => !options.deliveredToday || listing.deliveryDays === 0)
+    .reduce<PartListing | undefined>((best, listing) => (!best || listing.price < best.price ? listing : best), undefined);
+}
+
+/**
+ * Pick the cheapest listings delivered today for a shopping list, one unit per entry
+ * (a listing is picked again only while it has stock left).
+ * @returns The listings to buy, in shopping-list order, and the parts nobody sells today
+ */
+export function planPartsPurchase(
+  listings: readonly PartListing[],
+  partIds: readonly string[]
+): { listings: PartListing[]; total: number; unavailable: string[] } {
+  const remaining = listings.map((listing) => ({ ...listing }));
+  const picked: PartListing[] = [];
+  const unavailable: string[] = [];
+  for (const partId of partIds) {
+    const listing = findCheapestListing(remaining, partId, { deliveredToday: true });
+    if (!listing) {
+      unavailable.push(partId);
+      continue;
+    }
+    listing.stock -= 1;
+    picked.push(listings.find((entry) => entry.id === listing.id) ?? listing);
+  }
+  return { listings: picked, total: picked.reduce((sum, listing) => sum + listing.price, 0), unavailable };
+}
+
+/** Owned parts that have arrived by `day`. */
+export function getPartsInStock(owned: readonly OwnedPart[], day: number): OwnedPart[] {
+  return owned.filter((part) => part.arrivesDay <= day);
+}
+
+/**
+ * Required part ids not covered by parts in stock (one unit per id listed).
+ */
+export function getMissingParts(owned: readonly OwnedPart[], required: readonly string[], day: number): string[] {
+  const available = getPartsInStock(owned, day).map((part) => part.partId);
+  const missing: string[] = [];
+  for (const partId of required) {
+    const index = available.indexOf(partId);
+    if (index === -1) {
+      missing.push(partId);
+    } else {
+      available.splice(index, 1);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Take the required parts out of stock, oldest first.
+ * @returns The parts taken and what is left, or null if something is missing
+ */
+export function takePartsFromStock(
+  owned: readonly OwnedPart[],
+  required: readonly string[],
+  day: number
+): { taken: OwnedPart[]; remaining: OwnedPart[] } | null {
+  const remaining = [...owned];
+  const taken: OwnedPart[] = [];
+  for (const partId of required) {
+    const index = remaining.findIndex((part) => part.partId === partId && part.arrivesDay <= day);
+    if (index === -1) return null;
+    taken.push(...remaining.splice(index, 1));
+  }
+  return { taken, remaining };
+}
+
+/**
+ * Originality a car loses when the parts are fitted to it (`originalityLoss` of each part's seller).
+ */
+export function getPartsOriginalityLoss(parts: readonly Pick<OwnedPart, 'source'>[]): number {
+  const config = getGameConfig().parts;
+  return parts.reduce(
+    (sum, part) =>
+      sum + (part.source === 'rival' ? config.rivalSellOff.originalityLoss : config.sources[part.source].originalityLoss),
+    0
+  );
+}
+
+/**
+ * What the required parts are expected to cost: in-stock parts at what was paid,
+ * the rest at today's cheapest listing (or the catalog price when nobody sells them).
+ */
+export function estimatePartsCost(
+  owned: readonly OwnedPart[],
+  listings: readonly PartListing[],
+  required: readonly string[],
+  day: number
+): number {
+  const inStock = getPartsInStock(owned, day);
+  let total = 0;
+  for (const partId of required) {
+    const index = inStock.findIndex((part) => part.partId === partId);
+    if (index !== -1) {
+      total += inStock.splice(index, 1)[0].price;
+      continue;
+    }
+    total +=
+      findCheapestListing(listings, partId)?.price ?? PartsDatabase.find((part) => part.id === partId)?.basePrice ?? 0;
+  }
+  return total;
+}
@@ -1,5 +1,5 @@
-import { Rival, BidDecision, getRivalBidDecision, getMoodModifiers } from '@/data/rival-database';
-import { GAME_CONFIG } from '@/config/game-config';
+import { Rival, BidDecision, getRivalBidDecision, getRivalMaxWillingBid, getMoodModifiers } from '@/data/rival-database';
+import { getGameConfig } from '@/config/run-config';
 
 /**
  * RivalAI - Manages rival behavior during auctions.
@@ -13,7 +13,10 @@ export class RivalAI {
   private currentBudget: number;
   private bidAggressiveness: number;
 
-  constructor(rival: Rival, carInterest: number) {
+  /**
+   * @param budget - Budget left from earlier lots of an auction day (defaults to the rival's mood-scaled budget)
+   */
+  constructor(rival: Rival, carInterest: number, budget?: number) {
     this.rival = { ...rival };
     this.carInterest = carInterest;
     
@@ -23,7 +26,8 @@ export class RivalAI {
       : { patienceMultiplier: 1, budgetMultiplier: 1, bidAggressiveness: 1, description: '' };
     
     this.currentPatience = Math.floor(rival.patience * moodModifiers.patienceMultiplier);
-    this.currentBudget = Math.floor(rival.budget * moodModifiers.budgetMultiplier);
+    this.currentBudget =
+      budget ?? Math.floor(rival.budget * moodModifiers.budgetMultiplier * getGameConfig().rivalAI.budgetMultiplier);
     this.bidAggressiveness = moodModifiers.bidAggressiveness;
   }
 
@@ -47,6 +51,15 @@ export class RivalAI {
     return decision;
   }
 
+  /**
+   * The most the rival considers the car worth, given their current budget.
+   * Used by formats without open bidding (sealed bids, the Dutch clock).
+   * @returns Highest price the rival would pay
+   */
+  public getMaxWillingBid(): number {
+    return getRivalMaxWillingBid({ ...this.rival, budget: this.currentBudget }, this.carInterest);
+  }
+
   /**
    * Update patience level based on strategy (called each turn).
    * Aggressive: -15, Passive: -5, Collector: -5 (high interest) or -10 (low interest)
@@ -55,17 +68,17 @@ export class RivalAI {
   private updatePatience(): void {
     switch (this.rival.strategy) {
       case 'Aggressive':
-        this.currentPatience -= GAME_CONFIG.rivalAI.patienceLossPerTurn.aggressive;
+        this.currentPatience -= getGameConfig().rivalAI.patienceLossPerTurn.aggressive;
         break;
       case 'Passive':
-        this.currentPatience -= GAME_CONFIG.rivalAI.patienceLossPerTurn.passive;
+        this.currentPatience -= getGameConfig().rivalAI.patienceLossPerTurn.passive;
         break;
       case 'Collector':
         // Collectors lose less patience for cars they want
         this.currentPatience -=
-          this.carInterest > GAME_CONFIG.rivalAI.collectorHighInterestThreshold
-            ? GAME_CONFIG.rivalAI.patienceLossPerTurn.collectorHighInterest
-            : GAME_CONFIG.rivalAI.patienceLossPerTurn.collectorLowInterest;
+          this.carInterest > getGameConfig().rivalAI.collectorHighInterestThreshold
+            ? getGameConfig().rivalAI.patienceLossPerTurn.collectorHighInterest
+            : getGameConfig().rivalAI.patienceLossPerTurn.collectorLowInterest;
         break;
     }
 
@@ -77,7 +90,7 @@ export class RivalAI {
    * Reduces patience by 20 points.
    */
   public onPlayerStall(): void {
-    this.currentPatience -= GAME_CONFIG.auction.stallPatiencePenalty;
+    this.currentPatience -= getGameConfig().auction.stallPatiencePenalty;
     this.currentPatience = Math.max(0, this.currentPatience);
   }
 
@@ -86,7 +99,7 @@ export class RivalAI {
    * Reduces patience by 20 points.
    */
   public onPlayerPowerBid(): void {
-    this.currentPatience -= GAME_CONFIG.auction.powerBidPatiencePenalty;
+    this.currentPatience -= getGameConfig().auction.powerBidPatiencePenalty;
     this.currentPatience = Math.max(0, this.currentPatience);
   }
 
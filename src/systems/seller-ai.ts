@@ -0,0 +1,265 @@
+import { getCarDefectLabel, getDiscoveredDefects, type Car } from '@/data/car-database';
+import { getSellerMoodModifiers, type Seller } from '@/data/seller-database';
+import { getGameConfig } from '@/config/run-config';
+import type { DeepReadonly } from '@/utils/types';
+
+/** Tongue-gated negotiation tactics (keys of `negotiation.tactics` in the config). */
+export type NegotiationTactic = 'smallTalk' | 'cashOnTheTable' | 'bluffWalkOut';
+
+/**
+ * A flaw the player can point out to argue the price down.
+ * Spotting it requires `requiredEyeLevel`.
+ */
+export interface NegotiationFlaw {
+  id: string;
+  label: string;
+  requiredEyeLevel: number;
+  /** Share of the estimate knocked off (defaults to `negotiation.flawDiscountMultiplier`). */
+  discountMultiplier?: number;
+}
+
+/**
+ * Seller reaction to an offer or tactic.
+ * - accept: deal at `price`
+ * - counter: seller names a new ask (`lowball` when the offer was below their walk-away price)
+ * - final: seller's last ask; any lower offer ends the negotiation
+ * - walk: seller ends the negotiation
+ */
+export type SellerResponse =
+  | { kind: 'accept'; price: number }
+  | { kind: 'counter'; ask: number; lowball: boolean }
+  | { kind: 'final'; ask: number }
+  | { kind: 'walk' };
+
+/**
+ * Flaws visible on a car, weakest Eye requirement first.
+ * Derived from condition and history so the same car always shows the same flaws.
+ * Defects discovered by an Inspect are included too: anyone can point them out,
+ * and they knock off as much as they cost the car in value.
+ */
+export function getNegotiationFlaws(car: DeepReadonly<Car>): NegotiationFlaw[] {
+  const defectKinds = getGameConfig().defects.kinds;
+  const flaws: NegotiationFlaw[] = getDiscoveredDefects(car).map((kind) => ({
+    id: `defect-${kind}`,
+    label: `${getCarDefectLabel(kind)} (found on inspection)`,
+    requiredEyeLevel: 1,
+    discountMultiplier: 1 - defectKinds[kind].valueMultiplier,
+  }));
+  if (car.condition < 70) flaws.push({ id: 'cosmetic-wear', label: 'Faded paint and worn trim', requiredEyeLevel: 1 });
+  if (car.condition < 50) flaws.push({ id: 'tired-suspension', label: 'Sagging, tired suspension', requiredEyeLevel: 2 });
+  if (car.history.includes('Rust')) flaws.push({ id: 'rust', label: 'Rust bubbling under the paint', requiredEyeLevel: 2 });
+  if (car.condition < 40) flaws.push({ id: 'oil-leak', label: 'Slow oil leak from the rear main seal', requiredEyeLevel: 3 });
+  if (car.history.includes('Flooded')) flaws.push({ id: 'flood-line', label: 'Silt line behind the door cards', requiredEyeLevel: 3 });
+  if (car.condition < 60) flaws.push({ id: 'non-original-parts', label: 'Non-original replacement parts', requiredEyeLevel: 4 });
+  return flaws.sort((a, b) => a.requiredEyeLevel - b.requiredEyeLevel);
+}
+
+function roundNegotiationPrice(value: number): number {
+  const step = Math.max(1, getGameConfig().negotiation.priceRounding);
+  return Math.ceil(value / step) * step;
+}
+
+/**
+ * Lowest offer a seller will discuss for a car with this market estimate.
+ * Map entry points use it to check the player can afford to negotiate at all.
+ */
+export function getMinimumNegotiationOffer(estimate: number): number {
+  return roundNegotiationPrice(Math.max(0, Math.floor(estimate)) * getGameConfig().negotiation.minOfferMultiplier);
+}
+
+/**
+ * SellerAI - Manages a private seller during a negotiation.
+ * Tracks the current ask, a hidden walk-away price and patience, and answers offers.
+ * Offers below the walk-away price are lowballs: the seller barely moves and loses extra patience.
+ */
+export class SellerAI {
+  private seller: Seller;
+  private estimate: number;
+  private ask: number;
+  private walkAwayPrice: number;
+  private minimumOffer: number;
+  private patience: number;
+  private maxPatience: number;
+  private concessionRate: number;
+  private finalOffer: boolean = false;
+  private walkedAway: boolean = false;
+  private usedTactics = new Set<NegotiationTactic>();
+  private pointedOutFlawIds = new Set<string>();
+
+  constructor(seller: Seller, estimate: number) {
+    const config = getGameConfig().negotiation;
+    const moodModifiers = getSellerMoodModifiers(seller.mood);
+
+    this.seller = { ...seller };
+    this.estimate = Math.max(0, Math.floor(estimate));
+    this.minimumOffer = getMinimumNegotiationOffer(this.estimate);
+    this.walkAwayPrice = Math.max(
+      this.minimumOffer,
+      roundNegotiationPrice(this.estimate * seller.walkAwayMultiplier * moodModifiers.walkAwayMultiplier)
+    );
+    this.ask = Math.max(this.walkAwayPrice, roundNegotiationPrice(this.estimate * seller.askingPriceMultiplier));
+    this.maxPatience = Math.floor(config.startingPatience * moodModifiers.patienceMultiplier);
+    this.patience = this.maxPatience;
+    this.concessionRate = config.concessionRate * moodModifiers.concessionMultiplier;
+  }
+
+  /**
+   * Answer a player offer.
+   * @param offer - Total price offered
+   */
+  public respondToOffer(offer: number): SellerResponse {
+    if (this.walkedAway) return { kind: 'walk' };
+
+    const config = getGameConfig().negotiation;
+    const amount = Math.floor(offer);
+    if (amount >= this.ask) return { kind: 'accept', price: this.ask };
+
+    if (this.finalOffer) {
+      this.walkedAway = true;
+      return { kind: 'walk' };
+    }
+
+    const lowball = amount < this.walkAwayPrice;
+    this.losePatience(config.patienceLossPerOffer + (lowball ? config.lowballPatiencePenalty : 0));
+
+    if (lowball) {
+      if (this.patience <= 0) {
+        this.walkedAway = true;
+        return { kind: 'walk' };
+      }
+      // Barely move for an offer below the walk-away price.
+      this.ask = this.clampAsk(this.ask - (this.ask - this.walkAwayPrice) * this.concessionRate * 0.5);
+      return { kind: 'counter', ask: this.ask, lowball: true };
+    }
+
+    const counter = this.clampAsk(this.ask - (this.ask - amount) * this.concessionRate);
+    if (counter - amount <= this.estimate * config.acceptGapMultiplier) {
+      return { kind: 'accept', price: amount };
+    }
+
+    this.ask = counter;
+    if (this.patience <= 0) {
+      this.finalOffer = true;
+      return { kind: 'final', ask: this.ask };
+    }
+    return { kind: 'counter', ask: this.ask, lowball: false };
+  }
+
+  /**
+   * Whether the player's Tongue level allows a tactic and it hasn't been used yet.
+   */
+  public canUseTactic(tactic: NegotiationTactic, tongueLevel: number): boolean {
+    if (this.walkedAway || this.finalOffer || this.usedTactics.has(tactic)) return false;
+    return tongueLevel >= getGameConfig().negotiation.tactics[tactic].requiredTongueLevel;
+  }
+
+  /**
+   * Apply a tactic (each one works once per negotiation).
+   * - smallTalk: restores patience
+   * - cashOnTheTable: lowers the walk-away price and ask
+   * - bluffWalkOut: drops the ask toward the walk-away price, but costs patience;
+   *   if patience runs out the seller calls the bluff and makes a final offer
+   */
+  public useTactic(tactic: NegotiationTactic): SellerResponse {
+    const tactics = getGameConfig().negotiation.tactics;
+    this.usedTactics.add(tactic);
+
+    switch (tactic) {
+      case 'smallTalk':
+        this.patience = Math.min(this.maxPatience, this.patience + tactics.smallTalk.patienceGain);
+        break;
+      case 'cashOnTheTable': {
+        const reduction = this.estimate * tactics.cashOnTheTable.walkAwayReduction;
+        this.lowerPrices(reduction);
+        break;
+      }
+      case 'bluffWalkOut':
+        this.losePatience(tactics.bluffWalkOut.patiencePenalty);
+        if (this.patience <= 0) {
+          this.finalOffer = true;
+          return { kind: 'final', ask: this.ask };
+        }
+        this.ask = this.clampAsk(this.ask - (this.ask - this.walkAwayPrice) * tactics.bluffWalkOut.askReduction);
+        break;
+    }
+
+    return { kind: 'counter', ask: this.ask, lowball: false };
+  }
+
+  /**
+   * Whether the player can point out this flaw (Eye level high enough, not already used).
+   */
+  public canPointOutFlaw(flaw: NegotiationFlaw, eyeLevel: number): boolean {
+    if (this.walkedAway || this.finalOffer || this.pointedOutFlawIds.has(flaw.id)) return false;
+    return eyeLevel >= flaw.requiredEyeLevel;
+  }
+
+  /**
+   * Point out a flaw: the ask and walk-away price both drop.
+   * @returns The new ask
+   */
+  public pointOutFlaw(flaw: NegotiationFlaw): number {
+    this.pointedOutFlawIds.add(flaw.id);
+    this.lowerPrices(this.estimate * (flaw.discountMultiplier ?? getGameConfig().negotiation.flawDiscountMultiplier));
+    return this.ask;
+  }
+
+  /** Player accepts the current ask. */
+  public acceptAsk(): number {
+    return this.ask;
+  }
+
+  public getSeller(): Seller {
+    return this.seller;
+  }
+
+  public getAsk(): number {
+    return this.ask;
+  }
+
+  /** Lowest offer the seller will even discuss. */
+  public getMinimumOffer(): number {
+    return this.minimumOffer;
+  }
+
+  /**
+   * Get current patience level.
+   * @returns Current patience (0 to the mood-adjusted maximum)
+   */
+  public getPatience(): number {
+    return this.patience;
+  }
+
+  public getMaxPatience(): number {
+    return this.maxPatience;
+  }
+
+  public isFinalOffer(): boolean {
+    return this.finalOffer;
+  }
+
+  public hasWalkedAway(): boolean {
+    return this.walkedAway;
+  }
+
+  public hasPointedOutFlaw(flawId: string): boolean {
+    return this.pointedOutFlawIds.has(flawId);
+  }
+
+  public hasUsedTactic(tactic: NegotiationTactic): boolean {
+    return this.usedTactics.has(tactic);
+  }
+
+  private lowerPrices(amount: number): void {
+    this.walkAwayPrice = Math.max(this.minimumOffer, roundNegotiationPrice(this.walkAwayPrice - amount));
+    this.ask = this.clampAsk(this.ask - amount);
+  }
+
+  private losePatience(amount: number): void {
+    this.patience = Math.max(0, this.patience - amount);
+  }
+
+  private clampAsk(value: number): number {
+    return Math.min(this.ask, Math.max(this.walkAwayPrice, roundNegotiationPrice(value)));
+  }
+}
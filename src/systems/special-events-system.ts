@@ -1,3 +1,6 @@
+import { randomIdSuffix, rng } from '@/core/rng';
+import type { AuctionFormat } from '@/data/location-database';
+
 /**
  * Special event types that can occur on the map.
  */
@@ -23,6 +26,8 @@ export interface SpecialEvent {
     guaranteedTags?: string[];
   };
   expiresInDays: number;
+  /** If set, the event is an auction against rivals in this format instead of a private sale. */
+  auctionFormat?: AuctionFormat;
 }
 
 /**
@@ -72,6 +77,15 @@ export class SpecialEventsSystem {
     };
   }
 
+  /**
+   * Clear all active events.
+   * Called when starting a new game.
+   */
+  public reset(): void {
+    this.activeEvents = [];
+    this.lastEventDay = 0;
+  }
+
   /**
    * Advance to next day, potentially generating new events and expiring old ones.
    */
@@ -84,7 +98,7 @@ export class SpecialEventsSystem {
 
     // Potentially generate new events (with increased frequency for better engagement)
     if (currentDay - this.lastEventDay >= 2) { // Reduced from 3 to 2 days for more frequent events
-      const generated = this.tryGenerateEvent();
+      const generated = this.tryGenerateEvent(currentDay);
       if (generated) {
         this.lastEventDay = currentDay;
       }
@@ -115,11 +129,11 @@ export class SpecialEventsSystem {
   /**
    * Try to generate a random special event.
    */
-  private tryGenerateEvent(): boolean {
+  private tryGenerateEvent(currentDay: number): boolean {
     // 30% chance to generate an event (increased from 25% for more engaging gameplay)
-    if (Math.random() < 0.30) {
+    if (rng.next('events') < 0.30) {
       const eventType = this.getRandomEventType();
-      const event = this.createEvent(eventType);
+      const event = this.createEvent(eventType, currentDay);
       this.activeEvents.push(event);
       return true;
     }
@@ -139,7 +153,7 @@ export class SpecialEventsSystem {
     ];
 
     const totalWeight = events.reduce((sum, event) => sum + event.weight, 0);
-    let random = Math.random() * totalWeight;
+    let random = rng.next('events') * totalWeight;
 
     for (const event of events) {
       random -= event.weight;
@@ -154,8 +168,9 @@ export class SpecialEventsSystem {
   /**
    * Create a special event of the given type.
    */
-  private createEvent(type: SpecialEventType): SpecialEvent {
-    const baseId = `special_${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private createEvent(type: SpecialEventType, currentDay: number): SpecialEvent {
+    const random = rng.stream('events');
+    const baseId = `special_${type}_${currentDay}_${randomIdSuffix(random, 9)}`;
 
     switch (type) {
       case 'policeAuction':
@@ -163,9 +178,9 @@ export class SpecialEventsSystem {
           id: baseId,
           type,
           name: 'Police Impound Auction',
-          description: 'Seized vehicles from recent busts. High risk, high reward.',
-          x: 200 + Math.random() * 400, // Random position
-          y: 150 + Math.random() * 200,
+          description: 'Seized vehicles from recent busts, sold by sealed bid. High risk, high reward.',
+          x: 200 + random() * 400, // Random position
+          y: 150 + random() * 200,
           color: 0x000080, // Dark blue
           timeCost: 3,
           reward: {
@@ -174,6 +189,7 @@ export class SpecialEventsSystem {
             guaranteedTags: ['Barn Find', 'Project Car'],
           },
           expiresInDays: 2,
+          auctionFormat: 'sealed',
         };
 
       case 'barnFind':
@@ -182,8 +198,8 @@ export class SpecialEventsSystem {
           type,
           name: 'Abandoned Barn Discovery',
           description: 'Local farmer found vintage cars in an old barn. Rare finds!',
-          x: 150 + Math.random() * 500,
-          y: 200 + Math.random() * 150,
+          x: 150 + random() * 500,
+          y: 200 + random() * 150,
           color: 0x8b4513, // Brown
           timeCost: 2,
           reward: {
@@ -200,8 +216,8 @@ export class SpecialEventsSystem {
           type,
           name: 'VIP Collector Showcase',
           description: 'Exclusive event for serious collectors. Premium vehicles only.',
-          x: 300 + Math.random() * 300,
-          y: 100 + Math.random() * 250,
+          x: 300 + random() * 300,
+          y: 100 + random() * 250,
           color: 0xffd700, // Gold
           timeCost: 4,
           reward: {
@@ -218,8 +234,8 @@ export class SpecialEventsSystem {
           type,
           name: 'Dealer Liquidation Sale',
           description: 'Overstock clearance! Great deals on quality vehicles.',
-          x: 250 + Math.random() * 400,
-          y: 180 + Math.random() * 170,
+          x: 250 + random() * 400,
+          y: 180 + random() * 170,
           color: 0x228b22, // Forest green
           timeCost: 1,
           reward: {
@@ -1,4 +1,4 @@
-import type { Car } from '@/data/car-database';
+import { formatCarOriginality, getCarOriginality, isMatchingNumbers, type Car } from '@/data/car-database';
 import { getCarImageUrlOrPlaceholder } from '@/assets/car-images';
 import { createDiv, createGameHeading, createGamePanel, createImg } from './ui-elements';
 import { isPixelUIEnabled } from './ui-style';
@@ -22,6 +22,8 @@ export type CarCardBaseOptions = {
   titleStyle?: Partial<CSSStyleDeclaration>;
   /** Hide the image entirely. */
   showImage?: boolean;
+  /** Hide the originality line under the title. */
+  showOriginality?: boolean;
 };
 
 export type CarCardPreset = 'standard' | 'collection' | 'infoPanel';
@@ -162,6 +164,17 @@ export function createCarCardBase(car: Car, options?: CarCardBaseOptions): CarCa
   });
   panel.appendChild(title);
 
+  if (options?.showOriginality !== false) {
+    const originality = createDiv('car-card-originality');
+    originality.textContent = `🏷 ${formatCarOriginality(car)}`;
+    if (isMatchingNumbers(car)) {
+      originality.classList.add('is-matching');
+    } else if (getCarOriginality(car) < 70) {
+      originality.classList.add('is-low');
+    }
+    panel.appendChild(originality);
+  }
+
   const body = createDiv('');
   Object.assign(body.style, {
     display: 'flex',
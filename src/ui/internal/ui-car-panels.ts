@@ -1,4 +1,4 @@
-import type { Car } from '@/data/car-database';
+import { formatCarComponents, type Car } from '@/data/car-database';
 import { formatCurrency } from '@/utils/format';
 import { createGameText } from './ui-elements';
 import { createCarCardPreset } from './ui-car-card';
@@ -43,6 +43,12 @@ export function createCarInfoPanel(car: Car, options?: CarInfoPanelOptions): HTM
     body.appendChild(infoText);
   }
 
+  if (options?.showCondition !== false) {
+    const componentsText = createGameText(formatCarComponents(car));
+    componentsText.classList.add('car-info-components');
+    body.appendChild(componentsText);
+  }
+
   if (options?.showTags !== false && car.tags && car.tags.length > 0) {
     const tagsText = createGameText(`Tags: ${car.tags.join(', ')}`);
     tagsText.classList.add('car-info-tags');
@@ -1,6 +1,6 @@
 /**
  * @internal
- * Shared DOM builders for "encounter" style UIs (Auctions):
+ * Shared DOM builders for "encounter" style UIs (Auctions, Negotiations):
  * - Centered responsive layout scaffold
  * - Sticky log panel with prefix-only coloring
  */
@@ -0,0 +1,48 @@
+/**
+ * Trigger a browser download of text content.
+ * @internal Used by UIManager.
+ */
+export function downloadTextFile(filename: string, contents: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before revoking.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Open the native file picker and read the chosen file as text.
+ * Resolves null if the picker is dismissed or the file cannot be read.
+ * @internal Used by UIManager.
+ */
+export function pickTextFile(accept: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.style.display = 'none';
+
+    const finish = (value: string | null): void => {
+      input.remove();
+      resolve(value);
+    };
+
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        finish(null);
+        return;
+      }
+      file.text().then(finish, () => finish(null));
+    });
+    input.addEventListener('cancel', () => finish(null));
+
+    document.body.appendChild(input);
+    input.click();
+  });
+}
@@ -121,6 +121,88 @@ export class ModalManager {
     ]);
   }
 
+  public showTextPrompt(
+    title: string,
+    message: string,
+    onSubmit: (value: string) => void,
+    options?: {
+      initialValue?: string;
+      placeholder?: string;
+      maxLength?: number;
+      confirmText?: string;
+      onCancel?: () => void;
+    }
+  ): HTMLDivElement {
+    const backdrop = this.deps.createDiv('game-modal-backdrop');
+
+    attachModalEventBlocker(backdrop);
+
+    const modal = this.deps.createDiv('game-modal');
+
+    const heading = this.deps.createHeading(title, 2, {
+      textAlign: 'center',
+      marginBottom: '20px',
+      flexShrink: '0',
+    });
+
+    const contentContainer = this.deps.createDiv('game-modal__content');
+    if (message) {
+      contentContainer.appendChild(this.deps.createText(message, { fontSize: '16px' }));
+    }
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'game-modal__input';
+    input.value = options?.initialValue ?? '';
+    input.placeholder = options?.placeholder ?? '';
+    if (options?.maxLength) {
+      input.maxLength = options.maxLength;
+    }
+    contentContainer.appendChild(input);
+
+    const close = (): void => {
+      this.deps.remove(modal);
+      this.deps.remove(backdrop);
+    };
+    const submit = (): void => {
+      close();
+      onSubmit(input.value);
+    };
+
+    // Keep keystrokes away from Phaser's keyboard handling while typing.
+    input.addEventListener('keydown', (event) => {
+      event.stopPropagation();
+      if (event.key === 'Enter') submit();
+      if (event.key === 'Escape') {
+        close();
+        options?.onCancel?.();
+      }
+    });
+
+    const buttonContainer = this.deps.createDiv('game-modal__buttons');
+    buttonContainer.appendChild(
+      this.deps.createButton(options?.confirmText ?? 'OK', submit, { variant: 'success' })
+    );
+    buttonContainer.appendChild(
+      this.deps.createButton('Cancel', () => {
+        close();
+        options?.onCancel?.();
+      })
+    );
+
+    modal.appendChild(heading);
+    modal.appendChild(contentContainer);
+    modal.appendChild(buttonContainer);
+
+    this.deps.append(backdrop);
+    this.deps.append(modal);
+
+    input.focus();
+    input.select();
+
+    return modal;
+  }
+
   public showRestorationModal(
     carName: string,
     currentCondition: number,
@@ -7,6 +7,7 @@ import { TutorialUI } from '@/ui/internal/ui-tutorial';
 import { TutorialHighlighter } from '@/ui/internal/ui-tutorial-highlight';
 import { createCarInfoPanel as createCarInfoPanelInternal } from '@/ui/internal/ui-car-panels';
 import { clearOverlayPreserving } from '@/ui/internal/ui-overlay';
+import { downloadTextFile, pickTextFile } from '@/ui/internal/ui-files';
 import {
   createDiv,
   createGameButton,
@@ -437,6 +438,8 @@ export class UIManager {
       | {
           context: 'map';
           openingBid: number;
+          /** The house's entry fee, charged on top of the opening bid (omit if free). */
+          entryFee?: number;
           playerMoney: number;
           isTutorialActive: boolean;
           bidIncrement: number;
@@ -456,7 +459,9 @@ export class UIManager {
       if (!options.isTutorialActive) {
         this.showInfo(
           'Not Enough Money',
-          `You can't afford the opening bid for this auction.\n\nOpening bid: ${formatCurrency(options.openingBid)}\nYour money: ${formatCurrency(options.playerMoney)}`
+          `You can't afford the opening bid for this auction.\n\nOpening bid: ${formatCurrency(options.openingBid)}` +
+            (options.entryFee ? `\nEntry fee: ${formatCurrency(options.entryFee)}` : '') +
+            `\nYour money: ${formatCurrency(options.playerMoney)}`
         );
         return;
       }
@@ -647,6 +652,48 @@ Tip: Visit the Garage to sell something, then come back.`,
     this.modalManager.confirmAction(title, message, onConfirm, onCancel, options);
   }
 
+  /**
+   * Show a modal with a single-line text input (e.g. naming a save slot).
+   * Enter submits, Escape cancels.
+   * @param title - Modal title
+   * @param message - Optional prompt text above the input
+   * @param onSubmit - Callback with the raw input value when confirmed
+   * @param options - Optional initial value, placeholder, max length, confirm label, and cancel callback
+   */
+  public showTextPrompt(
+    title: string,
+    message: string,
+    onSubmit: (value: string) => void,
+    options?: {
+      initialValue?: string;
+      placeholder?: string;
+      maxLength?: number;
+      confirmText?: string;
+      onCancel?: () => void;
+    }
+  ): HTMLDivElement {
+    return this.modalManager.showTextPrompt(title, message, onSubmit, options);
+  }
+
+  /**
+   * Offer text content to the player as a file download.
+   * @param filename - Suggested file name
+   * @param contents - File contents
+   * @param mimeType - MIME type (default: application/json)
+   */
+  public downloadTextFile(filename: string, contents: string, mimeType: string = 'application/json'): void {
+    downloadTextFile(filename, contents, mimeType);
+  }
+
+  /**
+   * Let the player choose a local file and read it as text.
+   * @param accept - File input accept filter (default: JSON files)
+   * @returns File contents, or null if cancelled/unreadable
+   */
+  public pickTextFile(accept: string = '.json,application/json'): Promise<string | null> {
+    return pickTextFile(accept);
+  }
+
   /**
    * Show a tutorial dialogue with character portrait.
    * Tutorial dialogues are styled differently and positioned at the bottom
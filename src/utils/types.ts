@@ -14,6 +14,25 @@ export type DeepReadonly<T> =
   T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> } :
   T;
 
+/**
+ * Widen number/boolean literal types (e.g. from `as const` config) so other values can be assigned.
+ * String literals are kept, so string unions like AutosavePolicy survive.
+ */
+export type DeepWiden<T> =
+  T extends number ? number :
+  T extends boolean ? boolean :
+  T extends Primitive ? T :
+  T extends ReadonlyArray<infer R> ? ReadonlyArray<DeepWiden<R>> :
+  T extends object ? { readonly [K in keyof T]: DeepWiden<T[K]> } :
+  T;
+
+/** Every property optional, recursively. Arrays are replaced whole, not merged. */
+export type DeepPartial<T> =
+  T extends Primitive ? T :
+  T extends ReadonlyArray<unknown> ? T :
+  T extends object ? { readonly [K in keyof T]?: DeepPartial<T[K]> } :
+  T;
+
 export function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }